@@ -5,6 +5,7 @@
 // This file is derived from the Cesium code base under Apache 2 license
 // See LICENSE.md and https://github.com/AnalyticalGraphicsInc/cesium/blob/master/LICENSE.md
 
+import {UnsupportedVersionError} from '@loaders.gl/loader-utils';
 import {Tiles3DTileContent} from '../../../types';
 
 const SIZEOF_UINT32 = 4;
@@ -22,6 +23,7 @@ export function parse3DTileHeaderSync(
   byteOffset: number = 0
 ) {
   const view = new DataView(arrayBuffer);
+  const headerByteOffset = byteOffset;
 
   tile.magic = view.getUint32(byteOffset, true);
   byteOffset += SIZEOF_UINT32;
@@ -34,7 +36,9 @@ export function parse3DTileHeaderSync(
 
   // TODO - move version check into each tile parser?
   if (tile.version !== 1) {
-    throw new Error(`3D Tile Version ${tile.version} not supported`);
+    throw new UnsupportedVersionError(`3D Tile Version ${tile.version} not supported`, {
+      byteOffset: headerByteOffset + SIZEOF_UINT32
+    });
   }
 
   return byteOffset; // Indicates where the parsing ended
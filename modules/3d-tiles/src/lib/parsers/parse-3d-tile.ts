@@ -13,7 +13,7 @@ import {parseBatchedModel3DTile} from './parse-3d-tile-batched-model';
 import {parseInstancedModel3DTile} from './parse-3d-tile-instanced-model';
 import {parseComposite3DTile} from './parse-3d-tile-composite';
 import {parseGltf3DTile} from './parse-3d-tile-gltf';
-import {LoaderContext} from '@loaders.gl/loader-utils';
+import {LoaderContext, UnsupportedFormatError} from '@loaders.gl/loader-utils';
 import {Tiles3DLoaderOptions} from '../../tiles-3d-loader';
 import {Tiles3DTileContent} from '../../types';
 
@@ -53,6 +53,6 @@ export async function parse3DTile(
       return await parsePointCloud3DTile(tile, arrayBuffer, byteOffset, options, context);
 
     default:
-      throw new Error(`3DTileLoader: unknown type ${tile.type}`); // eslint-disable-line
+      throw new UnsupportedFormatError(`3DTileLoader: unknown type ${tile.type}`, {byteOffset});
   }
 }
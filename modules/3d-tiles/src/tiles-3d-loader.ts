@@ -43,6 +43,7 @@ export const Tiles3DLoader = {
   extensions: ['cmpt', 'pnts', 'b3dm', 'i3dm'],
   mimeTypes: ['application/octet-stream'],
   tests: ['cmpt', 'pnts', 'b3dm', 'i3dm'],
+  sniff: sniffTileset,
   parse,
   options: {
     '3d-tiles': {
@@ -58,6 +59,12 @@ export const Tiles3DLoader = {
   Tiles3DLoaderOptions
 >;
 
+/** Tilesets are served as `.json`, look for the required `asset` and `geometricError` properties */
+function sniffTileset(arrayBuffer: ArrayBuffer): number {
+  const text = new TextDecoder().decode(arrayBuffer);
+  return /"asset"\s*:/.test(text) && /"geometricError"\s*:/.test(text) ? 0.9 : 0;
+}
+
 /** Parses a tileset or tile */
 async function parse(
   data,
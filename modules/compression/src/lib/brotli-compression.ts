@@ -18,6 +18,7 @@ import type brotliNamespace from 'brotli';
 // import brotli from 'brotli';  // https://bundlephobia.com/package/brotli
 import {BrotliDecode} from '../brotli/decode';
 import zlib from 'zlib';
+import {transformBatchesWithZlib} from './utils/zlib-stream-utils';
 
 export type BrotliCompressionOptions = CompressionOptions & {
   brotli?: {
@@ -114,4 +115,44 @@ export class BrotliCompression extends Compression {
     const outputArray = BrotliDecode(inputArray, undefined);
     return outputArray.buffer;
   }
+
+  /**
+   * Compress batches
+   * @note Streams through built-in zlib on Node.js. Throws in browsers rather than holding
+   * all batches in memory, as the `brotli` module only compresses complete buffers.
+   */
+  async *compressBatches(
+    asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+  ): AsyncIterable<ArrayBuffer> {
+    this.checkStreaming();
+    const brotliOptions = {...DEFAULT_BROTLI_OPTIONS.brotli, ...this.options?.brotli};
+    const transform = zlib.createBrotliCompress({
+      params: {
+        [zlib.constants.BROTLI_PARAM_MODE]: brotliOptions.mode,
+        [zlib.constants.BROTLI_PARAM_QUALITY]: brotliOptions.quality,
+        [zlib.constants.BROTLI_PARAM_LGWIN]: brotliOptions.lgwin
+      }
+    });
+    yield* transformBatchesWithZlib(transform, asyncIterator);
+  }
+
+  /**
+   * Decompress batches
+   * @note Streams through built-in zlib on Node.js. Throws in browsers rather than holding
+   * all batches in memory, as neither the bundled decoder nor the `brotli` module can decode partial input.
+   */
+  async *decompressBatches(
+    asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+  ): AsyncIterable<ArrayBuffer> {
+    this.checkStreaming();
+    yield* transformBatchesWithZlib(zlib.createBrotliDecompress(), asyncIterator);
+  }
+
+  private checkStreaming(): void {
+    if (isBrowser) {
+      throw new Error(
+        `${this.name}: batches can only be streamed on Node.js, use compress() or decompress()`
+      );
+    }
+  }
 }
@@ -17,6 +17,8 @@ export abstract class Compression {
   abstract readonly extensions: string[];
   abstract readonly contentEncodings: string[];
   abstract readonly isSupported: boolean;
+  /** Initial bytes of compressed data, for formats that have a fixed signature */
+  readonly signature?: number[];
 
   constructor(options?: CompressionOptions) {
     this.compressBatches = this.compressBatches.bind(this);
@@ -51,20 +53,26 @@ export abstract class Compression {
     throw new Error(`${this.name}: sync decompression not supported`);
   }
 
-  /** Compress batches */
+  /**
+   * Compress batches
+   * @note Subclasses that support incremental compression override this method.
+   * The default implementation concatenates all batches before compressing.
+   */
   async *compressBatches(
     asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
   ): AsyncIterable<ArrayBuffer> {
-    // TODO - implement incremental compression
     const input = await this.concatenate(asyncIterator);
     yield this.compress(input);
   }
 
-  /** Decompress batches */
+  /**
+   * Decompress batches
+   * @note Subclasses that support incremental decompression override this method.
+   * The default implementation concatenates all batches before decompressing.
+   */
   async *decompressBatches(
     asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
   ): AsyncIterable<ArrayBuffer> {
-    // TODO - implement incremental compression
     const input = await this.concatenate(asyncIterator);
     yield this.decompress(input);
   }
@@ -8,6 +8,7 @@ import {Compression} from './compression';
 import {isBrowser, toArrayBuffer, promisify1} from '@loaders.gl/loader-utils';
 import pako from 'pako'; // https://bundlephobia.com/package/pako
 import zlib from 'zlib';
+import {transformBatchesWithZlib} from './utils/zlib-stream-utils';
 
 export type DeflateCompressionOptions = CompressionOptions & {
   deflate?: pako.InflateOptions & pako.DeflateOptions & {useZlib?: boolean};
@@ -26,8 +27,6 @@ export class DeflateCompression extends Compression {
 
   readonly options: DeflateCompressionOptions;
 
-  private _chunks: ArrayBuffer[] = [];
-
   constructor(options: DeflateCompressionOptions = {}) {
     super(options);
     this.options = options;
@@ -82,7 +81,13 @@ export class DeflateCompression extends Compression {
   async *compressBatches(
     asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
   ): AsyncIterable<ArrayBuffer> {
-    const pakoOptions: pako.DeflateOptions = this.options?.deflate || {};
+    // On Node.js we can use built-in zlib
+    if (!isBrowser && this.options.deflate?.useZlib) {
+      const transform = this.options.deflate?.gzip ? zlib.createGzip() : zlib.createDeflate();
+      yield* transformBatchesWithZlib(transform, asyncIterator);
+      return;
+    }
+    const pakoOptions: pako.DeflateOptions = {raw: this.options?.raw, ...this.options?.deflate};
     const pakoProcessor = new pako.Deflate(pakoOptions);
     yield* this.transformBatches(pakoProcessor, asyncIterator);
   }
@@ -90,55 +95,45 @@ export class DeflateCompression extends Compression {
   async *decompressBatches(
     asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
   ): AsyncIterable<ArrayBuffer> {
-    const pakoOptions: pako.InflateOptions = this.options?.deflate || {};
+    // On Node.js we can use built-in zlib
+    if (!isBrowser && this.options.deflate?.useZlib) {
+      const transform = this.options.deflate?.gzip ? zlib.createGunzip() : zlib.createInflate();
+      yield* transformBatchesWithZlib(transform, asyncIterator);
+      return;
+    }
+    const pakoOptions: pako.InflateOptions = {raw: this.options?.raw, ...this.options?.deflate};
     const pakoProcessor = new pako.Inflate(pakoOptions);
     yield* this.transformBatches(pakoProcessor, asyncIterator);
   }
 
+  /** Pushes each batch through pako, and yields any output as soon as it is available */
   async *transformBatches(
     pakoProcessor: pako.Inflate | pako.Deflate,
     asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
   ): AsyncIterable<ArrayBuffer> {
-    pakoProcessor.onData = this._onData.bind(this);
-    pakoProcessor.onEnd = this._onEnd.bind(this);
-    for await (const chunk of asyncIterator) {
-      const uint8Array = new Uint8Array(chunk);
-      const ok = pakoProcessor.push(uint8Array, false); // false -> not last chunk
+    // Output is collected per call, so that a compression instance can process several streams
+    let chunks: ArrayBuffer[] = [];
+    pakoProcessor.onData = (chunk: Uint8Array) => chunks.push(toArrayBuffer(chunk));
+
+    for await (const batch of asyncIterator) {
+      const ok = pakoProcessor.push(new Uint8Array(batch), false); // false -> not last chunk
       if (!ok) {
-        throw new Error(`${this._getError()}write`);
+        throw new Error(
+          this._getError(pakoProcessor.err) || `${this.name}: data after end of stream`
+        );
       }
-      const chunks = this._getChunks();
       yield* chunks;
+      chunks = [];
     }
 
-    // End
-    const emptyChunk = new Uint8Array(0);
-    const ok = pakoProcessor.push(emptyChunk, true); // true -> last chunk
-    if (!ok) {
-      // For some reason we get error but it still works???
-      // throw new Error(this._getError() + 'end');
+    // End. Note: pako ends inflation (and rejects further pushes) as soon as it sees the end of the stream
+    pakoProcessor.push(new Uint8Array(0), true); // true -> last chunk
+    if (pakoProcessor.err) {
+      throw new Error(this._getError(pakoProcessor.err));
     }
-    const chunks = this._getChunks();
     yield* chunks;
   }
 
-  _onData(chunk) {
-    this._chunks.push(chunk);
-  }
-
-  _onEnd(status) {
-    if (status !== 0) {
-      throw new Error(this._getError(status) + this._chunks.length);
-    }
-  }
-
-  _getChunks(): ArrayBuffer[] {
-    const chunks = this._chunks;
-    this._chunks = [];
-    return chunks;
-  }
-
-  // TODO - For some reason we don't get the error message from pako in _onEnd?
   _getError(code: number = 0): string {
     const MESSAGES = {
       /* Z_NEED_DICT       2  */
@@ -160,6 +155,6 @@ export class DeflateCompression extends Compression {
       /* Z_VERSION_ERROR (-6) */
       '-6': 'incompatible version'
     };
-    return `${this.name}: ${MESSAGES[code]}`;
+    return code ? `${this.name}: ${MESSAGES[code]}` : '';
   }
 }
@@ -9,7 +9,7 @@ import {DeflateCompression} from './deflate-compression';
 import pako from 'pako'; // https://bundlephobia.com/package/pako
 
 export type GZipCompressionOptions = CompressionOptions & {
-  gzip?: pako.InflateOptions & pako.DeflateOptions;
+  gzip?: pako.InflateOptions & pako.DeflateOptions & {useZlib?: boolean};
 };
 
 /**
@@ -19,6 +19,7 @@ export class GZipCompression extends DeflateCompression {
   readonly name: string = 'gzip';
   readonly extensions = ['gz', 'gzip'];
   readonly contentEncodings = ['gzip', 'x-gzip'];
+  readonly signature = [0x1f, 0x8b];
   readonly isSupported = true;
 
   constructor(options?: GZipCompressionOptions) {
@@ -30,6 +30,7 @@
 import {toArrayBuffer, registerJSModules, getJSModule} from '@loaders.gl/loader-utils';
 import type {CompressionOptions} from './compression';
 import {Compression} from './compression';
+import {compressLZ4FrameBatches, decompressLZ4FrameBatches} from './utils/lz4-frame-utils';
 
 // import lz4js from 'lz4js'; // https://bundlephobia.com/package/lz4
 const LZ4_MAGIC_NUMBER = 0x184d2204;
@@ -41,6 +42,7 @@ export class LZ4Compression extends Compression {
   readonly name: string = 'lz4';
   readonly extensions = ['lz4'];
   readonly contentEncodings = ['x-lz4'];
+  readonly signature = [0x04, 0x22, 0x4d, 0x18];
   readonly isSupported = true;
   readonly options: CompressionOptions;
 
@@ -61,6 +63,26 @@ export class LZ4Compression extends Compression {
     return lz4js.compress(inputArray).buffer;
   }
 
+  /** Compress batches into an LZ4 frame with independent 64KB blocks */
+  async *compressBatches(
+    asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+  ): AsyncIterable<ArrayBuffer> {
+    const lz4js = getJSModule('lz4js', this.name);
+    yield* compressLZ4FrameBatches(asyncIterator, lz4js);
+  }
+
+  /** Decompress batches containing one or more LZ4 frames, block by block */
+  async *decompressBatches(
+    asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+  ): AsyncIterable<ArrayBuffer> {
+    const lz4js = getJSModule('lz4js', this.name);
+    try {
+      yield* decompressLZ4FrameBatches(asyncIterator, lz4js);
+    } catch (error) {
+      throw this.improveError(error);
+    }
+  }
+
   /**
    * Decompresses an ArrayBuffer containing an Lz4 frame. maxSize is optional; if not
    * provided, a maximum size will be determined by examining the data. The
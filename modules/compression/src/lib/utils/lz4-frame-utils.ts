@@ -0,0 +1,259 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// LZ4 frame format: https://github.com/lz4/lz4/blob/dev/doc/lz4_Frame_format.md
+
+const LZ4_MAGIC_NUMBER = 0x184d2204;
+const SKIPPABLE_FRAME_MAGIC_NUMBER = 0x184d2a50;
+const SKIPPABLE_FRAME_MAGIC_MASK = 0xfffffff0;
+
+const FLAG_VERSION_MASK = 0xc0;
+const FLAG_VERSION = 0x40;
+const FLAG_BLOCK_INDEPENDENCE = 0x20;
+const FLAG_BLOCK_CHECKSUM = 0x10;
+const FLAG_CONTENT_SIZE = 0x08;
+const FLAG_CONTENT_CHECKSUM = 0x04;
+const FLAG_DICTIONARY_ID = 0x01;
+
+const BLOCK_UNCOMPRESSED = 0x80000000;
+const BLOCK_MAX_SIZES: Record<number, number> = {4: 0x10000, 5: 0x40000, 6: 0x100000, 7: 0x400000};
+/** Linked blocks can reference the last 64KB of output of previous blocks */
+const WINDOW_SIZE = 0x10000;
+
+/** Frames are written with independent blocks of at most 64KB */
+const BLOCK_SIZE = 0x10000;
+/** Flags, block descriptor and header checksum for independent 64KB blocks */
+const FRAME_DESCRIPTOR = [FLAG_VERSION | FLAG_BLOCK_INDEPENDENCE, 0x40, 0x82];
+
+/** Block functions of the `lz4js` module */
+type LZ4Module = {
+  compressBound(length: number): number;
+  compressBlock(
+    source: Uint8Array,
+    target: Uint8Array,
+    sourceIndex: number,
+    sourceLength: number,
+    hashTable: Uint32Array
+  ): number;
+  decompressBlock(
+    source: Uint8Array,
+    target: Uint8Array,
+    sourceIndex: number,
+    sourceLength: number,
+    targetIndex: number
+  ): number;
+};
+
+type FrameDescriptor = {
+  blockMaxSize: number;
+  linkedBlocks: boolean;
+  blockChecksum: boolean;
+  contentChecksum: boolean;
+};
+
+/**
+ * Incrementally decompresses a sequence of LZ4 frames
+ * @note Checksums are not verified
+ */
+export async function* decompressLZ4FrameBatches(
+  asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>,
+  lz4js: LZ4Module
+): AsyncIterable<ArrayBuffer> {
+  const reader = new ByteReader(asyncIterator);
+  while (await reader.hasData()) {
+    const magicNumber = readUint32(await reader.read(4));
+    if ((magicNumber & SKIPPABLE_FRAME_MAGIC_MASK) >>> 0 === SKIPPABLE_FRAME_MAGIC_NUMBER) {
+      await reader.read(readUint32(await reader.read(4)));
+    } else if (magicNumber === LZ4_MAGIC_NUMBER) {
+      yield* decompressFrame(reader, lz4js);
+    } else {
+      throw new Error('invalid magic number');
+    }
+  }
+}
+
+/**
+ * Incrementally compresses batches into a single LZ4 frame
+ */
+export async function* compressLZ4FrameBatches(
+  asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>,
+  lz4js: LZ4Module
+): AsyncIterable<ArrayBuffer> {
+  const header = new Uint8Array(4 + FRAME_DESCRIPTOR.length);
+  writeUint32(header, 0, LZ4_MAGIC_NUMBER);
+  header.set(FRAME_DESCRIPTOR, 4);
+  yield header.buffer;
+
+  const block = new Uint8Array(BLOCK_SIZE);
+  const hashTable = new Uint32Array(0x10000);
+  let blockLength = 0;
+  for await (const batch of asyncIterator) {
+    let input = new Uint8Array(batch);
+    while (input.length > 0) {
+      const length = Math.min(BLOCK_SIZE - blockLength, input.length);
+      block.set(input.subarray(0, length), blockLength);
+      blockLength += length;
+      input = input.subarray(length);
+      if (blockLength === BLOCK_SIZE) {
+        yield compressBlock(block, blockLength, hashTable, lz4js);
+        blockLength = 0;
+      }
+    }
+  }
+  if (blockLength > 0) {
+    yield compressBlock(block, blockLength, hashTable, lz4js);
+  }
+
+  // End mark
+  yield new ArrayBuffer(4);
+}
+
+async function* decompressFrame(reader: ByteReader, lz4js: LZ4Module): AsyncIterable<ArrayBuffer> {
+  const descriptor = await readFrameDescriptor(reader);
+
+  let window = new Uint8Array(0);
+  for (;;) {
+    const blockSize = readUint32(await reader.read(4));
+    // End mark
+    if (blockSize === 0) {
+      break;
+    }
+    const compressedSize = blockSize & ~BLOCK_UNCOMPRESSED;
+    const data = await reader.read(compressedSize + (descriptor.blockChecksum ? 4 : 0));
+
+    // Output is decoded after the window, so that matches can reference previous blocks
+    const output = new Uint8Array(window.length + descriptor.blockMaxSize);
+    output.set(window);
+    let end = window.length + compressedSize;
+    if (blockSize & BLOCK_UNCOMPRESSED) {
+      output.set(data.subarray(0, compressedSize), window.length);
+    } else {
+      end = lz4js.decompressBlock(data, output, 0, compressedSize, window.length);
+    }
+    yield output.slice(window.length, end).buffer;
+
+    if (descriptor.linkedBlocks) {
+      window = output.slice(Math.max(end - WINDOW_SIZE, 0), end);
+    }
+  }
+
+  if (descriptor.contentChecksum) {
+    await reader.read(4);
+  }
+}
+
+async function readFrameDescriptor(reader: ByteReader): Promise<FrameDescriptor> {
+  const [flags, blockDescriptor] = await reader.read(2);
+  if ((flags & FLAG_VERSION_MASK) !== FLAG_VERSION) {
+    throw new Error('incompatible frame version');
+  }
+  if (flags & FLAG_DICTIONARY_ID) {
+    throw new Error('dictionaries are not supported');
+  }
+  const blockMaxSize = BLOCK_MAX_SIZES[(blockDescriptor >> 4) & 0x7];
+  if (!blockMaxSize) {
+    throw new Error('invalid block size');
+  }
+  // Skip content size and header checksum
+  await reader.read((flags & FLAG_CONTENT_SIZE ? 8 : 0) + 1);
+  return {
+    blockMaxSize,
+    linkedBlocks: !(flags & FLAG_BLOCK_INDEPENDENCE),
+    blockChecksum: Boolean(flags & FLAG_BLOCK_CHECKSUM),
+    contentChecksum: Boolean(flags & FLAG_CONTENT_CHECKSUM)
+  };
+}
+
+function compressBlock(
+  block: Uint8Array,
+  length: number,
+  hashTable: Uint32Array,
+  lz4js: LZ4Module
+): ArrayBuffer {
+  // Blocks are independent
+  hashTable.fill(0);
+  const compressed = new Uint8Array(4 + lz4js.compressBound(length));
+  const compressedSize = lz4js.compressBlock(block, compressed.subarray(4), 0, length, hashTable);
+
+  // Incompressible data is stored as is
+  if (compressedSize === 0 || compressedSize >= length) {
+    const output = new Uint8Array(4 + length);
+    writeUint32(output, 0, (BLOCK_UNCOMPRESSED | length) >>> 0);
+    output.set(block.subarray(0, length), 4);
+    return output.buffer;
+  }
+
+  writeUint32(compressed, 0, compressedSize);
+  return compressed.slice(0, 4 + compressedSize).buffer;
+}
+
+function readUint32(bytes: Uint8Array): number {
+  return (bytes[0] | (bytes[1] << 8) | (bytes[2] << 16) | (bytes[3] << 24)) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+  bytes[offset + 3] = (value >>> 24) & 0xff;
+}
+
+/** Reads byte ranges of any length from a sequence of batches */
+class ByteReader {
+  private iterator: AsyncIterator<ArrayBuffer> | Iterator<ArrayBuffer>;
+  private chunks: Uint8Array[] = [];
+  private byteLength = 0;
+
+  constructor(asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>) {
+    this.iterator =
+      Symbol.asyncIterator in asyncIterator
+        ? asyncIterator[Symbol.asyncIterator]()
+        : asyncIterator[Symbol.iterator]();
+  }
+
+  /** @returns `false` at the end of the input */
+  async hasData(): Promise<boolean> {
+    return this.byteLength > 0 || (await this.readChunk());
+  }
+
+  /** Reads the next `length` bytes, throws if the input ends before */
+  async read(length: number): Promise<Uint8Array> {
+    while (this.byteLength < length) {
+      if (!(await this.readChunk())) {
+        throw new Error('unexpected end of data');
+      }
+    }
+    this.byteLength -= length;
+
+    const first = this.chunks[0];
+    if (first && first.length >= length) {
+      this.chunks[0] = first.subarray(length);
+      return first.subarray(0, length);
+    }
+
+    const bytes = new Uint8Array(length);
+    for (let offset = 0; offset < length; ) {
+      const chunk = this.chunks[0];
+      const chunkLength = Math.min(chunk.length, length - offset);
+      bytes.set(chunk.subarray(0, chunkLength), offset);
+      this.chunks[0] = chunk.subarray(chunkLength);
+      if (this.chunks[0].length === 0) {
+        this.chunks.shift();
+      }
+      offset += chunkLength;
+    }
+    return bytes;
+  }
+
+  private async readChunk(): Promise<boolean> {
+    const {done, value} = await this.iterator.next();
+    if (done) {
+      return false;
+    }
+    this.chunks = this.chunks.filter((chunk) => chunk.length > 0);
+    this.chunks.push(new Uint8Array(value));
+    this.byteLength += value.byteLength;
+    return true;
+  }
+}
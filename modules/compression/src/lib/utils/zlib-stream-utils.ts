@@ -0,0 +1,64 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {Transform} from 'stream';
+import {toArrayBuffer} from '@loaders.gl/loader-utils';
+
+/**
+ * Streams batches through a Node.js `zlib` transform stream.
+ * Input is only read as output is consumed, so memory use does not depend on data size.
+ * @note Node.js only
+ */
+export async function* transformBatchesWithZlib(
+  transform: Transform,
+  asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+): AsyncIterable<ArrayBuffer> {
+  // Errors in the input are forwarded to the transform, and rethrown below
+  const writing = writeBatches(transform, asyncIterator);
+  try {
+    for await (const chunk of transform) {
+      yield toArrayBuffer(chunk);
+    }
+    await writing;
+  } finally {
+    // Stops writing if iteration is stopped early
+    transform.destroy();
+  }
+}
+
+async function writeBatches(
+  transform: Transform,
+  asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+): Promise<void> {
+  let closed = false;
+  transform.once('close', () => {
+    closed = true;
+  });
+  try {
+    for await (const batch of asyncIterator) {
+      if (closed) {
+        return;
+      }
+      if (!transform.write(new Uint8Array(batch))) {
+        await waitForDrain(transform);
+      }
+    }
+    transform.end();
+  } catch (error) {
+    transform.destroy(error as Error);
+  }
+}
+
+/** Resolves when the stream can accept more data, or has been destroyed */
+function waitForDrain(transform: Transform): Promise<void> {
+  return new Promise((resolve) => {
+    const onDrain = () => {
+      transform.off('drain', onDrain);
+      transform.off('close', onDrain);
+      resolve();
+    };
+    transform.on('drain', onDrain);
+    transform.on('close', onDrain);
+  });
+}
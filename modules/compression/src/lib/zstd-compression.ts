@@ -6,11 +6,15 @@
 import type {CompressionOptions} from './compression';
 import {Compression} from './compression';
 import {
+  isBrowser,
   registerJSModules,
   checkJSModule,
   getJSModule,
   getJSModuleOrNull
 } from '@loaders.gl/loader-utils';
+import type {Transform} from 'stream';
+import zlib from 'zlib';
+import {transformBatchesWithZlib} from './utils/zlib-stream-utils';
 
 // import {ZstdCodec} from 'zstd-codec'; // https://bundlephobia.com/package/zstd-codec
 
@@ -24,9 +28,10 @@ let zstd;
  */
 export class ZstdCompression extends Compression {
   readonly name: string = 'zstd';
-  readonly extensions = [];
-  readonly contentEncodings = [];
+  readonly extensions = ['zst', 'zstd'];
+  readonly contentEncodings = ['zstd'];
   readonly isSupported = true;
+  readonly signature = [0x28, 0xb5, 0x2f, 0xfd];
   readonly options: CompressionOptions;
 
   /**
@@ -79,4 +84,44 @@ export class ZstdCompression extends Compression {
     const decompressResult = await simpleZstd.decompressChunks(chunks);
     return decompressResult.buffer;
   }
+
+  /**
+   * Compress batches
+   * @note Streams through built-in zlib on Node.js versions that support zstd (v22.15+).
+   * Otherwise, i.e. in browsers and on older Node.js versions, throws rather than holding
+   * all batches in memory, as `zstd-codec` only compresses complete buffers.
+   */
+  async *compressBatches(
+    asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+  ): AsyncIterable<ArrayBuffer> {
+    yield* transformBatchesWithZlib(this.getZlibZstd().createZstdCompress(), asyncIterator);
+  }
+
+  /**
+   * Decompress batches
+   * @note Streams through built-in zlib on Node.js versions that support zstd (v22.15+).
+   * Otherwise, i.e. in browsers and on older Node.js versions, throws rather than holding
+   * all batches in memory, as the streaming API of `zstd-codec` needs all chunks up front.
+   */
+  async *decompressBatches(
+    asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+  ): AsyncIterable<ArrayBuffer> {
+    yield* transformBatchesWithZlib(this.getZlibZstd().createZstdDecompress(), asyncIterator);
+  }
+
+  /** zstd streams were added to zlib in Node.js v22.15 */
+  private getZlibZstd(): ZlibZstd {
+    const zlibZstd = zlib as unknown as Partial<ZlibZstd> | undefined;
+    if (isBrowser || !zlibZstd?.createZstdDecompress) {
+      throw new Error(
+        `${this.name}: batches can only be streamed on Node.js v22.15+, use compress() or decompress()`
+      );
+    }
+    return zlibZstd as ZlibZstd;
+  }
 }
+
+type ZlibZstd = {
+  createZstdCompress(): Transform;
+  createZstdDecompress(): Transform;
+};
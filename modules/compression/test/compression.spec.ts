@@ -4,6 +4,7 @@
 
 /** @typedef {import('@loaders.gl/compression').Compression} Compression */
 import test from 'tape-promise/tape';
+import {getError} from 'test/common/get-error';
 import {
   NoCompression,
   GZipCompression,
@@ -12,11 +13,13 @@ import {
   ZstdCompression,
   SnappyCompression,
   BrotliCompression,
+  Compression,
   // LZOCompression,
   CompressionWorker
 } from '@loaders.gl/compression';
 import {processOnWorker, isBrowser, WorkerFarm} from '@loaders.gl/worker-utils';
 import {concatenateArrayBuffers, concatenateArrayBuffersAsync} from '@loaders.gl/loader-utils';
+import {fetchFile} from '@loaders.gl/core';
 import {getData, compareArrayBuffers} from './utils/test-utils';
 
 // Import big dependencies
@@ -26,6 +29,7 @@ import brotliDecompress from 'brotli/decompress';
 import lz4js from 'lz4js';
 // import lzo from 'lzo';
 import {ZstdCodec} from 'zstd-codec';
+import zlib from 'zlib';
 
 // Inject large dependencies through Compression constructor options
 const modules = {
@@ -43,6 +47,8 @@ const modules = {
 
 const TEST_DATA = getData();
 
+const CSV_URL = '@loaders.gl/compression/test/data/sample.csv';
+
 const TEST_CASES = [
   {
     title: 'binary',
@@ -129,8 +135,12 @@ test('compression#batched', async (t) => {
   ];
 
   for (const compression of COMPRESSIONS) {
-    // brotli compress import issue
-    if (!compression.isSupported || compression.name === 'brotli') {
+    // brotli compress import issue, zstd batches can only be streamed through zlib
+    if (
+      !compression.isSupported ||
+      compression.name === 'brotli' ||
+      (compression.name === 'zstd' && !hasZlibZstd())
+    ) {
       continue; // eslint-disable-line no-continue
     }
     for (const tc of TEST_CASES) {
@@ -161,6 +171,116 @@ test('compression#batched', async (t) => {
   t.end();
 });
 
+test('compression#streaming', async (t) => {
+  const {repeatedData} = getData();
+  const streamingCompressions: Compression[] = [
+    new DeflateCompression({modules}),
+    new GZipCompression({modules}),
+    new LZ4Compression({modules})
+  ];
+  if (!isBrowser) {
+    streamingCompressions.push(
+      new GZipCompression({gzip: {useZlib: true}}),
+      new BrotliCompression({modules})
+    );
+  }
+  if (hasZlibZstd()) {
+    streamingCompressions.push(new ZstdCompression({modules}));
+  }
+
+  for (const compression of streamingCompressions) {
+    const {name} = compression;
+    const compressedBatches = compression.compressBatches(splitArrayBuffer(repeatedData, 1000));
+    const compressedData = await concatenateArrayBuffersAsync(compressedBatches);
+
+    let batchCount = 0;
+    const decompressedBatches: ArrayBuffer[] = [];
+    for await (const batch of compression.decompressBatches(
+      splitArrayBuffer(compressedData, 100)
+    )) {
+      decompressedBatches.push(batch);
+      batchCount++;
+    }
+    t.ok(batchCount > 1, `${name}: decompressed incrementally`);
+    t.ok(
+      compareArrayBuffers(repeatedData, concatenateArrayBuffers(...decompressedBatches)),
+      `${name}: compress/decompress identical`
+    );
+  }
+  t.end();
+});
+
+test('compression#streaming not supported', async (t) => {
+  const compressions: Compression[] = [];
+  if (!hasZlibZstd()) {
+    compressions.push(new ZstdCompression({modules}));
+  }
+  if (isBrowser) {
+    compressions.push(new BrotliCompression({modules}));
+  }
+
+  const {repeatedData} = getData();
+  for (const compression of compressions) {
+    const {name} = compression;
+    const compressedData = await compression.compress(repeatedData);
+    let error = await getError(
+      concatenateArrayBuffersAsync(compression.decompressBatches([compressedData]))
+    );
+    t.ok(error?.message.includes('streamed'), `${name}: decompressBatches throws`);
+    error = await getError(
+      concatenateArrayBuffersAsync(compression.compressBatches([repeatedData]))
+    );
+    t.ok(error?.message.includes('streamed'), `${name}: compressBatches throws`);
+  }
+  t.end();
+});
+
+test('compression#streaming files', async (t) => {
+  const csvText = await (await fetchFile(CSV_URL)).text();
+  const compressions: Compression[] = [
+    new GZipCompression({modules}),
+    new LZ4Compression({modules})
+  ];
+  if (!isBrowser) {
+    compressions.push(new BrotliCompression({modules}));
+  }
+  if (hasZlibZstd()) {
+    compressions.push(new ZstdCompression({modules}));
+  }
+
+  for (const compression of compressions) {
+    const extension = compression.extensions[0];
+    const response = await fetchFile(`${CSV_URL}.${extension}`);
+    const compressedData = await response.arrayBuffer();
+    const decompressedData = await concatenateArrayBuffersAsync(
+      compression.decompressBatches(splitArrayBuffer(compressedData, 256))
+    );
+    t.equal(
+      new TextDecoder().decode(decompressedData),
+      csvText,
+      `${compression.name}: decompressed ${extension} file`
+    );
+  }
+  t.end();
+});
+
+test('compression#streaming errors', async (t) => {
+  const compressedData = await new GZipCompression().compress(getData().repeatedData);
+  const truncatedData = compressedData.slice(0, compressedData.byteLength / 2);
+  let error = await getError(
+    concatenateArrayBuffersAsync(new GZipCompression().decompressBatches([truncatedData]))
+  );
+  t.ok(error?.message.includes('gzip'), 'gzip: truncated data throws');
+
+  error = await getError(
+    concatenateArrayBuffersAsync(
+      new LZ4Compression({modules}).decompressBatches([new Uint8Array([1, 2, 3, 4]).buffer])
+    )
+  );
+  t.ok(error?.message.includes('lz4'), 'lz4: invalid data throws');
+  t.end();
+});
+
 // WORKER TESTS
 test('gzip#worker', async (t) => {
   const {binaryData} = getData();
@@ -259,3 +379,14 @@ test.skip('zstd#worker', async (t) => {
   t.ok(compareArrayBuffers(decompressdData, binaryData), 'compress/decompress level 6');
   t.end();
 });
+
+function* splitArrayBuffer(arrayBuffer: ArrayBuffer, chunkSize: number): Iterable<ArrayBuffer> {
+  for (let offset = 0; offset < arrayBuffer.byteLength; offset += chunkSize) {
+    yield arrayBuffer.slice(offset, offset + chunkSize);
+  }
+}
+
+/** zstd streams were added to zlib in Node.js v22.15 */
+function hasZlibZstd(): boolean {
+  return !isBrowser && 'createZstdDecompress' in zlib;
+}
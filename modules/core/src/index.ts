@@ -8,6 +8,7 @@ export type {
   LoaderWithParser,
   LoaderContext,
   LoaderOptions,
+  LoaderProgress,
   Writer,
   WriterOptions,
   DataType,
@@ -23,6 +24,18 @@ export type {
 // FILE READING AND WRITING
 export {fetchFile} from './lib/fetch/fetch-file';
 export {FetchError} from './lib/fetch/fetch-error';
+export type {LoaderErrorCode} from '@loaders.gl/loader-utils';
+export {
+  LoaderError,
+  UnsupportedFormatError,
+  CorruptDataError,
+  UnsupportedVersionError,
+  NetworkError,
+  RangeNotSupportedError,
+  InvalidPasswordError,
+  TimeoutError,
+  AbortError
+} from '@loaders.gl/loader-utils';
 
 export {readArrayBuffer} from './lib/fetch/read-array-buffer';
 // export {readFileSync} from './lib/fetch/read-file';
@@ -31,7 +44,8 @@ export {readArrayBuffer} from './lib/fetch/read-array-buffer';
 // CONFIGURATION
 export {setLoaderOptions, getLoaderOptions} from './lib/api/loader-options';
 export {registerLoaders} from './lib/api/register-loaders';
-export {selectLoader, selectLoaderSync} from './lib/api/select-loader';
+export {selectLoader, selectLoaderSync, explainLoaderSelection} from './lib/api/select-loader';
+export type {LoaderSelectionCandidate, LoaderSelectionExplanation} from './lib/api/select-loader';
 
 // LOADING (READING + PARSING)
 export {parse} from './lib/api/parse';
@@ -43,8 +57,15 @@ export {loadInBatches} from './lib/api/load-in-batches';
 
 // ENCODING (ENCODING AND WRITING)
 export {encodeTable, encodeTableAsText, encodeTableInBatches} from './lib/api/encode-table';
-export {encode, encodeSync, encodeInBatches, encodeURLtoURL} from './lib/api/encode';
+export {encode, encodeSync, encodeInBatches, encodeURLtoURL, encodeToFile} from './lib/api/encode';
 export {encodeText, encodeTextSync} from './lib/api/encode';
+export type {
+  ConvertInput,
+  ConvertProps,
+  ConvertToOutputProps,
+  ConvertTransform
+} from './lib/api/convert';
+export {convert, convertInBatches} from './lib/api/convert';
 
 // SERVICES AND SOURCES
 export {createDataSource} from './lib/api/create-data-source';
@@ -53,6 +74,7 @@ export {selectSource as _selectSource} from './lib/api/select-source';
 // CORE UTILS SHARED WITH LOADERS (RE-EXPORTED FROM LOADER-UTILS)
 export {setPathPrefix, getPathPrefix, resolvePath} from '@loaders.gl/loader-utils';
 export {RequestScheduler} from '@loaders.gl/loader-utils';
+export {ResponseCache} from '@loaders.gl/loader-utils';
 
 // ITERATOR UTILS
 export {makeIterator} from './iterators/make-iterator/make-iterator';
@@ -0,0 +1,158 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {Batch, TableBatch} from '@loaders.gl/schema';
+import type {
+  LoaderWithParser,
+  LoaderOptions,
+  BatchableDataType,
+  WriterOptions,
+  WriterOptionsType,
+  WriterWithEncoder,
+  WritableFile
+} from '@loaders.gl/loader-utils';
+import {log} from '@loaders.gl/loader-utils';
+import {makeTableFromBatches} from '@loaders.gl/schema-utils';
+import {encode} from './encode';
+import {loadInBatches} from './load-in-batches';
+import {parseInBatches} from './parse-in-batches';
+
+/** Transforms a stream of parsed batches, e.g. to filter rows or reproject coordinates */
+export type ConvertTransform = (batches: AsyncIterable<Batch>) => AsyncIterable<Batch>;
+
+/** Input to `convert()`: a URL, or any data that can be parsed in batches */
+export type ConvertInput = string | BatchableDataType;
+
+/** Options for `convert()` and `convertInBatches()` */
+export type ConvertProps<WriterT extends WriterWithEncoder = WriterWithEncoder> = {
+  /** Loaders to select from. Defaults to registered loaders */
+  from?: LoaderWithParser | LoaderWithParser[];
+  /** Writer that encodes the output */
+  to: WriterT;
+  /** Options for the selected loader */
+  loadOptions?: LoaderOptions;
+  /** Options for the writer */
+  writeOptions?: WriterOptionsType<WriterT>;
+  /** Transforms applied in order to the parsed batches before they are encoded */
+  transforms?: ConvertTransform[];
+};
+
+/** Options for `convert()` */
+export type ConvertToOutputProps<WriterT extends WriterWithEncoder = WriterWithEncoder> =
+  ConvertProps<WriterT> & {
+    /** Destination, e.g. from `WritableFileSystem.openWritable()`. Closed when conversion is done. */
+    output: WritableFile | WritableStream<Uint8Array>;
+  };
+
+/**
+ * Converts data from one format to another, and writes the output to a file or stream.
+ * Batches flow from `loadInBatches` through any transforms into the writer's `encodeInBatches`,
+ * so that memory use is independent of data size.
+ * @note If the writer cannot encode in batches, a warning is logged and all batches are assembled
+ * and encoded at once.
+ */
+export async function convert<WriterT extends WriterWithEncoder>(
+  input: ConvertInput,
+  props: ConvertToOutputProps<WriterT>
+): Promise<void> {
+  const {output, ...convertProps} = props;
+  const chunks = await convertInBatches(input, convertProps);
+  if (isWritableStream(output)) {
+    await writeToStream(chunks, output);
+  } else {
+    await writeToFile(chunks, output);
+  }
+}
+
+/**
+ * Converts data from one format to another
+ * @returns the output as a sequence of binary chunks
+ */
+export async function convertInBatches<WriterT extends WriterWithEncoder>(
+  input: ConvertInput,
+  props: ConvertProps<WriterT>
+): Promise<AsyncIterable<ArrayBuffer>> {
+  const {from = [], to: writer, loadOptions = {}, writeOptions, transforms = []} = props;
+
+  // An empty loader array selects among registered loaders
+  const loaders = Array.isArray(from) ? from : [from];
+  const loadedBatches =
+    typeof input === 'string'
+      ? await loadInBatches(input, loaders, loadOptions)
+      : await parseInBatches(input, loaders, loadOptions);
+
+  let batches = skipMetadataBatches(loadedBatches as AsyncIterable<Batch>);
+  for (const transform of transforms) {
+    batches = transform(batches);
+  }
+
+  if (writer.encodeInBatches) {
+    return writer.encodeInBatches(batches, writeOptions);
+  }
+  if (writer.encodeTextInBatches) {
+    return writer.encodeTextInBatches(batches, writeOptions);
+  }
+  log.warn(`convert: ${writer.name} cannot encode in batches, all data is loaded into memory`)();
+  return encodeAssembledBatches(batches, writer, writeOptions);
+}
+
+/** Fallback for writers that cannot encode in batches */
+async function* encodeAssembledBatches(
+  batches: AsyncIterable<Batch>,
+  writer: WriterWithEncoder,
+  options?: WriterOptions
+): AsyncIterable<ArrayBuffer> {
+  const batchArray: Batch[] = [];
+  for await (const batch of batches) {
+    batchArray.push(batch);
+  }
+  // Non-batched loaders yield their parsed data as a single batch
+  const data =
+    batchArray.length === 1 && !isTableBatch(batchArray[0])
+      ? batchArray[0].data
+      : await makeTableFromBatches(batchArray as TableBatch[]);
+  yield await encode(data, writer, options);
+}
+
+async function* skipMetadataBatches(batches: AsyncIterable<Batch>): AsyncIterable<Batch> {
+  for await (const batch of batches) {
+    if (batch.batchType !== 'metadata') {
+      yield batch;
+    }
+  }
+}
+
+async function writeToFile(chunks: AsyncIterable<ArrayBuffer>, file: WritableFile): Promise<void> {
+  try {
+    for await (const chunk of chunks) {
+      await file.write(chunk);
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+async function writeToStream(
+  chunks: AsyncIterable<ArrayBuffer>,
+  stream: WritableStream<Uint8Array>
+): Promise<void> {
+  const writer = stream.getWriter();
+  try {
+    for await (const chunk of chunks) {
+      await writer.write(new Uint8Array(chunk));
+    }
+    await writer.close();
+  } catch (error) {
+    await writer.abort(error);
+    throw error;
+  }
+}
+
+function isWritableStream(output: unknown): output is WritableStream<Uint8Array> {
+  return typeof (output as WritableStream).getWriter === 'function';
+}
+
+function isTableBatch(batch: Batch): boolean {
+  return ['array-row-table', 'object-row-table', 'geojson-table'].includes(batch.shape);
+}
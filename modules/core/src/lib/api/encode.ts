@@ -3,6 +3,7 @@
 // Copyright (c) vis.gl contributors
 
 import type {
+  WritableFileSystem,
   WriterOptions,
   WriterWithEncoder,
   WriterOptionsType,
@@ -40,6 +41,22 @@ export async function encode<WriterT extends WriterWithEncoder>(
   return await writer.encode(data, options);
 }
 
+/**
+ * Encode loaded data using the specified Writer, and write it to a file in a writable file system.
+ * @param fileSystem e.g. a `MemoryFileSystem`, `NodeFileSystem` or `ZipWritableFileSystem`
+ * @param path path of the file to write
+ */
+export async function encodeToFile<WriterT extends WriterWithEncoder>(
+  data: WriterDataType<WriterT>,
+  writer: WriterT,
+  fileSystem: WritableFileSystem,
+  path: string,
+  options?: WriterOptionsType<WriterT>
+): Promise<void> {
+  const arrayBuffer = await encode(data, writer, options);
+  await fileSystem.writeFile(path, arrayBuffer);
+}
+
 /**
  * Encode loaded data into a binary ArrayBuffer using the specified Writer.
  */
@@ -11,8 +11,11 @@ import type {
   LoaderBatchType,
   LoaderOptionsType
 } from '@loaders.gl/loader-utils';
+import {throwIfAborted} from '@loaders.gl/loader-utils';
 import {isLoaderObject} from '../loader-utils/normalize-loader';
 import {getFetchFunction} from '../loader-utils/get-fetch-function';
+import {getNetworkError} from '../fetch/fetch-error';
+import {decompressResponse} from '../loader-utils/decompress-response';
 
 import {parseInBatches} from './parse-in-batches';
 
@@ -93,7 +96,16 @@ async function loadOneFileInBatches(
 ): Promise<AsyncIterable<unknown>> {
   if (typeof file === 'string') {
     const url = file;
-    const response = await fetch(url);
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      // Report aborted requests as `AbortError`
+      throwIfAborted(options.signal);
+      throw getNetworkError(error, url);
+    }
+    // Decompress compressed files, e.g. `.csv.gz`, if a matching compression was supplied
+    response = await decompressResponse(response, options.compressions);
     // pick right overload
     return Array.isArray(loaders)
       ? await parseInBatches(response, loaders, options)
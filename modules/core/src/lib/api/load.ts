@@ -12,9 +12,11 @@ import type {
   LoaderArrayOptionsType,
   LoaderArrayReturnType
 } from '@loaders.gl/loader-utils';
+import {throwIfAborted, addLoaderErrorInfo} from '@loaders.gl/loader-utils';
 import {isBlob} from '../../javascript-utils/is-type';
 import {isLoaderObject} from '../loader-utils/normalize-loader';
 import {getFetchFunction} from '../loader-utils/get-fetch-function';
+import {getNetworkError} from '../fetch/fetch-error';
 
 import {parse} from './parse';
 
@@ -85,21 +87,33 @@ export async function load(
 
   // at this point, `url` could be already loaded binary data
   let data = url;
-  // url is a string, fetch the url
-  if (typeof url === 'string') {
-    data = await fetch(url);
-    // URL is Blob or File, fetchFile handles it (alt: we could generate ObjectURL here)
-  }
+  const resourceUrl = typeof url === 'string' ? url : undefined;
+  try {
+    // url is a string, fetch the url
+    if (typeof url === 'string') {
+      data = await fetch(url);
+      // URL is Blob or File, fetchFile handles it (alt: we could generate ObjectURL here)
+    }
 
-  if (isBlob(url)) {
-    // The fetch response object will contain blob.name
-    // @ts-expect-error TODO - This may not work for overridden fetch functions
-    data = await fetch(url);
+    if (isBlob(url)) {
+      // The fetch response object will contain blob.name
+      // @ts-expect-error TODO - This may not work for overridden fetch functions
+      data = await fetch(url);
+    }
+  } catch (error) {
+    // Report aborted requests as `AbortError`
+    throwIfAborted(resolvedOptions?.signal);
+    throw getNetworkError(error, resourceUrl);
   }
 
   // Data is loaded (at least we have a `Response` object) so time to hand over to `parse`
   // return await parse(data, loaders as Loader[], options);
-  return Array.isArray(resolvedLoaders)
-    ? await parse(data, resolvedLoaders, resolvedOptions) // loader array overload
-    : await parse(data, resolvedLoaders, resolvedOptions); // single loader overload
+  try {
+    return Array.isArray(resolvedLoaders)
+      ? await parse(data, resolvedLoaders, resolvedOptions) // loader array overload
+      : await parse(data, resolvedLoaders, resolvedOptions); // single loader overload
+  } catch (error) {
+    // Responses from custom fetch functions may not have a url
+    throw addLoaderErrorInfo(error, {url: resourceUrl});
+  }
 }
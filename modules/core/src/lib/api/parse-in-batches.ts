@@ -15,12 +15,13 @@ import type {
   LoaderArrayOptionsType,
   LoaderArrayBatchType
 } from '@loaders.gl/loader-utils';
-import {concatenateArrayBuffersAsync} from '@loaders.gl/loader-utils';
+import {concatenateArrayBuffersAsync, throwIfAborted} from '@loaders.gl/loader-utils';
 import {isLoaderObject} from '../loader-utils/normalize-loader';
 import {normalizeOptions} from '../loader-utils/option-utils';
 import {getLoaderContext} from '../loader-utils/loader-context';
 import {getAsyncIterableFromData} from '../loader-utils/get-data';
 import {getResourceUrl} from '../utils/resource-utils';
+import {ProgressTracker, getProgressTracker} from '../progress/progress-tracker';
 import {selectLoader} from './select-loader';
 
 // Ensure `parse` is available in context if loader falls back to `parse`
@@ -86,6 +87,7 @@ export async function parseInBatches(
 
   data = await data; // Resolve any promise
   options = options || {};
+  throwIfAborted(options.signal);
 
   // Extract a url for auto detection
   const url = getResourceUrl(data);
@@ -100,13 +102,25 @@ export async function parseInBatches(
 
   // Normalize options
   options = normalizeOptions(options, loader, loaderArray, url);
+  // Only top-level calls report progress
+  const progressTracker = getProgressTracker(data, options, context);
   context = getLoaderContext(
     {url, _parseInBatches: parseInBatches, _parse: parse, loaders: loaderArray},
     options,
     context || null
   );
 
-  return await parseWithLoaderInBatches(loader as LoaderWithParser, data, options, context);
+  let outputIterator = await parseWithLoaderInBatches(
+    loader as LoaderWithParser,
+    data,
+    options,
+    context,
+    progressTracker
+  );
+  if (progressTracker) {
+    outputIterator = progressTracker.trackBatches(outputIterator);
+  }
+  return options.signal ? makeAbortableIterator(outputIterator, options.signal) : outputIterator;
 }
 
 /**
@@ -116,9 +130,16 @@ async function parseWithLoaderInBatches(
   loader: LoaderWithParser,
   data: BatchableDataType,
   options: LoaderOptions,
-  context: LoaderContext
+  context: LoaderContext,
+  progressTracker: ProgressTracker | null
 ): Promise<AsyncIterable<unknown>> {
-  const outputIterator = await parseToOutputIterator(loader, data, options, context);
+  const outputIterator = await parseToOutputIterator(
+    loader,
+    data,
+    options,
+    context,
+    progressTracker
+  );
 
   // Generate metadata batch if requested
   if (!options.metadata) {
@@ -156,10 +177,15 @@ async function parseToOutputIterator(
   loader: LoaderWithParser,
   data: BatchableDataType,
   options: LoaderOptions,
-  context: LoaderContext
+  context: LoaderContext,
+  progressTracker: ProgressTracker | null
 ): Promise<AsyncIterable<unknown>> {
   // Get an iterator from the input
-  const inputIterator = await getAsyncIterableFromData(data, options);
+  let inputIterator = await getAsyncIterableFromData(data, options);
+  // Count bytes before any transforms (e.g. decompression) are applied
+  if (progressTracker) {
+    inputIterator = progressTracker.trackInput(inputIterator);
+  }
 
   // Apply any iterator transforms (options.transforms)
   const transformedIterator = await applyInputTransforms(inputIterator, options?.transforms || []);
@@ -219,6 +245,25 @@ type TransformBatches = (
   asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
 ) => AsyncIterable<ArrayBuffer>;
 
+/**
+ * Stops iteration with an `AbortError` when the signal is aborted
+ * @note Exiting the loop also closes the input iterator (e.g. a fetch response stream)
+ */
+async function* makeAbortableIterator<T>(
+  iterator: AsyncIterable<T> | Iterable<T>,
+  signal: AbortSignal
+): AsyncIterable<T> {
+  try {
+    for await (const batch of iterator) {
+      throwIfAborted(signal);
+      yield batch;
+    }
+  } catch (error) {
+    throwIfAborted(signal);
+    throw error;
+  }
+}
+
 /**
  * Create an iterator chain with any transform iterators (crypto, decompression)
  * @param inputIterator
@@ -13,7 +13,13 @@ import type {
   LoaderArrayOptionsType,
   LoaderArrayReturnType
 } from '@loaders.gl/loader-utils';
-import {parseWithWorker, canParseWithWorker, mergeOptions} from '@loaders.gl/loader-utils';
+import {
+  parseWithWorker,
+  canParseWithWorker,
+  mergeOptions,
+  throwIfAborted,
+  addLoaderErrorInfo
+} from '@loaders.gl/loader-utils';
 import {assert, validateWorkerVersion} from '@loaders.gl/worker-utils';
 import {isLoaderObject} from '../loader-utils/normalize-loader';
 import {isResponse} from '../../javascript-utils/is-type';
@@ -21,6 +27,7 @@ import {normalizeOptions} from '../loader-utils/option-utils';
 import {getArrayBufferOrStringFromData} from '../loader-utils/get-data';
 import {getLoaderContext, getLoadersFromContext} from '../loader-utils/loader-context';
 import {getResourceUrl} from '../utils/resource-utils';
+import {getProgressTracker, trackData} from '../progress/progress-tracker';
 import {selectLoader} from './select-loader';
 
 // type LoaderArrayType<T> = T extends (infer Loader)[] ? LoaderOptionsType<Loader> : T
@@ -84,6 +91,7 @@ export async function parse(
 
   data = await data; // Resolve any promise
   options = options || ({} as LoaderOptions); // Could be invalid...
+  throwIfAborted(options.signal);
 
   // Extract a url for auto detection
   const url = getResourceUrl(data);
@@ -103,6 +111,9 @@ export async function parse(
   // @ts-expect-error
   options = normalizeOptions(options, loader, candidateLoaders, url); // Could be invalid...
 
+  // Only top-level calls report progress
+  const progressTracker = getProgressTracker(data, options, context);
+
   // Get a context (if already present, will be unchanged)
   context = getLoaderContext(
     // @ts-expect-error
@@ -111,10 +122,24 @@ export async function parse(
     context || null
   );
 
-  return await parseWithLoader(loader, data, options, context);
+  try {
+    const result = await parseWithLoader(
+      loader,
+      trackData(data, progressTracker),
+      options,
+      context
+    );
+    // Discard results of aborted parses
+    throwIfAborted(options.signal);
+    progressTracker?.done(result);
+    return result;
+  } catch (error) {
+    throwIfAborted(options.signal);
+    // Identify the loader and resource in errors thrown by the loader
+    throw addLoaderErrorInfo(error, {loader: loader.id, url: url || undefined});
+  }
 }
 
-// TODO: support progress and abort
 // TODO - should accept loader.parseAsyncIterator and concatenate.
 async function parseWithLoader(
   loader: Loader,
@@ -136,6 +161,7 @@ async function parseWithLoader(
   }
 
   data = await getArrayBufferOrStringFromData(data, loader, options);
+  throwIfAborted(options.signal);
 
   const loaderWithParser = loader as LoaderWithParser;
 
@@ -3,20 +3,55 @@
 // Copyright (c) vis.gl contributors
 
 import type {LoaderContext, LoaderOptions, Loader} from '@loaders.gl/loader-utils';
-import {compareArrayBuffers, path, log} from '@loaders.gl/loader-utils';
-import {TypedArray} from '@loaders.gl/schema';
+import {
+  compareArrayBuffers,
+  concatenateArrayBuffers,
+  path,
+  log,
+  UnsupportedFormatError
+} from '@loaders.gl/loader-utils';
 import {normalizeLoader} from '../loader-utils/normalize-loader';
 import {getResourceUrl, getResourceMIMEType} from '../utils/resource-utils';
 import {compareMIMETypes} from '../utils/mime-type-utils';
 import {getRegisteredLoaders} from './register-loaders';
-import {isBlob} from '../../javascript-utils/is-type';
+import {isBlob, isResponse} from '../../javascript-utils/is-type';
 import {stripQueryString} from '../utils/url-utils';
 
 const EXT_PATTERN = /\.([^.]+)$/;
 
+/** Number of initial bytes that are read from Blobs and Responses, and passed to `loader.sniff()` */
+const SNIFF_LENGTH = 4096;
+
+// Scores for each kind of evidence that a loader matches the data.
+// A supplied `options.mimeType` always wins. Otherwise the url extension outweighs the MIME type,
+// which outweighs `loader.tests`, but a confident `loader.sniff()` can outweigh any of them.
+const FORCED_MIME_TYPE_SCORE = 10;
+const EXTENSION_SCORE = 0.4;
+const MIME_TYPE_SCORE = 0.25;
+const TEST_SCORE = 0.1;
+const SNIFF_SCORE = 0.5;
+const FALLBACK_MIME_TYPE_SCORE = 0.01;
+
 // TODO - Need a variant that peeks at streams for parseInBatches
-// TODO - Detect multiple matching loaders? Use heuristics to grade matches?
-// TODO - Allow apps to pass context to disambiguate between multiple matches (e.g. multiple .json formats)?
+
+/** How well a loader matches the data, see `explainLoaderSelection()` */
+export type LoaderSelectionCandidate = {
+  loader: Loader;
+  /** Sum of the scores of all evidence. Loaders with a score of `0` are rejected. */
+  score: number;
+  /** Whether this loader was selected */
+  selected: boolean;
+  /** Why this loader was accepted or rejected */
+  reasons: string[];
+};
+
+/** Result of `explainLoaderSelection()` */
+export type LoaderSelectionExplanation = {
+  /** The selected loader, if any */
+  loader: Loader | null;
+  /** All candidate loaders, best match first */
+  candidates: LoaderSelectionCandidate[];
+};
 
 /**
  * Find a loader that matches file extension and/or initial file content
@@ -37,22 +72,13 @@ export async function selectLoader(
     return null;
   }
 
-  // First make a sync attempt, disabling exceptions
-  let loader = selectLoaderSync(data, loaders, {...options, nothrow: true}, context);
-  if (loader) {
-    return loader;
-  }
-
-  // For Blobs and Files, try to asynchronously read a small initial slice and test again with that
-  // to see if we can detect by initial content
-  if (isBlob(data)) {
-    data = await (data as Blob).slice(0, 10).arrayBuffer();
-    loader = selectLoaderSync(data, loaders, options, context);
-  }
+  const {loader} = await explainLoaderSelection(data, loaders, options, context);
 
   // no loader available
   if (!loader && !options?.nothrow) {
-    throw new Error(getNoValidLoaderMessage(data));
+    throw new UnsupportedFormatError(getNoValidLoaderMessage(data), {
+      url: getResourceUrl(data) || undefined
+    });
   }
 
   return loader;
@@ -77,12 +103,62 @@ export function selectLoaderSync(
     return null;
   }
 
-  // eslint-disable-next-line complexity
+  const {loader} = explainLoaderSelectionSync(data, loaders, options, context);
+
+  // no loader available
+  if (!loader && !options?.nothrow) {
+    throw new UnsupportedFormatError(getNoValidLoaderMessage(data), {
+      url: getResourceUrl(data) || undefined
+    });
+  }
+
+  return loader;
+}
+
+/**
+ * Scores all candidate loaders against the data, and lists why each loader was accepted or rejected.
+ * Diagnoses the choices made by `selectLoader()`, which selects the loader with the highest score.
+ * @note The initial bytes of Blobs and Responses are read if needed to tell matching loaders apart
+ * @param data data to assist
+ * @param loaders
+ * @param options
+ * @param context used internally, applications should not provide this parameter
+ */
+export async function explainLoaderSelection(
+  data: Response | Blob | ArrayBuffer | string,
+  loaders: Loader[] | Loader = [],
+  options?: LoaderOptions,
+  context?: LoaderContext
+): Promise<LoaderSelectionExplanation> {
+  // First make a sync attempt
+  const explanation = explainLoaderSelectionSync(data, loaders, options, context);
+  if (!needsContent(explanation)) {
+    return explanation;
+  }
+
+  // For Blobs and Responses, try to asynchronously read a small initial slice and test again with that
+  // to see if we can detect by initial content
+  const initialData = await readInitialData(data);
+  return initialData
+    ? explainLoaderSelectionSync(data, loaders, options, context, initialData)
+    : explanation;
+}
+
+/** Synchronous implementation, content of Blobs and Responses is not available */
+function explainLoaderSelectionSync(
+  data: Response | Blob | ArrayBuffer | string,
+  loaders: Loader[] | Loader = [],
+  options?: LoaderOptions,
+  context?: LoaderContext,
+  initialData?: ArrayBuffer
+): LoaderSelectionExplanation {
   // if only a single loader was provided (not as array), force its use
   // TODO - Should this behavior be kept and documented?
   if (loaders && !Array.isArray(loaders)) {
     // TODO - remove support for legacy loaders
-    return normalizeLoader(loaders);
+    const loader = normalizeLoader(loaders);
+    const reasons = ['single loader supplied'];
+    return {loader, candidates: [{loader, score: 1, selected: true, reasons}]};
   }
 
   // Build list of candidate loaders that will be searched in order for a match
@@ -99,63 +175,140 @@ export function selectLoaderSync(
   // TODO - remove support for legacy loaders
   normalizeLoaders(candidateLoaders);
 
-  const loader = selectLoaderInternal(data, candidateLoaders, options, context);
-
-  // no loader available
-  if (!loader && !options?.nothrow) {
-    throw new Error(getNoValidLoaderMessage(data));
+  const explanation = rankLoaders(data, initialData, candidateLoaders, options, context);
+  const {loader} = explanation;
+  if (loader) {
+    const reasons = explanation.candidates[0].reasons.join(', ');
+    log.log(1, `selectLoader selected ${loader.name}: ${reasons}.`);
   }
-
-  return loader;
+  return explanation;
 }
 
-/** Implements loaders selection logic */
-// eslint-disable-next-line complexity
-function selectLoaderInternal(
+/** Implements loaders selection logic: scores loaders and sorts them, best match first */
+function rankLoaders(
   data: Response | Blob | ArrayBuffer | string,
+  initialData: ArrayBuffer | undefined,
   loaders: Loader[],
   options?: LoaderOptions,
   context?: LoaderContext
-) {
+): LoaderSelectionExplanation {
   const url = getResourceUrl(data);
-  const type = getResourceMIMEType(data);
-
   const testUrl = stripQueryString(url) || context?.url;
+  const match = testUrl && EXT_PATTERN.exec(testUrl);
+  const evidence: SelectionEvidence = {
+    extension: match ? match[1].toLowerCase() : '',
+    mimeType: getResourceMIMEType(data),
+    // Initial bytes are not always accessible (e.g. Response, stream, async iterator)
+    content: getContent(data) || initialData || null,
+    text: undefined
+  };
+
+  const candidates = loaders.map((loader) => scoreLoader(loader, evidence, options));
+
+  // Fall back to `options.fallbackMimeType` if no loader matched
+  if (options?.fallbackMimeType && candidates.every((candidate) => candidate.score === 0)) {
+    scoreFallbackMIMEType(candidates, options.fallbackMimeType);
+  }
 
-  let loader: Loader | null = null;
-  let reason: string = '';
+  // Stable sort, loaders earlier in the list win ties
+  candidates.sort((a, b) => b.score - a.score);
+  const best = candidates[0];
+  if (best?.score > 0) {
+    best.selected = true;
+  }
+  return {loader: best?.selected ? best.loader : null, candidates};
+}
+
+/** Everything that is known about the data */
+type SelectionEvidence = {
+  extension: string;
+  mimeType: string;
+  content: string | ArrayBuffer | ArrayBufferView | null;
+  /** Initial text, decoded on demand for text loaders */
+  text: string | undefined;
+};
+
+function scoreLoader(
+  loader: Loader,
+  evidence: SelectionEvidence,
+  options?: LoaderOptions
+): LoaderSelectionCandidate {
+  const candidate: LoaderSelectionCandidate = {loader, score: 0, selected: false, reasons: []};
+  const {reasons} = candidate;
 
   // if options.mimeType is supplied, it takes precedence
-  if (options?.mimeType) {
-    loader = findLoaderByMIMEType(loaders, options?.mimeType);
-    reason = `match forced by supplied MIME type ${options?.mimeType}`;
+  if (options?.mimeType && matchesMIMEType(loader, options.mimeType)) {
+    candidate.score += FORCED_MIME_TYPE_SCORE;
+    reasons.push(`match forced by supplied MIME type ${options.mimeType}`);
   }
 
-  // Look up loader by url
-  loader = loader || findLoaderByUrl(loaders, testUrl);
-  reason = reason || (loader ? `matched url ${testUrl}` : '');
+  if (evidence.extension) {
+    if (matchesExtension(loader, evidence.extension)) {
+      candidate.score += EXTENSION_SCORE;
+      reasons.push(`matches extension ${evidence.extension}`);
+    } else {
+      reasons.push(`does not match extension ${evidence.extension}`);
+    }
+  }
 
-  // Look up loader by mime type
-  loader = loader || findLoaderByMIMEType(loaders, type);
-  reason = reason || (loader ? `matched MIME type ${type}` : '');
+  if (evidence.mimeType) {
+    if (matchesMIMEType(loader, evidence.mimeType)) {
+      candidate.score += MIME_TYPE_SCORE;
+      reasons.push(`matches MIME type ${evidence.mimeType}`);
+    } else {
+      reasons.push(`does not match MIME type ${evidence.mimeType}`);
+    }
+  }
 
-  // Look for loader via initial bytes (Note: not always accessible (e.g. Response, stream, async iterator)
-  // @ts-ignore Blob | Response
-  loader = loader || findLoaderByInitialBytes(loaders, data);
-  // @ts-ignore Blob | Response
-  reason = reason || (loader ? `matched initial data ${getFirstCharacters(data)}` : '');
+  if (evidence.content) {
+    scoreContent(candidate, evidence, evidence.content);
+  } else {
+    reasons.push('initial data not available');
+  }
+
+  return candidate;
+}
 
-  // Look up loader by fallback mime type
-  if (options?.fallbackMimeType) {
-    loader = loader || findLoaderByMIMEType(loaders, options?.fallbackMimeType);
-    reason = reason || (loader ? `matched fallback MIME type ${type}` : '');
+function scoreContent(
+  candidate: LoaderSelectionCandidate,
+  evidence: SelectionEvidence,
+  content: string | ArrayBuffer | ArrayBufferView
+): void {
+  const {loader, reasons} = candidate;
+
+  if (loader.tests || loader.testText) {
+    const firstCharacters = getFirstCharacters(content);
+    if (testContent(content, loader)) {
+      candidate.score += TEST_SCORE;
+      reasons.push(`matches initial data ${firstCharacters}`);
+    } else {
+      reasons.push(`does not match initial data ${firstCharacters}`);
+    }
   }
 
-  if (reason) {
-    log.log(1, `selectLoader selected ${loader?.name}: ${reason}.`);
+  if (loader.sniff) {
+    const confidence = Math.min(Math.max(loader.sniff(getSniffData(evidence, loader)), 0), 1);
+    candidate.score += confidence * SNIFF_SCORE;
+    reasons.push(`sniffed initial data with confidence ${confidence}`);
   }
+}
 
-  return loader;
+function scoreFallbackMIMEType(candidates: LoaderSelectionCandidate[], mimeType: string): void {
+  for (const candidate of candidates) {
+    if (matchesMIMEType(candidate.loader, mimeType)) {
+      candidate.score += FALLBACK_MIME_TYPE_SCORE;
+      candidate.reasons.push(`matches fallback MIME type ${mimeType}`);
+    }
+  }
+}
+
+/** Reading initial data is only worthwhile if nothing matched, or if sniffing can tell matches apart */
+function needsContent(explanation: LoaderSelectionExplanation): boolean {
+  const matches = explanation.candidates.filter((candidate) => candidate.score > 0);
+  return (
+    matches.length === 0 ||
+    (matches.length > 1 && matches.some(({loader}) => typeof loader.sniff === 'function'))
+  );
 }
 
 /** Check HTTP Response */
@@ -192,67 +345,88 @@ function normalizeLoaders(loaders: Loader[]): void {
   }
 }
 
-// TODO - Would be nice to support http://example.com/file.glb?parameter=1
-// E.g: x = new URL('http://example.com/file.glb?load=1'; x.pathname
-function findLoaderByUrl(loaders: Loader[], url?: string): Loader | null {
-  // Get extension
-  const match = url && EXT_PATTERN.exec(url);
-  const extension = match && match[1];
-  return extension ? findLoaderByExtension(loaders, extension) : null;
+function matchesExtension(loader: Loader, extension: string): boolean {
+  return loader.extensions.some((loaderExtension) => loaderExtension.toLowerCase() === extension);
 }
 
-function findLoaderByExtension(loaders: Loader[], extension: string): Loader | null {
-  extension = extension.toLowerCase();
+function matchesMIMEType(loader: Loader, mimeType: string): boolean {
+  return (
+    loader.mimeTypes?.some((mimeType1) => compareMIMETypes(mimeType, mimeType1)) ||
+    // Support referring to loaders using the "unregistered tree"
+    // https://en.wikipedia.org/wiki/Media_type#Unregistered_tree
+    compareMIMETypes(mimeType, `application/x.${loader.id}`)
+  );
+}
 
-  for (const loader of loaders) {
-    for (const loaderExtension of loader.extensions) {
-      if (loaderExtension.toLowerCase() === extension) {
-        return loader;
-      }
-    }
+/** Data that can be tested synchronously */
+function getContent(
+  data: Response | Blob | ArrayBuffer | string
+): string | ArrayBuffer | ArrayBufferView | null {
+  if (typeof data === 'string' || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data;
   }
   return null;
 }
 
-function findLoaderByMIMEType(loaders: Loader[], mimeType: string): Loader | null {
-  for (const loader of loaders) {
-    if (loader.mimeTypes?.some((mimeType1) => compareMIMETypes(mimeType, mimeType1))) {
-      return loader;
-    }
+/** Reads the initial bytes of a Blob, or of a Response without consuming it */
+async function readInitialData(
+  data: Response | Blob | ArrayBuffer | string
+): Promise<ArrayBuffer | null> {
+  if (isBlob(data)) {
+    return await (data as Blob).slice(0, SNIFF_LENGTH).arrayBuffer();
+  }
+  if (!isResponse(data) || (data as Response).bodyUsed || !(data as Response).body) {
+    return null;
+  }
 
-    // Support referring to loaders using the "unregistered tree"
-    // https://en.wikipedia.org/wiki/Media_type#Unregistered_tree
-    if (compareMIMETypes(mimeType, `application/x.${loader.id}`)) {
-      return loader;
+  const reader = (data as Response).clone().body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+  while (byteLength < SNIFF_LENGTH) {
+    const {done, value} = await reader.read();
+    if (done) {
+      break;
     }
+    chunks.push(value);
+    byteLength += value.byteLength;
   }
-  return null;
+  await reader.cancel();
+  return concatenateArrayBuffers(...chunks).slice(0, SNIFF_LENGTH);
 }
 
-function findLoaderByInitialBytes(loaders: Loader[], data: string | ArrayBuffer): Loader | null {
-  if (!data) {
-    return null;
+/** Text loaders are passed initial text, other loaders initial bytes */
+function getSniffData(evidence: SelectionEvidence, loader: Loader): ArrayBuffer | string {
+  const {content} = evidence;
+  if (loader.text && !loader.binary) {
+    evidence.text =
+      evidence.text ??
+      (typeof content === 'string'
+        ? content.slice(0, SNIFF_LENGTH)
+        : new TextDecoder().decode(getInitialBytes(content!)));
+    return evidence.text;
   }
+  return typeof content === 'string'
+    ? new TextEncoder().encode(content.slice(0, SNIFF_LENGTH)).buffer
+    : getInitialBytes(content!);
+}
 
-  for (const loader of loaders) {
-    if (typeof data === 'string') {
-      if (testDataAgainstText(data, loader)) {
-        return loader;
-      }
-    } else if (ArrayBuffer.isView(data)) {
-      // Typed Arrays can have offsets into underlying buffer
-      if (testDataAgainstBinary(data.buffer, data.byteOffset, loader)) {
-        return loader;
-      }
-    } else if (data instanceof ArrayBuffer) {
-      const byteOffset = 0;
-      if (testDataAgainstBinary(data, byteOffset, loader)) {
-        return loader;
-      }
-    }
-    // TODO Handle streaming case (requires creating a new AsyncIterator)
+function getInitialBytes(data: ArrayBuffer | ArrayBufferView): ArrayBuffer {
+  if (ArrayBuffer.isView(data)) {
+    const byteLength = Math.min(data.byteLength, SNIFF_LENGTH);
+    return data.buffer.slice(data.byteOffset, data.byteOffset + byteLength);
   }
-  return null;
+  return data.slice(0, SNIFF_LENGTH);
+}
+
+function testContent(content: string | ArrayBuffer | ArrayBufferView, loader: Loader): boolean {
+  if (typeof content === 'string') {
+    return testDataAgainstText(content, loader);
+  } else if (ArrayBuffer.isView(content)) {
+    // Typed Arrays can have offsets into underlying buffer
+    return testDataAgainstBinary(content.buffer, content.byteOffset, loader);
+  }
+  const byteOffset = 0;
+  return testDataAgainstBinary(content, byteOffset, loader);
 }
 
 function testDataAgainstText(data: string, loader: Loader): boolean {
@@ -292,7 +466,7 @@ function testBinary(
   }
 }
 
-function getFirstCharacters(data: string | ArrayBuffer | TypedArray, length: number = 5) {
+function getFirstCharacters(data: string | ArrayBuffer | ArrayBufferView, length: number = 5) {
   if (typeof data === 'string') {
     return data.slice(0, length);
   } else if (ArrayBuffer.isView(data)) {
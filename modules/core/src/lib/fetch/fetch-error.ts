@@ -2,9 +2,13 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
-export class FetchError extends Error {
+import {LoaderError, NetworkError} from '@loaders.gl/loader-utils';
+
+/** Thrown when a request returns an error status */
+export class FetchError extends NetworkError {
   constructor(message: string, info: {url: string; reason: string; response?: Response}) {
-    super(message);
+    super(message, {url: info.url, status: info.response?.status});
+    this.name = 'FetchError';
     this.reason = info.reason;
     this.url = info.url;
     this.response = info.response;
@@ -16,3 +20,14 @@ export class FetchError extends Error {
   /** The Response object, if any. */
   response?: Response;
 }
+
+/**
+ * Reports a failed request (e.g. a network failure or a missing local file) as a `NetworkError`
+ * @returns the error to throw
+ */
+export function getNetworkError(error: unknown, url?: string): unknown {
+  if (error instanceof LoaderError || !(error instanceof Error)) {
+    return error;
+  }
+  return new NetworkError(error.message, {url, cause: error});
+}
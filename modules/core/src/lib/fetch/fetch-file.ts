@@ -4,6 +4,7 @@
 
 import {resolvePath} from '@loaders.gl/loader-utils';
 import {makeResponse} from '../utils/response-utils';
+import {getGlobalLoaderOptions} from '../loader-utils/option-utils';
 // import {FetchError} from './fetch-error';
 
 export function isNodePath(url: string): boolean {
@@ -22,10 +23,23 @@ export function isDataURL(url: string): boolean {
  * fetch API compatible function
  * - Supports fetching from Node.js local file system paths
  * - Respects pathPrefix and file aliases
+ * - Uses the global `responseCache` loader option, if set
  */
 export async function fetchFile(
   urlOrData: string | Blob,
   fetchOptions?: RequestInit
+): Promise<Response> {
+  const {responseCache} = getGlobalLoaderOptions();
+  if (responseCache && typeof urlOrData === 'string') {
+    return await responseCache.fetch(resolvePath(urlOrData), fetchOptions, fetchResource);
+  }
+  return await fetchResource(urlOrData, fetchOptions);
+}
+
+/** `fetchFile` without the response cache */
+export async function fetchResource(
+  urlOrData: string | Blob,
+  fetchOptions?: RequestInit
 ): Promise<Response> {
   if (typeof urlOrData === 'string') {
     const url = resolvePath(urlOrData);
@@ -0,0 +1,82 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {StreamDecompression} from '@loaders.gl/loader-utils';
+import {makeIterator} from '../../iterators/make-iterator/make-iterator';
+import {makeStream} from '../../iterators/make-stream/make-stream';
+import {stripQueryString} from '../utils/url-utils';
+
+const EXT_PATTERN = /\.([^.]+)$/;
+
+/**
+ * Decompresses a response with one of the supplied compressions, selected by the URL extension
+ * (e.g. `.csv.gz`) or by the `Content-Encoding` header.
+ * @note `fetch` decodes the `Content-Encoding`s that it supports. Formats with a signature are
+ * therefore only decompressed if the data starts with it, other formats only by URL extension.
+ * @returns a response that streams the decompressed data, or the original response
+ */
+export async function decompressResponse(
+  response: Response,
+  compressions: StreamDecompression[] = []
+): Promise<Response> {
+  const extension = getExtension(response.url);
+  const contentEncoding = response.headers.get('content-encoding');
+  const compressionByExtension = compressions.find((compression) =>
+    compression.extensions.includes(extension)
+  );
+  const compression =
+    compressionByExtension ||
+    compressions.find((compression) =>
+      compression.contentEncodings.includes(contentEncoding || '')
+    );
+  if (!compression || !response.ok || !response.body) {
+    return response;
+  }
+
+  const isCompressed = compression.signature
+    ? await startsWithSignature(response, compression.signature)
+    : Boolean(compressionByExtension) && !contentEncoding;
+  if (!isCompressed) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  headers.delete('content-encoding');
+  // Length of the decompressed data is not known
+  headers.delete('content-length');
+  const batches = compression.decompressBatches(makeIterator(response.body));
+  const decompressedResponse = new Response(makeStream(batches), {
+    headers,
+    status: response.status,
+    statusText: response.statusText
+  });
+
+  // Remove the compression extension, so that loaders are selected by the remaining extension
+  const url = compressionByExtension
+    ? response.url.replace(new RegExp(`\\.${extension}(?=$|[?#])`, 'i'), '')
+    : response.url;
+  Object.defineProperty(decompressedResponse, 'url', {value: url});
+  return decompressedResponse;
+}
+
+function getExtension(url: string): string {
+  const match = EXT_PATTERN.exec(stripQueryString(url));
+  return match ? match[1].toLowerCase() : '';
+}
+
+/** Reads the initial bytes from a copy of the response */
+async function startsWithSignature(response: Response, signature: number[]): Promise<boolean> {
+  const reader = response.clone().body!.getReader();
+  const bytes: number[] = [];
+  while (bytes.length < signature.length) {
+    const {done, value} = await reader.read();
+    if (done) {
+      break;
+    }
+    bytes.push(...value.subarray(0, signature.length));
+  }
+  // Cancelling a clone only completes when the original response has been read, so do not wait
+  reader.cancel().catch(() => {});
+  return signature.every((byte, i) => bytes[i] === byte);
+}
@@ -3,8 +3,9 @@
 // Copyright (c) vis.gl contributors
 
 import type {LoaderContext, LoaderOptions, FetchLike} from '@loaders.gl/loader-utils';
+import {withFetchPolicy, withResponseCache} from '@loaders.gl/loader-utils';
 import {isObject} from '../../javascript-utils/is-type';
-import {fetchFile} from '../fetch/fetch-file';
+import {fetchResource} from '../fetch/fetch-file';
 import {getGlobalLoaderOptions} from './option-utils';
 
 /**
@@ -15,19 +16,41 @@ import {getGlobalLoaderOptions} from './option-utils';
 export function getFetchFunction(
   options?: LoaderOptions,
   context?: Omit<LoaderContext, 'fetch'> & Partial<Pick<LoaderContext, 'fetch'>>
+): FetchLike {
+  const fetchFunction = getFetchFunctionWithPolicy(options, context);
+  // options.signal aborts all requests
+  const signal = options?.signal;
+  return signal
+    ? (url, fetchOptions) => fetchFunction(url, {signal, ...fetchOptions})
+    : fetchFunction;
+}
+
+/** Gets the fetch function with any fetch policy and response cache applied */
+function getFetchFunctionWithPolicy(
+  options?: LoaderOptions,
+  context?: Omit<LoaderContext, 'fetch'> & Partial<Pick<LoaderContext, 'fetch'>>
 ): FetchLike {
   const globalOptions = getGlobalLoaderOptions();
 
   const loaderOptions = options || globalOptions;
+  // Retry, backoff and timeout policy, if any
+  const fetchPolicy = loaderOptions.fetchPolicy || globalOptions.fetchPolicy;
+  // Response cache, if any. Cache hits skip the fetch policy.
+  const responseCache = loaderOptions.responseCache || globalOptions.responseCache;
+  const applyPolicies = (fetchFunction: FetchLike) =>
+    withResponseCache(withFetchPolicy(fetchFunction, fetchPolicy), responseCache);
 
   // options.fetch can be a function
   if (typeof loaderOptions.fetch === 'function') {
-    return loaderOptions.fetch;
+    return applyPolicies(loaderOptions.fetch);
   }
 
   // options.fetch can be an options object
   if (isObject(loaderOptions.fetch)) {
-    return (url) => fetchFile(url, loaderOptions.fetch as RequestInit);
+    const fetchOptions = loaderOptions.fetch as RequestInit;
+    return applyPolicies((url, requestOptions) =>
+      fetchResource(url, {...fetchOptions, ...requestOptions})
+    );
   }
 
   // else refer to context (from parent loader) if available
@@ -36,5 +59,5 @@ export function getFetchFunction(
   }
 
   // else return the default fetch function
-  return fetchFile;
+  return applyPolicies(fetchResource);
 }
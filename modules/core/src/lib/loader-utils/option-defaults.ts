@@ -9,6 +9,10 @@ import {ConsoleLog} from './loggers';
 export const DEFAULT_LOADER_OPTIONS: LoaderOptions = {
   // baseUri
   fetch: null,
+  fetchPolicy: undefined,
+  responseCache: undefined,
+  signal: undefined,
+  onProgress: undefined,
   mimeType: undefined,
   nothrow: false,
   log: new ConsoleLog(), // A probe.gl compatible (`log.log()()` syntax) that just logs to console
@@ -19,6 +23,8 @@ export const DEFAULT_LOADER_OPTIONS: LoaderOptions = {
   maxConcurrency: 3, // How many worker instances should be created for each loader.
   maxMobileConcurrency: 1, // How many worker instances should be created for each loader on mobile devices.
   reuseWorkers: isBrowser, // By default reuse workers in browser (Node.js refuses to terminate if browsers are running)
+  jobTimeout: 0, // By default worker jobs do not time out
+  maxJobRetries: 0, // By default worker jobs are not retried after a worker crash
   _nodeWorkers: false, // By default do not support node workers
   _workerType: '', // 'test' to use locally generated workers
 
@@ -27,7 +33,8 @@ export const DEFAULT_LOADER_OPTIONS: LoaderOptions = {
   batchSize: 'auto',
   batchDebounceMs: 0,
   metadata: false, // TODO - currently only implemented for parseInBatches, adds initial metadata batch,
-  transforms: []
+  transforms: [],
+  compressions: []
 };
 
 export const REMOVED_LOADER_OPTIONS = {
@@ -45,6 +52,5 @@ export const REMOVED_LOADER_OPTIONS = {
   referrer: 'fetch.referrer',
   referrerPolicy: 'fetch.referrerPolicy',
   integrity: 'fetch.integrity',
-  keepalive: 'fetch.keepalive',
-  signal: 'fetch.signal'
+  keepalive: 'fetch.keepalive'
 };
@@ -0,0 +1,138 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {LoaderProgress} from '@loaders.gl/loader-utils';
+import {isTable, getTableLength} from '@loaders.gl/schema-utils';
+import {isResponse} from '../../javascript-utils/is-type';
+import {getResourceContentLength} from '../utils/resource-utils';
+
+/**
+ * Accumulates progress of a `load()` / `parse()` / `parseInBatches()` call
+ * and reports it to `options.onProgress`
+ */
+export class ProgressTracker {
+  readonly progress: LoaderProgress;
+  private onProgress: (progress: LoaderProgress) => void;
+
+  constructor(onProgress: (progress: LoaderProgress) => void, totalBytes: number | null) {
+    this.onProgress = onProgress;
+    this.progress = {loadedBytes: 0, totalBytes, batches: 0, rows: 0, done: false};
+  }
+
+  /** Count bytes that have been fetched or read */
+  addBytes(byteLength: number): void {
+    this.progress.loadedBytes += byteLength;
+    this._report();
+  }
+
+  /** Count an emitted batch, and the rows it contains */
+  addBatch(batch: unknown): void {
+    this.progress.batches++;
+    this.progress.rows += getBatchLength(batch);
+    this._report();
+  }
+
+  /**
+   * Report the final progress event
+   * @param data parsed data (atomic parsing only), used to count rows
+   */
+  done(data?: unknown): void {
+    const {progress} = this;
+    // Inputs that were not streamed (e.g. ArrayBuffers) are only counted at the end
+    if (progress.totalBytes !== null && progress.loadedBytes < progress.totalBytes) {
+      progress.loadedBytes = progress.totalBytes;
+    }
+    if (data !== undefined) {
+      progress.rows = getDataLength(data);
+    }
+    progress.done = true;
+    this._report();
+  }
+
+  /** Returns a response with identical content, whose body counts bytes as they are read */
+  trackResponse(response: Response): Response {
+    const body = response.body;
+    // Bodies that can't be piped are counted when parsing is done
+    if (!body || typeof body.pipeThrough !== 'function' || typeof TransformStream === 'undefined') {
+      return response;
+    }
+
+    const countBytes = new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        this.addBytes(chunk.byteLength);
+        controller.enqueue(chunk);
+      }
+    });
+
+    const {status, statusText, headers} = response;
+    const trackedResponse = new Response(body.pipeThrough(countBytes), {
+      status,
+      statusText,
+      headers
+    });
+    // url is used for loader selection and error messages
+    Object.defineProperty(trackedResponse, 'url', {value: response.url});
+    return trackedResponse;
+  }
+
+  /** Counts bytes of an input iterator as chunks are consumed */
+  async *trackInput(
+    iterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
+  ): AsyncIterable<ArrayBuffer> {
+    for await (const chunk of iterator) {
+      this.addBytes(chunk.byteLength);
+      yield chunk;
+    }
+  }
+
+  /** Counts batches and rows of an output iterator, and reports the final event when it is exhausted */
+  async *trackBatches<T>(iterator: AsyncIterable<T> | Iterable<T>): AsyncIterable<T> {
+    for await (const batch of iterator) {
+      if ((batch as {batchType?: string})?.batchType !== 'metadata') {
+        this.addBatch(batch);
+      }
+      yield batch;
+    }
+    this.done();
+  }
+
+  protected _report(): void {
+    this.onProgress({...this.progress});
+  }
+}
+
+/**
+ * Creates a progress tracker if `options.onProgress` is set
+ * @note Nested calls (from sub loaders, identified by a `context`) do not report progress
+ */
+export function getProgressTracker(
+  data: unknown,
+  options: {onProgress?: (progress: LoaderProgress) => void} | undefined,
+  context?: unknown
+): ProgressTracker | null {
+  if (!options?.onProgress || context) {
+    return null;
+  }
+  const contentLength = getResourceContentLength(data);
+  return new ProgressTracker(options.onProgress, contentLength >= 0 ? contentLength : null);
+}
+
+/** Wraps response bodies so that bytes are counted as they are read */
+export function trackData<T>(data: T, progressTracker: ProgressTracker | null): T {
+  return progressTracker && isResponse(data)
+    ? (progressTracker.trackResponse(data as Response) as T)
+    : data;
+}
+
+function getBatchLength(batch: unknown): number {
+  const length = (batch as {length?: unknown})?.length;
+  return typeof length === 'number' ? length : 0;
+}
+
+function getDataLength(data: unknown): number {
+  if (isTable(data)) {
+    return getTableLength(data);
+  }
+  return Array.isArray(data) ? data.length : 0;
+}
@@ -82,7 +82,8 @@ export function getResourceMIMEType(resource: unknown): string {
 export function getResourceContentLength(resource: unknown): number {
   if (isResponse(resource)) {
     const response = resource as Response;
-    return response.headers['content-length'] || -1;
+    const contentLength = response.headers.get('content-length');
+    return contentLength ? Number(contentLength) : -1;
   }
   if (isBlob(resource)) {
     const blob = resource as Blob;
@@ -2,6 +2,7 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
+import {NetworkError} from '@loaders.gl/loader-utils';
 import {isResponse} from '../../javascript-utils/is-type';
 import {FetchError} from '../fetch/fetch-error';
 import {getResourceContentLength, getResourceUrl, getResourceMIMEType} from './resource-utils';
@@ -73,7 +74,7 @@ export function checkResponseSync(response: Response): void {
   if (!response.ok) {
     let message = `${response.status} ${response.statusText}`;
     message = message.length > 60 ? `${message.slice(0, 60)}...` : message;
-    throw new Error(message);
+    throw new NetworkError(message, {url: response.url, status: response.status});
   }
 }
 
@@ -31,9 +31,11 @@ import './lib/api/parse.spec';
 import './lib/api/load.spec';
 import './lib/api/parse-in-batches.spec';
 import './lib/api/load-in-batches.spec';
+import './lib/api/convert.spec';
 import './lib/init.spec';
 
 // EXPERIMENTAL
 
 import './lib/progress/fetch-progress.spec';
+import './lib/progress/progress-tracker.spec';
 import './lib/filesystems/browser-filesystem.spec';
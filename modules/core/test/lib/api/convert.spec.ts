@@ -0,0 +1,108 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {convert, convertInBatches, parse} from '@loaders.gl/core';
+import {CSVLoader, CSVWriter} from '@loaders.gl/csv';
+import {ParquetJSONLoader, _ParquetJSONWriter as ParquetJSONWriter} from '@loaders.gl/parquet';
+import {MemoryFileSystem, concatenateArrayBuffersAsync} from '@loaders.gl/loader-utils';
+import type {WriterWithEncoder} from '@loaders.gl/loader-utils';
+import type {Batch, ObjectRowTable} from '@loaders.gl/schema';
+
+const CSV_SAMPLE_VERY_LONG_URL = '@loaders.gl/csv/test/data/sample-very-long.csv';
+
+/** Writer without batch support, outputs the number of rows */
+const RowCountWriter = {
+  name: 'Row count',
+  id: 'row-count',
+  module: 'test',
+  version: 'latest',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+  options: {},
+  encode: async (table: ObjectRowTable) =>
+    new TextEncoder().encode(String(table.data.length)).buffer as ArrayBuffer
+} as const satisfies WriterWithEncoder<ObjectRowTable>;
+
+test('convertInBatches#CSV to CSV', async (t) => {
+  let batchCount = 0;
+  const chunks = await convertInBatches(CSV_SAMPLE_VERY_LONG_URL, {
+    from: [CSVLoader],
+    to: CSVWriter,
+    loadOptions: {csv: {shape: 'array-row-table'}, batchSize: 100, metadata: true}
+  });
+  for await (const chunk of chunks) {
+    t.ok(chunk.byteLength > 0, 'chunk has content');
+    batchCount++;
+  }
+  t.ok(batchCount > 1, 'output is encoded in batches');
+  t.end();
+});
+
+test('convertInBatches#CSV to Parquet', async (t) => {
+  const chunks: ArrayBuffer[] = [];
+  for await (const chunk of await convertInBatches(CSV_SAMPLE_VERY_LONG_URL, {
+    from: [CSVLoader],
+    to: ParquetJSONWriter,
+    loadOptions: {csv: {shape: 'object-row-table'}, batchSize: 100},
+    writeOptions: {parquet: {rowGroupSize: 500}}
+  })) {
+    chunks.push(chunk);
+  }
+  t.ok(chunks.length > 1, 'row groups are written as they are encoded');
+
+  const arrayBuffer = await concatenateArrayBuffersAsync(chunks);
+  const table = await parse(arrayBuffer, ParquetJSONLoader, {worker: false});
+  t.equal(table.data.length, 2000, 'all rows are written');
+  t.equal(table.data[0]['meaning of life'], 42, 'numbers are written');
+  t.end();
+});
+
+test('convert#transforms and WritableFile output', async (t) => {
+  const fileSystem = new MemoryFileSystem();
+  const keepFirstRows = async function* (batches: AsyncIterable<Batch>) {
+    for await (const batch of batches) {
+      const rows = batch.data as unknown[][];
+      yield {...batch, data: rows.slice(0, 2), length: 2};
+      return;
+    }
+  };
+
+  await convert(CSV_SAMPLE_VERY_LONG_URL, {
+    from: CSVLoader,
+    to: CSVWriter,
+    loadOptions: {csv: {shape: 'array-row-table'}, batchSize: 100},
+    transforms: [keepFirstRows],
+    output: await fileSystem.openWritable('output/sample.csv')
+  });
+
+  const response = await fileSystem.fetch('output/sample.csv');
+  t.equal(
+    await response.text(),
+    'placeholder,meaning of life,TLD\nLorem ipsum dolor sit,42,ABC\nEtiam a dolor vitae est vestibulum,84,DEF',
+    'transformed batches written to file'
+  );
+  t.end();
+});
+
+test('convert#writer without batch support, WritableStream output', async (t) => {
+  const chunks: Uint8Array[] = [];
+  const output = new WritableStream<Uint8Array>({
+    write: (chunk) => {
+      chunks.push(chunk);
+    }
+  });
+
+  await convert(CSV_SAMPLE_VERY_LONG_URL, {
+    from: [CSVLoader],
+    to: RowCountWriter,
+    loadOptions: {csv: {shape: 'object-row-table'}, batchSize: 100},
+    output
+  });
+
+  const text = new TextDecoder().decode(await concatenateArrayBuffersAsync(chunks));
+  t.equal(text, '2000', 'batches assembled and encoded at once');
+  t.equal(chunks.length, 1, 'single chunk written to stream');
+  t.end();
+});
@@ -7,11 +7,14 @@ import {loadInBatches, fetchFile, isBrowser} from '@loaders.gl/core';
 import {CSVLoader} from '@loaders.gl/csv';
 import {OBJLoader} from '@loaders.gl/obj';
 import {KMLLoader} from '@loaders.gl/kml';
+import {GZipCompression, LZ4Compression} from '@loaders.gl/compression';
 import type {ObjectRowTableBatch} from '@loaders.gl/schema';
+import lz4js from 'lz4js';
 
 const CSV_SAMPLE_VERY_LONG_URL = '@loaders.gl/csv/test/data/sample-very-long.csv';
 const OBJ_ASCII_URL = '@loaders.gl/obj/test/data/bunny.obj';
 const KML_URL = '@loaders.gl/kml/test/data/kml/KML_Samples.kml';
+const CSV_COMPRESSED_URL = '@loaders.gl/compression/test/data/sample.csv';
 
 test('loadInBatches#FileList', async (t) => {
   if (isBrowser) {
@@ -66,3 +69,41 @@ test('loadInBatches(options.limit)', async (t) => {
   t.is(rows.length, 100, 'Got the correct table size with options.limit');
   t.end();
 });
+
+test('loadInBatches#options.compressions', async (t) => {
+  const compressions = [new GZipCompression(), new LZ4Compression({modules: {lz4js}})];
+  const expectedRows = await countRows(await loadInBatches(CSV_COMPRESSED_URL, [CSVLoader]));
+
+  for (const extension of ['gz', 'lz4']) {
+    const batches = await loadInBatches(`${CSV_COMPRESSED_URL}.${extension}`, [CSVLoader], {
+      compressions
+    });
+    t.equal(await countRows(batches), expectedRows, `decompressed .${extension} by extension`);
+  }
+
+  // Data that fetch has not decoded
+  const compressedData = await (await fetchFile(`${CSV_COMPRESSED_URL}.gz`)).arrayBuffer();
+  const headers = {'content-encoding': 'gzip'};
+  let batches = await loadInBatches('sample', CSVLoader, {
+    compressions,
+    fetch: async () => new Response(compressedData, {headers})
+  });
+  t.equal(await countRows(batches), expectedRows, 'decompressed by Content-Encoding');
+
+  // Data that fetch has already decoded
+  const data = await (await fetchFile(CSV_COMPRESSED_URL)).arrayBuffer();
+  batches = await loadInBatches('sample', CSVLoader, {
+    compressions,
+    fetch: async () => new Response(data, {headers})
+  });
+  t.equal(await countRows(batches), expectedRows, 'skipped decoded data');
+  t.end();
+});
+
+async function countRows(batches: AsyncIterable<unknown>): Promise<number> {
+  let rowCount = 0;
+  for await (const batch of batches as AsyncIterable<ObjectRowTableBatch>) {
+    rowCount += batch.length;
+  }
+  return rowCount;
+}
@@ -3,14 +3,22 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
+import {getError} from 'test/common/get-error';
 import {parseFromContext} from '@loaders.gl/loader-utils';
 import {
   isBrowser,
   load,
   fetchFile,
+  parse,
   registerLoaders,
   resolvePath,
-  NullWorkerLoader
+  NullWorkerLoader,
+  AbortError,
+  ResponseCache,
+  LoaderError,
+  NetworkError,
+  UnsupportedFormatError,
+  CorruptDataError
 } from '@loaders.gl/core';
 import {JSONLoader} from '@loaders.gl/json';
 
@@ -41,6 +49,104 @@ test('load#with fetch options', async (t) => {
   t.end();
 });
 
+test('load#with fetch policy', async (t) => {
+  let requestCount = 0;
+  const fetch = async (url) => {
+    requestCount++;
+    return requestCount < 3 ? new Response('', {status: 503}) : new Response('{"abc": 1}');
+  };
+  t.deepEqual(
+    await load(JSON_URL, JSONLoader, {
+      fetch,
+      fetchPolicy: {maxRetries: 2, retryDelay: 1, jitter: 0}
+    }),
+    {abc: 1},
+    'load retries failed requests'
+  );
+  t.equal(requestCount, 3, 'request was retried');
+  t.end();
+});
+
+test('load#with response cache', async (t) => {
+  let requestCount = 0;
+  const fetch = async (url) => {
+    requestCount++;
+    return new Response('{"abc": 1}', {headers: {'Cache-Control': 'max-age=60'}});
+  };
+  const responseCache = new ResponseCache();
+  const url = 'https://example.com/basic.json';
+  t.deepEqual(await load(url, JSONLoader, {fetch, responseCache}), {abc: 1}, 'loads data');
+  t.deepEqual(await load(url, JSONLoader, {fetch, responseCache}), {abc: 1}, 'loads cached data');
+  t.equal(requestCount, 1, 'second load served from cache');
+  t.end();
+});
+
+test('load#with signal', async (t) => {
+  const controller = new AbortController();
+  controller.abort();
+  await t.rejects(
+    load(JSON_URL, JSONLoader, {signal: controller.signal}),
+    AbortError,
+    'load rejects with AbortError if signal is already aborted'
+  );
+
+  const abortingController = new AbortController();
+  const fetch = (url, fetchOptions) =>
+    new Promise<Response>((resolve, reject) => {
+      t.equal(fetchOptions?.signal, abortingController.signal, 'signal is passed to fetch');
+      fetchOptions?.signal?.addEventListener('abort', () => reject(new Error('fetch aborted')));
+      abortingController.abort();
+    });
+  await t.rejects(
+    load(JSON_URL, JSONLoader, {fetch, signal: abortingController.signal}),
+    AbortError,
+    'load rejects with AbortError if signal is aborted during fetch'
+  );
+
+  await t.rejects(
+    parse('{"abc": 1}', JSONLoader, {signal: controller.signal}),
+    AbortError,
+    'parse rejects with AbortError'
+  );
+  t.end();
+});
+
+test('load#errors', async (t) => {
+  const url = 'https://example.com/data.json';
+
+  const failingFetch = async () => {
+    throw new TypeError('fetch failed');
+  };
+  let error = await getError<LoaderError>(load(url, JSONLoader, {fetch: failingFetch}));
+  t.ok(error instanceof NetworkError, 'network failure rejects with NetworkError');
+  t.equal(error?.url, url, 'NetworkError has url');
+
+  const notFoundFetch = async () => new Response('', {status: 404});
+  error = await getError<LoaderError>(load(url, JSONLoader, {fetch: notFoundFetch}));
+  t.equal(error?.code, 'NETWORK', 'error status rejects with NetworkError');
+
+  error = await getError<LoaderError>(parse(new ArrayBuffer(8), [JSONLoader]));
+  t.ok(error instanceof UnsupportedFormatError, 'no matching loader');
+  t.equal(error?.code, 'UNSUPPORTED_FORMAT', 'has code');
+
+  const CorruptLoader = {
+    ...NullWorkerLoader,
+    id: 'corrupt',
+    worker: false,
+    parse: async () => {
+      throw new CorruptDataError('corrupt', {byteOffset: 4});
+    }
+  };
+  error = await getError<LoaderError>(
+    load(url, CorruptLoader, {fetch: async () => new Response('')})
+  );
+  t.equal(error?.code, 'CORRUPT_DATA', 'loader errors are passed through');
+  t.equal(error?.loader, 'corrupt', 'loader id is added');
+  t.equal(error?.url, url, 'url is added');
+  t.equal(error?.byteOffset, 4, 'byte offset is kept');
+  t.end();
+});
+
 test('load#load', async (t) => {
   t.ok(load, 'load defined');
   // @ts-ignore TS2554: Expected 2-4 arguments, but got 1.
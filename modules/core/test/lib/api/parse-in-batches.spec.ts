@@ -3,7 +3,7 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
-import {parseInBatches} from '@loaders.gl/core';
+import {parseInBatches, AbortError} from '@loaders.gl/core';
 
 const NoOpLoader = {
   name: 'JSON',
@@ -42,3 +42,30 @@ test('parseInBatches', async (t) => {
 
   t.end();
 });
+
+test('parseInBatches#signal', async (t) => {
+  const controller = new AbortController();
+  // @ts-ignore
+  const batches = await parseInBatches([1, 2, 3], NoOpLoader, {signal: controller.signal});
+
+  const received: unknown[] = [];
+  await t.rejects(
+    (async () => {
+      for await (const batch of batches) {
+        received.push(batch);
+        controller.abort();
+      }
+    })(),
+    AbortError,
+    'iteration stops with AbortError'
+  );
+  t.deepEquals(received, [1], 'no batches are returned after abort');
+
+  await t.rejects(
+    // @ts-ignore
+    parseInBatches([1], NoOpLoader, {signal: controller.signal}),
+    AbortError,
+    'rejects if signal is already aborted'
+  );
+  t.end();
+});
@@ -3,12 +3,20 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
-import {fetchFile, selectLoader, selectLoaderSync, isBrowser} from '@loaders.gl/core';
+import {
+  fetchFile,
+  selectLoader,
+  selectLoaderSync,
+  explainLoaderSelection,
+  isBrowser
+} from '@loaders.gl/core';
 import {ImageLoader} from '@loaders.gl/images';
 import {DracoLoader} from '@loaders.gl/draco';
 import {LASLoader} from '@loaders.gl/las';
 import {Tiles3DLoader} from '@loaders.gl/3d-tiles';
 import {KMLLoader} from '@loaders.gl/kml';
+import {JSONLoader, _GeoJSONLoader as GeoJSONLoader} from '@loaders.gl/json';
+import {TileJSONLoader} from '@loaders.gl/mvt';
 
 const KML_URL = '@loaders.gl/kml/test/data/kml/KML_Samples.kml';
 
@@ -215,3 +223,78 @@ test('selectLoader#Blob data sniffing', async (t) => {
   }
   t.end();
 });
+
+const GEOJSON = '{"type": "FeatureCollection", "features": []}';
+const TILEJSON = '{"tilejson": "3.0.0", "tiles": ["{z}/{x}/{y}.pbf"]}';
+const TILESET = '{"asset": {"version": "1.0"}, "geometricError": 100, "root": {}}';
+
+const JSON_LOADERS = [JSONLoader, TileJSONLoader, GeoJSONLoader, Tiles3DLoader];
+
+/** A JSON response without a url, so loaders can only be told apart by content */
+function makeJSONResponse(json: string): Response {
+  return new Response(json, {headers: {'Content-Type': 'application/json'}});
+}
+
+test('selectLoader#sniff', async (t) => {
+  t.is(
+    await selectLoader(makeJSONResponse(GEOJSON), JSON_LOADERS),
+    GeoJSONLoader,
+    'GeoJSON content outweighs MIME type'
+  );
+  t.is(
+    await selectLoader(makeJSONResponse(TILEJSON), JSON_LOADERS),
+    TileJSONLoader,
+    'TileJSON content selects TileJSONLoader'
+  );
+  t.is(
+    await selectLoader(makeJSONResponse(TILESET), JSON_LOADERS),
+    Tiles3DLoader,
+    'tileset content selects Tiles3DLoader'
+  );
+  t.is(
+    await selectLoader(makeJSONResponse('[1, 2, 3]'), JSON_LOADERS),
+    JSONLoader,
+    'first loader wins ties'
+  );
+  t.is(
+    selectLoaderSync(makeJSONResponse(GEOJSON), JSON_LOADERS),
+    JSONLoader,
+    'selectLoaderSync can not read Response content'
+  );
+  t.is(selectLoaderSync(TILESET, JSON_LOADERS), Tiles3DLoader, 'sniffs string data');
+
+  const response = makeJSONResponse(GEOJSON);
+  await selectLoader(response, JSON_LOADERS);
+  t.equal(await response.text(), GEOJSON, 'sniffing does not consume the response');
+  t.end();
+});
+
+test('explainLoaderSelection', async (t) => {
+  const {loader, candidates} = await explainLoaderSelection(makeJSONResponse(GEOJSON), [
+    LASLoader,
+    ...JSON_LOADERS
+  ]);
+  t.is(loader, GeoJSONLoader, 'returns selected loader');
+  t.is(candidates[0].loader, GeoJSONLoader, 'selected loader is ranked first');
+  t.ok(candidates[0].selected, 'marks selected loader');
+  t.equal(candidates.filter((candidate) => candidate.selected).length, 1, 'selects one loader');
+  t.ok(
+    candidates.every((candidate, i) => i === 0 || candidate.score <= candidates[i - 1].score),
+    'candidates are sorted by score'
+  );
+  t.ok(
+    candidates[0].reasons.some((reason) => reason.includes('sniffed')),
+    'explains sniffing'
+  );
+
+  const lasCandidate = candidates.find((candidate) => candidate.loader === LASLoader);
+  t.equal(lasCandidate?.score, 0, 'rejects non-matching loader');
+  t.ok(
+    lasCandidate?.reasons.includes('does not match MIME type application/json'),
+    'explains rejection'
+  );
+
+  const explanation = await explainLoaderSelection('data.obj', [LASLoader]);
+  t.equal(explanation.loader, null, 'does not throw if no loader matches');
+  t.end();
+});
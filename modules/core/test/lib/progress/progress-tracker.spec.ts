@@ -0,0 +1,96 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {load, loadInBatches, parse, parseInBatches} from '@loaders.gl/core';
+import type {LoaderProgress} from '@loaders.gl/core';
+import {JSONLoader} from '@loaders.gl/json';
+
+const JSON_URL = '@loaders.gl/core/test/data/files/basic.json';
+
+/** Emits one batch of `chunk.byteLength` rows per input chunk */
+const RowCountLoader = {
+  name: 'RowCount',
+  id: 'row-count',
+  module: 'core',
+  version: 'latest',
+  extensions: ['bin'],
+  mimeTypes: ['application/octet-stream'],
+  options: {},
+  async *parseInBatches(iterator) {
+    for await (const chunk of iterator) {
+      yield {batchType: 'data', data: [], length: chunk.byteLength};
+    }
+  }
+};
+
+test('onProgress#load', async (t) => {
+  const events: LoaderProgress[] = [];
+  const data = await load(JSON_URL, JSONLoader, {onProgress: (progress) => events.push(progress)});
+  t.ok(data, 'loads data');
+
+  const lastEvent = events[events.length - 1];
+  t.ok(events.length >= 2, 'reports progress while fetching');
+  t.ok(lastEvent.done, 'reports completion');
+  t.ok(lastEvent.totalBytes && lastEvent.totalBytes > 0, 'reports total bytes');
+  t.equal(lastEvent.loadedBytes, lastEvent.totalBytes, 'all bytes loaded');
+  t.ok(lastEvent.rows > 0, 'reports parsed rows');
+  t.equal(lastEvent.batches, 0, 'no batches for atomic parsing');
+  t.ok(
+    events.every((event, i) => i === 0 || event.loadedBytes >= events[i - 1].loadedBytes),
+    'loadedBytes is monotonic'
+  );
+  t.end();
+});
+
+test('onProgress#parse', async (t) => {
+  const events: LoaderProgress[] = [];
+  const arrayBuffer = new TextEncoder().encode('[1, 2, 3]').buffer;
+  await parse(arrayBuffer, JSONLoader, {onProgress: (progress) => events.push(progress)});
+  t.deepEqual(
+    events,
+    [{loadedBytes: 9, totalBytes: 9, batches: 0, rows: 3, done: true}],
+    'reports in-memory data on completion'
+  );
+  t.end();
+});
+
+test('onProgress#parseInBatches', async (t) => {
+  const events: LoaderProgress[] = [];
+  const chunks = [new ArrayBuffer(10), new ArrayBuffer(20), new ArrayBuffer(5)];
+  const batches = await parseInBatches(chunks, RowCountLoader, {
+    metadata: true,
+    onProgress: (progress) => events.push(progress)
+  });
+  for await (const batch of batches) {
+    t.ok(batch, 'batch emitted');
+  }
+
+  const lastEvent = events[events.length - 1];
+  t.deepEqual(
+    lastEvent,
+    {loadedBytes: 35, totalBytes: null, batches: 3, rows: 35, done: true},
+    'reports bytes, batches and rows (metadata batch is not counted)'
+  );
+  t.equal(events.filter((event) => event.done).length, 1, 'reports completion once');
+  t.end();
+});
+
+test('onProgress#loadInBatches', async (t) => {
+  const events: LoaderProgress[] = [];
+  const batches = await loadInBatches(JSON_URL, JSONLoader, {
+    onProgress: (progress) => events.push(progress)
+  });
+  let rowCount = 0;
+  for await (const batch of batches) {
+    rowCount += (batch as {length: number}).length;
+  }
+
+  const lastEvent = events[events.length - 1];
+  t.ok(lastEvent.done, 'reports completion');
+  t.equal(lastEvent.loadedBytes, lastEvent.totalBytes, 'all bytes loaded');
+  t.ok(lastEvent.batches > 0, 'reports batches');
+  t.equal(lastEvent.rows, rowCount, 'reports parsed rows');
+  t.end();
+});
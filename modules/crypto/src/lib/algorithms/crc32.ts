@@ -18,7 +18,7 @@ export default class CRC32 {
   update(arrayBuffer) {
     const CRC32_TABLE = getCRC32Table();
     const byteArray = new Uint8Array(arrayBuffer);
-    for (let i = 0; i < byteArray.byteLength; i++) {
+    for (let i = 0; i < byteArray.length; i++) {
       this.crc = (this.crc >>> 8) ^ CRC32_TABLE[(this.crc ^ byteArray[i]) & 0xff];
       // strings: crc = (crc >>> 8) ^ CRC32TAB[(crc ^ str.charCodeAt(i)) & 0xff];
     }
@@ -3,14 +3,30 @@
 // Copyright (c) vis.gl contributors
 
 import type {LoaderWithParser, LoaderOptions} from '@loaders.gl/loader-utils';
-import type {ArrowTable, ArrowTableBatch} from '@loaders.gl/schema';
-import {convertTable, convertBatches} from '@loaders.gl/schema-utils';
+import type {ArrowTable, ArrowTableBatch, Schema} from '@loaders.gl/schema';
 
 import type {CSVLoaderOptions} from './csv-loader';
 import {CSVLoader} from './csv-loader';
+import type {CSVArrowOptions} from './lib/parsers/parse-csv-to-arrow';
+import {parseCSVToArrow, parseCSVToArrowInBatches} from './lib/parsers/parse-csv-to-arrow';
 
 export type CSVArrowLoaderOptions = LoaderOptions & {
-  csv?: Omit<CSVLoaderOptions['csv'], 'shape'>;
+  csv?: Omit<
+    NonNullable<CSVLoaderOptions['csv']>,
+    'shape' | 'dynamicTyping' | 'optimizeMemoryUsage'
+  > & {
+    /** Types of columns, by name. The types of other columns are inferred */
+    schema?: Schema;
+    /** Number of rows that are read to infer the types of the columns */
+    inferSchemaRows?: number;
+    /** Values that are read as nulls */
+    nullValues?: string[];
+    /**
+     * Values that are not valid for the type of their column are replaced by nulls, and reported
+     * in the schema metadata (`'null'`), or throw a `CorruptDataError` (`'throw'`)
+     */
+    parseErrors?: 'null' | 'throw';
+  };
 };
 
 export const CSVArrowLoader = {
@@ -19,23 +35,38 @@ export const CSVArrowLoader = {
   dataType: null as unknown as ArrowTable,
   batchType: null as unknown as ArrowTableBatch,
 
-  parse: async (arrayBuffer: ArrayBuffer, options?: CSVLoaderOptions) =>
-    parseCSVToArrow(new TextDecoder().decode(arrayBuffer), options),
-  parseText: (text: string, options?: CSVLoaderOptions) => parseCSVToArrow(text, options),
-  parseInBatches: parseCSVToArrowBatches
+  parse: async (arrayBuffer: ArrayBuffer, options?: CSVArrowLoaderOptions) =>
+    parseCSVToArrow(new TextDecoder().decode(arrayBuffer), getCSVOptions(options)),
+  parseText: async (text: string, options?: CSVArrowLoaderOptions) =>
+    parseCSVToArrow(text, getCSVOptions(options)),
+  parseInBatches: (
+    asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>,
+    options?: CSVArrowLoaderOptions
+  ) => parseCSVToArrowInBatches(asyncIterator, getCSVOptions(options), getBatchSize(options)),
+
+  options: {
+    csv: {
+      header: 'auto',
+      columnPrefix: 'column',
+      quoteChar: '"',
+      escapeChar: '"',
+      comments: false,
+      skipEmptyLines: true,
+      delimitersToGuess: [',', '\t', '|', ';'],
+      schema: undefined,
+      inferSchemaRows: 1000,
+      nullValues: ['', 'null', 'NULL', 'NA', 'N/A'],
+      parseErrors: 'null'
+    }
+  }
 } as const satisfies LoaderWithParser<ArrowTable, ArrowTableBatch, CSVArrowLoaderOptions>;
 
-async function parseCSVToArrow(csvText: string, options?: CSVLoaderOptions): Promise<ArrowTable> {
-  // Apps can call the parse method directly, we so apply default options here
-  // const csvOptions = {...CSVArrowLoader.options.csv, ...options?.csv};
-  const table = await CSVLoader.parseText(csvText, options);
-  return convertTable(table, 'arrow-table');
+/** Apps can call the parse methods directly, so we apply default options here */
+function getCSVOptions(options?: CSVArrowLoaderOptions): CSVArrowOptions {
+  return {...CSVArrowLoader.options.csv, ...options?.csv} as CSVArrowOptions;
 }
 
-function parseCSVToArrowBatches(
-  asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>,
-  options?: CSVArrowLoaderOptions
-): AsyncIterable<ArrowTableBatch> {
-  const tableIterator = CSVLoader.parseInBatches(asyncIterator, options);
-  return convertBatches(tableIterator, 'arrow-table');
+function getBatchSize(options?: CSVArrowLoaderOptions): number {
+  const batchSize = options?.batchSize;
+  return typeof batchSize === 'number' ? batchSize : 4000;
 }
@@ -16,6 +16,7 @@ import {
 import Papa from './papaparse/papaparse';
 import AsyncIteratorStreamer from './papaparse/async-iterator-streamer';
 import {CSVFormat} from './csv-format';
+import {duplicateColumnTransformer, generateHeader} from './lib/utils/csv-header';
 
 // __VERSION__ is injected by babel-plugin-version-inline
 // @ts-ignore TS2304: Cannot find name '__VERSION__'.
@@ -280,40 +281,6 @@ function readFirstRow(csvText: string): any[] {
   return result.data[0];
 }
 
-/**
- * Creates a transformer that renames duplicate columns. This is needed as Papaparse doesn't handle
- * duplicate header columns and would use the latest occurrence by default.
- * See the header option in https://www.papaparse.com/docs#config
- * @returns a transform function that returns sanitized names for duplicate fields
- */
-function duplicateColumnTransformer(): (column: string) => string {
-  const observedColumns = new Set<string>();
-  return (col) => {
-    let colName = col;
-    let counter = 1;
-    while (observedColumns.has(colName)) {
-      colName = `${col}.${counter}`;
-      counter++;
-    }
-    observedColumns.add(colName);
-    return colName;
-  };
-}
-
-/**
- * Generates the header of a CSV given a prefix and a column count
- * @param columnPrefix the columnPrefix to use
- * @param count the count of column names to generate
- * @returns an array of column names
- */
-function generateHeader(columnPrefix: string, count: number = 0): string[] {
-  const headers: string[] = [];
-  for (let i = 0; i < count; i++) {
-    headers.push(`${columnPrefix}${i + 1}`);
-  }
-  return headers;
-}
-
 function deduceCSVSchema(row, headerRow): Schema {
   const fields: Schema['fields'] = [];
   for (let i = 0; i < row.length; i++) {
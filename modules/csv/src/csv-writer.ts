@@ -5,7 +5,7 @@
 /* global TextEncoder */
 import type {WriterWithEncoder, WriterOptions} from '@loaders.gl/loader-utils';
 import type {Table, TableBatch} from '@loaders.gl/schema';
-import {encodeTableAsCSV} from './lib/encoders/encode-csv';
+import {encodeTableAsCSV, encodeTableAsCSVInBatches} from './lib/encoders/encode-csv';
 import {CSVFormat} from './csv-format';
 
 export type CSVWriterOptions = WriterOptions & {
@@ -25,5 +25,6 @@ export const CSVWriter = {
   text: true,
   encode: async (table, options) =>
     new TextEncoder().encode(encodeTableAsCSV(table, options)).buffer,
-  encodeTextSync: (table, options) => encodeTableAsCSV(table, options)
+  encodeTextSync: (table, options) => encodeTableAsCSV(table, options),
+  encodeInBatches: (tableIterator, options) => encodeTableAsCSVInBatches(tableIterator, options)
 } as const satisfies WriterWithEncoder<Table, TableBatch, CSVWriterOptions>;
@@ -10,3 +10,4 @@ export {CSVWriter} from './csv-writer';
 
 export type {CSVArrowLoaderOptions} from './csv-arrow-loader';
 export {CSVArrowLoader} from './csv-arrow-loader';
+export type {CSVColumnParseErrors} from './lib/parsers/parse-csv-to-arrow';
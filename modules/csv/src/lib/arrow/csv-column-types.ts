@@ -0,0 +1,195 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {DataType} from '@loaders.gl/schema';
+
+const BOOLEAN = /^(true|false)$/i;
+const INTEGER = /^[-+]?\d+$/;
+const FLOAT = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const FIXED_POINT = /^([-+]?)(\d*)(?:\.(\d*))?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TIME_ZONE = /(Z|[+-]\d{2}:?\d{2})$/;
+
+/** float64 values are written with up to 17 significant digits, e.g. `0.30000000000000004` */
+const FLOAT64_DIGITS = 17;
+/** Maximum precision of 128 bit decimals */
+const DECIMAL128_DIGITS = 38;
+
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  int8: [-(2 ** 7), 2 ** 7 - 1],
+  int16: [-(2 ** 15), 2 ** 15 - 1],
+  int32: [INT32_MIN, INT32_MAX],
+  uint8: [0, 2 ** 8 - 1],
+  uint16: [0, 2 ** 16 - 1],
+  uint32: [0, 2 ** 32 - 1]
+};
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+/**
+ * Infers the type of a column from a sample of its (non null) values
+ * - Integers are `int32` or `int64`, depending on their range.
+ * - Numbers with more significant digits than a float64 is written with, and the same number of
+ *   fraction digits, are decimals. Other numbers are `float64`.
+ * - Dates (`2024-01-31`) are `date-day`, ISO 8601 date times are `timestamp-millisecond`.
+ * @param values - values of the column in the sample window
+ */
+// eslint-disable-next-line complexity
+export function inferCSVColumnType(values: string[]): DataType {
+  if (values.length === 0) {
+    return 'utf8';
+  }
+  if (values.every((value) => BOOLEAN.test(value))) {
+    return 'bool';
+  }
+  if (values.every((value) => INTEGER.test(value))) {
+    if (values.every((value) => Number(value) >= INT32_MIN && Number(value) <= INT32_MAX)) {
+      return 'int32';
+    }
+    if (values.every((value) => BigInt(value) >= INT64_MIN && BigInt(value) <= INT64_MAX)) {
+      return 'int64';
+    }
+  }
+  if (values.every((value) => FLOAT.test(value))) {
+    return inferDecimalType(values) || 'float64';
+  }
+  if (values.every((value) => DATE.test(value))) {
+    return 'date-day';
+  }
+  if (values.every((value) => DATE.test(value) || TIMESTAMP.test(value))) {
+    return 'timestamp-millisecond';
+  }
+  return 'utf8';
+}
+
+/**
+ * Parses a CSV value
+ * @param value - text of the value
+ * @param type - type of the column
+ * @returns the value to append to an arrow builder, or `undefined` if the value is not valid for the type
+ */
+// eslint-disable-next-line complexity
+export function parseCSVValue(value: string, type: DataType): unknown {
+  if (typeof type === 'object') {
+    if (type.type === 'decimal') {
+      return parseDecimal(value, type.precision, type.scale, type.bitWidth);
+    }
+    throw new Error(`CSV: unsupported column type ${type.type}`);
+  }
+
+  switch (type) {
+    case 'utf8':
+      return value;
+    case 'bool':
+      return BOOLEAN.test(value) ? value.toLowerCase() === 'true' : undefined;
+    case 'int8':
+    case 'int16':
+    case 'int32':
+    case 'uint8':
+    case 'uint16':
+    case 'uint32':
+      return parseInteger(value, INTEGER_RANGES[type]);
+    case 'int64':
+    case 'uint64':
+      return INTEGER.test(value) ? BigInt(value) : undefined;
+    case 'float16':
+    case 'float32':
+    case 'float64':
+      return FLOAT.test(value) ? Number(value) : undefined;
+    case 'date-day':
+    case 'date-millisecond':
+      const date = DATE.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+      return date && !Number.isNaN(date.getTime()) ? date : undefined;
+    case 'timestamp-second':
+    case 'timestamp-millisecond':
+    case 'timestamp-microsecond':
+    case 'timestamp-nanosecond':
+      return parseTimestamp(value);
+    default:
+      throw new Error(`CSV: unsupported column type ${type}`);
+  }
+}
+
+function parseInteger(value: string, [min, max]: [number, number]): number | undefined {
+  const integer = INTEGER.test(value) ? Number(value) : NaN;
+  return integer >= min && integer <= max ? integer : undefined;
+}
+
+/**
+ * Decimal type that holds all values, if they are not float64 values
+ * Values are decimals if some have more significant digits than float64 values are written with,
+ * and all values with a fraction have the same number of fraction digits (e.g. amounts in cents).
+ */
+function inferDecimalType(values: string[]): DataType | null {
+  let integerDigits = 0;
+  let significantDigits = 0;
+  const scales = new Set<number>();
+  for (const value of values) {
+    const match = FIXED_POINT.exec(value);
+    if (!match) {
+      return null;
+    }
+    const [, , integerPart, fractionPart = ''] = match;
+    const digits = `${integerPart}${fractionPart}`.replace(/^0+/, '');
+    integerDigits = Math.max(integerDigits, integerPart.replace(/^0+/, '').length);
+    significantDigits = Math.max(significantDigits, digits.length);
+    if (fractionPart.length > 0) {
+      scales.add(fractionPart.length);
+    }
+  }
+  const [scale = 0] = scales;
+  const precision = integerDigits + scale;
+  if (significantDigits <= FLOAT64_DIGITS || scales.size > 1 || precision > DECIMAL128_DIGITS) {
+    return null;
+  }
+  return {type: 'decimal', bitWidth: 128, precision, scale};
+}
+
+/**
+ * Parses a fixed point number into the little endian 32 bit words of a scaled integer
+ * @note Values with more digits than the precision or scale of the type are not valid
+ */
+function parseDecimal(
+  value: string,
+  precision: number,
+  scale: number,
+  bitWidth: number
+): Uint32Array | undefined {
+  const match = FIXED_POINT.exec(value);
+  if (!match || value.replace(/[-+.]/g, '') === '') {
+    return undefined;
+  }
+  const [, sign, integerPart, fractionPart = ''] = match;
+  if (fractionPart.slice(scale).replace(/0/g, '') !== '') {
+    return undefined;
+  }
+  const digits = `${integerPart}${fractionPart.slice(0, scale).padEnd(scale, '0')}`;
+  if (digits.replace(/^0+/, '').length > precision) {
+    return undefined;
+  }
+
+  let scaledValue = BigInt.asUintN(bitWidth, BigInt(`${sign}${digits || '0'}`));
+  const words = new Uint32Array(bitWidth / 32);
+  for (let i = 0; i < words.length; i++) {
+    words[i] = Number(scaledValue & 0xffffffffn);
+    scaledValue >>= 32n;
+  }
+  return words;
+}
+
+/** Milliseconds since the epoch. Date times without a time zone are UTC */
+function parseTimestamp(value: string): number | undefined {
+  if (DATE.test(value)) {
+    return Date.parse(`${value}T00:00:00Z`);
+  }
+  if (!TIMESTAMP.test(value)) {
+    return undefined;
+  }
+  const dateTime = value.replace(' ', 'T');
+  const timestamp = Date.parse(TIME_ZONE.test(dateTime) ? dateTime : `${dateTime}Z`);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
@@ -3,7 +3,7 @@
 // Copyright (c) vis.gl contributors
 // Copyright 2022 Foursquare Labs, Inc.
 
-import type {Table} from '@loaders.gl/schema';
+import type {Table, TableBatch} from '@loaders.gl/schema';
 import {makeArrayRowIterator, getTableNumCols} from '@loaders.gl/schema-utils';
 import {csvFormatRows} from 'd3-dsv';
 import type {CSVWriterOptions} from '../../csv-writer';
@@ -17,17 +17,47 @@ export function encodeTableAsCSV(
   table: Table,
   options: CSVWriterOptions = {csv: {useDisplayNames: true}}
 ): string {
-  const useDisplayNames = options.useDisplayNames || options.csv?.useDisplayNames;
+  const formattedData: EncodableData[][] = [getColumnNames(table, options)];
+  formattedData.push(...formatTableRows(table));
+  return csvFormatRows(formattedData);
+}
 
-  const fields = table.schema?.fields || [];
+/**
+ * Encode a sequence of table batches as CSV
+ * @note The header row is generated from the schema of the first batch
+ */
+export async function* encodeTableAsCSVInBatches(
+  tableIterator: AsyncIterable<TableBatch> | Iterable<TableBatch>,
+  options: CSVWriterOptions = {csv: {useDisplayNames: true}}
+): AsyncIterable<ArrayBuffer> {
+  const textEncoder = new TextEncoder();
+  let isFirstBatch = true;
+  for await (const batch of tableIterator) {
+    const formattedData = formatTableRows(batch);
+    if (isFirstBatch) {
+      formattedData.unshift(getColumnNames(batch, options));
+    }
+    if (formattedData.length > 0) {
+      // Batches after the first one continue on a new line
+      const text = `${isFirstBatch ? '' : '\n'}${csvFormatRows(formattedData)}`;
+      yield textEncoder.encode(text).buffer;
+      isFirstBatch = false;
+    }
+  }
+}
 
-  const columnNames = fields.map((f) => {
+function getColumnNames(table: Table, options: CSVWriterOptions): string[] {
+  const useDisplayNames = options.useDisplayNames || options.csv?.useDisplayNames;
+  const fields = table.schema?.fields || [];
+  return fields.map((f) => {
     // This is a leaky abstraction, assuming Kepler metadata
     const displayName = f.metadata?.displayName;
     return useDisplayNames && typeof displayName === 'string' ? displayName : f.name;
   });
-  const formattedData: EncodableData[][] = [columnNames];
+}
 
+function formatTableRows(table: Table): EncodableData[][] {
+  const formattedData: EncodableData[][] = [];
   for (const row of makeArrayRowIterator(table)) {
     const formattedRow: EncodableData[] = [];
     for (let columnIndex = 0; columnIndex < getTableNumCols(table); ++columnIndex) {
@@ -36,8 +66,7 @@ export function encodeTableAsCSV(
     }
     formattedData.push(formattedRow);
   }
-
-  return csvFormatRows(formattedData);
+  return formattedData;
 }
 
 /**
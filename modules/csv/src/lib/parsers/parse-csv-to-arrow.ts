@@ -0,0 +1,294 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {ArrowTable, ArrowTableBatch, Field, Schema} from '@loaders.gl/schema';
+import {CorruptDataError} from '@loaders.gl/loader-utils';
+import {ArrowTableBuilder, AsyncQueue} from '@loaders.gl/schema-utils';
+
+import type {CSVArrowLoaderOptions} from '../../csv-arrow-loader';
+import Papa from '../../papaparse/papaparse';
+import AsyncIteratorStreamer from '../../papaparse/async-iterator-streamer';
+import {duplicateColumnTransformer, generateHeader} from '../utils/csv-header';
+import {inferCSVColumnType, parseCSVValue} from '../arrow/csv-column-types';
+
+/** Values that could not be parsed as the type of their column */
+export type CSVColumnParseErrors = {
+  /** Number of invalid values, they are replaced by nulls */
+  count: number;
+  /** Index of the first row with an invalid value */
+  row: number;
+  /** First invalid value */
+  value: string;
+};
+
+/** Schema metadata key of the parse errors, a JSON object with `CSVColumnParseErrors` by column name */
+export const CSV_PARSE_ERRORS_METADATA_KEY = 'loaders.gl#parseErrors';
+
+/** CSV options, with defaults applied */
+export type CSVArrowOptions = Required<NonNullable<CSVArrowLoaderOptions['csv']>>;
+
+/**
+ * Parses CSV text into an arrow table, without an intermediate row table
+ * @param csvText - CSV text
+ * @param options - CSV options, with defaults applied
+ */
+export function parseCSVToArrow(csvText: string, options: CSVArrowOptions): ArrowTable {
+  const builder = new CSVArrowTableBuilder(options, null);
+  Papa.parse(csvText, {
+    ...getPapaparseConfig(options),
+    step: (results) => builder.addRow(results.data)
+  });
+  return builder.finishTable();
+}
+
+/**
+ * Parses a CSV stream into arrow table batches, without intermediate row tables
+ * @param asyncIterator - CSV data
+ * @param options - CSV options, with defaults applied
+ * @param batchSize - number of rows in each batch
+ */
+export function parseCSVToArrowInBatches(
+  asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>,
+  options: CSVArrowOptions,
+  batchSize: number
+): AsyncIterable<ArrowTableBatch> {
+  const asyncQueue = new AsyncQueue<ArrowTableBatch>();
+  const builder = new CSVArrowTableBuilder(options, batchSize);
+  let failed = false;
+
+  const config = {
+    ...getPapaparseConfig(options),
+    // chunkSize is set to 5MB explicitly (same as Papaparse default) due to a bug where the
+    // streaming parser gets stuck if skipEmptyLines and a step callback are both supplied.
+    // See https://github.com/mholt/PapaParse/issues/465
+    chunkSize: 1024 * 1024 * 5,
+
+    step(results, parser) {
+      try {
+        builder.addRow(results.data, results.meta.cursor);
+        builder.batches.splice(0).forEach((batch) => asyncQueue.enqueue(batch));
+      } catch (error) {
+        failed = true;
+        asyncQueue.enqueue(error as Error);
+        parser.abort();
+      }
+    },
+
+    complete(results) {
+      if (!failed) {
+        try {
+          builder.finishBatches(results.meta.cursor);
+          builder.batches.splice(0).forEach((batch) => asyncQueue.enqueue(batch));
+        } catch (error) {
+          asyncQueue.enqueue(error as Error);
+        }
+      }
+      asyncQueue.close();
+    }
+  };
+
+  Papa.parse(asyncIterator, config, AsyncIteratorStreamer);
+  return asyncQueue;
+}
+
+/**
+ * Builds arrow columns from CSV rows
+ * - Rows are kept until `inferSchemaRows` rows have been read, to infer the types of the columns.
+ * - Other rows are appended to the arrow builders as soon as they are read.
+ */
+class CSVArrowTableBuilder {
+  /** Completed batches */
+  batches: ArrowTableBatch[] = [];
+
+  private options: CSVArrowOptions;
+  private batchSize: number | null;
+  private nullValues: Set<string>;
+  private headerRow: string[] | null = null;
+  private isFirstRow: boolean = true;
+  private sampleRows: string[][] = [];
+  private schema: Schema | null = null;
+  private tableBuilder: ArrowTableBuilder | null = null;
+  private rowCount: number = 0;
+  private batchRowCount: number = 0;
+  private errors: Record<string, CSVColumnParseErrors> = {};
+
+  constructor(options: CSVArrowOptions, batchSize: number | null) {
+    this.options = options;
+    this.batchSize = batchSize;
+    this.nullValues = new Set(options.nullValues);
+  }
+
+  addRow(row: string[], bytesUsed?: number): void {
+    // Papaparse can not skip empty lines when a step callback is supplied
+    if (this.options.skipEmptyLines && row.join('').trim() === '') {
+      return;
+    }
+
+    if (this.isFirstRow) {
+      this.isFirstRow = false;
+      const header =
+        this.options.header === 'auto' ? this.isHeaderRow(row) : Boolean(this.options.header);
+      if (header) {
+        this.headerRow = row.map(duplicateColumnTransformer());
+        return;
+      }
+    }
+
+    if (this.tableBuilder) {
+      this.appendRow(row, bytesUsed);
+      return;
+    }
+    this.sampleRows.push(row);
+    if (this.sampleRows.length >= this.options.inferSchemaRows) {
+      this.flushSampleRows(bytesUsed);
+    }
+  }
+
+  /** Adds the last batches */
+  finishBatches(bytesUsed?: number): void {
+    this.flushSampleRows(bytesUsed);
+    if (this.batchRowCount > 0 || this.rowCount === 0) {
+      this.flushBatch(bytesUsed);
+    }
+  }
+
+  finishTable(): ArrowTable {
+    this.flushSampleRows();
+    const table = this.tableBuilder!.finishTable();
+    return {...table, schema: this.getSchemaWithErrors()};
+  }
+
+  /** The first row is a header if it has no values of other types than strings */
+  private isHeaderRow(row: string[]): boolean {
+    return row.every((value) => inferCSVColumnType([value]) === 'utf8');
+  }
+
+  /** Infers the schema and appends the sample rows */
+  private flushSampleRows(bytesUsed?: number): void {
+    if (this.tableBuilder) {
+      return;
+    }
+    this.schema = this.inferSchema();
+    this.tableBuilder = new ArrowTableBuilder(this.schema);
+    for (const row of this.sampleRows.splice(0)) {
+      this.appendRow(row, bytesUsed);
+    }
+  }
+
+  private inferSchema(): Schema {
+    const columnCount = this.headerRow?.length || this.sampleRows[0]?.length || 0;
+    const names = this.headerRow || generateHeader(this.options.columnPrefix, columnCount);
+    const overrides = this.options.schema?.fields || [];
+
+    const fields = names.map((name, columnIndex): Field => {
+      const override = overrides.find((field) => field.name === name);
+      if (override) {
+        return {nullable: true, ...override};
+      }
+      const values = this.sampleRows
+        .map((row) => row[columnIndex])
+        .filter((value) => value !== undefined && !this.nullValues.has(value));
+      return {name, type: inferCSVColumnType(values), nullable: true};
+    });
+
+    return {
+      fields,
+      metadata: {
+        'loaders.gl#format': 'csv',
+        'loaders.gl#loader': 'CSVArrowLoader'
+      }
+    };
+  }
+
+  private appendRow(row: string[], bytesUsed?: number): void {
+    const values = this.schema!.fields.map((field, columnIndex) =>
+      this.parseValue(row[columnIndex], field)
+    );
+    this.tableBuilder!.addArrayRow(values);
+    this.rowCount++;
+    this.batchRowCount++;
+    if (this.batchSize && this.batchRowCount >= this.batchSize) {
+      this.flushBatch(bytesUsed);
+    }
+  }
+
+  private parseValue(value: string | undefined, field: Field): unknown {
+    if (value === undefined || this.nullValues.has(value)) {
+      return null;
+    }
+    const parsedValue = parseCSVValue(value, field.type);
+    if (parsedValue === undefined) {
+      this.addError(value, field);
+      return null;
+    }
+    return parsedValue;
+  }
+
+  private addError(value: string, field: Field): void {
+    if (this.options.parseErrors === 'throw') {
+      throw new CorruptDataError(
+        `CSV: invalid ${JSON.stringify(field.type)} value "${value}" in column "${field.name}", row ${this.rowCount}`
+      );
+    }
+    const errors = this.errors[field.name];
+    if (errors) {
+      errors.count++;
+    } else {
+      this.errors[field.name] = {count: 1, row: this.rowCount, value};
+    }
+  }
+
+  private flushBatch(bytesUsed?: number): void {
+    const batch = this.tableBuilder!.flushBatch() || this.tableBuilder!.firstBatch();
+    if (batch) {
+      this.batches.push({...batch, schema: this.getSchemaWithErrors(), bytesUsed});
+    }
+    this.batchRowCount = 0;
+    this.errors = {};
+  }
+
+  /** Parse errors are reported in the metadata of the schema of each table or batch */
+  private getSchemaWithErrors(): Schema {
+    const schema = this.schema!;
+    if (Object.keys(this.errors).length === 0) {
+      return schema;
+    }
+    return {
+      ...schema,
+      metadata: {...schema.metadata, [CSV_PARSE_ERRORS_METADATA_KEY]: JSON.stringify(this.errors)}
+    };
+  }
+}
+
+/** Rows are typed by the schema, not by papaparse */
+function getPapaparseConfig(options: CSVArrowOptions) {
+  return {
+    quoteChar: options.quoteChar,
+    escapeChar: options.escapeChar,
+    comments: options.comments,
+    delimiter: (input: string) => guessDelimiter(input, options),
+    dynamicTyping: false,
+    header: false,
+    download: false,
+    skipEmptyLines: false
+  };
+}
+
+/**
+ * Guesses the delimiter from the first lines of the input, without empty lines
+ * Empty lines are skipped by `CSVArrowTableBuilder`, as papaparse can not skip them when a step
+ * callback is supplied, but they would otherwise make papaparse fail to guess the delimiter,
+ * e.g. with a trailing newline.
+ */
+function guessDelimiter(input: string, options: CSVArrowOptions): string {
+  const results = Papa.parse(input, {
+    quoteChar: options.quoteChar,
+    escapeChar: options.escapeChar,
+    comments: options.comments,
+    delimitersToGuess: options.delimitersToGuess,
+    skipEmptyLines: true,
+    preview: 10
+  });
+  return results.meta.delimiter;
+}
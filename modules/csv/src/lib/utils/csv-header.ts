@@ -0,0 +1,37 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+/**
+ * Creates a transformer that renames duplicate columns. This is needed as Papaparse doesn't handle
+ * duplicate header columns and would use the latest occurrence by default.
+ * See the header option in https://www.papaparse.com/docs#config
+ * @returns a transform function that returns sanitized names for duplicate fields
+ */
+export function duplicateColumnTransformer(): (column: string) => string {
+  const observedColumns = new Set<string>();
+  return (col) => {
+    let colName = col;
+    let counter = 1;
+    while (observedColumns.has(colName)) {
+      colName = `${col}.${counter}`;
+      counter++;
+    }
+    observedColumns.add(colName);
+    return colName;
+  };
+}
+
+/**
+ * Generates the header of a CSV given a prefix and a column count
+ * @param columnPrefix the columnPrefix to use
+ * @param count the count of column names to generate
+ * @returns an array of column names
+ */
+export function generateHeader(columnPrefix: string, count: number = 0): string[] {
+  const headers: string[] = [];
+  for (let i = 0; i < count; i++) {
+    headers.push(`${columnPrefix}${i + 1}`);
+  }
+  return headers;
+}
@@ -3,7 +3,7 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
-import {loadInBatches, isIterator, isAsyncIterable} from '@loaders.gl/core';
+import {parse, loadInBatches, isIterator, isAsyncIterable} from '@loaders.gl/core';
 import {CSVArrowLoader} from '@loaders.gl/csv';
 import * as arrow from 'apache-arrow';
 
@@ -61,3 +61,123 @@ test('CSVArrowLoader#loadInBatches(incidents.csv)', async (t) => {
 
   t.end();
 });
+
+const TYPED_CSV = `id,price,flag,day,time,amount,name
+1,1.5,true,2024-01-31,2024-01-31 10:00:00,123456789012345678.25,a
+2,NA,false,2024-02-01,2024-02-01T10:00:00Z,1.50,b
+3,2.5,TRUE,2024-02-02,2024-02-02T10:00:00+01:00,-3,
+x,3,false,2024-02-03,2024-02-03,0,c
+`;
+
+test('CSVArrowLoader#parse(type inference)', async (t) => {
+  const table = await parse(TYPED_CSV, CSVArrowLoader, {
+    csv: {inferSchemaRows: 3}
+  });
+
+  t.deepEqual(
+    table.schema?.fields.map((field) => field.type),
+    [
+      'int32',
+      'float64',
+      'bool',
+      'date-day',
+      'timestamp-millisecond',
+      {type: 'decimal', bitWidth: 128, precision: 20, scale: 2},
+      'utf8'
+    ],
+    'infers column types from the sample rows'
+  );
+  t.equal(table.data.numRows, 4);
+  t.deepEqual(table.data.getChild('price')?.toJSON(), [1.5, null, 2.5, 3], 'reads null values');
+  t.deepEqual(table.data.getChild('flag')?.toJSON(), [true, false, true, false]);
+  t.deepEqual(table.data.getChild('time')?.toJSON(), [
+    Date.UTC(2024, 0, 31, 10),
+    Date.UTC(2024, 1, 1, 10),
+    Date.UTC(2024, 1, 2, 9),
+    Date.UTC(2024, 1, 3)
+  ]);
+  t.equal(String(table.data.getChild('amount')?.get(0)), '12345678901234567825');
+  t.equal(String(table.data.getChild('amount')?.get(2)), '-300');
+  t.equal(table.data.getChild('name')?.get(2), null);
+
+  t.equal(table.data.getChild('id')?.get(3), null, 'invalid values are nulls');
+  t.deepEqual(JSON.parse(table.schema?.metadata['loaders.gl#parseErrors'] || '{}'), {
+    id: {count: 1, row: 3, value: 'x'}
+  });
+  t.end();
+});
+
+test('CSVArrowLoader#parse(float64 round trip values)', async (t) => {
+  const csv = `lat,lng,sum
+37.774929500000003,-122.41941550000001,0.30000000000000004
+37.7749,-122.4194,0.3
+`;
+  const table = await parse(csv, CSVArrowLoader);
+  t.deepEqual(
+    table.schema?.fields.map((field) => field.type),
+    ['float64', 'float64', 'float64'],
+    'numbers written with up to 17 significant digits are float64'
+  );
+  t.deepEqual(table.data.getChild('lat')?.toJSON(), [Number('37.774929500000003'), 37.7749]);
+  t.deepEqual(table.data.getChild('sum')?.toJSON(), [0.30000000000000004, 0.3]);
+  t.end();
+});
+
+test('CSVArrowLoader#parse(delimiter, trailing newline)', async (t) => {
+  const csv = 'a;b\n1;2\n3;4\n';
+  const table = await parse(csv, CSVArrowLoader);
+  t.deepEqual(
+    table.schema?.fields.map((field) => field.name),
+    ['a', 'b'],
+    'guesses the delimiter'
+  );
+  t.deepEqual(table.data.getChild('b')?.toJSON(), [2, 4]);
+
+  const iterator = await loadInBatches(new Blob([csv]), CSVArrowLoader);
+  for await (const batch of iterator) {
+    t.deepEqual(batch.data.getChild('a')?.toJSON(), [1, 3], 'guesses the delimiter in batches');
+  }
+  t.end();
+});
+
+test('CSVArrowLoader#parse(schema, parseErrors)', async (t) => {
+  const table = await parse(TYPED_CSV, CSVArrowLoader, {
+    csv: {
+      schema: {
+        fields: [
+          {name: 'id', type: 'utf8'},
+          {name: 'price', type: 'float32'}
+        ],
+        metadata: {}
+      }
+    }
+  });
+  t.deepEqual(table.data.getChild('id')?.toJSON(), ['1', '2', '3', 'x'], 'overrides column types');
+  t.ok(table.data.getChild('price')?.type instanceof arrow.Float32);
+  t.notOk(table.schema?.metadata['loaders.gl#parseErrors'], 'no parse errors');
+
+  await t.rejects(
+    parse(TYPED_CSV, CSVArrowLoader, {csv: {inferSchemaRows: 3, parseErrors: 'throw'}}),
+    /column "id", row 3/,
+    'throws on invalid values'
+  );
+  t.end();
+});
+
+test('CSVArrowLoader#loadInBatches(sample window)', async (t) => {
+  const iterator = await loadInBatches(CSV_NUMBERS_100_URL, CSVArrowLoader, {
+    batchSize: 40,
+    csv: {inferSchemaRows: 10}
+  });
+
+  const lengths: number[] = [];
+  for await (const batch of iterator) {
+    t.deepEqual(
+      batch.schema?.fields.map((field) => field.type),
+      ['int32', 'int32', 'int32']
+    );
+    lengths.push(batch.length);
+  }
+  t.deepEqual(lengths, [40, 40, 20], 'rows of the sample window are batched');
+  t.end();
+});
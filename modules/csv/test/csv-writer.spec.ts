@@ -7,7 +7,8 @@ import test from 'tape-promise/tape';
 import {CSVWriterOptions, CSVWriter} from '@loaders.gl/csv';
 import {encodeTableAsText} from '@loaders.gl/core';
 
-import {Table} from '@loaders.gl/schema';
+import type {Field, Table, TableBatch} from '@loaders.gl/schema';
+import {concatenateArrayBuffersAsync} from '@loaders.gl/loader-utils';
 import {makeTestTable, tableWithGeometryColumn} from '@loaders.gl/schema-utils/test/shared-utils';
 
 type TestCase = {
@@ -147,3 +148,32 @@ test('CSVWriter ', async (t) => {
 
   t.end();
 });
+
+test('CSVWriter#encodeInBatches', async (t) => {
+  const fields: Field[] = [
+    {name: 'id', type: 'utf8'},
+    {name: 'val', type: 'int32'}
+  ];
+  const batches = [
+    makeTestTable([
+      [fields[0], ['a', 'b']],
+      [fields[1], [1, 2]]
+    ]),
+    makeTestTable([
+      [fields[0], []],
+      [fields[1], []]
+    ]),
+    makeTestTable([
+      [fields[0], ['c']],
+      [fields[1], [3]]
+    ])
+  ].map((table) => ({...table, batchType: 'data', length: 0}) as TableBatch);
+  async function* makeBatchIterator() {
+    yield* batches;
+  }
+
+  const chunks = CSVWriter.encodeInBatches(makeBatchIterator(), {csv: {useDisplayNames: false}});
+  const output = new TextDecoder().decode(await concatenateArrayBuffersAsync(chunks));
+  t.equal(output, 'id,val\na,1\nb,2\nc,3', 'header written once, batches joined');
+  t.end();
+});
@@ -25,6 +25,7 @@ import type {
   DracoOctahedronTransform
 } from './draco-types';
 
+import {CorruptDataError} from '@loaders.gl/loader-utils';
 import {getMeshBoundingBox} from '@loaders.gl/schema-utils';
 import {getDracoSchema} from './utils/get-draco-schema';
 
@@ -122,13 +123,13 @@ export default class DracoParser {
           break;
 
         default:
-          throw new Error('DRACO: Unknown geometry type.');
+          throw new CorruptDataError('DRACO: Unknown geometry type.');
       }
 
       if (!dracoStatus.ok() || !dracoGeometry.ptr) {
         const message = `DRACO decompression failed: ${dracoStatus.error_msg()}`;
         // console.error(message);
-        throw new Error(message);
+        throw new CorruptDataError(message);
       }
 
       const loaderData = this._getDracoLoaderData(dracoGeometry, geometry_type, options);
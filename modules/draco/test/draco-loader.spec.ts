@@ -4,6 +4,7 @@ import {validateLoader, validateMeshCategoryData} from 'test/common/conformance'
 
 import {DracoLoader, DracoWorkerLoader} from '@loaders.gl/draco';
 import {setLoaderOptions, load} from '@loaders.gl/core';
+import {isBrowser, WorkerFarm} from '@loaders.gl/worker-utils';
 import draco3d from 'draco3d';
 
 const BUNNY_DRC_URL = '@loaders.gl/draco/test/data/bunny.drc';
@@ -80,3 +81,23 @@ test('DracoWorkerLoader#parse', async (t) => {
 
   t.end();
 });
+
+test('DracoWorkerLoader#parse(Node.js worker bundle)', async (t) => {
+  // Node.js workers run the worker bundle of the installed module, which is only present after a build
+  const workerUrl =
+    !isBrowser &&
+    globalThis.loaders?.resolvePackageFile?.('@loaders.gl/draco', 'draco-worker-node.cjs');
+  if (!workerUrl) {
+    t.comment('Draco worker bundle is not built');
+    t.end();
+    return;
+  }
+
+  // Worker pools keep the worker URL they were created with
+  WorkerFarm.getWorkerFarm().destroy();
+  const data = await load(BUNNY_DRC_URL, DracoWorkerLoader, {_nodeWorkers: true, _workerType: ''});
+  validateMeshCategoryData(t, data);
+  t.equal(data.attributes.POSITION.value.length, 104502, 'POSITION attribute was found');
+  WorkerFarm.getWorkerFarm().destroy();
+  t.end();
+});
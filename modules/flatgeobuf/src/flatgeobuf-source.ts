@@ -2,7 +2,7 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
-import {Schema, GeoJSONTable} from '@loaders.gl/schema';
+import type {Schema, GeoJSONTable, Feature, Geometry} from '@loaders.gl/schema';
 import type {
   DataSourceOptions,
   VectorSourceMetadata,
@@ -10,8 +10,11 @@ import type {
 } from '@loaders.gl/loader-utils';
 import {Source, DataSource, VectorSource} from '@loaders.gl/loader-utils';
 
-import {FlatGeobufLoader} from './flatgeobuf-loader';
 import {FlatGeobufFormat} from './flatgeobuf-format';
+import {FlatGeobufLoader} from './flatgeobuf-loader';
+import {getSchemaFromFGBHeader} from './lib/get-schema-from-fgb-header';
+import {HttpReader} from './flatgeobuf/3.27.2/http-reader';
+import {fromFeature} from './flatgeobuf/3.27.2/geojson/feature';
 
 export type FlatGeobufSourceOptions = DataSourceOptions & {
   flatgeobuf?: {};
@@ -74,14 +77,67 @@ export class FlatGeobufVectorSource
     return {};
   }
 
+  /**
+   * Loads the features in the bounding box
+   * Only the parts of the spatial index and the features that are needed are requested, with HTTP range requests.
+   * Files without a spatial index are loaded in full.
+   */
   async getFeatures(parameters: GetFeaturesParameters): Promise<GeoJSONTable> {
-    const response = await this.fetch(this.url);
-    const arrayBuffer = await response.arrayBuffer();
-    // TODO - hack - done to avoid pulling in selectLoader from core
-
-    const table = await FlatGeobufLoader.parse(arrayBuffer, {});
-    // const loader = this.options['flatgeobuf-server']?.loaders?.[0];
-    // const table = loader?.parse(arrayBuffer);
-    return table as GeoJSONTable;
+    const {boundingBox} = parameters;
+    const reader = await HttpReader.open(this.url, this.fetch);
+    const schema = getSchemaFromFGBHeader(reader.header);
+
+    if (reader.header.indexNodeSize === 0) {
+      const response = await this.fetch(this.url);
+      const arrayBuffer = await response.arrayBuffer();
+      // TODO - hack - done to avoid pulling in selectLoader from core
+      const table = (await FlatGeobufLoader.parse(arrayBuffer, {
+        flatgeobuf: {shape: 'geojson-table'}
+      })) as GeoJSONTable;
+      const features = table.features.filter((feature) =>
+        intersectsBoundingBox(feature.geometry, boundingBox)
+      );
+      return {...table, schema, features};
+    }
+
+    const [[minX, minY], [maxX, maxY]] = boundingBox;
+    const features: Feature[] = [];
+    for await (const feature of reader.selectBbox({minX, minY, maxX, maxY})) {
+      features.push(fromFeature(feature, reader.header) as Feature);
+    }
+    return {shape: 'geojson-table', type: 'FeatureCollection', schema, features};
+  }
+}
+
+/** Checks if the extent of a geometry intersects a bounding box, as the spatial index does */
+function intersectsBoundingBox(
+  geometry: Geometry,
+  boundingBox: [[number, number], [number, number]]
+): boolean {
+  const extent = [Infinity, Infinity, -Infinity, -Infinity];
+  extendExtent(extent, geometry);
+  const [[minX, minY], [maxX, maxY]] = boundingBox;
+  return extent[0] <= maxX && extent[2] >= minX && extent[1] <= maxY && extent[3] >= minY;
+}
+
+function extendExtent(extent: number[], geometry: Geometry): void {
+  if (geometry.type === 'GeometryCollection') {
+    geometry.geometries.forEach((child) => extendExtent(extent, child));
+  } else {
+    extendExtentWithCoordinates(extent, geometry.coordinates);
+  }
+}
+
+function extendExtentWithCoordinates(extent: number[], coordinates: unknown[]): void {
+  if (typeof coordinates[0] === 'number') {
+    const [x, y] = coordinates as number[];
+    extent[0] = Math.min(extent[0], x);
+    extent[1] = Math.min(extent[1], y);
+    extent[2] = Math.max(extent[2], x);
+    extent[3] = Math.max(extent[3], y);
+    return;
+  }
+  for (const child of coordinates) {
+    extendExtentWithCoordinates(extent, child as unknown[]);
   }
 }
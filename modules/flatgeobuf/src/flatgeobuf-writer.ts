@@ -0,0 +1,67 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {WriterWithEncoder, WriterOptions} from '@loaders.gl/loader-utils';
+import type {
+  FlatGeobufCRS,
+  FlatGeobufTable,
+  EncodeFlatGeobufOptions
+} from './lib/encode-flatgeobuf';
+import {encodeFlatGeobuf, encodeFlatGeobufInBatches} from './lib/encode-flatgeobuf';
+import {FlatGeobufFormat} from './flatgeobuf-format';
+
+// __VERSION__ is injected by babel-plugin-version-inline
+// @ts-ignore TS2304: Cannot find name '__VERSION__'.
+const VERSION = typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'latest';
+
+export type FlatGeobufWriterOptions = WriterOptions & {
+  flatgeobuf?: {
+    /** Build the packed Hilbert R-tree spatial index, required for bounding box queries */
+    index?: boolean;
+    /** Maximum number of children of the nodes of the spatial index */
+    nodeSize?: number;
+    /** CRS of the coordinates, `null` if unknown. Defaults to WGS84 (EPSG:4326) */
+    crs?: FlatGeobufCRS | null;
+    /** Name of the dataset */
+    name?: string;
+    /** Title of the dataset */
+    title?: string;
+    /** Description of the dataset */
+    description?: string;
+  };
+};
+
+const DEFAULT_FLATGEOBUF_WRITER_OPTIONS: EncodeFlatGeobufOptions = {
+  index: true,
+  nodeSize: 16,
+  crs: {org: 'EPSG', code: 4326}
+};
+
+/**
+ * Writer for the FlatGeobuf format
+ */
+export const FlatGeobufWriter = {
+  ...FlatGeobufFormat,
+  version: VERSION,
+  binary: true,
+  options: {
+    flatgeobuf: DEFAULT_FLATGEOBUF_WRITER_OPTIONS as FlatGeobufWriterOptions['flatgeobuf']
+  },
+  async encode(table: FlatGeobufTable, options?: FlatGeobufWriterOptions): Promise<ArrayBuffer> {
+    return encodeFlatGeobuf(table, getFlatGeobufOptions(options));
+  },
+  encodeSync(table: FlatGeobufTable, options?: FlatGeobufWriterOptions): ArrayBuffer {
+    return encodeFlatGeobuf(table, getFlatGeobufOptions(options));
+  },
+  encodeInBatches(
+    tableBatches: AsyncIterable<FlatGeobufTable> | Iterable<FlatGeobufTable>,
+    options?: FlatGeobufWriterOptions
+  ): AsyncIterable<ArrayBuffer> {
+    return encodeFlatGeobufInBatches(tableBatches, getFlatGeobufOptions(options));
+  }
+} as const satisfies WriterWithEncoder<FlatGeobufTable, FlatGeobufTable, FlatGeobufWriterOptions>;
+
+function getFlatGeobufOptions(options?: FlatGeobufWriterOptions): EncodeFlatGeobufOptions {
+  return {...DEFAULT_FLATGEOBUF_WRITER_OPTIONS, ...options?.flatgeobuf};
+}
@@ -14,6 +14,9 @@ import Logger from './logger';
 import HeaderMeta, {fromByteBuffer} from './header-meta';
 import {Feature} from './flat-geobuf/feature';
 
+/** Fetch function used for range requests, defaults to the global fetch */
+export type FetchFn = (url: string, options?: RequestInit) => Promise<Response>;
+
 export class HttpReader {
   private headerClient: BufferedHttpRangeClient;
   public header: HeaderMeta;
@@ -35,13 +38,13 @@ export class HttpReader {
   // Fetch the header, preparing the reader to read Feature data.
   //
   // and potentially some opportunistic fetching of the index.
-  static async open(url: string): Promise<HttpReader> {
+  static async open(url: string, fetchFn?: FetchFn): Promise<HttpReader> {
     // In reality, the header is probably less than half this size, but
     // better to overshoot and fetch an extra kb rather than have to issue
     // a second request.
     const assumedHeaderLength = 2024;
 
-    const headerClient = new BufferedHttpRangeClient(url);
+    const headerClient = new BufferedHttpRangeClient(url, fetchFn);
 
     // Immediately following the header is the optional spatial index, we deliberately fetch
     // a small part of that to skip subsequent requests.
@@ -251,9 +254,9 @@ class BufferedHttpRangeClient {
   // buffered
   private head = 0;
 
-  constructor(source: string | HttpRangeClient) {
+  constructor(source: string | HttpRangeClient, fetchFn?: FetchFn) {
     if (typeof source === 'string') {
-      this.httpClient = new HttpRangeClient(source);
+      this.httpClient = new HttpRangeClient(source, fetchFn);
     } else if (source instanceof HttpRangeClient) {
       this.httpClient = source;
     } else {
@@ -297,11 +300,13 @@ class BufferedHttpRangeClient {
 
 class HttpRangeClient {
   url: string;
+  fetch: FetchFn;
   requestsEverMade = 0;
   bytesEverRequested = 0;
 
-  constructor(url: string) {
+  constructor(url: string, fetchFn: FetchFn = (input, init) => fetch(input, init)) {
     this.url = url;
+    this.fetch = fetchFn;
   }
 
   async getRange(begin: number, length: number, purpose: string): Promise<ArrayBuffer> {
@@ -313,7 +318,7 @@ class HttpRangeClient {
       `request: #${this.requestsEverMade}, purpose: ${purpose}), bytes: (this_request: ${length}, ever: ${this.bytesEverRequested}), Range: ${range}`
     );
 
-    const response = await fetch(this.url, {
+    const response = await this.fetch(this.url, {
       headers: {
         Range: range
         // TODO: better parallelize requests on Chrome
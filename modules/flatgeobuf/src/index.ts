@@ -7,5 +7,9 @@ export {FlatGeobufFormat} from './flatgeobuf-format';
 export type {FlatGeobufLoaderOptions} from './flatgeobuf-loader';
 export {FlatGeobufLoader, FlatGeobufWorkerLoader} from './flatgeobuf-loader';
 
+export type {FlatGeobufWriterOptions} from './flatgeobuf-writer';
+export type {FlatGeobufCRS} from './lib/encode-flatgeobuf';
+export {FlatGeobufWriter} from './flatgeobuf-writer';
+
 export type {FlatGeobufSourceOptions} from './flatgeobuf-source';
 export {FlatGeobufSource as _FlatGeobufSource} from './flatgeobuf-source';
@@ -0,0 +1,468 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import * as flatbuffers from 'flatbuffers';
+import type {
+  ArrowTable,
+  ArrowTableBatch,
+  DataType,
+  Feature,
+  Geometry,
+  GeoJSONTable,
+  GeoJSONTableBatch,
+  Schema
+} from '@loaders.gl/schema';
+import {concatenateArrayBuffers} from '@loaders.gl/loader-utils';
+import {convertToGeoJSONTable} from '@loaders.gl/gis';
+
+import type ColumnMeta from '../flatgeobuf/3.27.2/column-meta';
+import type CrsMeta from '../flatgeobuf/3.27.2/crs-meta';
+import type HeaderMeta from '../flatgeobuf/3.27.2/header-meta';
+import {magicbytes} from '../flatgeobuf/3.27.2/constants';
+import {Column} from '../flatgeobuf/3.27.2/flat-geobuf/column';
+import {ColumnType} from '../flatgeobuf/3.27.2/flat-geobuf/column-type';
+import {Crs} from '../flatgeobuf/3.27.2/flat-geobuf/crs';
+import {GeometryType} from '../flatgeobuf/3.27.2/flat-geobuf/geometry-type';
+import {Header} from '../flatgeobuf/3.27.2/flat-geobuf/header';
+import {buildFeature} from '../flatgeobuf/3.27.2/generic/feature';
+import type {IParsedGeometry} from '../flatgeobuf/3.27.2/generic/geometry';
+import {parseGC, parseGeometry} from '../flatgeobuf/3.27.2/geojson/geometry';
+import {
+  type BoundingBox,
+  encodePackedRTree,
+  extendBoundingBox,
+  getEmptyBoundingBox,
+  getHilbertOrder
+} from './packed-hilbert-rtree';
+
+/** Coordinate reference system of a FlatGeobuf file */
+export type FlatGeobufCRS = {
+  /** Organization that defines the `code`, e.g. `'EPSG'` */
+  org?: string;
+  /** Numeric code of the CRS in the organization */
+  code?: number;
+  /** Non-numeric code of the CRS in the organization */
+  codeString?: string;
+  name?: string;
+  description?: string;
+  /** Well-known text representation of the CRS */
+  wkt?: string;
+};
+
+export type EncodeFlatGeobufOptions = {
+  /** Build the packed Hilbert R-tree spatial index */
+  index: boolean;
+  /** Maximum number of children of the nodes of the spatial index */
+  nodeSize: number;
+  /** CRS of the coordinates, `null` if unknown */
+  crs: FlatGeobufCRS | null;
+  /** Name of the dataset */
+  name?: string;
+  /** Title of the dataset */
+  title?: string;
+  /** Description of the dataset */
+  description?: string;
+};
+
+/** Tables and batches that can be encoded */
+export type FlatGeobufTable = GeoJSONTable | GeoJSONTableBatch | ArrowTable | ArrowTableBatch;
+
+/**
+ * Encodes a table as a FlatGeobuf file
+ * When a spatial index is built, features are written sorted along a Hilbert curve.
+ */
+export function encodeFlatGeobuf(
+  table: FlatGeobufTable,
+  options: EncodeFlatGeobufOptions
+): ArrayBuffer {
+  const {features, schema} = convertToGeoJSONTable(table);
+
+  const geometries = features.map(parseFeatureGeometry);
+  const boundingBoxes = geometries.map(getGeometryBoundingBox);
+  const envelope = boundingBoxes.reduce(extendBoundingBox, getEmptyBoundingBox());
+
+  const indexed = options.index && features.length > 0;
+  const order = indexed ? getHilbertOrder(boundingBoxes, envelope) : features.map((_, i) => i);
+
+  const headerMeta = getHeaderMeta(features, schema, options);
+  headerMeta.geometryType = getCommonGeometryType(geometries);
+  headerMeta.featuresCount = features.length;
+  // Features without geometry have an empty bounding box
+  headerMeta.envelope = Number.isFinite(envelope[0]) ? new Float64Array(envelope) : null;
+  headerMeta.indexNodeSize = indexed ? options.nodeSize : 0;
+  const hasZ = geometries.some(hasZCoordinates);
+
+  const featureBuffers = order.map((i) => encodeFeature(features[i], geometries[i], headerMeta));
+
+  const buffers: (ArrayBuffer | Uint8Array)[] = [
+    magicbytes,
+    encodeHeader(headerMeta, hasZ, options.name)
+  ];
+  if (indexed) {
+    const featureOffsets: number[] = [];
+    let byteOffset = 0;
+    for (const featureBuffer of featureBuffers) {
+      featureOffsets.push(byteOffset);
+      byteOffset += featureBuffer.byteLength;
+    }
+    const sortedBoundingBoxes = order.map((i) => boundingBoxes[i]);
+    buffers.push(encodePackedRTree(sortedBoundingBoxes, featureOffsets, options.nodeSize));
+  }
+  return concatenateArrayBuffers(...buffers, ...featureBuffers);
+}
+
+/**
+ * Encodes batches of a table as a FlatGeobuf file
+ * - With a spatial index, all batches are read before the file is written in one chunk.
+ * - Otherwise, the header (with the columns of the first batch) and the features are written as batches arrive.
+ *   The number of features, the geometry type and the extent of the features are then not written.
+ *   Later batches with other columns, wider column types or Z coordinates throw, as the header is already written.
+ */
+export async function* encodeFlatGeobufInBatches(
+  tableBatches: AsyncIterable<FlatGeobufTable> | Iterable<FlatGeobufTable>,
+  options: EncodeFlatGeobufOptions
+): AsyncIterable<ArrayBuffer> {
+  if (options.index) {
+    const features: Feature[] = [];
+    let schema: Schema | undefined;
+    for await (const tableBatch of tableBatches) {
+      const table = convertToGeoJSONTable(tableBatch);
+      features.push(...table.features);
+      schema = schema || table.schema;
+    }
+    yield encodeFlatGeobuf(
+      {shape: 'geojson-table', type: 'FeatureCollection', schema, features},
+      options
+    );
+    return;
+  }
+
+  let headerMeta: HeaderMeta | null = null;
+  let hasZ = false;
+  for await (const tableBatch of tableBatches) {
+    const {features, schema} = convertToGeoJSONTable(tableBatch);
+    const geometries = features.map(parseFeatureGeometry);
+    if (!headerMeta) {
+      headerMeta = getHeaderMeta(features, schema, options);
+      hasZ = geometries.some(hasZCoordinates);
+      yield concatenateArrayBuffers(magicbytes, encodeHeader(headerMeta, hasZ, options.name));
+    } else {
+      checkBatch(getColumns(features, schema), geometries.some(hasZCoordinates), headerMeta, hasZ);
+    }
+    const batchHeaderMeta = headerMeta;
+    const featureBuffers = features.map((feature, i) =>
+      encodeFeature(feature, geometries[i], batchHeaderMeta)
+    );
+    yield concatenateArrayBuffers(...featureBuffers);
+  }
+
+  if (!headerMeta) {
+    headerMeta = getHeaderMeta([], undefined, options);
+    yield concatenateArrayBuffers(magicbytes, encodeHeader(headerMeta, false, options.name));
+  }
+}
+
+/** Returns the header of a file without features, spatial index or geometry type */
+function getHeaderMeta(
+  features: Feature[],
+  schema: Schema | undefined,
+  options: EncodeFlatGeobufOptions
+): HeaderMeta {
+  const {crs} = options;
+  return {
+    geometryType: GeometryType.Unknown,
+    columns: getColumns(features, schema),
+    envelope: null,
+    featuresCount: 0,
+    indexNodeSize: 0,
+    crs: crs
+      ? {
+          org: crs.org ?? null,
+          code: crs.code ?? 0,
+          name: crs.name ?? null,
+          description: crs.description ?? null,
+          wkt: crs.wkt ?? null,
+          // eslint-disable-next-line camelcase
+          code_string: crs.codeString ?? null
+        }
+      : null,
+    title: options.title ?? null,
+    description: options.description ?? null,
+    metadata: null
+  };
+}
+
+// eslint-disable-next-line complexity, max-statements
+function encodeHeader(headerMeta: HeaderMeta, hasZ: boolean, name?: string): Uint8Array {
+  const builder = new flatbuffers.Builder();
+
+  const nameOffset = name ? builder.createString(name) : 0;
+  const titleOffset = headerMeta.title ? builder.createString(headerMeta.title) : 0;
+  const descriptionOffset = headerMeta.description
+    ? builder.createString(headerMeta.description)
+    : 0;
+  const envelopeOffset = headerMeta.envelope
+    ? Header.createEnvelopeVector(builder, headerMeta.envelope)
+    : 0;
+  const columnsOffset = headerMeta.columns?.length
+    ? Header.createColumnsVector(
+        builder,
+        headerMeta.columns.map((column) => encodeColumn(builder, column))
+      )
+    : 0;
+  const crsOffset = headerMeta.crs ? encodeCRS(builder, headerMeta.crs) : 0;
+
+  Header.startHeader(builder);
+  if (nameOffset) Header.addName(builder, nameOffset);
+  if (envelopeOffset) Header.addEnvelope(builder, envelopeOffset);
+  Header.addGeometryType(builder, headerMeta.geometryType);
+  Header.addHasZ(builder, hasZ);
+  if (columnsOffset) Header.addColumns(builder, columnsOffset);
+  Header.addFeaturesCount(builder, BigInt(headerMeta.featuresCount));
+  Header.addIndexNodeSize(builder, headerMeta.indexNodeSize);
+  if (crsOffset) Header.addCrs(builder, crsOffset);
+  if (titleOffset) Header.addTitle(builder, titleOffset);
+  if (descriptionOffset) Header.addDescription(builder, descriptionOffset);
+  const offset = Header.endHeader(builder);
+  builder.finishSizePrefixed(offset);
+  return builder.asUint8Array();
+}
+
+function encodeColumn(builder: flatbuffers.Builder, column: ColumnMeta): number {
+  const nameOffset = builder.createString(column.name);
+  Column.startColumn(builder);
+  Column.addName(builder, nameOffset);
+  Column.addType(builder, column.type);
+  Column.addNullable(builder, column.nullable);
+  return Column.endColumn(builder);
+}
+
+function encodeCRS(builder: flatbuffers.Builder, crs: CrsMeta): number {
+  const orgOffset = crs.org ? builder.createString(crs.org) : 0;
+  const nameOffset = crs.name ? builder.createString(crs.name) : 0;
+  const descriptionOffset = crs.description ? builder.createString(crs.description) : 0;
+  const wktOffset = crs.wkt ? builder.createString(crs.wkt) : 0;
+  const codeStringOffset = crs.code_string ? builder.createString(crs.code_string) : 0;
+  return Crs.createCrs(
+    builder,
+    orgOffset,
+    crs.code,
+    nameOffset,
+    descriptionOffset,
+    wktOffset,
+    codeStringOffset
+  );
+}
+
+function encodeFeature(
+  feature: Feature,
+  geometry: IParsedGeometry,
+  headerMeta: HeaderMeta
+): Uint8Array {
+  const properties: Record<string, unknown> = {};
+  for (const column of headerMeta.columns || []) {
+    properties[column.name] = getColumnValue(feature.properties?.[column.name], column.type);
+  }
+  return buildFeature(geometry, properties, headerMeta);
+}
+
+/** Features without geometry are written with an empty geometry collection */
+function parseFeatureGeometry(feature: Feature): IParsedGeometry {
+  const geometry = feature.geometry as Geometry | null;
+  if (!geometry) {
+    return parseGC({type: 'GeometryCollection', geometries: []});
+  }
+  return geometry.type === 'GeometryCollection' ? parseGC(geometry) : parseGeometry(geometry);
+}
+
+function getGeometryBoundingBox(geometry: IParsedGeometry): BoundingBox {
+  const boundingBox = getEmptyBoundingBox();
+  for (const part of geometry.parts || []) {
+    extendBoundingBox(boundingBox, getGeometryBoundingBox(part));
+  }
+  const xy = geometry.xy || [];
+  for (let i = 0; i < xy.length; i += 2) {
+    extendBoundingBox(boundingBox, [xy[i], xy[i + 1], xy[i], xy[i + 1]]);
+  }
+  return boundingBox;
+}
+
+function hasZCoordinates(geometry: IParsedGeometry): boolean {
+  return Boolean(geometry.z) || (geometry.parts || []).some(hasZCoordinates);
+}
+
+/** Files with a single type of geometries declare it in the header */
+function getCommonGeometryType(geometries: IParsedGeometry[]): GeometryType {
+  const types = new Set(geometries.map((geometry) => geometry.type));
+  return types.size === 1 ? geometries[0].type : GeometryType.Unknown;
+}
+
+// COLUMNS
+
+/**
+ * Returns a column for each property of the features
+ * Column types are taken from the schema of the table when available, otherwise inferred from the values.
+ */
+function getColumns(features: Feature[], schema?: Schema): ColumnMeta[] {
+  const columnTypes = new Map<string, ColumnType | null>();
+  for (const feature of features) {
+    for (const [name, value] of Object.entries(feature.properties || {})) {
+      const type = getValueColumnType(value);
+      const columnType = columnTypes.get(name);
+      if (columnType === undefined || columnType === null) {
+        columnTypes.set(name, type);
+      } else if (type !== null && type !== columnType) {
+        columnTypes.set(name, getCommonColumnType(columnType, type));
+      }
+    }
+  }
+
+  return Array.from(columnTypes, ([name, valueType]) => {
+    const field = schema?.fields.find((schemaField) => schemaField.name === name);
+    const fieldType = field && getFieldColumnType(field.type);
+    return {
+      name,
+      type: fieldType ?? valueType ?? ColumnType.String,
+      title: null,
+      description: null,
+      width: -1,
+      precision: -1,
+      scale: -1,
+      nullable: true,
+      unique: false,
+      // eslint-disable-next-line camelcase
+      primary_key: false
+    };
+  });
+}
+
+/**
+ * Checks that the columns and coordinates of a batch can be written with the header
+ * Integer values can be written to double columns, and any value to JSON columns.
+ */
+function checkBatch(
+  batchColumns: ColumnMeta[],
+  batchHasZ: boolean,
+  headerMeta: HeaderMeta,
+  hasZ: boolean
+): void {
+  if (batchHasZ && !hasZ) {
+    throw new Error(
+      'FlatGeobufWriter: Z coordinates must appear in the first batch without spatial index'
+    );
+  }
+  for (const batchColumn of batchColumns) {
+    const headerColumn = (headerMeta.columns || []).find(
+      (column) => column.name === batchColumn.name
+    );
+    if (!headerColumn) {
+      throw new Error(
+        `FlatGeobufWriter: column "${batchColumn.name}" is not in the first batch without spatial index`
+      );
+    }
+    const {type} = headerColumn;
+    const isWritable =
+      type === batchColumn.type ||
+      type === ColumnType.Json ||
+      (type === ColumnType.Double && batchColumn.type === ColumnType.Int);
+    if (!isWritable) {
+      throw new Error(
+        `FlatGeobufWriter: column "${batchColumn.name}" has a different type than in the first batch without spatial index`
+      );
+    }
+  }
+}
+
+/** Returns the column type of a value, `null` for missing values */
+function getValueColumnType(value: unknown): ColumnType | null {
+  switch (typeof value) {
+    case 'boolean':
+      return ColumnType.Bool;
+    case 'number':
+      return Number.isInteger(value) && Math.abs(value) < 2 ** 31
+        ? ColumnType.Int
+        : ColumnType.Double;
+    case 'bigint':
+      return ColumnType.Long;
+    case 'string':
+      return ColumnType.String;
+    case 'undefined':
+      return null;
+    default:
+      if (value === null) {
+        return null;
+      }
+      return value instanceof Date ? ColumnType.DateTime : ColumnType.Json;
+  }
+}
+
+/** Integers and floating point values are written as doubles, otherwise values are written as JSON */
+function getCommonColumnType(type1: ColumnType, type2: ColumnType): ColumnType {
+  const numericTypes = [ColumnType.Int, ColumnType.Double];
+  if (numericTypes.includes(type1) && numericTypes.includes(type2)) {
+    return ColumnType.Double;
+  }
+  return ColumnType.Json;
+}
+
+/** Returns the column type of a schema field, `null` if not supported by FlatGeobuf */
+// eslint-disable-next-line complexity
+function getFieldColumnType(type: DataType): ColumnType | null {
+  switch (type) {
+    case 'bool':
+      return ColumnType.Bool;
+    case 'int8':
+    case 'int16':
+      return ColumnType.Short;
+    case 'uint8':
+    case 'uint16':
+      return ColumnType.UShort;
+    case 'int32':
+      return ColumnType.Int;
+    case 'uint32':
+      return ColumnType.UInt;
+    case 'int64':
+      return ColumnType.Long;
+    case 'float16':
+    case 'float32':
+      return ColumnType.Float;
+    case 'float64':
+      return ColumnType.Double;
+    case 'utf8':
+      return ColumnType.String;
+    case 'date-day':
+    case 'date-millisecond':
+    case 'timestamp-second':
+    case 'timestamp-millisecond':
+    case 'timestamp-microsecond':
+    case 'timestamp-nanosecond':
+      return ColumnType.DateTime;
+    default:
+      return null;
+  }
+}
+
+/** Converts a value to the representation expected by the column type */
+// eslint-disable-next-line complexity
+function getColumnValue(value: unknown, type: ColumnType): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (type) {
+    case ColumnType.DateTime:
+      return value instanceof Date || typeof value === 'number'
+        ? new Date(value).toISOString()
+        : String(value);
+    case ColumnType.String:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case ColumnType.Bool:
+      return value ? 1 : 0;
+    case ColumnType.Long:
+      return typeof value === 'bigint' ? value : BigInt(Math.trunc(Number(value)));
+    case ColumnType.Json:
+      return value;
+    default:
+      return Number(value);
+  }
+}
@@ -0,0 +1,166 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {generateLevelBounds, NODE_ITEM_BYTE_LEN} from '../flatgeobuf/3.27.2/packedrtree';
+
+/** Bounding box of a feature or of a node of the index: `[minX, minY, maxX, maxY]` */
+export type BoundingBox = [number, number, number, number];
+
+/** Size of the grid on which bounding box centers are placed along the Hilbert curve */
+const HILBERT_MAX = (1 << 16) - 1;
+
+/** Returns the bounding box of an empty set, which does not intersect any bounding box */
+export function getEmptyBoundingBox(): BoundingBox {
+  return [Infinity, Infinity, -Infinity, -Infinity];
+}
+
+/** Extends the target bounding box to contain a bounding box */
+export function extendBoundingBox(target: BoundingBox, boundingBox: BoundingBox): BoundingBox {
+  target[0] = Math.min(target[0], boundingBox[0]);
+  target[1] = Math.min(target[1], boundingBox[1]);
+  target[2] = Math.max(target[2], boundingBox[2]);
+  target[3] = Math.max(target[3], boundingBox[3]);
+  return target;
+}
+
+/**
+ * Returns the indices of the bounding boxes, sorted along a Hilbert curve through their centers
+ * Items are written in this order, so that items that are close in space are close in the file.
+ */
+export function getHilbertOrder(boundingBoxes: BoundingBox[], extent: BoundingBox): number[] {
+  const [minX, minY, maxX, maxY] = extent;
+  const width = maxX - minX || 1;
+  const height = maxY - minY || 1;
+
+  const hilbertValues = boundingBoxes.map(([x0, y0, x1, y1]) => {
+    const x = Math.floor((HILBERT_MAX * ((x0 + x1) / 2 - minX)) / width);
+    const y = Math.floor((HILBERT_MAX * ((y0 + y1) / 2 - minY)) / height);
+    // Empty bounding boxes have no center
+    return Number.isFinite(x) && Number.isFinite(y) ? getHilbertValue(x, y) : 0;
+  });
+
+  const order = boundingBoxes.map((_, i) => i);
+  return order.sort((a, b) => hilbertValues[a] - hilbertValues[b]);
+}
+
+/**
+ * Encodes a packed R-tree of the items, in the layout expected by FlatGeobuf readers
+ * - Nodes are stored level by level from the root, the leaves (the items) are stored last.
+ * - The offset of a leaf is the byte offset of its item in the features section.
+ * - The offset of any other node is the index of its first child.
+ * @param boundingBoxes bounding boxes of the items, in the order they are written
+ * @param itemOffsets byte offsets of the items in the features section
+ * @param nodeSize maximum number of children of a node
+ * @see https://github.com/flatgeobuf/flatgeobuf/blob/master/src/ts/packedrtree.ts
+ */
+export function encodePackedRTree(
+  boundingBoxes: BoundingBox[],
+  itemOffsets: number[],
+  nodeSize: number
+): ArrayBuffer {
+  // Levels are listed from the leaves up to the root
+  const levelBounds = generateLevelBounds(boundingBoxes.length, nodeSize);
+  const [leavesStart, numNodes] = levelBounds[0];
+
+  const nodeBoundingBoxes: BoundingBox[] = new Array(numNodes);
+  const nodeOffsets: number[] = new Array(numNodes);
+  for (let i = 0; i < boundingBoxes.length; i++) {
+    nodeBoundingBoxes[leavesStart + i] = boundingBoxes[i];
+    nodeOffsets[leavesStart + i] = itemOffsets[i];
+  }
+
+  for (let level = 0; level < levelBounds.length - 1; level++) {
+    const [start, end] = levelBounds[level];
+    let parent = levelBounds[level + 1][0];
+    for (let firstChild = start; firstChild < end; firstChild += nodeSize) {
+      const boundingBox = getEmptyBoundingBox();
+      for (let child = firstChild; child < Math.min(firstChild + nodeSize, end); child++) {
+        extendBoundingBox(boundingBox, nodeBoundingBoxes[child]);
+      }
+      nodeBoundingBoxes[parent] = boundingBox;
+      nodeOffsets[parent] = firstChild;
+      parent++;
+    }
+  }
+
+  return encodeNodes(nodeBoundingBoxes, nodeOffsets);
+}
+
+function encodeNodes(boundingBoxes: BoundingBox[], offsets: number[]): ArrayBuffer {
+  const arrayBuffer = new ArrayBuffer(boundingBoxes.length * NODE_ITEM_BYTE_LEN);
+  const dataView = new DataView(arrayBuffer);
+  for (let node = 0; node < boundingBoxes.length; node++) {
+    const byteOffset = node * NODE_ITEM_BYTE_LEN;
+    const [minX, minY, maxX, maxY] = boundingBoxes[node];
+    dataView.setFloat64(byteOffset, minX, true);
+    dataView.setFloat64(byteOffset + 8, minY, true);
+    dataView.setFloat64(byteOffset + 16, maxX, true);
+    dataView.setFloat64(byteOffset + 24, maxY, true);
+    dataView.setBigUint64(byteOffset + 32, BigInt(offsets[node]), true);
+  }
+  return arrayBuffer;
+}
+
+/**
+ * Returns the position of a point of the 2^16 x 2^16 grid along the Hilbert curve
+ * Adapted from flatbush (ISC license), based on public domain code by rawrunprotected
+ * @see https://github.com/mourner/flatbush
+ */
+// eslint-disable-next-line max-statements
+function getHilbertValue(x: number, y: number): number {
+  let a = x ^ y;
+  let b = 0xffff ^ a;
+  let c = 0xffff ^ (x | y);
+  let d = x & (y ^ 0xffff);
+
+  let A = a | (b >> 1);
+  let B = (a >> 1) ^ a;
+  let C = (c >> 1) ^ (b & (d >> 1)) ^ c;
+  let D = (a & (c >> 1)) ^ (d >> 1) ^ d;
+
+  a = A;
+  b = B;
+  c = C;
+  d = D;
+  A = (a & (a >> 2)) ^ (b & (b >> 2));
+  B = (a & (b >> 2)) ^ (b & ((a ^ b) >> 2));
+  C ^= (a & (c >> 2)) ^ (b & (d >> 2));
+  D ^= (b & (c >> 2)) ^ ((a ^ b) & (d >> 2));
+
+  a = A;
+  b = B;
+  c = C;
+  d = D;
+  A = (a & (a >> 4)) ^ (b & (b >> 4));
+  B = (a & (b >> 4)) ^ (b & ((a ^ b) >> 4));
+  C ^= (a & (c >> 4)) ^ (b & (d >> 4));
+  D ^= (b & (c >> 4)) ^ ((a ^ b) & (d >> 4));
+
+  a = A;
+  b = B;
+  c = C;
+  d = D;
+  C ^= (a & (c >> 8)) ^ (b & (d >> 8));
+  D ^= (b & (c >> 8)) ^ ((a ^ b) & (d >> 8));
+
+  a = C ^ (C >> 1);
+  b = D ^ (D >> 1);
+
+  let i0 = x ^ y;
+  let i1 = b | (0xffff ^ (i0 | a));
+
+  i0 = interleave(i0);
+  i1 = interleave(i1);
+
+  return ((i1 << 1) | i0) >>> 0;
+}
+
+/** Spreads the 16 bits of a number to the even bits of a 32 bit number */
+function interleave(value: number): number {
+  value = (value | (value << 8)) & 0x00ff00ff;
+  value = (value | (value << 4)) & 0x0f0f0f0f;
+  value = (value | (value << 2)) & 0x33333333;
+  value = (value | (value << 1)) & 0x55555555;
+  return value;
+}
@@ -0,0 +1,314 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {FlatGeobufLoader, FlatGeobufWriter, _FlatGeobufSource} from '@loaders.gl/flatgeobuf';
+import {GeoArrowLoader} from '@loaders.gl/arrow';
+import {GEOARROW_TEST_CASES} from '@loaders.gl/arrow/test/data/geoarrow/test-cases';
+import {load, parse, encode} from '@loaders.gl/core';
+import {concatenateArrayBuffersAsync} from '@loaders.gl/loader-utils';
+import type {Feature, GeoJSONTable, Geometry, MultiPolygon} from '@loaders.gl/schema';
+
+const FLATGEOBUF_COUNTRIES_DATA_URL = '@loaders.gl/flatgeobuf/test/data/countries.fgb';
+
+test('FlatGeobufWriter#round trip', async (t) => {
+  const table = (await load(FLATGEOBUF_COUNTRIES_DATA_URL, FlatGeobufLoader, {
+    worker: false
+  })) as GeoJSONTable;
+
+  const arrayBuffer = await encode(table, FlatGeobufWriter);
+  const roundTripTable = (await parse(arrayBuffer, FlatGeobufLoader, {
+    worker: false
+  })) as GeoJSONTable;
+
+  // Features are sorted along a Hilbert curve
+  t.equal(roundTripTable.features.length, table.features.length);
+  t.deepEqual(sortById(roundTripTable.features), sortById(table.features), 'features round trip');
+
+  const {metadata, fields} = roundTripTable.schema!;
+  t.deepEqual(fields, table.schema!.fields, 'columns are written');
+  t.equal(metadata.geometryType, '6', 'geometry type is written');
+  t.equal(metadata.indexNodeSize, '16', 'spatial index is written');
+  t.equal(metadata.featureCount, '179');
+  t.deepEqual(
+    JSON.parse(metadata.crs),
+    // eslint-disable-next-line camelcase
+    {org: 'EPSG', code: 4326, name: null, description: null, wkt: null, code_string: null},
+    'crs is written'
+  );
+  t.end();
+});
+
+test('FlatGeobufWriter#properties', async (t) => {
+  const date = new Date('2024-01-02T03:04:05.000Z');
+  const table = makeTable([
+    {count: 1, ratio: 0.5, big: 2 ** 40, valid: true, name: 'a', mixed: 1, when: date, tags: ['x']},
+    {count: 2, ratio: 1, big: null, valid: false, name: 'b', mixed: 'one'}
+  ]);
+
+  const arrayBuffer = await encode(table, FlatGeobufWriter, {
+    flatgeobuf: {index: false, crs: null, title: 'Title'}
+  });
+  const roundTripTable = (await parse(arrayBuffer, FlatGeobufLoader, {
+    worker: false
+  })) as GeoJSONTable;
+
+  t.deepEqual(
+    roundTripTable.schema?.fields.map((field) => [field.name, field.type]),
+    [
+      ['count', 'int32'],
+      ['ratio', 'float64'],
+      ['big', 'float64'],
+      ['valid', 'bool'],
+      ['name', 'utf8'],
+      // JSON columns
+      ['mixed', 'null'],
+      ['when', 'date-millisecond'],
+      ['tags', 'null']
+    ],
+    'column types are inferred'
+  );
+  t.equal(roundTripTable.schema?.metadata.title, 'Title');
+  t.equal(roundTripTable.schema?.metadata.crs, 'null', 'crs is omitted');
+  t.deepEqual(
+    roundTripTable.features.map((feature) => feature.properties),
+    [
+      {
+        count: 1,
+        ratio: 0.5,
+        big: 2 ** 40,
+        valid: true,
+        name: 'a',
+        mixed: 1,
+        when: '2024-01-02T03:04:05.000Z',
+        tags: ['x']
+      },
+      {count: 2, ratio: 1, valid: false, name: 'b', mixed: 'one'}
+    ],
+    'properties round trip'
+  );
+  t.end();
+});
+
+test('FlatGeobufWriter#GeoArrow tables', async (t) => {
+  for (const [url, expectedGeojson] of GEOARROW_TEST_CASES) {
+    const arrowTable = await load(url, GeoArrowLoader, {
+      worker: false,
+      arrow: {shape: 'arrow-table'}
+    });
+
+    const arrayBuffer = await encode(arrowTable, FlatGeobufWriter, {flatgeobuf: {index: false}});
+    const table = (await parse(arrayBuffer, FlatGeobufLoader, {worker: false})) as GeoJSONTable;
+
+    t.deepEqual(
+      table.features.map((feature) => feature.geometry),
+      expectedGeojson.features.map((feature) => feature.geometry),
+      `${url} geometries round trip`
+    );
+  }
+  t.end();
+});
+
+test('FlatGeobufWriter#encodeInBatches', async (t) => {
+  const batches = [
+    makeTable([{n: 1}, {n: 2}], 'LineString'),
+    makeTable([{n: 3}], 'LineString'),
+    makeTable([{n: 4}], 'Point')
+  ];
+
+  for (const index of [false, true]) {
+    const arrayBuffer = await concatenateArrayBuffersAsync(
+      FlatGeobufWriter.encodeInBatches(batches, {flatgeobuf: {index}})
+    );
+    const table = (await parse(arrayBuffer, FlatGeobufLoader, {worker: false})) as GeoJSONTable;
+    t.deepEqual(
+      table.features.map((feature) => feature.properties?.n).sort(),
+      [1, 2, 3, 4],
+      `all batches are written (index: ${index})`
+    );
+    t.deepEqual(table.features.map((feature) => feature.geometry.type).sort(), [
+      'LineString',
+      'LineString',
+      'LineString',
+      'Point'
+    ]);
+  }
+  t.end();
+});
+
+test('FlatGeobufWriter#spatial index with FlatGeobufSource', async (t) => {
+  const table = (await load(FLATGEOBUF_COUNTRIES_DATA_URL, FlatGeobufLoader, {
+    worker: false
+  })) as GeoJSONTable;
+
+  const boundingBox: [[number, number], [number, number]] = [
+    [0, 40],
+    [20, 50]
+  ];
+  const expectedIds = table.features
+    .filter((feature) => intersects(getBoundingBox(feature.geometry), boundingBox))
+    .map((feature) => feature.properties?.id)
+    .sort();
+
+  for (const nodeSize of [2, 16]) {
+    const arrayBuffer = await encode(table, FlatGeobufWriter, {flatgeobuf: {nodeSize}});
+    const {fetch, requests} = makeRangeFetch(arrayBuffer);
+
+    const source = _FlatGeobufSource.createDataSource('countries.fgb', {
+      core: {loadOptions: {fetch}}
+    });
+    const result = await source.getFeatures({layers: [], boundingBox});
+
+    t.deepEqual(
+      result.features.map((feature) => feature.properties?.id).sort(),
+      expectedIds,
+      `features in the bounding box are loaded (node size: ${nodeSize})`
+    );
+    t.ok(requests.length > 1, 'the file is read with range requests');
+    t.ok(
+      requests.every((range) => range !== null),
+      'the file is only read with range requests'
+    );
+  }
+
+  const arrayBuffer = await encode(table, FlatGeobufWriter, {flatgeobuf: {index: false}});
+  const {fetch, requests} = makeRangeFetch(arrayBuffer);
+
+  const source = _FlatGeobufSource.createDataSource('countries.fgb', {
+    core: {loadOptions: {fetch}}
+  });
+  const result = await source.getFeatures({layers: [], boundingBox});
+
+  t.deepEqual(
+    result.features.map((feature) => feature.properties?.id).sort(),
+    expectedIds,
+    'features in the bounding box are loaded from a file without spatial index'
+  );
+  t.ok(requests.includes(null), 'a file without spatial index is read in full');
+  t.end();
+});
+
+test('FlatGeobufWriter#features without geometry', async (t) => {
+  const table = makeTable([{n: 1}, {n: 2}]);
+  // @ts-expect-error GeoJSON features can have null geometries
+  table.features[1].geometry = null;
+
+  for (const index of [false, true]) {
+    const arrayBuffer = FlatGeobufWriter.encodeSync(table, {flatgeobuf: {index}});
+    const roundTripTable = (await parse(arrayBuffer, FlatGeobufLoader, {
+      worker: false
+    })) as GeoJSONTable;
+    t.deepEqual(
+      roundTripTable.features.map((feature) => [feature.properties?.n, feature.geometry]),
+      [
+        [1, {type: 'Point', coordinates: [0, 0]}],
+        [2, {type: 'GeometryCollection', geometries: []}]
+      ],
+      `features without geometry are written with an empty geometry (index: ${index})`
+    );
+  }
+  t.end();
+});
+
+test('FlatGeobufWriter#encodeInBatches without spatial index', async (t) => {
+  const encodeBatches = (batches: GeoJSONTable[]) =>
+    concatenateArrayBuffersAsync(
+      FlatGeobufWriter.encodeInBatches(batches, {flatgeobuf: {index: false}})
+    );
+
+  const arrayBuffer = await encodeBatches([makeTable([{a: 1.5}]), makeTable([{a: 2}])]);
+  const table = (await parse(arrayBuffer, FlatGeobufLoader, {worker: false})) as GeoJSONTable;
+  t.deepEqual(
+    table.features.map((feature) => feature.properties),
+    [{a: 1.5}, {a: 2}],
+    'integers are written to double columns'
+  );
+
+  await t.rejects(
+    encodeBatches([makeTable([{a: 1}]), makeTable([{a: 2, b: 'x'}])]),
+    /column "b" is not in the first batch/,
+    'later batches can not add columns'
+  );
+  await t.rejects(
+    encodeBatches([makeTable([{a: 1}]), makeTable([{a: 2.5}])]),
+    /column "a" has a different type/,
+    'later batches can not widen column types'
+  );
+
+  const point3D: Feature = {
+    type: 'Feature',
+    geometry: {type: 'Point', coordinates: [1, 2, 3]},
+    properties: {}
+  };
+  const table3D = {...makeTable([]), features: [point3D]};
+  const arrayBuffer3D = await encodeBatches([table3D]);
+  const roundTripTable3D = (await parse(arrayBuffer3D, FlatGeobufLoader, {
+    worker: false
+  })) as GeoJSONTable;
+  t.deepEqual(roundTripTable3D.features[0].geometry, point3D.geometry, 'Z coordinates are read');
+  await t.rejects(
+    encodeBatches([makeTable([{}]), table3D]),
+    /Z coordinates must appear in the first batch/,
+    'later batches can not add Z coordinates'
+  );
+  t.end();
+});
+
+// HELPERS
+
+function makeTable(properties: Record<string, unknown>[], type: 'Point' | 'LineString' = 'Point') {
+  const features = properties.map(
+    (featureProperties, i): Feature => ({
+      type: 'Feature',
+      geometry:
+        type === 'Point'
+          ? {type, coordinates: [i, i]}
+          : {
+              type,
+              coordinates: [
+                [i, i],
+                [i + 1, i + 1]
+              ]
+            },
+      properties: featureProperties
+    })
+  );
+  return {shape: 'geojson-table', type: 'FeatureCollection', features} as GeoJSONTable;
+}
+
+function sortById(features: Feature[]): Feature[] {
+  return [...features].sort((a, b) => (a.properties?.id < b.properties?.id ? -1 : 1));
+}
+
+function getBoundingBox(geometry: Geometry): [[number, number], [number, number]] {
+  const positions =
+    geometry.type === 'Polygon'
+      ? geometry.coordinates.flat()
+      : (geometry as MultiPolygon).coordinates.flat(2);
+  const xs = positions.map((position) => position[0]);
+  const ys = positions.map((position) => position[1]);
+  return [
+    [Math.min(...xs), Math.min(...ys)],
+    [Math.max(...xs), Math.max(...ys)]
+  ];
+}
+
+function intersects(a: [number, number][], b: [number, number][]): boolean {
+  return a[0][0] <= b[1][0] && a[1][0] >= b[0][0] && a[0][1] <= b[1][1] && a[1][1] >= b[0][1];
+}
+
+/** Serves a file with HTTP range requests, records the range of each request, `null` for full reads */
+function makeRangeFetch(arrayBuffer: ArrayBuffer) {
+  const requests: (string | null)[] = [];
+  const fetch = async (url: string, init?: RequestInit): Promise<Response> => {
+    const range = (init?.headers as Record<string, string> | undefined)?.Range;
+    requests.push(range || null);
+    if (!range) {
+      return new Response(arrayBuffer);
+    }
+    const [, start, end] = range.match(/bytes=(\d+)-(\d+)/)!.map(Number);
+    return new Response(arrayBuffer.slice(start, end + 1), {status: 206});
+  };
+  return {fetch, requests};
+}
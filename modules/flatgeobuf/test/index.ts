@@ -1 +1,2 @@
 import './flatgeobuf-loader.spec';
+import './flatgeobuf-writer.spec';
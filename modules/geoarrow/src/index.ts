@@ -45,9 +45,10 @@ export {
 // GEOARROW / GEOPARQUET METADATA
 export {getGeometryColumnsFromSchema} from './metadata/geoarrow-metadata';
 
-export type {GeoColumnMetadata} from './metadata/geoparquet-metadata';
+export type {GeoMetadata, GeoColumnMetadata} from './metadata/geoparquet-metadata';
 export {
   getGeoMetadata,
+  setGeoMetadata,
   unpackGeoMetadata,
   unpackJSONStringMetadata
 } from './metadata/geoparquet-metadata';
@@ -21,13 +21,26 @@ export type GeoMetadata = {
 
 /** A geoarrow / geoparquet geo metadata for one geometry column  */
 export type GeoColumnMetadata = {
-  encoding: 'wkb' | 'wkt';
+  /** Native encodings are defined by GeoParquet 1.1 */
+  encoding:
+    | 'wkb'
+    | 'wkt'
+    | 'point'
+    | 'linestring'
+    | 'polygon'
+    | 'multipoint'
+    | 'multilinestring'
+    | 'multipolygon';
   geometry_types: GeoParquetGeometryType[];
   crs?: object | null;
   orientation?: 'counterclockwise';
   bbox?: [number, number, number, number] | [number, number, number, number, number, number];
   edges?: 'planar' | 'spherical';
   epoch?: number;
+  /** Columns that hold a simplified representation of the geometry, such as a bounding box (GeoParquet 1.1) */
+  covering?: {
+    bbox?: {xmin: string[]; ymin: string[]; xmax: string[]; ymax: string[]};
+  };
   [key: string]: unknown;
 };
 
@@ -26,8 +26,12 @@ export {
 } from './lib/binary-geometry-api/transform-coordinates';
 
 // TABLE CONVERSION
-export {convertGeoArrowToTable} from './lib/table-converters/convert-geoarrow-table';
+export {
+  convertGeoArrowToTable,
+  convertToGeoJSONTable
+} from './lib/table-converters/convert-geoarrow-table';
 export {convertWKBTableToGeoJSON} from './lib/table-converters/convert-wkb-table-to-geojson';
+export {convertGeoJSONToGeoArrowTable} from './lib/table-converters/convert-geojson-to-geoarrow-table';
 
 // FEATURE COLLECTION CONVERSION
 export {
@@ -9,7 +9,9 @@ import type {
   ColumnarTable,
   ObjectRowTable,
   GeoJSONTable,
+  GeoJSONTableBatch,
   ArrowTable,
+  ArrowTableBatch,
   Feature
 } from '@loaders.gl/schema';
 
@@ -125,6 +127,24 @@ export function convertGeoArrowToTable(arrowTable: arrow.Table, shape: Table['sh
   }
 }
 
+/**
+ * Returns a GeoJSON table, converting GeoArrow tables
+ * @note For encoders that accept both GeoJSON and GeoArrow tables
+ */
+export function convertToGeoJSONTable(
+  table: GeoJSONTable | GeoJSONTableBatch | ArrowTable | ArrowTableBatch
+): GeoJSONTable {
+  switch (table.shape) {
+    case 'geojson-table':
+      return table;
+    case 'arrow-table':
+      return convertArrowToGeoJSONTable(table.data);
+    default:
+      const unsupportedTable: never = table;
+      throw new Error(`Unsupported table shape ${(unsupportedTable as Table).shape}`);
+  }
+}
+
 /**
  * Wrap an apache arrow table in a loaders.gl table wrapper.
  * From this additional conversions are available.
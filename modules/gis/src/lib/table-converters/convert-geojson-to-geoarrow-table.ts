@@ -0,0 +1,246 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import * as arrow from 'apache-arrow';
+import type {
+  ArrowTable,
+  DataType,
+  Feature,
+  Field,
+  GeoJSONTable,
+  Geometry,
+  GeometryCollection,
+  Schema
+} from '@loaders.gl/schema';
+import {convertArrowToSchema, deserializeArrowType} from '@loaders.gl/schema-utils';
+import type {GeoArrowEncoding, GeoColumnMetadata} from '@loaders.gl/geoarrow';
+import {getGeoMetadata, setGeoMetadata} from '@loaders.gl/geoarrow';
+import {convertGeometryToWKB} from '../geometry-converters/wkb/convert-geometry-to-wkb';
+
+/** Native GeoArrow encodings of the GeoJSON geometry types */
+const GEOARROW_ENCODINGS: Record<string, GeoArrowEncoding> = {
+  Point: 'geoarrow.point',
+  LineString: 'geoarrow.linestring',
+  Polygon: 'geoarrow.polygon',
+  MultiPoint: 'geoarrow.multipoint',
+  MultiLineString: 'geoarrow.multilinestring',
+  MultiPolygon: 'geoarrow.multipolygon'
+};
+
+/**
+ * Converts a GeoJSON table to a GeoArrow table
+ * - Geometries are written with a native GeoArrow encoding if they have the same type and dimension.
+ *   Single geometries are promoted to multi geometries if both appear, e.g. polygons and multipolygons.
+ * - Other geometries, e.g. mixed types or geometry collections, are written as WKB (`geoarrow.wkb`).
+ * - The properties are written with the types of the schema of the table. Without a schema, the fields are
+ *   inferred from the properties of all features: numbers are written as `float64`, booleans as `bool`,
+ *   and other values as `utf8` (objects and arrays as JSON).
+ * @param table GeoJSON table
+ * @param geometryColumn name of the geometry column
+ */
+export function convertGeoJSONToGeoArrowTable(
+  table: GeoJSONTable,
+  geometryColumn: string = 'geometry'
+): ArrowTable {
+  const geometries = table.features.map((feature) => feature.geometry || null);
+  const encoding = getGeoArrowEncoding(geometries);
+
+  const propertyFields = (table.schema?.fields || inferPropertyFields(table.features)).filter(
+    (field) => field.name !== geometryColumn
+  );
+  const fields = propertyFields.map(
+    (field) => new arrow.Field(field.name, getArrowType(field.type), true)
+  );
+  const geometryField = new arrow.Field(
+    geometryColumn,
+    getGeoArrowType(encoding),
+    true,
+    new Map([['ARROW:extension:name', encoding.encoding]])
+  );
+  fields.push(geometryField);
+
+  const rows = table.features.map((feature, index) => ({
+    ...getProperties(feature, propertyFields),
+    [geometryColumn]: getGeoArrowGeometry(geometries[index], encoding)
+  }));
+  const arrowSchema = new arrow.Schema(
+    fields,
+    getArrowMetadata(table.schema, geometryColumn, encoding)
+  );
+  const vector = arrow.vectorFromArray(rows, new arrow.Struct(fields));
+  const arrowTable = new arrow.Table(
+    vector.data.map((data) => new arrow.RecordBatch(arrowSchema, data))
+  );
+
+  return {
+    shape: 'arrow-table',
+    schema: convertArrowToSchema(arrowTable.schema),
+    data: arrowTable
+  };
+}
+
+/** Infers property fields from the values of all features, in order of appearance */
+function inferPropertyFields(features: Feature[]): Field[] {
+  const types = new Map<string, DataType>();
+  for (const feature of features) {
+    for (const [name, value] of Object.entries(feature.properties || {})) {
+      const type = getPropertyType(value);
+      const previousType = types.get(name);
+      if (!previousType || previousType === 'null') {
+        types.set(name, type);
+      } else if (type !== 'null' && type !== previousType) {
+        types.set(name, 'utf8');
+      }
+    }
+  }
+  return [...types].map(([name, type]) => ({name, type, nullable: true}));
+}
+
+function getPropertyType(value: unknown): DataType {
+  switch (typeof value) {
+    case 'number':
+      return 'float64';
+    case 'boolean':
+      return 'bool';
+    case 'undefined':
+      return 'null';
+    default:
+      return value === null ? 'null' : 'utf8';
+  }
+}
+
+/** Returns the values of the fields, missing values as `null` and other values of `utf8` fields as strings */
+function getProperties(feature: Feature, fields: Field[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const {name, type} of fields) {
+    const value = feature.properties?.[name] ?? null;
+    properties[name] =
+      type === 'utf8' && value !== null && typeof value !== 'string'
+        ? typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value)
+        : value;
+  }
+  return properties;
+}
+
+type GeoArrowGeometryEncoding = {
+  encoding: GeoArrowEncoding;
+  dimension: number;
+};
+
+/** Returns the native encoding of geometries of a single type and dimension, or WKB */
+function getGeoArrowEncoding(geometries: (Geometry | null)[]): GeoArrowGeometryEncoding {
+  const types = new Set<string>();
+  const dimensions = new Set<number>();
+  for (const geometry of geometries) {
+    if (geometry) {
+      types.add(geometry.type);
+      if (geometry.type !== 'GeometryCollection') {
+        addDimensions(geometry.coordinates, dimensions);
+      }
+    }
+  }
+
+  // Single geometries are promoted to multi geometries
+  for (const type of ['Point', 'LineString', 'Polygon']) {
+    if (types.has(type) && types.has(`Multi${type}`)) {
+      types.delete(type);
+    }
+  }
+
+  const [type] = types;
+  const [dimension] = dimensions;
+  if (types.size === 1 && GEOARROW_ENCODINGS[type] && dimensions.size === 1 && dimension <= 3) {
+    return {encoding: GEOARROW_ENCODINGS[type], dimension};
+  }
+  return {encoding: 'geoarrow.wkb', dimension: 0};
+}
+
+function addDimensions(coordinates: unknown[], dimensions: Set<number>): void {
+  if (typeof coordinates[0] === 'number') {
+    dimensions.add(coordinates.length);
+  } else {
+    for (const child of coordinates) {
+      addDimensions(child as unknown[], dimensions);
+    }
+  }
+}
+
+/** Nested list types of the native GeoArrow encodings, with the child names of the GeoArrow spec */
+function getGeoArrowType({encoding, dimension}: GeoArrowGeometryEncoding): arrow.DataType {
+  const coordinates = new arrow.FixedSizeList(
+    dimension,
+    new arrow.Field(dimension === 3 ? 'xyz' : 'xy', new arrow.Float64())
+  );
+  const vertices = makeListType('vertices', coordinates);
+  const rings = makeListType('rings', vertices);
+  switch (encoding) {
+    case 'geoarrow.point':
+      return coordinates;
+    case 'geoarrow.linestring':
+      return vertices;
+    case 'geoarrow.polygon':
+      return rings;
+    case 'geoarrow.multipoint':
+      return makeListType('points', coordinates);
+    case 'geoarrow.multilinestring':
+      return makeListType('linestrings', vertices);
+    case 'geoarrow.multipolygon':
+      return makeListType('polygons', rings);
+    default:
+      return new arrow.Binary();
+  }
+}
+
+function makeListType(name: string, child: arrow.DataType): arrow.List {
+  return new arrow.List(new arrow.Field(name, child));
+}
+
+/** Returns the coordinates of a geometry, or its WKB */
+function getGeoArrowGeometry(
+  geometry: Geometry | null,
+  {encoding}: GeoArrowGeometryEncoding
+): unknown {
+  if (!geometry) {
+    return null;
+  }
+  if (encoding === 'geoarrow.wkb') {
+    return new Uint8Array(convertGeometryToWKB(geometry));
+  }
+  // Native encodings are only used for geometries without collections
+  const {coordinates} = geometry as Exclude<Geometry, GeometryCollection>;
+  // Single geometries are promoted to multi geometries
+  const isPromoted = encoding.startsWith('geoarrow.multi') && !geometry.type.startsWith('Multi');
+  return isPromoted ? [coordinates] : coordinates;
+}
+
+/** 64-bit integers are stored as numbers in row tables */
+function getArrowType(type: DataType): arrow.DataType {
+  switch (type) {
+    case 'int64':
+    case 'uint64':
+      return new arrow.Float64();
+    default:
+      return deserializeArrowType(type);
+  }
+}
+
+/** Updates the encoding of the geometry column in GeoParquet metadata */
+function getArrowMetadata(
+  schema: Schema | undefined,
+  geometryColumn: string,
+  {encoding}: GeoArrowGeometryEncoding
+): Map<string, string> {
+  const metadata = {...schema?.metadata};
+  const geoMetadata = getGeoMetadata(metadata);
+  if (geoMetadata?.columns[geometryColumn]) {
+    geoMetadata.columns[geometryColumn].encoding = encoding.replace(
+      'geoarrow.',
+      ''
+    ) as GeoColumnMetadata['encoding'];
+    setGeoMetadata(metadata, geoMetadata);
+  }
+  return new Map(Object.entries(metadata));
+}
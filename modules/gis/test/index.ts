@@ -29,3 +29,4 @@ import './geoarrow/convert-geoarrow-to-binary-geometry.spec';
 import './geoarrow/convert-geoarrow-to-geojson.spec';
 
 import './table-converters/convert-geojson-to-arrow-table.spec';
+import './table-converters/convert-geojson-to-geoarrow-table.spec';
@@ -0,0 +1,177 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {GEOARROW_TEST_CASES} from '@loaders.gl/arrow/test/data/geoarrow/test-cases';
+
+import type {Feature, GeoJSONTable, Point} from '@loaders.gl/schema';
+import {
+  convertGeoArrowToTable,
+  convertGeoJSONToGeoArrowTable,
+  convertToGeoJSONTable
+} from '@loaders.gl/gis';
+
+test('convertGeoJSONToGeoArrowTable#native encodings', (t) => {
+  for (const [arrowFile, expectedGeojson] of GEOARROW_TEST_CASES) {
+    const table = makeGeoJSONTable(expectedGeojson.features);
+    const arrowTable = convertGeoJSONToGeoArrowTable(table);
+
+    const geometryType = expectedGeojson.features[0].geometry.type.toLowerCase();
+    const geometryField = arrowTable.data.schema.fields.find((field) => field.name === 'geometry');
+    t.equal(
+      geometryField?.metadata.get('ARROW:extension:name'),
+      `geoarrow.${geometryType}`,
+      `${arrowFile}: geometries are encoded as geoarrow.${geometryType}`
+    );
+
+    const roundTripTable = convertGeoArrowToTable(arrowTable.data, 'geojson-table');
+    t.deepEqual(
+      roundTripTable.features.map((feature) => feature.geometry),
+      expectedGeojson.features.map((feature) => feature.geometry),
+      `${arrowFile}: geometries round trip`
+    );
+    t.deepEqual(
+      roundTripTable.features.map((feature) => feature.properties),
+      expectedGeojson.features.map((feature) => feature.properties),
+      `${arrowFile}: properties round trip`
+    );
+  }
+  t.end();
+});
+
+test('convertGeoJSONToGeoArrowTable#mixed geometries', (t) => {
+  const features: Feature[] = [
+    {type: 'Feature', properties: {id: 1}, geometry: {type: 'Point', coordinates: [1, 2]}},
+    {
+      type: 'Feature',
+      properties: {id: 2},
+      geometry: {
+        type: 'MultiPoint',
+        coordinates: [
+          [3, 4],
+          [5, 6]
+        ]
+      }
+    }
+  ];
+  let arrowTable = convertGeoJSONToGeoArrowTable(makeGeoJSONTable(features));
+  t.equal(
+    arrowTable.data.schema.fields[1].metadata.get('ARROW:extension:name'),
+    'geoarrow.multipoint',
+    'single geometries are promoted to multi geometries'
+  );
+  t.deepEqual(
+    convertGeoArrowToTable(arrowTable.data, 'geojson-table').features.map(
+      (feature) => feature.geometry
+    ),
+    [
+      {type: 'MultiPoint', coordinates: [[1, 2]]},
+      {
+        type: 'MultiPoint',
+        coordinates: [
+          [3, 4],
+          [5, 6]
+        ]
+      }
+    ],
+    'promoted geometries round trip'
+  );
+
+  features.push({
+    type: 'Feature',
+    properties: {id: 3},
+    geometry: {
+      type: 'LineString',
+      coordinates: [
+        [0, 0],
+        [1, 1]
+      ]
+    }
+  });
+  arrowTable = convertGeoJSONToGeoArrowTable(makeGeoJSONTable(features));
+  t.equal(
+    arrowTable.data.schema.fields[1].metadata.get('ARROW:extension:name'),
+    'geoarrow.wkb',
+    'mixed geometry types are encoded as WKB'
+  );
+  const roundTripTable = convertGeoArrowToTable(arrowTable.data, 'geojson-table');
+  t.deepEqual(
+    roundTripTable.features.map((feature) => feature.geometry),
+    features.map((feature) => feature.geometry),
+    'WKB geometries round trip'
+  );
+  t.deepEqual(
+    roundTripTable.features.map((feature) => feature.properties),
+    [{id: 1}, {id: 2}, {id: 3}],
+    'properties round trip'
+  );
+  t.end();
+});
+
+test('convertGeoJSONToGeoArrowTable#without schema', (t) => {
+  const geometry: Point = {type: 'Point', coordinates: [1, 2]};
+  const features: Feature[] = [
+    {type: 'Feature', properties: {id: 1, name: 'a', valid: true, tags: ['x']}, geometry},
+    {type: 'Feature', properties: {id: 2.5, name: null, valid: 1, extra: 'b'}, geometry}
+  ];
+  const arrowTable = convertGeoJSONToGeoArrowTable({
+    shape: 'geojson-table',
+    type: 'FeatureCollection',
+    features
+  });
+
+  t.deepEqual(
+    arrowTable.schema?.fields.slice(0, -1).map(({name, type}) => [name, type]),
+    [
+      ['id', 'float64'],
+      ['name', 'utf8'],
+      ['valid', 'utf8'],
+      ['tags', 'utf8'],
+      ['extra', 'utf8']
+    ],
+    'fields are inferred from the properties of all features'
+  );
+  t.deepEqual(
+    convertGeoArrowToTable(arrowTable.data, 'geojson-table').features.map(
+      (feature) => feature.properties
+    ),
+    [
+      {id: 1, name: 'a', valid: 'true', tags: '["x"]', extra: null},
+      {id: 2.5, name: null, valid: '1', tags: null, extra: 'b'}
+    ],
+    'properties are written'
+  );
+  t.end();
+});
+
+test('convertToGeoJSONTable', (t) => {
+  const features: Feature[] = [
+    {type: 'Feature', properties: {id: 1}, geometry: {type: 'Point', coordinates: [1, 2]}}
+  ];
+  const table = makeGeoJSONTable(features);
+  t.equal(convertToGeoJSONTable(table), table, 'GeoJSON tables are returned as is');
+
+  const arrowTable = convertGeoJSONToGeoArrowTable(table);
+  t.deepEqual(
+    convertToGeoJSONTable(arrowTable).features,
+    features,
+    'GeoArrow tables are converted'
+  );
+  t.end();
+});
+
+function makeGeoJSONTable(features: Feature[]): GeoJSONTable {
+  const schema: GeoJSONTable['schema'] = {
+    fields: [
+      ...Object.entries(features[0].properties || {}).map(([name, value]) => ({
+        name,
+        type: typeof value === 'number' ? ('float64' as const) : ('utf8' as const),
+        nullable: true
+      })),
+      {name: 'geometry', type: 'binary', nullable: true}
+    ],
+    metadata: {}
+  };
+  return {shape: 'geojson-table', type: 'FeatureCollection', schema, features};
+}
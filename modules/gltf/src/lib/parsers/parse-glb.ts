@@ -2,7 +2,12 @@
 // https://github.com/KhronosGroup/glTF/tree/master/specification/2.0#glb-file-format-specification
 // https://github.com/KhronosGroup/glTF/tree/master/extensions/1.0/Khronos/KHR_binary_glTF
 import type {GLB} from '../types/glb-types';
-import {padToNBytes, assert} from '@loaders.gl/loader-utils';
+import {
+  padToNBytes,
+  assert,
+  CorruptDataError,
+  UnsupportedVersionError
+} from '@loaders.gl/loader-utils';
 
 /** Options for parsing a GLB */
 export type ParseGLBOptions = {
@@ -94,7 +99,10 @@ export function parseGLBSync(
     case 2:
       return parseGLBV2(glb, dataView, byteOffset, (options = {}));
     default:
-      throw new Error(`Invalid GLB version ${glb.version}. Only supports version 1 and 2.`);
+      throw new UnsupportedVersionError(
+        `Invalid GLB version ${glb.version}. Only supports version 1 and 2.`,
+        {byteOffset: glb.header.byteOffset + 4}
+      );
   }
 }
 
@@ -159,6 +167,9 @@ function parseGLBChunksSync(
   while (byteOffset + 8 <= glb.header.byteLength) {
     const chunkLength = dataView.getUint32(byteOffset + 0, LITTLE_ENDIAN); // Byte length of chunk
     const chunkFormat = dataView.getUint32(byteOffset + 4, LITTLE_ENDIAN); // Chunk format as uint32
+    if (byteOffset + GLB_CHUNK_HEADER_SIZE + chunkLength > dataView.byteLength) {
+      throw new CorruptDataError('GLB chunk exceeds end of data (truncated file?)', {byteOffset});
+    }
     byteOffset += GLB_CHUNK_HEADER_SIZE;
 
     // Per spec we must iterate over chunks, ignoring all except JSON and BIN
@@ -2,7 +2,14 @@
 import test from 'tape-promise/tape';
 import {validateLoader} from 'test/common/conformance';
 
-import {load, parseSync, fetchFile} from '@loaders.gl/core';
+import {
+  load,
+  parse,
+  parseSync,
+  fetchFile,
+  CorruptDataError,
+  UnsupportedVersionError
+} from '@loaders.gl/core';
 import {GLBLoader} from '@loaders.gl/gltf';
 
 const GLTF_BINARY_URL = '@loaders.gl/gltf/test/data/gltf-2.0/2CylinderEngine.glb';
@@ -36,3 +43,20 @@ test('GLBLoader#load(v1)', async (t) => {
   t.equal(glbv1.json.asset.version, '1.0', 'GLBLoader returned parsed data');
   t.end();
 });
+
+test('GLBLoader#errors', async (t) => {
+  const response = await fetchFile(GLTF_BINARY_URL);
+  const arrayBuffer = await response.arrayBuffer();
+
+  const unsupportedVersion = arrayBuffer.slice(0);
+  new DataView(unsupportedVersion).setUint32(4, 3, true);
+  await t.rejects(
+    parse(unsupportedVersion, GLBLoader, {worker: false}),
+    UnsupportedVersionError,
+    'unsupported version'
+  );
+
+  const truncated = arrayBuffer.slice(0, 100);
+  await t.rejects(parse(truncated, GLBLoader, {worker: false}), CorruptDataError, 'truncated file');
+  t.end();
+});
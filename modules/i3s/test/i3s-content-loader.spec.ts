@@ -44,6 +44,28 @@ test('ParseI3sTileContent#should parse tile content', async (t) => {
   t.end();
 });
 
+test('ParseI3sTileContent#should parse tile content on worker', async (t) => {
+  const tileset = TILESET_STUB();
+  const i3SNodePagesTiles = new I3SNodePagesTiles(tileset, TEST_LAYER_URL, {});
+  const tile = await i3SNodePagesTiles.formTileFromNodePages(1);
+  const response = await fetchFile(I3S_TILE_CONTENT);
+  const data = await response.arrayBuffer();
+  const options = {i3s: {...getI3SOptions(tile, tileset), useDracoGeometry: false}};
+
+  const expected = await parse(data.slice(0), I3SContentLoader, {...options, worker: false});
+  const content = await parse(data, I3SContentLoader, {
+    ...options,
+    _nodeWorkers: true,
+    _workerType: 'test'
+  });
+  t.deepEqual(
+    content!.attributes.colors.value,
+    expected!.attributes.colors.value,
+    'worker result matches main thread result'
+  );
+  t.end();
+});
+
 test('ParseI3sTileContent#should load "dds" texture if it is supported', async (t) => {
   const tileset = TILESET_STUB();
   const i3SNodePagesTiles = new I3SNodePagesTiles(tileset, TEST_LAYER_URL, {});
@@ -38,6 +38,7 @@ export const GeoJSONWorkerLoader = {
   mimeTypes: ['application/geo+json'],
   category: 'geometry',
   text: true,
+  sniff: sniffGeoJSON,
   options: {
     geojson: {
       shape: 'geojson-table'
@@ -52,6 +53,14 @@ export const GeoJSONWorkerLoader = {
   }
 } as const satisfies Loader<GeoJSONTable, TableBatch, GeoJSONLoaderOptions>;
 
+/** GeoJSON is often served as `.json`, look for GeoJSON object types */
+function sniffGeoJSON(text: string): number {
+  if (/"type"\s*:\s*"(FeatureCollection|Feature)"/.test(text)) {
+    return 0.9;
+  }
+  return /"coordinates"\s*:/.test(text) ? 0.5 : 0;
+}
+
 export const GeoJSONLoader = {
   ...GeoJSONWorkerLoader,
   // @ts-expect-error
@@ -26,6 +26,7 @@ export default class JSONParser {
       },
 
       onopenobject: (name) => {
+        this._startArrayElement();
         this._openObject({});
         if (typeof name !== 'undefined') {
           this.parser.emit('onkey', name);
@@ -42,6 +43,7 @@ export default class JSONParser {
       },
 
       onopenarray: () => {
+        this._startArrayElement();
         this._openArray();
       },
 
@@ -50,6 +52,7 @@ export default class JSONParser {
       },
 
       onvalue: (value) => {
+        this._startArrayElement();
         this._pushOrSet(value);
       },
 
@@ -82,6 +85,13 @@ export default class JSONParser {
 
   // PRIVATE METHODS
 
+  /** Sets the index of the next element in the jsonpath, when a value is added to an array */
+  _startArrayElement(): void {
+    if (this.currentState.isArray) {
+      this.jsonpath.set(++this.currentState.index);
+    }
+  }
+
   _pushOrSet(value): void {
     const {container, key} = this.currentState;
     if (key !== null) {
@@ -96,7 +106,7 @@ export default class JSONParser {
     this.jsonpath.push(null);
     this._pushOrSet(newContainer);
     this.previousStates.push(this.currentState);
-    this.currentState = {container: newContainer, isArray: true, key: null};
+    this.currentState = {container: newContainer, isArray: true, key: null, index: -1};
   }
 
   _closeArray(): void {
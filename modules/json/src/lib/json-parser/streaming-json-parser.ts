@@ -3,21 +3,44 @@
 // Copyright (c) vis.gl contributors
 
 import {default as JSONParser} from './json-parser';
-import JSONPath from '../jsonpath/jsonpath';
+import JSONPath, {matchJSONPathComponent} from '../jsonpath/jsonpath';
+import type {JSONPathComponent} from '../jsonpath/jsonpath-parser';
+
+/** Rows streamed from one of the arrays selected by the jsonpaths */
+export type StreamedRows = {
+  /** Path of the array, e.g. `$.data[0].items` */
+  jsonpath: JSONPath;
+  rows: any[];
+};
 
 /**
- * The `StreamingJSONParser` looks for the first array in the JSON structure.
- * and emits an array of chunks
+ * A jsonpath split into the path of the arrays to stream,
+ * and an optional selector of the elements of these arrays (`[*]`, `[0]`, `[1:5]`, `[?(...)]`)
+ */
+type StreamingJSONPath = {
+  arrayPath: JSONPath;
+  elementSelector: JSONPathComponent | null;
+};
+
+/**
+ * The `StreamingJSONParser` streams the elements of the arrays selected by the jsonpaths
+ * (or of the first array in the JSON structure if no jsonpaths are provided)
+ * and emits them as rows.
+ * @note Arrays nested in the elements of a streamed array are part of the rows, they are not streamed
  */
 export default class StreamingJSONParser extends JSONParser {
-  private jsonPaths: JSONPath[];
+  private jsonPaths: StreamingJSONPath[];
   private streamingJsonPath: JSONPath | null = null;
   private streamingArray: any[] | null = null;
+  /** Element selectors of the jsonpaths that selected the streaming array, `null` selects all */
+  private elementSelectors: (JSONPathComponent | null)[] = [];
+  private streamedRows: StreamedRows[] = [];
   private topLevelObject: object | null = null;
 
   constructor(options: {[key: string]: any} = {}) {
     super({
       onopenarray: () => {
+        this._startArrayElement();
         if (!this.streamingArray) {
           if (this._matchJSONPath()) {
             // @ts-ignore
@@ -31,8 +54,19 @@ export default class StreamingJSONParser extends JSONParser {
         this._openArray();
       },
 
+      onclosearray: () => {
+        const isStreamingArray = this._isStreamingArray();
+        this._closeArray();
+        if (isStreamingArray) {
+          this.streamingArray = null;
+        } else {
+          this._addRow();
+        }
+      },
+
       // Redefine onopenarray to inject value for top-level object
       onopenobject: (name) => {
+        this._startArrayElement();
         if (!this.topLevelObject) {
           this.topLevelObject = {};
           this._openObject(this.topLevelObject);
@@ -42,27 +76,40 @@ export default class StreamingJSONParser extends JSONParser {
         if (typeof name !== 'undefined') {
           this.parser.emit('onkey', name);
         }
+      },
+
+      oncloseobject: () => {
+        this._closeObject();
+        this._addRow();
+      },
+
+      onvalue: (value) => {
+        this._startArrayElement();
+        this._pushOrSet(value);
+        this._addRow();
       }
     });
-    const jsonpaths = options.jsonpaths || [];
-    this.jsonPaths = jsonpaths.map((jsonpath) => new JSONPath(jsonpath));
+    const jsonpaths: string[] = options.jsonpaths || [];
+    this.jsonPaths = jsonpaths.map((jsonpath) => getStreamingJSONPath(new JSONPath(jsonpath)));
   }
 
   /**
    * write REDEFINITION
    * - super.write() chunk to parser
-   * - get the contents (so far) of "topmost-level" array as batch of rows
-   * - clear top-level array
-   * - return the batch of rows\
+   * - get the rows (so far) of the streamed arrays
+   * - return the batch of rows
    */
   write(chunk) {
+    return this.writeArrays(chunk).flatMap((streamedRows) => streamedRows.rows);
+  }
+
+  /**
+   * Writes a chunk to the parser
+   * @returns the rows of each array that was streamed in this chunk
+   */
+  writeArrays(chunk: string): StreamedRows[] {
     super.write(chunk);
-    let array: any[] = [];
-    if (this.streamingArray) {
-      array = [...this.streamingArray];
-      this.streamingArray.length = 0;
-    }
-    return array;
+    return this.streamedRows.splice(0);
   }
 
   /**
@@ -74,6 +121,7 @@ export default class StreamingJSONParser extends JSONParser {
     return this.topLevelObject;
   }
 
+  /** Returns the path of the array that is (or was last) streamed */
   getStreamingJsonPath() {
     return this.streamingJsonPath;
   }
@@ -95,18 +143,72 @@ export default class StreamingJSONParser extends JSONParser {
     const currentPath = this.getJsonPath();
     // console.debug(`Testing JSONPath`, currentPath);
 
-    // Backwards compatibility, match any array
-    // TODO implement using wildcard once that is supported
+    // Backwards compatibility, match the first array
     if (this.jsonPaths.length === 0) {
-      return true;
+      this.elementSelectors = [null];
+      return !this.streamingJsonPath;
     }
 
-    for (const jsonPath of this.jsonPaths) {
-      if (jsonPath.equals(currentPath)) {
-        return true;
-      }
+    this.elementSelectors = this.jsonPaths
+      .filter((jsonPath) => jsonPath.arrayPath.matches(currentPath))
+      .map((jsonPath) => jsonPath.elementSelector);
+    return this.elementSelectors.length > 0;
+  }
+
+  _isStreamingArray(): boolean {
+    return Boolean(this.streamingArray) && this.currentState.container === this.streamingArray;
+  }
+
+  /**
+   * Moves a completed element of the streaming array to the streamed rows, if it is selected
+   * The streaming array is kept empty in the partial result
+   */
+  _addRow(): void {
+    if (!this._isStreamingArray()) {
+      return;
+    }
+
+    const row = this.streamingArray!.pop();
+    const index = this.jsonpath.path[this.jsonpath.path.length - 1] as number;
+    const selected = this.elementSelectors.some(
+      (selector) => selector === null || matchJSONPathComponent(selector, index, row)
+    );
+    if (!selected) {
+      return;
     }
 
-    return false;
+    let streamedRows = this.streamedRows[this.streamedRows.length - 1];
+    if (streamedRows?.jsonpath !== this.streamingJsonPath) {
+      streamedRows = {jsonpath: this.streamingJsonPath!, rows: []};
+      this.streamedRows.push(streamedRows);
+    }
+    streamedRows.rows.push(row);
+  }
+}
+
+/** Splits a trailing element selector from a jsonpath, e.g. `$.features[?(@.id > 1)]` */
+function getStreamingJSONPath(jsonpath: JSONPath): StreamingJSONPath {
+  const components = jsonpath.path.slice(1);
+  const lastComponent = components[components.length - 1];
+  const hasElementSelector = lastComponent !== undefined && !isMemberName(lastComponent);
+  const arrayComponents = hasElementSelector ? components.slice(0, -1) : components;
+
+  if (
+    arrayComponents.some(
+      (component) => typeof component === 'object' && component.type === 'filter'
+    )
+  ) {
+    throw new Error(
+      `JSONPath ${jsonpath}: filters can only select the elements of streamed arrays`
+    );
   }
+
+  return {
+    arrayPath: new JSONPath(arrayComponents),
+    elementSelector: hasElementSelector ? lastComponent : null
+  };
+}
+
+function isMemberName(component: JSONPathComponent): boolean {
+  return typeof component === 'string' && component !== '*';
 }
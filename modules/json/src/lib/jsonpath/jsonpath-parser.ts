@@ -0,0 +1,292 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+/**
+ * A component of a JSONPath
+ * - `'$'` (root), a member name, `'*'` (wildcard) or `'..'` (recursive descent)
+ * - an array index
+ * - a selector of array elements: a list of indices, a slice or a filter expression
+ */
+export type JSONPathComponent = string | number | JSONPathSelector;
+
+export type JSONPathSelector =
+  | {type: 'indices'; indices: number[]}
+  | {type: 'slice'; start: number; end: number; step: number}
+  | {type: 'filter'; expression: string; filter: JSONPathFilter};
+
+/** A filter expression, e.g. `@.properties.mag >= 5 && @.type == 'Feature'` */
+export type JSONPathFilter =
+  | {operator: '&&' | '||'; left: JSONPathFilter; right: JSONPathFilter}
+  | {operator: JSONPathComparisonOperator; left: JSONPathOperand; right: JSONPathOperand}
+  | {operator: 'exists'; path: (string | number)[]};
+
+/** A member of the current element (`@`), or a literal value */
+export type JSONPathOperand =
+  | {path: (string | number)[]}
+  | {value: string | number | boolean | null};
+
+export type JSONPathComparisonOperator = '==' | '!=' | '<=' | '>=' | '<' | '>';
+
+// Two character operators are matched first
+const COMPARISON_OPERATORS: JSONPathComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+const NAME = /[^.[\]]+/y;
+const FILTER_NAME = /[\w$]+/y;
+const NUMBER = /-?\d+(\.\d+)?([eE][-+]?\d+)?/y;
+const KEYWORD = /(true|false|null)\b/y;
+const INDICES = /^\d+(,\d+)*$/;
+const SLICE = /^(\d*):(\d*)(?::(\d*))?$/;
+
+/**
+ * Parses a JSONPath
+ * @param path - e.g. `$.features`, `$.data[*].items`, `$..features[?(@.properties.mag > 5)]`
+ * @returns the components of the path, starting with `'$'`
+ */
+export function parseJSONPath(path: string): JSONPathComponent[] {
+  const parser = new JSONPathParser(path);
+  const components = parser.parsePath('$');
+  parser.expectEnd();
+  return components;
+}
+
+/** Recursive descent parser for JSONPaths and filter expressions */
+class JSONPathParser {
+  private text: string;
+  private position: number = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  /** Parses a path starting with `root`, i.e. `$`, or `@` in filter expressions */
+  parsePath(root: '$' | '@'): JSONPathComponent[] {
+    if (this.text[this.position] !== root) {
+      throw this.error(`must start with ${root}`);
+    }
+    this.position++;
+
+    const components: JSONPathComponent[] = ['$'];
+    for (;;) {
+      if (this.text.startsWith('..', this.position)) {
+        this.position += 2;
+        components.push('..');
+        if (this.text[this.position] !== '[') {
+          components.push(this.parseName(root));
+        }
+      } else if (this.text[this.position] === '.') {
+        this.position++;
+        components.push(this.parseName(root));
+      } else if (this.text[this.position] === '[') {
+        components.push(this.parseBracket());
+      } else {
+        return components;
+      }
+    }
+  }
+
+  expectEnd(): void {
+    if (this.position < this.text.length) {
+      throw this.error(`unexpected "${this.text[this.position]}"`);
+    }
+  }
+
+  private parseName(root: '$' | '@'): string {
+    const name = this.match(root === '$' ? NAME : FILTER_NAME);
+    if (!name) {
+      throw this.error('missing name');
+    }
+    return name;
+  }
+
+  /** Parses `['name']`, `[*]`, `[0]`, `[0,2]`, `[1:5:2]` or `[?(expression)]` */
+  private parseBracket(): JSONPathComponent {
+    this.expect('[');
+    this.skipWhitespace();
+
+    let component: JSONPathComponent;
+    switch (this.text[this.position]) {
+      case '*':
+        this.position++;
+        component = '*';
+        break;
+      case "'":
+      case '"':
+        component = this.parseString();
+        break;
+      case '?':
+        component = this.parseFilterSelector();
+        break;
+      default:
+        component = this.parseIndexSelector();
+    }
+
+    this.skipWhitespace();
+    this.expect(']');
+    return component;
+  }
+
+  private parseIndexSelector(): JSONPathComponent {
+    const end = this.text.indexOf(']', this.position);
+    if (end < 0) {
+      throw this.error('expected "]"');
+    }
+    const selector = this.text.slice(this.position, end).replace(/\s/g, '');
+    this.position = end;
+
+    if (INDICES.test(selector)) {
+      const indices = selector.split(',').map(Number);
+      return indices.length === 1 ? indices[0] : {type: 'indices', indices};
+    }
+
+    const slice = SLICE.exec(selector);
+    if (slice) {
+      const [, start, stop, step] = slice;
+      if (step && Number(step) === 0) {
+        throw this.error('slice step can not be 0');
+      }
+      return {
+        type: 'slice',
+        start: start ? Number(start) : 0,
+        end: stop ? Number(stop) : Infinity,
+        step: step ? Number(step) : 1
+      };
+    }
+
+    if (selector.includes('-')) {
+      throw this.error('negative indices are not supported');
+    }
+    throw this.error(`unsupported selector [${selector}]`);
+  }
+
+  private parseFilterSelector(): JSONPathComponent {
+    this.expect('?');
+    this.skipWhitespace();
+    this.expect('(');
+    const start = this.position;
+    const filter = this.parseOr();
+    const expression = this.text.slice(start, this.position).trim();
+    this.skipWhitespace();
+    this.expect(')');
+    return {type: 'filter', expression, filter};
+  }
+
+  private parseOr(): JSONPathFilter {
+    let filter = this.parseAnd();
+    while (this.matchOperator('||')) {
+      filter = {operator: '||', left: filter, right: this.parseAnd()};
+    }
+    return filter;
+  }
+
+  private parseAnd(): JSONPathFilter {
+    let filter = this.parseComparison();
+    while (this.matchOperator('&&')) {
+      filter = {operator: '&&', left: filter, right: this.parseComparison()};
+    }
+    return filter;
+  }
+
+  private parseComparison(): JSONPathFilter {
+    this.skipWhitespace();
+    if (this.text[this.position] === '(') {
+      this.position++;
+      const filter = this.parseOr();
+      this.skipWhitespace();
+      this.expect(')');
+      return filter;
+    }
+
+    const left = this.parseOperand();
+    const operator = COMPARISON_OPERATORS.find((candidate) => this.matchOperator(candidate));
+    if (operator) {
+      return {operator, left, right: this.parseOperand()};
+    }
+    if ('path' in left) {
+      return {operator: 'exists', path: left.path};
+    }
+    throw this.error('missing comparison operator');
+  }
+
+  private parseOperand(): JSONPathOperand {
+    this.skipWhitespace();
+    const char = this.text[this.position];
+
+    if (char === '@') {
+      const path = this.parsePath('@').slice(1);
+      if (
+        path.some(
+          (component) => typeof component === 'object' || component === '*' || component === '..'
+        )
+      ) {
+        throw this.error('filter paths can only contain names and indices');
+      }
+      return {path: path as (string | number)[]};
+    }
+
+    if (char === "'" || char === '"') {
+      return {value: this.parseString()};
+    }
+
+    const number = this.match(NUMBER);
+    if (number) {
+      return {value: Number(number)};
+    }
+
+    const keyword = this.match(KEYWORD);
+    if (keyword) {
+      return {value: JSON.parse(keyword)};
+    }
+
+    throw this.error('missing value');
+  }
+
+  /** Parses a quoted string, with backslash escapes */
+  private parseString(): string {
+    const quote = this.text[this.position++];
+    let string = '';
+    while (this.position < this.text.length && this.text[this.position] !== quote) {
+      if (this.text[this.position] === '\\') {
+        this.position++;
+      }
+      string += this.text[this.position++];
+    }
+    this.expect(quote);
+    return string;
+  }
+
+  private matchOperator(operator: string): boolean {
+    this.skipWhitespace();
+    if (this.text.startsWith(operator, this.position)) {
+      this.position += operator.length;
+      return true;
+    }
+    return false;
+  }
+
+  private match(regex: RegExp): string | null {
+    regex.lastIndex = this.position;
+    const match = regex.exec(this.text);
+    if (match) {
+      this.position += match[0].length;
+    }
+    return match && match[0];
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) {
+      this.position++;
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.position] !== char) {
+      throw this.error(`expected "${char}" at position ${this.position}`);
+    }
+    this.position++;
+  }
+
+  private error(message: string): Error {
+    return new Error(`Invalid JSONPath ${this.text}: ${message}`);
+  }
+}
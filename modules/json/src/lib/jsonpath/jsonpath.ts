@@ -2,22 +2,37 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
+import type {
+  JSONPathComponent,
+  JSONPathSelector,
+  JSONPathFilter,
+  JSONPathOperand,
+  JSONPathComparisonOperator
+} from './jsonpath-parser';
+import {parseJSONPath} from './jsonpath-parser';
+
+/** Member names that are written with the dot notation */
+const DOT_NAME = /^[^.[\]'"\s]+$/;
+
 /**
- * A parser for a minimal subset of the jsonpath standard
+ * A parser for the subset of the JSONPath standard that can be matched while streaming
  * Full JSON path parsers for JS exist but are quite large (bundle size)
  *
  * Supports
  *
- *   `$.component.component.component`
+ *   `$.component.component.component`, `$['component']`
+ *   `$.*`, `$[*]` - wildcards
+ *   `$[0]`, `$[0,2]`, `$[1:10:2]` - array indices and slices (no negative indices)
+ *   `$..component` - recursive descent
+ *   `$[?(@.component == 'value' && @.component > 1)]` - filter expressions
  */
 export default class JSONPath {
-  path: string[];
+  path: JSONPathComponent[];
 
-  constructor(path: JSONPath | string[] | string | null = null) {
+  constructor(path: JSONPath | JSONPathComponent[] | string | null = null) {
     this.path = ['$'];
 
     if (path instanceof JSONPath) {
-      // @ts-ignore
       this.path = [...path.path];
       return;
     }
@@ -29,10 +44,7 @@ export default class JSONPath {
 
     // Parse a string as a JSONPath
     if (typeof path === 'string') {
-      this.path = path.split('.');
-      if (this.path[0] !== '$') {
-        throw new Error('JSONPaths must start with $');
-      }
+      this.path = parseJSONPath(path);
     }
   }
 
@@ -41,10 +53,12 @@ export default class JSONPath {
   }
 
   toString(): string {
-    return this.path.join('.');
+    return this.path
+      .map((component, i) => (i === 0 ? '$' : formatComponent(component, this.path[i - 1])))
+      .join('');
   }
 
-  push(name: string): void {
+  push(name: JSONPathComponent): void {
     this.path.push(name);
   }
 
@@ -52,7 +66,7 @@ export default class JSONPath {
     return this.path.pop();
   }
 
-  set(name: string): void {
+  set(name: JSONPathComponent): void {
     this.path[this.path.length - 1] = name;
   }
 
@@ -62,7 +76,7 @@ export default class JSONPath {
     }
 
     for (let i = 0; i < this.path.length; ++i) {
-      if (this.path[i] !== other.path[i]) {
+      if (!componentEquals(this.path[i], other.path[i])) {
         return false;
       }
     }
@@ -70,6 +84,15 @@ export default class JSONPath {
     return true;
   }
 
+  /**
+   * Checks if this JSONPath selects the value at `path`
+   * @param path - the path of a value, only made of member names and array indices
+   * @note Filter expressions need the value, they do not match any path
+   */
+  matches(path: JSONPath): boolean {
+    return matchComponents(this.path, 1, path.path, 1);
+  }
+
   /**
    * Sets the value pointed at by path
    * TODO - handle root path
@@ -81,7 +104,7 @@ export default class JSONPath {
     path.shift();
     const field = path.pop();
     for (const component of path) {
-      object = object[component];
+      object = object[component as string | number];
     }
     // @ts-ignore
     object[field] = value;
@@ -97,9 +120,182 @@ export default class JSONPath {
     path.shift();
     const field = path.pop();
     for (const component of path) {
-      object = object[component];
+      object = object[component as string | number];
     }
     // @ts-ignore
     return object[field];
   }
 }
+
+/**
+ * Checks if a component of a JSONPath selects a member or element
+ * @param component - component of a JSONPath
+ * @param key - name of the member, or index of the element
+ * @param value - value of the member or element, used by filter expressions
+ */
+export function matchJSONPathComponent(
+  component: JSONPathComponent,
+  key: string | number,
+  value?: unknown
+): boolean {
+  if (component === '*') {
+    return true;
+  }
+  if (typeof component !== 'object') {
+    return component === key;
+  }
+  switch (component.type) {
+    case 'indices':
+      return typeof key === 'number' && component.indices.includes(key);
+    case 'slice':
+      const {start, end, step} = component;
+      return typeof key === 'number' && key >= start && key < end && (key - start) % step === 0;
+    case 'filter':
+      return evaluateFilter(component.filter, value);
+    default:
+      return false;
+  }
+}
+
+/** Matches the components of a JSONPath from index `i` against the components of a path from index `j` */
+function matchComponents(
+  components: JSONPathComponent[],
+  i: number,
+  path: JSONPathComponent[],
+  j: number
+): boolean {
+  if (i === components.length) {
+    return j === path.length;
+  }
+
+  const component = components[i];
+  // Recursive descent matches any number of components
+  if (component === '..') {
+    for (let k = j; k <= path.length; k++) {
+      if (matchComponents(components, i + 1, path, k)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  const key = path[j];
+  return (
+    j < path.length &&
+    (typeof key === 'string' || typeof key === 'number') &&
+    !(typeof component === 'object' && component.type === 'filter') &&
+    matchJSONPathComponent(component, key) &&
+    matchComponents(components, i + 1, path, j + 1)
+  );
+}
+
+function evaluateFilter(filter: JSONPathFilter, element: unknown): boolean {
+  switch (filter.operator) {
+    case '&&':
+      return evaluateFilter(filter.left, element) && evaluateFilter(filter.right, element);
+    case '||':
+      return evaluateFilter(filter.left, element) || evaluateFilter(filter.right, element);
+    case 'exists':
+      return getOperandValue({path: filter.path}, element) !== undefined;
+    default:
+      return compareValues(
+        filter.operator,
+        getOperandValue(filter.left, element),
+        getOperandValue(filter.right, element)
+      );
+  }
+}
+
+function getOperandValue(operand: JSONPathOperand, element: unknown): unknown {
+  if ('value' in operand) {
+    return operand.value;
+  }
+  let value = element;
+  for (const key of operand.path) {
+    value =
+      value !== null && typeof value === 'object'
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+  return value;
+}
+
+/** Numbers and strings can be ordered, any values can be tested for equality */
+function compareValues(
+  operator: JSONPathComparisonOperator,
+  left: unknown,
+  right: unknown
+): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    default:
+  }
+
+  const order = getOrder(left, right);
+  if (order === null) {
+    return false;
+  }
+
+  switch (operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    default:
+      return false;
+  }
+}
+
+function getOrder(left: unknown, right: unknown): number | null {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : Number(left > right);
+  }
+  return null;
+}
+
+function formatComponent(component: JSONPathComponent, previous: JSONPathComponent): string {
+  if (typeof component === 'number') {
+    return `[${component}]`;
+  }
+  if (typeof component === 'object') {
+    return `[${formatSelector(component)}]`;
+  }
+  if (component === '..') {
+    return '..';
+  }
+  if (DOT_NAME.test(component)) {
+    return previous === '..' ? component : `.${component}`;
+  }
+  return `['${component.replace(/['\\]/g, '\\$&')}']`;
+}
+
+function formatSelector(selector: JSONPathSelector): string {
+  switch (selector.type) {
+    case 'indices':
+      return selector.indices.join(',');
+    case 'slice':
+      const {start, end, step} = selector;
+      return `${start || ''}:${end === Infinity ? '' : end}${step === 1 ? '' : `:${step}`}`;
+    case 'filter':
+      return `?(${selector.expression})`;
+    default:
+      return '';
+  }
+}
+
+function componentEquals(component: JSONPathComponent, other: JSONPathComponent): boolean {
+  if (component && other && typeof component === 'object' && typeof other === 'object') {
+    return formatSelector(component) === formatSelector(other);
+  }
+  return component === other;
+}
@@ -29,37 +29,48 @@ export async function* parseJSONInBatches(
 
   const parser = new StreamingJSONParser({jsonpaths});
 
+  // Path of the array that the rows in the batch builder were streamed from
+  let jsonpath: string | null = null;
+
   for await (const chunk of asyncIterator) {
-    const rows = parser.write(chunk);
-
-    const jsonpath = rows.length > 0 && parser.getStreamingJsonPathAsString();
-
-    if (rows.length > 0 && isFirstChunk) {
-      if (metadata) {
-        const initialBatch: TableBatch = {
-          // Common fields
-          shape: options?.json?.shape || 'array-row-table',
-          batchType: 'partial-result',
-          data: [],
-          length: 0,
-          bytesUsed: 0,
-          // JSON additions
-          container: parser.getPartialResult(),
-          jsonpath
-        };
-        yield initialBatch;
+    for (const streamedRows of parser.writeArrays(chunk)) {
+      // Rows of different arrays are emitted in different batches
+      const streamingJsonPath = streamedRows.jsonpath.toString();
+      if (jsonpath !== streamingJsonPath) {
+        const batch = jsonpath && tableBatchBuilder.getFinalBatch({jsonpath});
+        if (batch) {
+          yield batch;
+        }
+        jsonpath = streamingJsonPath;
+      }
+
+      if (isFirstChunk) {
+        if (metadata) {
+          const initialBatch: TableBatch = {
+            // Common fields
+            shape: options?.json?.shape || 'array-row-table',
+            batchType: 'partial-result',
+            data: [],
+            length: 0,
+            bytesUsed: 0,
+            // JSON additions
+            container: parser.getPartialResult(),
+            jsonpath
+          };
+          yield initialBatch;
+        }
+        isFirstChunk = false;
+        // schema = deduceSchema(rows);
       }
-      isFirstChunk = false;
-      // schema = deduceSchema(rows);
-    }
 
-    // Add the row
-    for (const row of rows) {
-      tableBatchBuilder.addRow(row);
-      // If a batch has been completed, emit it
-      const batch = tableBatchBuilder.getFullBatch({jsonpath});
-      if (batch) {
-        yield batch;
+      // Add the row
+      for (const row of streamedRows.rows) {
+        tableBatchBuilder.addRow(row);
+        // If a batch has been completed, emit it
+        const batch = tableBatchBuilder.getFullBatch({jsonpath});
+        if (batch) {
+          yield batch;
+        }
       }
     }
 
@@ -71,7 +82,6 @@ export async function* parseJSONInBatches(
   }
 
   // yield final batch
-  const jsonpath = parser.getStreamingJsonPathAsString();
   const batch = tableBatchBuilder.getFinalBatch({jsonpath});
   if (batch) {
     yield batch;
@@ -3,7 +3,7 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
-import {load, loadInBatches, isIterator, isAsyncIterable} from '@loaders.gl/core';
+import {load, loadInBatches, parseInBatches, isIterator, isAsyncIterable} from '@loaders.gl/core';
 import {ObjectRowTableBatch, getTableLength} from '@loaders.gl/schema-utils';
 import {JSONLoader} from '@loaders.gl/json';
 
@@ -105,6 +105,36 @@ test('JSONLoader#loadInBatches(jsonpaths)', async (t) => {
   t.end();
 });
 
+test('JSONLoader#parseInBatches(jsonpaths with wildcards and filters)', async (t) => {
+  const json = JSON.stringify({
+    pages: [
+      {
+        page: 1,
+        results: [
+          {id: 1, score: 5},
+          {id: 2, score: 1}
+        ]
+      },
+      {page: 2, results: [{id: 3, score: 7}]}
+    ]
+  });
+  const iterator = await parseInBatches(new TextEncoder().encode(json).buffer, JSONLoader, {
+    json: {jsonpaths: ['$.pages[*].results[?(@.score > 2)]']}
+  });
+
+  const batches: {jsonpath: string; ids: number[]}[] = [];
+  for await (const batch of iterator) {
+    // @ts-ignore
+    batches.push({jsonpath: batch.jsonpath, ids: batch.data.map((row) => row.id)});
+  }
+
+  t.deepEqual(batches, [
+    {jsonpath: '$.pages[0].results', ids: [1]},
+    {jsonpath: '$.pages[1].results', ids: [3]}
+  ]);
+  t.end();
+});
+
 // TODO - columnar table batch support not yet fixed
 /*
 test('JSONLoader#loadInBatches(geojson.json, columns, batchSize = auto)', async t => {
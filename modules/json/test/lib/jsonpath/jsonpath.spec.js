@@ -1,10 +1,49 @@
 import test from 'tape-promise/tape';
 import {_JSONPath} from '@loaders.gl/json';
+import {matchJSONPathComponent} from '../../../src/lib/jsonpath/jsonpath';
 
+/** @type {{jsonpath: string, expected: any[]}[]} */
 const TEST_CASES = [
   {jsonpath: '$', expected: []},
   {jsonpath: '$.features', expected: ['features']},
-  {jsonpath: '$.features.*', expected: ['features', '*']}
+  {jsonpath: '$.features.*', expected: ['features', '*']},
+  {jsonpath: '$.data.*.items', expected: ['data', '*', 'items']},
+  {jsonpath: '$.data[0][2]', expected: ['data', 0, 2]},
+  {jsonpath: "$['a b'].c", expected: ['a b', 'c']},
+  {jsonpath: '$..features', expected: ['..', 'features']},
+  {jsonpath: '$..[0,2]', expected: ['..', {type: 'indices', indices: [0, 2]}]},
+  {jsonpath: '$.data[1:10:2]', expected: ['data', {type: 'slice', start: 1, end: 10, step: 2}]},
+  {jsonpath: '$.data[:5]', expected: ['data', {type: 'slice', start: 0, end: 5, step: 1}]}
+];
+
+const MATCH_TEST_CASES = [
+  {jsonpath: '$.features', path: ['features'], matches: true},
+  {jsonpath: '$.features', path: ['features', 0], matches: false},
+  {jsonpath: '$.data[*].items', path: ['data', 3, 'items'], matches: true},
+  {jsonpath: '$.data.*.items', path: ['data', 'a', 'items'], matches: true},
+  {jsonpath: '$.data[1,3].items', path: ['data', 2, 'items'], matches: false},
+  {jsonpath: '$.data[1:10:2].items', path: ['data', 3, 'items'], matches: true},
+  {jsonpath: '$.data[1:10:2].items', path: ['data', 4, 'items'], matches: false},
+  {jsonpath: '$..features', path: ['features'], matches: true},
+  {jsonpath: '$..features', path: ['collections', 2, 'features'], matches: true},
+  {jsonpath: '$..features', path: ['collections', 2, 'features', 0], matches: false},
+  {jsonpath: '$.a..b[*]', path: ['a', 'x', 'y', 'b', 1], matches: true},
+  {jsonpath: '$.a[?(@.b)]', path: ['a', 0], matches: false}
+];
+
+const FILTER_TEST_CASES = [
+  {filter: '@.mag > 5', element: {mag: 6}, matches: true},
+  {filter: '@.mag > 5', element: {mag: '6'}, matches: false},
+  {filter: '@.mag <= 5', element: {mag: 5}, matches: true},
+  {filter: "@.type == 'Point'", element: {type: 'Point'}, matches: true},
+  {filter: '@.type != "Point"', element: {type: 'Point'}, matches: false},
+  {filter: "@['a b'][1] == true", element: {'a b': [false, true]}, matches: true},
+  {filter: '@.tags', element: {tags: null}, matches: true},
+  {filter: '@.tags', element: {}, matches: false},
+  {filter: '@ >= 2', element: 3, matches: true},
+  {filter: '@.a == 1 || @.b == 1 && @.c == 1', element: {a: 1}, matches: true},
+  {filter: '(@.a == 1 || @.b == 1) && @.c == 1', element: {a: 1}, matches: false},
+  {filter: '@.a == null', element: {a: null}, matches: true}
 ];
 
 test('JSONPath#parsing', async (t) => {
@@ -37,3 +76,31 @@ test('JSONPath#deep set', async (t) => {
   t.equal(jsonpath.getFieldAtPath(deepValue), 2, 'JSONPath.setFieldAtPath');
   t.end();
 });
+
+test('JSONPath#matches', async (t) => {
+  for (const tc of MATCH_TEST_CASES) {
+    const jsonpath = new _JSONPath(tc.jsonpath);
+    const path = new _JSONPath(tc.path);
+    t.equal(jsonpath.matches(path), tc.matches, `${tc.jsonpath} matches ${path}: ${tc.matches}`);
+  }
+  t.end();
+});
+
+test('JSONPath#filters', async (t) => {
+  for (const tc of FILTER_TEST_CASES) {
+    const jsonpath = new _JSONPath(`$[?(${tc.filter})]`);
+    t.equals(jsonpath.toString(), `$[?(${tc.filter})]`, `${tc.filter} generates original string`);
+    const matches = matchJSONPathComponent(jsonpath.path[1], 0, tc.element);
+    t.equal(matches, tc.matches, `${tc.filter} on ${JSON.stringify(tc.element)}: ${tc.matches}`);
+  }
+  t.end();
+});
+
+test('JSONPath#errors', async (t) => {
+  t.throws(() => new _JSONPath('features'), /must start with \$/, 'path without root');
+  t.throws(() => new _JSONPath('$.data[-1]'), /negative indices/, 'negative index');
+  t.throws(() => new _JSONPath('$.data[1:5:0]'), /step/, 'slice step');
+  t.throws(() => new _JSONPath('$.data[?(@.a >)]'), /missing value/, 'incomplete filter');
+  t.throws(() => new _JSONPath('$.data[0'), /expected/, 'unterminated bracket');
+  t.end();
+});
@@ -22,3 +22,85 @@ test('StreamingJSONParser#geojson', async (t) => {
   t.pass('should be able to parse geojson in chunks from a stream');
   t.end();
 });
+
+const NESTED_JSON = JSON.stringify({
+  meta: {count: 5},
+  data: [
+    {id: 'a', items: [{v: 1}, {v: 2}], tags: ['x']},
+    {id: 'b', items: [{v: 3}]},
+    {id: 'c', nested: {items: [{v: 4}, {v: 5, items: [{v: 6}]}]}}
+  ]
+});
+
+/** Writes the JSON a few characters at a time, to test matching across chunks */
+function parseRows(json, jsonpaths) {
+  const parser = new StreamingJSONParser({jsonpaths});
+  const streamedArrays = [];
+  for (let i = 0; i < json.length; i += 7) {
+    for (const {jsonpath, rows} of parser.writeArrays(json.slice(i, i + 7))) {
+      const last = streamedArrays[streamedArrays.length - 1];
+      if (last?.jsonpath === jsonpath.toString()) {
+        last.rows.push(...rows);
+      } else {
+        streamedArrays.push({jsonpath: jsonpath.toString(), rows});
+      }
+    }
+  }
+  return {parser, streamedArrays};
+}
+
+test('StreamingJSONParser#jsonpaths', async (t) => {
+  let {streamedArrays} = parseRows(NESTED_JSON, ['$.data[*].items']);
+  t.deepEqual(
+    streamedArrays,
+    [
+      {jsonpath: '$.data[0].items', rows: [{v: 1}, {v: 2}]},
+      {jsonpath: '$.data[1].items', rows: [{v: 3}]}
+    ],
+    'wildcard streams the arrays of each element'
+  );
+
+  ({streamedArrays} = parseRows(NESTED_JSON, ['$..items']));
+  t.deepEqual(
+    streamedArrays.map(({jsonpath, rows}) => [jsonpath, rows.length]),
+    [
+      ['$.data[0].items', 2],
+      ['$.data[1].items', 1],
+      ['$.data[2].nested.items', 2]
+    ],
+    'recursive descent streams nested arrays, arrays inside rows are not streamed'
+  );
+
+  ({streamedArrays} = parseRows(NESTED_JSON, ['$.data[1:3]']));
+  t.deepEqual(
+    streamedArrays.map(({rows}) => rows.map((row) => row.id)),
+    [['b', 'c']],
+    'slice selects elements of the streamed array'
+  );
+
+  ({streamedArrays} = parseRows(NESTED_JSON, ["$.data[?(@.id != 'b' && @.items)]"]));
+  t.deepEqual(
+    streamedArrays.map(({rows}) => rows.map((row) => row.id)),
+    [['a']],
+    'filter selects elements of the streamed array'
+  );
+
+  ({streamedArrays} = parseRows(NESTED_JSON, ['$..items[?(@.v >= 2)]', '$.data[0].items[0]']));
+  t.deepEqual(
+    streamedArrays.map(({rows}) => rows.map((row) => row.v)),
+    [[1, 2], [3], [4, 5]],
+    'elements selected by any of the jsonpaths are streamed'
+  );
+
+  const {parser} = parseRows(NESTED_JSON, ['$.data']);
+  const partialResult = /** @type {any} */ (parser.getPartialResult());
+  t.deepEqual(partialResult.meta, {count: 5}, 'partial result contains other values');
+  t.deepEqual(partialResult.data, [], 'streamed array is not kept');
+
+  t.throws(
+    () => new StreamingJSONParser({jsonpaths: ['$.data[?(@.id)].items']}),
+    /filters can only select the elements of streamed arrays/,
+    'filters are only supported on streamed elements'
+  );
+  t.end();
+});
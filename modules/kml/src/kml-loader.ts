@@ -38,6 +38,7 @@ export const KMLLoader = {
   mimeTypes: ['application/vnd.google-earth.kml+xml'],
   text: true,
   tests: [KML_HEADER],
+  sniff: (text: string) => (/<kml[\s>]/.test(text) ? 1 : 0),
   parse: async (arrayBuffer, options?: KMLLoaderOptions) =>
     parseTextSync(new TextDecoder().decode(arrayBuffer), options),
   parseTextSync,
@@ -21,7 +21,6 @@ export type LASLoaderOptions = LoaderOptions & {
     /** Override the URL to the worker bundle (by default loads from unpkg.com) */
     workerUrl?: string;
   };
-  onProgress?: Function;
 };
 
 /**
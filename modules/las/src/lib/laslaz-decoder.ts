@@ -9,6 +9,7 @@
 */
 // laslaz.js - treat as compiled code
 import type {LASHeader} from './las-types';
+import {UnsupportedFormatError, UnsupportedVersionError} from '@loaders.gl/loader-utils';
 import getModule from './libs/laz-perf';
 
 let Module: any = null;
@@ -393,12 +394,16 @@ export class LASFile {
     this.arraybuffer = arraybuffer;
 
     if (this.determineVersion() > 13) {
-      throw new Error('Only file versions <= 1.3 are supported at this time');
+      throw new UnsupportedVersionError('Only file versions <= 1.3 are supported at this time', {
+        byteOffset: 24
+      });
     }
 
     this.determineFormat();
     if (POINT_FORMAT_READERS[this.formatId] === undefined) {
-      throw new Error('The point format ID is not supported');
+      throw new UnsupportedFormatError('The point format ID is not supported', {
+        byteOffset: 32 * 3 + 8
+      });
     }
 
     this.loader = this.isCompressed
@@ -415,7 +420,9 @@ export class LASFile {
     const bit6 = (formatId & 0x40) >> 6;
 
     if (bit7 === 1 && bit6 === 1) {
-      throw new Error('Old style compression not supported');
+      throw new UnsupportedFormatError('Old style compression not supported', {
+        byteOffset: 32 * 3 + 8
+      });
     }
 
     this.formatId = formatId & 0x3f;
@@ -124,15 +124,14 @@ function parseLASMesh(arrayBuffer: ArrayBuffer, options: LASLoaderOptions = {}):
       pointIndex++;
     }
 
-    const meshBatch = {
-      ...lasMesh,
-      header: {
-        vertexCount: lasHeader.totalRead
-      },
-      progress: lasHeader.totalRead / lasHeader.totalToRead
-    };
-
-    options?.onProgress?.(meshBatch);
+    // The whole file is in memory, report points decoded so far
+    options.onProgress?.({
+      loadedBytes: arrayBuffer.byteLength,
+      totalBytes: arrayBuffer.byteLength,
+      batches: 0,
+      rows: lasHeader.totalRead,
+      done: false
+    });
   });
   /* eslint-enable max-statements */
 
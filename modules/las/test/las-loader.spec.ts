@@ -79,13 +79,7 @@ test('LASWorker#parse(binary) extra bytes', async (t) => {
 });
 
 test('LASWorkerLoader#load(worker)', async (t) => {
-  if (typeof Worker === 'undefined') {
-    t.comment('Worker is not usable in non-browser environments');
-    t.end();
-    return;
-  }
-
-  const data = await load(LAS_BINARY_URL, LASWorkerLoader, {las: {skip: 10}});
+  const data = await load(LAS_BINARY_URL, LASWorkerLoader, {las: {skip: 10}, _nodeWorkers: true});
   validateMeshCategoryData(t, data);
 
   t.equal(data.attributes.POSITION.value.length, 80805 * 3, 'POSITION attribute was found');
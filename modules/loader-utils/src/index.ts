@@ -17,7 +17,9 @@ export type {
   NumberArray,
   NumericArray,
   // fetch
-  FetchLike
+  FetchLike,
+  // compression
+  StreamDecompression
 } from './types';
 
 // formats
@@ -31,6 +33,7 @@ export type {
   LoaderWithParser,
   LoaderContext,
   LoaderOptions,
+  LoaderProgress,
   LoaderOptionsType,
   LoaderReturnType,
   LoaderBatchType,
@@ -54,6 +57,19 @@ export type {
 
 // GENERAL UTILS
 export {assert} from './lib/env-utils/assert';
+export type {LoaderErrorCode, LoaderErrorInfo} from './lib/errors/loader-error';
+export {
+  LoaderError,
+  UnsupportedFormatError,
+  CorruptDataError,
+  UnsupportedVersionError,
+  NetworkError,
+  RangeNotSupportedError,
+  InvalidPasswordError,
+  TimeoutError,
+  addLoaderErrorInfo
+} from './lib/errors/loader-error';
+export {AbortError, throwIfAborted} from './lib/errors/abort-error';
 export {
   isBrowser,
   isWorker,
@@ -111,6 +127,27 @@ export {forEach, concatenateArrayBuffersAsync} from './lib/iterators/async-itera
 
 // REQUEST UTILS
 export {default as RequestScheduler} from './lib/request-utils/request-scheduler';
+export type {
+  RequestSchedulerProps,
+  RequestPriorityClass,
+  ScheduleRequestOptions
+} from './lib/request-utils/request-scheduler';
+export type {FetchPolicy} from './lib/request-utils/fetch-policy';
+export type {
+  ResponseCacheProps,
+  ResponseCacheStorage,
+  ResponseCacheEntry,
+  ResponseCacheEntryInfo
+} from './lib/request-utils/response-cache';
+export {ResponseCache, withResponseCache} from './lib/request-utils/response-cache';
+export {MemoryResponseCacheStorage} from './lib/request-utils/memory-response-cache-storage';
+export type {IndexedDBResponseCacheStorageProps} from './lib/request-utils/indexeddb-response-cache-storage';
+export {IndexedDBResponseCacheStorage} from './lib/request-utils/indexeddb-response-cache-storage';
+export {
+  withFetchPolicy,
+  fetchWithPolicy,
+  DEFAULT_FETCH_POLICY
+} from './lib/request-utils/fetch-policy';
 
 // PATH HELPERS
 export {setPathPrefix, getPathPrefix, resolvePath} from './lib/path-utils/file-aliases';
@@ -143,10 +180,18 @@ export {stream};
 
 export type {ReadableFile, WritableFile, Stat} from './lib/files/file';
 export {BlobFile} from './lib/files/blob-file';
+export type {HttpFileOptions} from './lib/files/http-file';
 export {HttpFile} from './lib/files/http-file';
+export type {CachedReadableFileProps} from './lib/files/cached-readable-file';
+export {CachedReadableFile} from './lib/files/cached-readable-file';
 export {NodeFileFacade as NodeFile} from './lib/files/node-file-facade';
 
-export type {FileSystem, RandomAccessFileSystem} from './lib/filesystems/filesystem';
+export type {
+  FileSystem,
+  RandomAccessFileSystem,
+  WritableFileSystem
+} from './lib/filesystems/filesystem';
+export {MemoryFileSystem} from './lib/filesystems/memory-filesystem';
 export {NodeFileSystemFacade as NodeFilesystem} from './lib/filesystems/node-filesystem-facade';
 
 // TODO - replace with ReadableFile
@@ -168,7 +213,7 @@ export type {ImageSourceMetadata} from './lib/sources/image-source';
 export type {GetImageParameters} from './lib/sources/image-source';
 
 export type {VectorSource} from './lib/sources/vector-source';
-export type {VectorSourceMetadata} from './lib/sources/vector-source';
+export type {VectorSourceMetadata, VectorSourceLayer} from './lib/sources/vector-source';
 export type {GetFeaturesParameters} from './lib/sources/vector-source';
 
 export type {TileSource} from './lib/sources/tile-source';
@@ -0,0 +1,29 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {LoaderError} from './loader-error';
+
+/**
+ * Thrown when a load, parse or worker job is cancelled via `options.signal`
+ */
+export class AbortError extends LoaderError {
+  /** The `reason` of the `AbortSignal`, if any */
+  readonly reason: unknown;
+
+  constructor(message: string = 'The operation was aborted', reason?: unknown) {
+    super(message, 'ABORTED');
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Throws an `AbortError` if the signal has been aborted
+ * @note Call in `catch` blocks before rethrowing, to convert errors caused by the abort (e.g. from `fetch`)
+ */
+export function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal?.aborted) {
+    throw new AbortError(undefined, signal.reason);
+  }
+}
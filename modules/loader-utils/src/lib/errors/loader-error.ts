@@ -0,0 +1,145 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+/** Machine-readable error codes for `LoaderError` */
+export type LoaderErrorCode =
+  /** The data is not in a format that the loader (or any candidate loader) supports */
+  | 'UNSUPPORTED_FORMAT'
+  /** The data is in the expected format, but is truncated or malformed */
+  | 'CORRUPT_DATA'
+  /** The data is in a version of the format that the loader does not support */
+  | 'UNSUPPORTED_VERSION'
+  /** A request failed, or returned an error status */
+  | 'NETWORK'
+  /** The server does not support HTTP range requests */
+  | 'RANGE_NOT_SUPPORTED'
+  /** The data is encrypted, and no password or a wrong password was supplied */
+  | 'INVALID_PASSWORD'
+  /** The operation was cancelled via an `AbortSignal` */
+  | 'ABORTED'
+  /** The operation did not complete within its timeout, e.g. a worker job with `jobTimeout` */
+  | 'TIMEOUT';
+
+/** Context of a `LoaderError` */
+export type LoaderErrorInfo = {
+  /** Id of the loader that threw the error */
+  loader?: string;
+  /** URL of the resource being loaded */
+  url?: string;
+  /** Byte offset in the resource at which the error was detected */
+  byteOffset?: number;
+  /** Underlying error */
+  cause?: unknown;
+};
+
+/**
+ * Base class for errors thrown by loaders.gl, with a machine-readable `code`
+ * @example `if (error instanceof LoaderError && error.code === 'UNSUPPORTED_VERSION') {...}`
+ */
+export class LoaderError extends Error {
+  readonly code: LoaderErrorCode;
+  /** Id of the loader that threw the error. Filled in by `parse()` if not supplied. */
+  loader?: string;
+  /** URL of the resource being loaded. Filled in by `parse()` if not supplied. */
+  url?: string;
+  /** Byte offset in the resource at which the error was detected */
+  byteOffset?: number;
+  /** Underlying error */
+  readonly cause?: unknown;
+
+  constructor(message: string, code: LoaderErrorCode, info: LoaderErrorInfo = {}) {
+    super(message);
+    this.name = 'LoaderError';
+    this.code = code;
+    this.loader = info.loader;
+    this.url = info.url;
+    this.byteOffset = info.byteOffset;
+    this.cause = info.cause;
+  }
+}
+
+/** The data is not in a format that the loader (or any candidate loader) supports */
+export class UnsupportedFormatError extends LoaderError {
+  constructor(message: string, info?: LoaderErrorInfo) {
+    super(message, 'UNSUPPORTED_FORMAT', info);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+/** The data is in the expected format, but is truncated or malformed */
+export class CorruptDataError extends LoaderError {
+  constructor(message: string, info?: LoaderErrorInfo) {
+    super(message, 'CORRUPT_DATA', info);
+    this.name = 'CorruptDataError';
+  }
+}
+
+/** The data is in a version of the format that the loader does not support */
+export class UnsupportedVersionError extends LoaderError {
+  constructor(message: string, info?: LoaderErrorInfo) {
+    super(message, 'UNSUPPORTED_VERSION', info);
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
+/** A request failed, or returned an error status */
+export class NetworkError extends LoaderError {
+  /** HTTP status of the response, if any */
+  readonly status?: number;
+
+  constructor(message: string, info?: LoaderErrorInfo & {status?: number}) {
+    super(message, 'NETWORK', info);
+    this.name = 'NetworkError';
+    this.status = info?.status;
+  }
+}
+
+/** The server does not support HTTP range requests */
+export class RangeNotSupportedError extends LoaderError {
+  constructor(message: string, info?: LoaderErrorInfo) {
+    super(message, 'RANGE_NOT_SUPPORTED', info);
+    this.name = 'RangeNotSupportedError';
+  }
+}
+
+/** The data is encrypted, and no password or a wrong password was supplied */
+export class InvalidPasswordError extends LoaderError {
+  constructor(message: string, info?: LoaderErrorInfo) {
+    super(message, 'INVALID_PASSWORD', info);
+    this.name = 'InvalidPasswordError';
+  }
+}
+
+/** The operation did not complete within its timeout, e.g. a worker job with `jobTimeout` */
+export class TimeoutError extends LoaderError {
+  constructor(message: string, info?: LoaderErrorInfo) {
+    super(message, 'TIMEOUT', info);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Adds context to a `LoaderError` that was thrown without it
+ * @returns the error, for rethrowing
+ */
+export function addLoaderErrorInfo(error: unknown, info: LoaderErrorInfo): unknown {
+  if (error instanceof LoaderError) {
+    error.loader = error.loader ?? info.loader;
+    error.url = error.url ?? info.url;
+    error.byteOffset = error.byteOffset ?? info.byteOffset;
+  }
+  return error;
+}
+
+/**
+ * Returns the machine-readable details of a `LoaderError`, e.g. to post it from a worker
+ * @returns `undefined` for other errors
+ */
+export function getLoaderErrorInfo(
+  error: unknown
+): {code: LoaderErrorCode; byteOffset?: number} | undefined {
+  return error instanceof LoaderError
+    ? {code: error.code, byteOffset: error.byteOffset}
+    : undefined;
+}
@@ -0,0 +1,305 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {Stats} from '@probe.gl/stats';
+import {ReadableFile, Stat} from './file';
+
+/** CachedReadableFile options */
+export type CachedReadableFileProps = {
+  id?: string;
+  /** Size of the aligned blocks that reads are split into, in bytes. */
+  blockSize?: number;
+  /** Maximum number of bytes to keep in the block cache. Least recently used blocks are evicted first. */
+  maxCacheSize?: number;
+  /** Maximum number of contiguous blocks that are merged into a single underlying request. */
+  maxBlocksPerRequest?: number;
+};
+
+const DEFAULT_PROPS: Required<CachedReadableFileProps> = {
+  id: 'cached-readable-file',
+  blockSize: 64 * 1024,
+  maxCacheSize: 16 * 1024 * 1024,
+  maxBlocksPerRequest: 256
+};
+
+const STAT_CACHE_HITS = 'Cache Hits';
+const STAT_CACHE_MISSES = 'Cache Misses';
+const STAT_REQUESTS = 'Requests';
+const STAT_CACHED_BYTES = 'Cached Bytes';
+const STAT_INVALIDATIONS = 'Invalidations';
+
+/** A block that has been requested but not yet loaded */
+type PendingBlock = {
+  promise: Promise<ArrayBuffer>;
+  resolve: (arrayBuffer: ArrayBuffer) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Wraps a `ReadableFile` (typically an `HttpFile`) with a block cache.
+ * - Reads are split into aligned blocks, and only blocks that are not cached are requested.
+ * - Blocks requested in the same tick are merged into as few range requests as possible.
+ * - Loaded blocks are kept in an LRU cache bounded by `maxCacheSize` bytes.
+ * - If the underlying file exposes `fetchRange()`, the ETag of each response is checked,
+ *   and the cache is invalidated if the file has changed on the server.
+ */
+export class CachedReadableFile implements ReadableFile {
+  readonly props: Required<CachedReadableFileProps>;
+  readonly stats: Stats;
+  /** The wrapped file */
+  readonly file: ReadableFile;
+  readonly handle: unknown;
+  readonly url: string;
+
+  /** ETag of the most recent response, if the server provides one */
+  etag: string | null = null;
+
+  /** Cached blocks in least recently used order */
+  private cache = new Map<number, ArrayBuffer>();
+  private cacheSize: number = 0;
+  /** Blocks that have been requested but not yet loaded */
+  private pendingBlocks = new Map<number, PendingBlock>();
+  /** Blocks that have been requested but not yet issued as range requests */
+  private queuedBlocks: number[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Incremented every time the cache is invalidated */
+  private generation: number = 0;
+
+  constructor(file: ReadableFile, props: CachedReadableFileProps = {}) {
+    this.props = {...DEFAULT_PROPS, ...props};
+    this.file = file;
+    this.handle = file.handle;
+    this.url = file.url;
+
+    this.stats = new Stats({id: this.props.id});
+    this.stats.get(STAT_CACHE_HITS);
+    this.stats.get(STAT_CACHE_MISSES);
+    this.stats.get(STAT_REQUESTS);
+    this.stats.get(STAT_CACHED_BYTES);
+    this.stats.get(STAT_INVALIDATIONS);
+  }
+
+  get size(): number {
+    return this.file.size;
+  }
+
+  get bigsize(): bigint {
+    return this.file.bigsize;
+  }
+
+  async close(): Promise<void> {
+    this.invalidate();
+    await this.file.close();
+  }
+
+  async stat(): Promise<Stat> {
+    if (!this.file.stat) {
+      throw new Error('stat() not supported');
+    }
+    return await this.file.stat();
+  }
+
+  /**
+   * Read a range of bytes. Fewer bytes than requested are returned if the range extends beyond the end of the file.
+   * @param start offset of first byte
+   * @param length number of bytes to read
+   */
+  async read(start: number | bigint = 0, length: number = 0): Promise<ArrayBuffer> {
+    const offset = Number(start);
+    if (length <= 0) {
+      return new ArrayBuffer(0);
+    }
+
+    const generation = this.generation;
+    const arrayBuffer = await this._readBlocks(offset, length);
+
+    // If the file changed while we were reading, the blocks may come from different versions of the file
+    if (this.generation !== generation) {
+      return await this._readBlocks(offset, length);
+    }
+    return arrayBuffer;
+  }
+
+  /** Drop all cached blocks */
+  invalidate(): void {
+    this.cache.clear();
+    this.cacheSize = 0;
+    this.generation++;
+    this.stats.get(STAT_CACHED_BYTES).reset();
+    this.stats.get(STAT_INVALIDATIONS).incrementCount();
+  }
+
+  // PRIVATE
+
+  /** Assemble a range of bytes from (possibly not yet loaded) blocks */
+  protected async _readBlocks(offset: number, length: number): Promise<ArrayBuffer> {
+    const {blockSize} = this.props;
+    const firstBlock = Math.floor(offset / blockSize);
+    const lastBlock = Math.floor((offset + length - 1) / blockSize);
+
+    const blockPromises: Promise<ArrayBuffer>[] = [];
+    for (let blockIndex = firstBlock; blockIndex <= lastBlock; blockIndex++) {
+      blockPromises.push(this._getBlock(blockIndex));
+    }
+    const blocks = await Promise.all(blockPromises);
+
+    const result = new Uint8Array(length);
+    let bytesRead = 0;
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i];
+      const blockStart = (firstBlock + i) * blockSize;
+      const sourceStart = Math.max(offset - blockStart, 0);
+      const sourceEnd = Math.min(offset + length - blockStart, block.byteLength);
+      if (sourceEnd > sourceStart) {
+        result.set(new Uint8Array(block, sourceStart, sourceEnd - sourceStart), bytesRead);
+        bytesRead += sourceEnd - sourceStart;
+      }
+      // A short block means that we have reached the end of the file
+      if (block.byteLength < blockSize) {
+        break;
+      }
+    }
+
+    return bytesRead < length ? result.buffer.slice(0, bytesRead) : result.buffer;
+  }
+
+  /** Get a block from the cache, or queue a request for it */
+  protected _getBlock(blockIndex: number): Promise<ArrayBuffer> {
+    const cachedBlock = this.cache.get(blockIndex);
+    if (cachedBlock) {
+      // Move to the end of the LRU order
+      this.cache.delete(blockIndex);
+      this.cache.set(blockIndex, cachedBlock);
+      this.stats.get(STAT_CACHE_HITS).incrementCount();
+      return Promise.resolve(cachedBlock);
+    }
+
+    const pendingBlock = this.pendingBlocks.get(blockIndex);
+    if (pendingBlock) {
+      this.stats.get(STAT_CACHE_HITS).incrementCount();
+      return pendingBlock.promise;
+    }
+
+    this.stats.get(STAT_CACHE_MISSES).incrementCount();
+    let resolve: (arrayBuffer: ArrayBuffer) => void = () => {};
+    let reject: (error: Error) => void = () => {};
+    const promise = new Promise<ArrayBuffer>((resolve_, reject_) => {
+      resolve = resolve_;
+      reject = reject_;
+    });
+    this.pendingBlocks.set(blockIndex, {promise, resolve, reject});
+    this.queuedBlocks.push(blockIndex);
+
+    // Wait until the end of the tick so that requests from concurrent reads can be merged
+    if (this.flushTimer === null) {
+      this.flushTimer = setTimeout(() => this._flushQueuedBlocks(), 0);
+    }
+    return promise;
+  }
+
+  /** Merge queued blocks into contiguous runs and issue one request per run */
+  protected _flushQueuedBlocks(): void {
+    this.flushTimer = null;
+    const queuedBlocks = this.queuedBlocks.sort((a, b) => a - b);
+    this.queuedBlocks = [];
+
+    let runStart = 0;
+    for (let i = 1; i <= queuedBlocks.length; i++) {
+      const isContiguous =
+        i < queuedBlocks.length &&
+        queuedBlocks[i] === queuedBlocks[i - 1] + 1 &&
+        i - runStart < this.props.maxBlocksPerRequest;
+      if (!isContiguous) {
+        this._loadBlocks(queuedBlocks[runStart], i - runStart); // eslint-disable-line @typescript-eslint/no-floating-promises
+        runStart = i;
+      }
+    }
+  }
+
+  /** Load a contiguous run of blocks with a single request and resolve the pending blocks */
+  protected async _loadBlocks(firstBlock: number, blockCount: number): Promise<void> {
+    const {blockSize} = this.props;
+    const offset = firstBlock * blockSize;
+    let length = blockCount * blockSize;
+    if (this.file.size > 0) {
+      length = Math.max(Math.min(length, this.file.size - offset), 0);
+    }
+
+    let arrayBuffer: ArrayBuffer;
+    let etag: string | null = null;
+    try {
+      this.stats.get(STAT_REQUESTS).incrementCount();
+      if (length > 0) {
+        ({arrayBuffer, etag} = await this._fetchRange(offset, length));
+      } else {
+        arrayBuffer = new ArrayBuffer(0);
+      }
+    } catch (error) {
+      this._rejectBlocks(firstBlock, blockCount, error as Error);
+      return;
+    }
+
+    // Don't cache blocks from a response that was superseded by a newer version of the file
+    const isCurrent = !etag || etag === this.etag;
+
+    for (let i = 0; i < blockCount; i++) {
+      const blockIndex = firstBlock + i;
+      const blockStart = Math.min(i * blockSize, arrayBuffer.byteLength);
+      const blockEnd = Math.min(blockStart + blockSize, arrayBuffer.byteLength);
+      const block = arrayBuffer.slice(blockStart, blockEnd);
+      if (isCurrent) {
+        this._addToCache(blockIndex, block);
+      }
+      this.pendingBlocks.get(blockIndex)?.resolve(block);
+      this.pendingBlocks.delete(blockIndex);
+    }
+  }
+
+  protected _rejectBlocks(firstBlock: number, blockCount: number, error: Error): void {
+    for (let blockIndex = firstBlock; blockIndex < firstBlock + blockCount; blockIndex++) {
+      this.pendingBlocks.get(blockIndex)?.reject(error);
+      this.pendingBlocks.delete(blockIndex);
+    }
+  }
+
+  /** Read a range from the underlying file, checking the ETag if the file supports `fetchRange()` */
+  protected async _fetchRange(
+    offset: number,
+    length: number
+  ): Promise<{arrayBuffer: ArrayBuffer; etag: string | null}> {
+    if (!this.file.fetchRange) {
+      return {arrayBuffer: await this.file.read(offset, length), etag: null};
+    }
+
+    const response = await this.file.fetchRange(offset, length);
+    // Range starts beyond the end of the file
+    if (response.status === 416) {
+      return {arrayBuffer: new ArrayBuffer(0), etag: null};
+    }
+
+    const etag = response.headers.get('ETag');
+    if (etag && this.etag && etag !== this.etag) {
+      this.invalidate();
+    }
+    this.etag = etag || this.etag;
+
+    return {arrayBuffer: await response.arrayBuffer(), etag};
+  }
+
+  protected _addToCache(blockIndex: number, block: ArrayBuffer): void {
+    this.cache.set(blockIndex, block);
+    this.cacheSize += block.byteLength;
+    this.stats.get(STAT_CACHED_BYTES).addCount(block.byteLength);
+
+    // Evict least recently used blocks
+    for (const [evictedIndex, evictedBlock] of this.cache) {
+      if (this.cacheSize <= this.props.maxCacheSize) {
+        break;
+      }
+      this.cache.delete(evictedIndex);
+      this.cacheSize -= evictedBlock.byteLength;
+      this.stats.get(STAT_CACHED_BYTES).subtractCount(evictedBlock.byteLength);
+    }
+  }
+}
@@ -30,7 +30,10 @@ export interface ReadableFile {
 
 export interface WritableFile {
   handle: unknown;
-  /** Write to file. The number of bytes written will be returned */
+  /**
+   * Write to file. The number of bytes written will be returned
+   * @param offset position in the file. Defaults to the end of the previous write.
+   */
   write: (arrayBuffer: ArrayBuffer, offset?: number | bigint, length?: number) => Promise<number>;
   /** Get information about the file */
   stat?(): Promise<Stat>;
@@ -2,27 +2,54 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
+import type {FetchLike} from '../../types';
 import {ReadableFile, Stat} from './file';
+import {FetchPolicy, withFetchPolicy} from '../request-utils/fetch-policy';
+import {ResponseCache, withResponseCache} from '../request-utils/response-cache';
+import {NetworkError, RangeNotSupportedError} from '../errors/loader-error';
+
+/** HttpFile options */
+export type HttpFileOptions = {
+  /** Custom fetch function, defaults to global `fetch` */
+  fetch?: FetchLike;
+  /** Retry, backoff and timeout policy for the range requests */
+  fetchPolicy?: FetchPolicy;
+  /** Cache for the range requests */
+  responseCache?: ResponseCache;
+};
 
 export class HttpFile implements ReadableFile {
   readonly handle: string;
-  readonly size: number = 0;
-  readonly bigsize: bigint = 0n;
+  /** Size of the file in bytes, `0` until `stat()` has been called */
+  size: number = 0;
+  bigsize: bigint = 0n;
   readonly url: string;
+  /** fetch function used for all requests, with any fetch policy and response cache applied */
+  protected fetch: FetchLike;
 
-  constructor(url: string) {
+  constructor(url: string, options: HttpFileOptions = {}) {
     this.handle = url;
     this.url = url;
+    const fetchFunction = options.fetch || ((url_, fetchOptions) => fetch(url_, fetchOptions));
+    this.fetch = withResponseCache(
+      withFetchPolicy(fetchFunction, options.fetchPolicy),
+      options.responseCache
+    );
   }
 
   async close(): Promise<void> {}
 
   async stat(): Promise<Stat> {
-    const response = await fetch(this.handle, {method: 'HEAD'});
+    const response = await this.fetch(this.handle, {method: 'HEAD'});
     if (!response.ok) {
-      throw new Error(`Failed to fetch HEAD ${this.handle}`);
+      throw new NetworkError(`Failed to fetch HEAD ${this.handle}`, {
+        url: this.url,
+        status: response.status
+      });
     }
     const size = parseInt(response.headers.get('Content-Length') || '0');
+    this.size = size;
+    this.bigsize = BigInt(size);
     return {
       size,
       bigsize: BigInt(size),
@@ -62,7 +89,7 @@ export class HttpFile implements ReadableFile {
     }
 
     const url = this.handle;
-    let response = await fetch(url, {
+    let response = await this.fetch(url, {
       signal,
       headers: {Range: `bytes=${nOffset}-${nOffset + nLength - 1}`}
     });
@@ -80,8 +107,9 @@ export class HttpFile implements ReadableFile {
           if (controller) {
             controller.abort();
           }
-          throw Error(
-            'content-length header missing or exceeding request. Server must support HTTP Byte Serving.'
+          throw new RangeNotSupportedError(
+            'content-length header missing or exceeding request. Server must support HTTP Byte Serving.',
+            {url, byteOffset: nOffset}
           );
         }
 
@@ -94,10 +122,13 @@ export class HttpFile implements ReadableFile {
         if (offset === 0) {
           const contentRange = response.headers.get('Content-Range');
           if (!contentRange || !contentRange.startsWith('bytes *')) {
-            throw Error('Missing content-length on 416 response');
+            throw new NetworkError('Missing content-length on 416 response', {
+              url,
+              status: response.status
+            });
           }
           const actualLength = Number(contentRange.substr(8));
-          response = await fetch(this.url, {
+          response = await this.fetch(this.url, {
             signal,
             headers: {Range: `bytes=0-${actualLength - 1}`}
           });
@@ -106,7 +137,11 @@ export class HttpFile implements ReadableFile {
 
       default:
         if (response.status >= 300) {
-          throw Error(`Bad response code: ${response.status}`);
+          throw new NetworkError(`Bad response code: ${response.status}`, {
+            url,
+            byteOffset: nOffset,
+            status: response.status
+          });
         }
     }
 
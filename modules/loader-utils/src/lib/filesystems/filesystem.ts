@@ -38,3 +38,25 @@ export interface RandomAccessFileSystem extends FileSystem {
   /** Open a writable file */
   openWritableFile(path: string, flags?: 'w' | 'wx', mode?: number): Promise<WritableFile>;
 }
+
+/**
+ * A file system that files can be written to, e.g. a local directory, memory or an archive.
+ * Lets writers that generate multiple files target any storage.
+ * @note Paths use `/` as separator. Parent directories are created as needed.
+ */
+export interface WritableFileSystem {
+  /** Create a directory, including any missing parent directories */
+  mkdir(path: string): Promise<void>;
+
+  /** Write the full contents of a file, replacing any existing file */
+  writeFile(path: string, data: ArrayBuffer | ArrayBufferView | string): Promise<void>;
+
+  /** Open a file for incremental writes, replacing any existing file */
+  openWritable(path: string): Promise<WritableFile>;
+
+  /** Check if a file or directory exists */
+  exists(path: string): Promise<boolean>;
+
+  /** Remove a file, or a directory and all its contents. Missing paths are ignored, the root directory cannot be removed. */
+  delete(path: string): Promise<void>;
+}
@@ -0,0 +1,222 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {Stat, WritableFile} from '../files/file';
+import {FileSystem, WritableFileSystem} from './filesystem';
+
+/**
+ * In-memory file system, e.g. for running conversions without touching the local file system.
+ * Files written can be read back with `fetch()`, or collected with `getFileMap()`.
+ */
+export class MemoryFileSystem implements FileSystem, WritableFileSystem {
+  /** File contents, keyed by normalized path */
+  protected files = new Map<string, Uint8Array>();
+  /** Normalized paths of all directories, the root directory is `''` */
+  protected directories = new Set<string>(['']);
+
+  /** @param fileMap initial files, keyed by path */
+  constructor(fileMap: Record<string, ArrayBuffer | string> = {}) {
+    for (const [path, data] of Object.entries(fileMap)) {
+      this._setFile(normalizePath(path), toUint8Array(data).slice());
+    }
+    this.fetch = this.fetch.bind(this);
+  }
+
+  /** Returns the contents of all files, keyed by path */
+  getFileMap(): Record<string, ArrayBuffer> {
+    const fileMap: Record<string, ArrayBuffer> = {};
+    for (const [path, bytes] of this.files) {
+      fileMap[path] = copyToArrayBuffer(bytes);
+    }
+    return fileMap;
+  }
+
+  // implements FileSystem
+
+  async readdir(dirname: string = '.', options?: {recursive?: boolean}): Promise<string[]> {
+    const directory = normalizePath(dirname);
+    if (!this.directories.has(directory)) {
+      throw new Error(`No such directory: ${dirname}`);
+    }
+    const prefix = directory ? `${directory}/` : '';
+    const names = new Set<string>();
+    for (const path of [...this.directories, ...this.files.keys()]) {
+      if (path !== directory && path.startsWith(prefix)) {
+        const relativePath = path.slice(prefix.length);
+        names.add(options?.recursive ? relativePath : relativePath.split('/')[0]);
+      }
+    }
+    return [...names].sort();
+  }
+
+  async stat(path: string): Promise<Stat> {
+    const normalizedPath = normalizePath(path);
+    const bytes = this.files.get(normalizedPath);
+    if (bytes) {
+      return {size: bytes.byteLength, bigsize: BigInt(bytes.byteLength), isDirectory: false};
+    }
+    if (this.directories.has(normalizedPath)) {
+      return {size: 0, bigsize: 0n, isDirectory: true};
+    }
+    throw new Error(`No such file or directory: ${path}`);
+  }
+
+  async unlink(path: string): Promise<void> {
+    if (!this.files.delete(normalizePath(path))) {
+      throw new Error(`No such file: ${path}`);
+    }
+  }
+
+  async fetch(path: string, options?: RequestInit): Promise<Response> {
+    const bytes = this.files.get(normalizePath(path));
+    if (!bytes) {
+      return new Response(path, {status: 404, statusText: 'NOT FOUND'});
+    }
+    const response = new Response(copyToArrayBuffer(bytes));
+    Object.defineProperty(response, 'url', {value: path});
+    return response;
+  }
+
+  // implements WritableFileSystem
+
+  async mkdir(path: string): Promise<void> {
+    this._mkdir(normalizePath(path));
+  }
+
+  async writeFile(path: string, data: ArrayBuffer | ArrayBufferView | string): Promise<void> {
+    this._setFile(normalizePath(path), toUint8Array(data).slice());
+  }
+
+  async openWritable(path: string): Promise<WritableFile> {
+    const normalizedPath = normalizePath(path);
+    this._setFile(normalizedPath, new Uint8Array(0));
+    return new MemoryWritableFile(normalizedPath, (bytes) => this._setFile(normalizedPath, bytes));
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const normalizedPath = normalizePath(path);
+    return this.files.has(normalizedPath) || this.directories.has(normalizedPath);
+  }
+
+  async delete(path: string): Promise<void> {
+    const normalizedPath = normalizePath(path);
+    if (!normalizedPath) {
+      throw new Error(`Cannot delete the root directory: ${path}`);
+    }
+    this.files.delete(normalizedPath);
+    if (!this.directories.has(normalizedPath)) {
+      return;
+    }
+    const prefix = `${normalizedPath}/`;
+    for (const filePath of this.files.keys()) {
+      if (filePath.startsWith(prefix)) {
+        this.files.delete(filePath);
+      }
+    }
+    for (const directory of this.directories) {
+      if (directory === normalizedPath || directory.startsWith(prefix)) {
+        this.directories.delete(directory);
+      }
+    }
+  }
+
+  // PRIVATE
+
+  protected _setFile(path: string, bytes: Uint8Array): void {
+    if (this.directories.has(path)) {
+      throw new Error(`Is a directory: ${path}`);
+    }
+    this._mkdir(getDirname(path));
+    this.files.set(path, bytes);
+  }
+
+  protected _mkdir(path: string): void {
+    if (this.files.has(path)) {
+      throw new Error(`Is a file: ${path}`);
+    }
+    // Add the directory and any missing parent directories
+    for (
+      let directory = path;
+      !this.directories.has(directory);
+      directory = getDirname(directory)
+    ) {
+      this.directories.add(directory);
+    }
+  }
+}
+
+/** A file in a `MemoryFileSystem` that is written incrementally */
+class MemoryWritableFile implements WritableFile {
+  readonly handle: string;
+  private buffer = new Uint8Array(1024);
+  private size = 0;
+  private position = 0;
+  private onUpdate: (bytes: Uint8Array) => void;
+
+  constructor(path: string, onUpdate: (bytes: Uint8Array) => void) {
+    this.handle = path;
+    this.onUpdate = onUpdate;
+  }
+
+  async write(
+    arrayBuffer: ArrayBuffer,
+    offset: number | bigint = this.position,
+    length: number = arrayBuffer.byteLength
+  ): Promise<number> {
+    const start = Number(offset);
+    const end = start + length;
+    if (end > this.buffer.byteLength) {
+      // Grow geometrically to keep many small writes cheap
+      const buffer = new Uint8Array(Math.max(end, this.buffer.byteLength * 2));
+      buffer.set(this.buffer.subarray(0, this.size));
+      this.buffer = buffer;
+    }
+    this.buffer.set(new Uint8Array(arrayBuffer, 0, length), start);
+    this.size = Math.max(this.size, end);
+    this.position = end;
+    this.onUpdate(this.buffer.subarray(0, this.size));
+    return length;
+  }
+
+  async stat(): Promise<Stat> {
+    return {size: this.size, bigsize: BigInt(this.size), isDirectory: false};
+  }
+
+  async close(): Promise<void> {
+    // Release unused capacity
+    this.onUpdate(this.buffer.slice(0, this.size));
+  }
+}
+
+/** Strips leading `./` and `/` and trailing `/`, and resolves `.` and `..` segments */
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function getDirname(path: string): string {
+  const slashIndex = path.lastIndexOf('/');
+  return slashIndex >= 0 ? path.slice(0, slashIndex) : '';
+}
+
+function toUint8Array(data: ArrayBuffer | ArrayBufferView | string): Uint8Array {
+  if (typeof data === 'string') {
+    return new TextEncoder().encode(data);
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+function copyToArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
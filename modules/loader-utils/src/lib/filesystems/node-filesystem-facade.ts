@@ -5,7 +5,7 @@
 import {isBrowser} from '../env-utils/globals';
 import {Stat} from '../files/file';
 import {NodeFileFacade as NodeFile} from '../files/node-file-facade';
-import {RandomAccessFileSystem} from './filesystem';
+import {RandomAccessFileSystem, WritableFileSystem} from './filesystem';
 
 const NOT_IMPLEMENTED = new Error('Not implemented');
 
@@ -15,7 +15,7 @@ const NOT_IMPLEMENTED = new Error('Not implemented');
  * @note Dummy implementation, not used (constructor returns a real NodeFileSystem instance)
  * @param options
  */
-export class NodeFileSystemFacade implements RandomAccessFileSystem {
+export class NodeFileSystemFacade implements RandomAccessFileSystem, WritableFileSystem {
   // implements FileSystem
   constructor(options: {[key: string]: any}) {
     if (globalThis.loaders?.NodeFileSystem) {
@@ -62,4 +62,26 @@ export class NodeFileSystemFacade implements RandomAccessFileSystem {
   async fetch(path: RequestInfo, options?: RequestInit): Promise<Response> {
     throw NOT_IMPLEMENTED;
   }
+
+  // implements WritableFileSystem
+
+  async mkdir(path: string): Promise<void> {
+    throw NOT_IMPLEMENTED;
+  }
+
+  async writeFile(path: string, data: ArrayBuffer | ArrayBufferView | string): Promise<void> {
+    throw NOT_IMPLEMENTED;
+  }
+
+  async openWritable(path: string): Promise<NodeFile> {
+    throw NOT_IMPLEMENTED;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    throw NOT_IMPLEMENTED;
+  }
+
+  async delete(path: string): Promise<void> {
+    throw NOT_IMPLEMENTED;
+  }
 }
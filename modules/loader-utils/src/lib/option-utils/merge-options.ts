@@ -33,7 +33,8 @@ function mergeOptionsRecursively(
 
   const options = {...baseOptions};
   for (const [key, newValue] of Object.entries(newOptions)) {
-    if (newValue && typeof newValue === 'object' && !Array.isArray(newValue)) {
+    // Only merge plain objects, class instances (e.g. `AbortSignal`) are copied by reference
+    if (isPlainObject(newValue)) {
       options[key] = mergeOptionsRecursively(
         (options[key] as Record<string, unknown>) || {},
         newOptions[key] as Record<string, unknown>,
@@ -46,3 +47,11 @@ function mergeOptionsRecursively(
   }
   return options as Record<string, unknown>;
 }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,178 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {FetchLike} from '../../types';
+
+/**
+ * Retry, backoff and timeout policy for network requests.
+ * Applied by `load()`, `loadInBatches()`, `HttpFile` and `DataSource` when supplied as `options.fetchPolicy`.
+ */
+export type FetchPolicy = {
+  /** Maximum number of times a failed request is retried. `0` disables retries. */
+  maxRetries?: number;
+  /** Delay before the first retry, in milliseconds. Doubled for every subsequent retry. */
+  retryDelay?: number;
+  /** Upper bound for the delay between retries (including any `Retry-After` delay), in milliseconds. */
+  maxRetryDelay?: number;
+  /** Fraction (0-1) of each delay that is randomized, to avoid synchronized retries from many clients. */
+  jitter?: number;
+  /** Time after which a single request attempt is aborted, in milliseconds. `0` disables the timeout. */
+  timeout?: number;
+  /** HTTP status codes that cause a request to be retried. */
+  retryStatusCodes?: number[];
+  /** Whether to honour the `Retry-After` header of `429` and `503` responses. */
+  respectRetryAfter?: boolean;
+};
+
+export const DEFAULT_FETCH_POLICY: Required<FetchPolicy> = {
+  maxRetries: 0,
+  retryDelay: 250,
+  maxRetryDelay: 10000,
+  jitter: 0.5,
+  timeout: 0,
+  retryStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true
+};
+
+/**
+ * Wraps a fetch function so that all requests are issued according to a `FetchPolicy`
+ * @param fetchFunction fetch compatible function to issue each attempt with
+ * @param fetchPolicy retry, backoff and timeout policy
+ */
+export function withFetchPolicy(fetchFunction: FetchLike, fetchPolicy?: FetchPolicy): FetchLike {
+  if (!fetchPolicy) {
+    return fetchFunction;
+  }
+  return (url: string, fetchOptions?: RequestInit) =>
+    fetchWithPolicy(url, fetchOptions, fetchPolicy, fetchFunction);
+}
+
+/**
+ * Issues a request, retrying failed attempts according to a `FetchPolicy`
+ * - Network errors, timeouts and responses with one of the `retryStatusCodes` are retried.
+ * - Requests aborted by the caller's `signal` are never retried.
+ * @returns The first successful (or non-retryable) response.
+ *   The response of the last attempt is returned if all retries fail with a retryable status code.
+ */
+export async function fetchWithPolicy(
+  url: string,
+  fetchOptions: RequestInit | undefined,
+  fetchPolicy: FetchPolicy,
+  fetchFunction: FetchLike = (url_, options_) => fetch(url_, options_)
+): Promise<Response> {
+  const policy = {...DEFAULT_FETCH_POLICY, ...fetchPolicy};
+  const signal = fetchOptions?.signal;
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= policy.maxRetries;
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, fetchOptions, policy.timeout, fetchFunction);
+    } catch (error) {
+      if (isLastAttempt || signal?.aborted) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt, policy), signal);
+      continue; // eslint-disable-line no-continue
+    }
+
+    if (isLastAttempt || !policy.retryStatusCodes.includes(response.status)) {
+      return response;
+    }
+
+    // Release the connection of the failed attempt before retrying
+    response.body?.cancel().catch(() => {});
+    const retryAfter = policy.respectRetryAfter ? getRetryAfter(response) : null;
+    await sleep(getRetryDelay(attempt, policy, retryAfter), signal);
+  }
+}
+
+/** Issues a single request, aborting it if it does not complete within `timeout` milliseconds */
+async function fetchWithTimeout(
+  url: string,
+  fetchOptions: RequestInit | undefined,
+  timeout: number,
+  fetchFunction: FetchLike
+): Promise<Response> {
+  if (!timeout) {
+    return await fetchFunction(url, fetchOptions);
+  }
+
+  // Abort the request either on timeout or when the caller's signal aborts
+  const controller = new AbortController();
+  const signal = fetchOptions?.signal;
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener('abort', onAbort);
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  try {
+    return await fetchFunction(url, {...fetchOptions, signal: controller.signal});
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`Request timed out after ${timeout}ms: ${url}`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/** Exponential backoff with jitter, or the server supplied `Retry-After` delay */
+function getRetryDelay(
+  attempt: number,
+  policy: Required<FetchPolicy>,
+  retryAfter: number | null = null
+): number {
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, policy.maxRetryDelay);
+  }
+  const delay = Math.min(policy.retryDelay * 2 ** attempt, policy.maxRetryDelay);
+  return delay - delay * policy.jitter * Math.random();
+}
+
+/**
+ * Parses the `Retry-After` header, which is either a number of seconds or an HTTP date
+ * @returns delay in milliseconds, or `null` if not present
+ */
+function getRetryAfter(response: Response): number | null {
+  const retryAfter = response.headers.get('Retry-After');
+  if (!retryAfter) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isFinite(date) ? Math.max(date - Date.now(), 0) : null;
+}
+
+/** Waits for `delay` milliseconds, rejecting early if `signal` is aborted */
+function sleep(delay: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
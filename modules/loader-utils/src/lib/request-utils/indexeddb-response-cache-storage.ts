@@ -0,0 +1,142 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {
+  ResponseCacheStorage,
+  ResponseCacheEntry,
+  ResponseCacheEntryInfo
+} from './response-cache';
+
+/** IndexedDBResponseCacheStorage options */
+export type IndexedDBResponseCacheStorageProps = {
+  /** Name of the IndexedDB database */
+  dbName?: string;
+  /** IndexedDB implementation, e.g. for testing or for workers. Defaults to `globalThis.indexedDB` */
+  indexedDB?: IDBFactory;
+};
+
+const DEFAULT_PROPS: Required<Omit<IndexedDBResponseCacheStorageProps, 'indexedDB'>> = {
+  dbName: 'loaders.gl-response-cache'
+};
+
+/** Object store for entry metadata, kept separate so that `entries()` does not load response bodies */
+const INFO_STORE = 'info';
+/** Object store for complete entries */
+const ENTRY_STORE = 'entries';
+
+/**
+ * Stores responses in an IndexedDB database, persisting them across page loads
+ * @note Works with any `IDBFactory` compatible implementation
+ */
+export class IndexedDBResponseCacheStorage implements ResponseCacheStorage {
+  readonly props: Required<Omit<IndexedDBResponseCacheStorageProps, 'indexedDB'>>;
+  private indexedDB: IDBFactory;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(props: IndexedDBResponseCacheStorageProps = {}) {
+    const {indexedDB = globalThis.indexedDB, ...otherProps} = props;
+    if (!indexedDB) {
+      throw new Error('IndexedDB not available');
+    }
+    this.props = {...DEFAULT_PROPS, ...otherProps};
+    this.indexedDB = indexedDB;
+  }
+
+  async get(key: string): Promise<ResponseCacheEntry | null> {
+    const entry = await this._request(ENTRY_STORE, 'readonly', (store) => store.get(key));
+    return entry || null;
+  }
+
+  async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+    const info: ResponseCacheEntryInfo = {
+      key,
+      byteLength: entry.body.byteLength,
+      lastAccessed: entry.lastAccessed
+    };
+    await this._transaction('readwrite', (transaction) => {
+      transaction.objectStore(ENTRY_STORE).put(entry, key);
+      transaction.objectStore(INFO_STORE).put(info, key);
+    });
+  }
+
+  async touch(key: string, lastAccessed: number): Promise<void> {
+    const info = await this._request(INFO_STORE, 'readonly', (store) => store.get(key));
+    if (info) {
+      await this._request(INFO_STORE, 'readwrite', (store) =>
+        store.put({...info, lastAccessed}, key)
+      );
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this._transaction('readwrite', (transaction) => {
+      transaction.objectStore(ENTRY_STORE).delete(key);
+      transaction.objectStore(INFO_STORE).delete(key);
+    });
+  }
+
+  async entries(): Promise<ResponseCacheEntryInfo[]> {
+    return await this._request(INFO_STORE, 'readonly', (store) => store.getAll());
+  }
+
+  async clear(): Promise<void> {
+    await this._transaction('readwrite', (transaction) => {
+      transaction.objectStore(ENTRY_STORE).clear();
+      transaction.objectStore(INFO_STORE).clear();
+    });
+  }
+
+  /** Close the database connection */
+  async close(): Promise<void> {
+    const db = await this.db;
+    db?.close();
+    this.db = null;
+  }
+
+  // PRIVATE
+
+  protected async _getDB(): Promise<IDBDatabase> {
+    this.db =
+      this.db ||
+      new Promise((resolve, reject) => {
+        const request = this.indexedDB.open(this.props.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(ENTRY_STORE);
+          request.result.createObjectStore(INFO_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    return await this.db;
+  }
+
+  /** Issue a single request against one object store */
+  protected async _request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this._getDB();
+    return await new Promise<T>((resolve, reject) => {
+      const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Run requests against both object stores in one transaction */
+  protected async _transaction(
+    mode: IDBTransactionMode,
+    makeRequests: (transaction: IDBTransaction) => void
+  ): Promise<void> {
+    const db = await this._getDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([ENTRY_STORE, INFO_STORE], mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      makeRequests(transaction);
+    });
+  }
+}
@@ -0,0 +1,45 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {
+  ResponseCacheStorage,
+  ResponseCacheEntry,
+  ResponseCacheEntryInfo
+} from './response-cache';
+
+/** Stores responses in memory, for the lifetime of the page or process */
+export class MemoryResponseCacheStorage implements ResponseCacheStorage {
+  private entryMap = new Map<string, ResponseCacheEntry>();
+
+  async get(key: string): Promise<ResponseCacheEntry | null> {
+    return this.entryMap.get(key) || null;
+  }
+
+  async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+    this.entryMap.set(key, entry);
+  }
+
+  async touch(key: string, lastAccessed: number): Promise<void> {
+    const entry = this.entryMap.get(key);
+    if (entry) {
+      entry.lastAccessed = lastAccessed;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entryMap.delete(key);
+  }
+
+  async entries(): Promise<ResponseCacheEntryInfo[]> {
+    return Array.from(this.entryMap, ([key, entry]) => ({
+      key,
+      byteLength: entry.body.byteLength,
+      lastAccessed: entry.lastAccessed
+    }));
+  }
+
+  async clear(): Promise<void> {
+    this.entryMap.clear();
+  }
+}
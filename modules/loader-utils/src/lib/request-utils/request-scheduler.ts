@@ -7,14 +7,40 @@ type RequestResult = {
   done: DoneFunction;
 } | null;
 
+/**
+ * Priority classes, in order of precedence.
+ * Queued requests of a class are only issued when no requests of a preceding class are queued.
+ */
+export type RequestPriorityClass = 'high' | 'visible' | 'prefetch';
+
+const PRIORITY_CLASS_RANKS: Record<RequestPriorityClass, number> = {
+  high: 0,
+  visible: 1,
+  prefetch: 2
+};
+
 /** RequestScheduler Options */
 export type RequestSchedulerProps = {
   id?: string;
   throttleRequests?: boolean;
   maxRequests?: number;
+  maxRequestsPerOrigin?: number;
   debounceTime?: number;
 };
 
+/** Options for a single scheduled request */
+export type ScheduleRequestOptions = {
+  /** URL of the request, used to enforce `maxRequestsPerOrigin` */
+  url?: string;
+  /** Requests are issued by priority class first, then by the value returned by `getPriority`. Defaults to `'visible'` */
+  priorityClass?: RequestPriorityClass;
+  /**
+   * The object issuing the request (e.g. a tileset or a tile source).
+   * Free slots are shared fairly between owners, and handles are only deduplicated within the same owner.
+   */
+  owner?: unknown;
+};
+
 const STAT_QUEUED_REQUESTS = 'Queued Requests';
 const STAT_ACTIVE_REQUESTS = 'Active Requests';
 const STAT_CANCELLED_REQUESTS = 'Cancelled Requests';
@@ -27,6 +53,8 @@ const DEFAULT_PROPS: Required<RequestSchedulerProps> = {
   throttleRequests: true,
   /** The maximum number of simultaneous active requests. Un-throttled requests do not observe this limit. */
   maxRequests: 6,
+  /** The maximum number of simultaneous active requests to the same origin. `0` means no per-origin limit. */
+  maxRequestsPerOrigin: 0,
   /**
    * Specifies a debounce time, in milliseconds. All requests are queued, until no new requests have
    * been added to the queue for this amount of time.
@@ -34,17 +62,40 @@ const DEFAULT_PROPS: Required<RequestSchedulerProps> = {
   debounceTime: 0
 };
 
+/** Limits of the scheduler returned by `RequestScheduler.getGlobalScheduler()` */
+const GLOBAL_SCHEDULER_PROPS: RequestSchedulerProps = {
+  id: 'global-request-scheduler',
+  maxRequests: 18,
+  // Matches the per-host connection limit of browsers for HTTP/1.1
+  maxRequestsPerOrigin: 6
+};
+
 /** Tracks one request */
 type Request = {
   handle: Handle;
   priority: number;
   getPriority: GetPriorityFunction;
   resolve?: (value: any) => any;
+  priorityClass: RequestPriorityClass;
+  origin: string;
+  owner: unknown;
 };
 
+/** Tracks the requests of one owner */
+type OwnerState = {
+  requestMap: Map<Handle, Promise<RequestResult>>;
+  activeRequestCount: number;
+  /** Sequence number of the most recently issued request, used to alternate between owners */
+  lastIssued: number;
+};
+
+let globalScheduler: RequestScheduler | null = null;
+
 /**
  * Used to issue a request, without having them "deeply queued" by the browser.
- * @todo - Track requests globally, across multiple servers
+ * - A single scheduler can be shared by multiple tilesets / tile sources, see `RequestScheduler.getGlobalScheduler()`.
+ * - Requests are limited globally (`maxRequests`) and per origin (`maxRequestsPerOrigin`).
+ * - Free slots go to the highest priority class, then to the owner with the fewest active requests.
  */
 export default class RequestScheduler {
   readonly props: Required<RequestSchedulerProps>;
@@ -53,9 +104,20 @@ export default class RequestScheduler {
 
   /** Tracks the number of active requests and prioritizes/cancels queued requests. */
   private requestQueue: Request[] = [];
-  private requestMap: Map<Handle, Promise<RequestResult>> = new Map();
+  private owners: Map<unknown, OwnerState> = new Map();
+  private activeRequestsPerOrigin: Map<string, number> = new Map();
+  private issuedRequestCount: number = 0;
   private updateTimer: ReturnType<typeof setTimeout> | null = null;
 
+  /**
+   * Returns a scheduler shared by all callers, which enforces global and per-origin limits
+   * across all tilesets and tile sources that use it
+   */
+  static getGlobalScheduler(): RequestScheduler {
+    globalScheduler = globalScheduler || new RequestScheduler(GLOBAL_SCHEDULER_PROPS);
+    return globalScheduler;
+  }
+
   constructor(props: RequestSchedulerProps = {}) {
     this.props = {...DEFAULT_PROPS, ...props};
 
@@ -68,6 +130,11 @@ export default class RequestScheduler {
     this.stats.get(STAT_ACTIVE_REQUESTS_EVER);
   }
 
+  /** Update limits. Takes effect the next time a request is queued or completed. */
+  setProps(props: RequestSchedulerProps): void {
+    Object.assign(this.props, props);
+  }
+
   /**
    * Called by an application that wants to issue a request, without having it deeply queued by the browser
    *
@@ -79,6 +146,7 @@ export default class RequestScheduler {
    * @param getPriority will be called when request "slots" open up,
    *    allowing the caller to update priority or cancel the request
    *    Highest priority executes first, priority < 0 cancels the request
+   * @param options origin, priority class and owner of the request
    * @returns a promise
    *   - resolves to a object (with a `done` field) when the request can be issued without queueing,
    *   - resolves to `null` if the request has been cancelled (by the callback return < 0).
@@ -86,19 +154,30 @@ export default class RequestScheduler {
    */
   scheduleRequest(
     handle: Handle,
-    getPriority: GetPriorityFunction = () => 0
+    getPriority: GetPriorityFunction = () => 0,
+    options: ScheduleRequestOptions = {}
   ): Promise<RequestResult> {
     // Allows throttling to be disabled
     if (!this.props.throttleRequests) {
       return Promise.resolve({done: () => {}});
     }
 
+    const {url, priorityClass = 'visible', owner} = options;
+    const ownerState = this._getOwnerState(owner);
+
     // dedupe
-    if (this.requestMap.has(handle)) {
-      return this.requestMap.get(handle) as Promise<any>;
+    if (ownerState.requestMap.has(handle)) {
+      return ownerState.requestMap.get(handle) as Promise<any>;
     }
 
-    const request: Request = {handle, priority: 0, getPriority};
+    const request: Request = {
+      handle,
+      priority: 0,
+      getPriority,
+      priorityClass,
+      origin: url ? getOrigin(url) : '',
+      owner
+    };
     const promise = new Promise<RequestResult>((resolve) => {
       // @ts-ignore
       request.resolve = resolve;
@@ -106,7 +185,7 @@ export default class RequestScheduler {
     });
 
     this.requestQueue.push(request);
-    this.requestMap.set(handle, promise);
+    ownerState.requestMap.set(handle, promise);
     this._issueNewRequests();
     return promise;
   }
@@ -114,7 +193,8 @@ export default class RequestScheduler {
   // PRIVATE
 
   _issueRequest(request: Request): Promise<any> {
-    const {handle, resolve} = request;
+    const {handle, resolve, origin} = request;
+    const ownerState = this._getOwnerState(request.owner);
     let isDone = false;
 
     const done = () => {
@@ -123,7 +203,10 @@ export default class RequestScheduler {
         isDone = true;
 
         // Stop tracking a request - it has completed, failed, cancelled etc
-        this.requestMap.delete(handle);
+        ownerState.requestMap.delete(handle);
+        ownerState.activeRequestCount--;
+        this._releaseOwnerState(request.owner);
+        this.activeRequestsPerOrigin.set(origin, this._getActiveRequestCount(origin) - 1);
         this.activeRequestCount--;
         // A slot just freed up, see if any queued requests are waiting
         this._issueNewRequests();
@@ -132,6 +215,9 @@ export default class RequestScheduler {
 
     // Track this request
     this.activeRequestCount++;
+    ownerState.activeRequestCount++;
+    ownerState.lastIssued = ++this.issuedRequestCount;
+    this.activeRequestsPerOrigin.set(origin, this._getActiveRequestCount(origin) + 1);
 
     return resolve ? resolve({done}) : Promise.resolve({done});
   }
@@ -161,10 +247,12 @@ export default class RequestScheduler {
 
     // Resolve pending promises for the top-priority requests
     for (let i = 0; i < freeSlots; ++i) {
-      const request = this.requestQueue.shift();
-      if (request) {
-        this._issueRequest(request); // eslint-disable-line @typescript-eslint/no-floating-promises
+      const request = this._getNextRequest();
+      if (!request) {
+        break;
       }
+      this.requestQueue.splice(this.requestQueue.indexOf(request), 1);
+      this._issueRequest(request); // eslint-disable-line @typescript-eslint/no-floating-promises
     }
 
     // Uncomment to debug
@@ -179,13 +267,69 @@ export default class RequestScheduler {
       if (!this._updateRequest(request)) {
         // Remove the element and make sure to adjust the counter to account for shortened array
         requestQueue.splice(i, 1);
-        this.requestMap.delete(request.handle);
+        this._getOwnerState(request.owner).requestMap.delete(request.handle);
+        this._releaseOwnerState(request.owner);
         i--;
       }
     }
 
-    // Sort the remaining requests based on priority
-    requestQueue.sort((a, b) => a.priority - b.priority);
+    // Sort the remaining requests based on priority class, then priority
+    requestQueue.sort(
+      (a, b) =>
+        PRIORITY_CLASS_RANKS[a.priorityClass] - PRIORITY_CLASS_RANKS[b.priorityClass] ||
+        a.priority - b.priority
+    );
+  }
+
+  /**
+   * Pick the next request from the sorted queue
+   * - Requests to origins that are at their limit are skipped
+   * - Within the highest priority class, the owner with the fewest active requests
+   *   (or the owner that was served least recently) is picked
+   */
+  _getNextRequest(): Request | null {
+    const {maxRequestsPerOrigin} = this.props;
+    let nextRequest: Request | null = null;
+    let nextOwnerState: OwnerState | null = null;
+
+    for (const request of this.requestQueue) {
+      if (nextRequest && request.priorityClass !== nextRequest.priorityClass) {
+        break;
+      }
+      if (maxRequestsPerOrigin > 0) {
+        if (this._getActiveRequestCount(request.origin) >= maxRequestsPerOrigin) {
+          continue; // eslint-disable-line no-continue
+        }
+      }
+      const ownerState = this._getOwnerState(request.owner);
+      if (!nextOwnerState || isFairerOwner(ownerState, nextOwnerState)) {
+        nextRequest = request;
+        nextOwnerState = ownerState;
+      }
+    }
+
+    return nextRequest;
+  }
+
+  _getActiveRequestCount(origin: string): number {
+    return this.activeRequestsPerOrigin.get(origin) || 0;
+  }
+
+  _getOwnerState(owner: unknown): OwnerState {
+    let ownerState = this.owners.get(owner);
+    if (!ownerState) {
+      ownerState = {requestMap: new Map(), activeRequestCount: 0, lastIssued: 0};
+      this.owners.set(owner, ownerState);
+    }
+    return ownerState;
+  }
+
+  /** Stop tracking owners that have no queued or active requests, so that they can be garbage collected */
+  _releaseOwnerState(owner: unknown): void {
+    const ownerState = this.owners.get(owner);
+    if (ownerState && ownerState.requestMap.size === 0 && ownerState.activeRequestCount === 0) {
+      this.owners.delete(owner);
+    }
   }
 
   /** Update a single request by calling the callback */
@@ -200,3 +344,17 @@ export default class RequestScheduler {
     return true;
   }
 }
+
+/** Prefer the owner with fewer active requests, then the owner that was served least recently */
+function isFairerOwner(ownerState: OwnerState, otherOwnerState: OwnerState): boolean {
+  if (ownerState.activeRequestCount !== otherOwnerState.activeRequestCount) {
+    return ownerState.activeRequestCount < otherOwnerState.activeRequestCount;
+  }
+  return ownerState.lastIssued < otherOwnerState.lastIssued;
+}
+
+/** Returns the origin (protocol and host) of an absolute URL, or `''` for relative URLs */
+function getOrigin(url: string): string {
+  const match = /^([a-z][a-z0-9+.-]*:\/\/[^/?#]*)/i.exec(url);
+  return match ? match[1].toLowerCase() : '';
+}
@@ -0,0 +1,362 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {Stats} from '@probe.gl/stats';
+import type {FetchLike} from '../../types';
+import {MemoryResponseCacheStorage} from './memory-response-cache-storage';
+
+/** A stored response */
+export type ResponseCacheEntry = {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: ArrayBuffer;
+  /** Time the response was received or last revalidated, in milliseconds since epoch */
+  responseTime: number;
+  /** Time of the most recent cache hit, in milliseconds since epoch. Used for LRU eviction. */
+  lastAccessed: number;
+};
+
+/** Size and access time of a stored response, loaded without the response body */
+export type ResponseCacheEntryInfo = {
+  key: string;
+  byteLength: number;
+  lastAccessed: number;
+};
+
+/**
+ * Storage backend for a `ResponseCache`.
+ * Implementations only store entries, HTTP caching semantics and the size budget are handled by `ResponseCache`.
+ */
+export interface ResponseCacheStorage {
+  get(key: string): Promise<ResponseCacheEntry | null>;
+  set(key: string, entry: ResponseCacheEntry): Promise<void>;
+  /** Record a cache hit without rewriting the response body */
+  touch(key: string, lastAccessed: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Size and access time of all stored entries */
+  entries(): Promise<ResponseCacheEntryInfo[]>;
+  clear(): Promise<void>;
+}
+
+/** ResponseCache options */
+export type ResponseCacheProps = {
+  id?: string;
+  /** Where responses are stored. Defaults to an in-memory storage. */
+  storage?: ResponseCacheStorage;
+  /** Maximum number of bytes to store. Least recently used responses are evicted first. */
+  maxSize?: number;
+  /** Freshness lifetime, in seconds, of responses without `Cache-Control: max-age` or `Expires` headers */
+  defaultMaxAge?: number;
+};
+
+const DEFAULT_PROPS: Required<Omit<ResponseCacheProps, 'storage'>> = {
+  id: 'response-cache',
+  maxSize: 64 * 1024 * 1024,
+  defaultMaxAge: 0
+};
+
+const STAT_CACHE_HITS = 'Cache Hits';
+const STAT_CACHE_MISSES = 'Cache Misses';
+const STAT_REVALIDATIONS = 'Revalidations';
+const STAT_CACHED_BYTES = 'Cached Bytes';
+const STAT_EVICTIONS = 'Evictions';
+
+/** Headers of a `304 Not Modified` response that update the stored response */
+const REVALIDATION_HEADERS = ['cache-control', 'date', 'etag', 'expires', 'last-modified'];
+
+/**
+ * Caches responses to `GET` requests for `http:` and `https:` URLs.
+ * - Fresh responses (`Cache-Control: max-age`, `Expires`) are returned without a request.
+ * - Stale responses with an `ETag` or `Last-Modified` header are revalidated with a conditional request.
+ * - `Cache-Control: no-store` responses are not stored, `no-cache` responses are always revalidated.
+ * - The total size of stored responses is bounded by `maxSize`, least recently used responses are evicted first.
+ * @note Range requests are cached separately for each range.
+ */
+export class ResponseCache {
+  readonly props: Required<Omit<ResponseCacheProps, 'storage'>>;
+  readonly stats: Stats;
+  readonly storage: ResponseCacheStorage;
+
+  /** Size of stored entries in least recently used order, loaded from storage on first use */
+  private index: Promise<Map<string, number>> | null = null;
+  private size: number = 0;
+
+  constructor(props: ResponseCacheProps = {}) {
+    const {storage = new MemoryResponseCacheStorage(), ...otherProps} = props;
+    this.props = {...DEFAULT_PROPS, ...otherProps};
+    this.storage = storage;
+
+    this.stats = new Stats({id: this.props.id});
+    this.stats.get(STAT_CACHE_HITS);
+    this.stats.get(STAT_CACHE_MISSES);
+    this.stats.get(STAT_REVALIDATIONS);
+    this.stats.get(STAT_CACHED_BYTES);
+    this.stats.get(STAT_EVICTIONS);
+  }
+
+  /**
+   * Returns a cached response if it is fresh, otherwise issues (or revalidates) the request and stores the response
+   * @param url
+   * @param fetchOptions
+   * @param fetchFunction issues requests on cache misses
+   */
+  async fetch(
+    url: string,
+    fetchOptions: RequestInit = {},
+    fetchFunction: FetchLike = (url_, options_) => fetch(url_, options_)
+  ): Promise<Response> {
+    if (!isCacheableRequest(url, fetchOptions)) {
+      return await fetchFunction(url, fetchOptions);
+    }
+
+    const key = getCacheKey(url, fetchOptions);
+    const entry = await this._get(key);
+
+    if (entry && getFreshness(entry, this.props.defaultMaxAge) > 0) {
+      this.stats.get(STAT_CACHE_HITS).incrementCount();
+      await this._touch(key);
+      return makeResponse(entry);
+    }
+
+    const response = await fetchFunction(
+      url,
+      entry ? addValidators(fetchOptions, entry) : fetchOptions
+    );
+
+    if (entry && response.status === 304) {
+      this.stats.get(STAT_REVALIDATIONS).incrementCount();
+      const revalidatedEntry = updateEntry(entry, response);
+      await this._put(key, revalidatedEntry);
+      return makeResponse(revalidatedEntry);
+    }
+
+    this.stats.get(STAT_CACHE_MISSES).incrementCount();
+    if (!isCacheableResponse(response, this.props.defaultMaxAge)) {
+      if (entry) {
+        await this._delete(key);
+      }
+      return response;
+    }
+
+    const now = Date.now();
+    const newEntry: ResponseCacheEntry = {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: await response.arrayBuffer(),
+      responseTime: now,
+      lastAccessed: now
+    };
+    await this._put(key, newEntry);
+    return makeResponse(newEntry);
+  }
+
+  /** Remove the stored response for a URL. Range requests are stored separately, pass the same `Range` header to remove them. */
+  async delete(url: string, fetchOptions: RequestInit = {}): Promise<void> {
+    await this._delete(getCacheKey(url, fetchOptions));
+  }
+
+  /** Remove all stored responses */
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.index = Promise.resolve(new Map());
+    this.size = 0;
+    this.stats.get(STAT_CACHED_BYTES).reset();
+  }
+
+  // PRIVATE
+
+  protected async _getIndex(): Promise<Map<string, number>> {
+    this.index = this.index || this._loadIndex();
+    return await this.index;
+  }
+
+  protected async _loadIndex(): Promise<Map<string, number>> {
+    const entries = await this.storage.entries();
+    entries.sort((a, b) => a.lastAccessed - b.lastAccessed);
+    const index = new Map<string, number>();
+    for (const {key, byteLength} of entries) {
+      index.set(key, byteLength);
+      this.size += byteLength;
+    }
+    this.stats.get(STAT_CACHED_BYTES).addCount(this.size);
+    return index;
+  }
+
+  protected async _get(key: string): Promise<ResponseCacheEntry | null> {
+    const index = await this._getIndex();
+    return index.has(key) ? await this.storage.get(key) : null;
+  }
+
+  protected async _touch(key: string): Promise<void> {
+    const index = await this._getIndex();
+    const byteLength = index.get(key);
+    if (byteLength !== undefined) {
+      // Move to the end of the LRU order
+      index.delete(key);
+      index.set(key, byteLength);
+    }
+    await this.storage.touch(key, Date.now());
+  }
+
+  protected async _put(key: string, entry: ResponseCacheEntry): Promise<void> {
+    const byteLength = entry.body.byteLength;
+    if (byteLength > this.props.maxSize) {
+      await this._delete(key);
+      return;
+    }
+
+    const index = await this._getIndex();
+    this._removeFromIndex(index, key);
+    await this.storage.set(key, entry);
+    index.set(key, byteLength);
+    this.size += byteLength;
+    this.stats.get(STAT_CACHED_BYTES).addCount(byteLength);
+
+    // Evict least recently used entries
+    for (const evictedKey of index.keys()) {
+      if (this.size <= this.props.maxSize) {
+        break;
+      }
+      this._removeFromIndex(index, evictedKey);
+      await this.storage.delete(evictedKey);
+      this.stats.get(STAT_EVICTIONS).incrementCount();
+    }
+  }
+
+  protected async _delete(key: string): Promise<void> {
+    const index = await this._getIndex();
+    if (this._removeFromIndex(index, key)) {
+      await this.storage.delete(key);
+    }
+  }
+
+  protected _removeFromIndex(index: Map<string, number>, key: string): boolean {
+    const byteLength = index.get(key);
+    if (byteLength === undefined) {
+      return false;
+    }
+    index.delete(key);
+    this.size -= byteLength;
+    this.stats.get(STAT_CACHED_BYTES).subtractCount(byteLength);
+    return true;
+  }
+}
+
+/**
+ * Wraps a fetch function so that responses are served from, and stored in, a `ResponseCache`
+ * @param fetchFunction fetch compatible function to issue requests with on cache misses
+ * @param responseCache
+ */
+export function withResponseCache(
+  fetchFunction: FetchLike,
+  responseCache?: ResponseCache | null
+): FetchLike {
+  if (!responseCache) {
+    return fetchFunction;
+  }
+  return (url: string, fetchOptions?: RequestInit) =>
+    responseCache.fetch(url, fetchOptions, fetchFunction);
+}
+
+function isCacheableRequest(url: string, fetchOptions: RequestInit): boolean {
+  const method = (fetchOptions.method || 'GET').toUpperCase();
+  return (
+    (url.startsWith('http:') || url.startsWith('https:')) &&
+    method === 'GET' &&
+    fetchOptions.cache !== 'no-store' &&
+    fetchOptions.cache !== 'reload'
+  );
+}
+
+function isCacheableResponse(response: Response, defaultMaxAge: number): boolean {
+  if (response.status !== 200 && response.status !== 206) {
+    return false;
+  }
+  const cacheControl = parseCacheControl(response.headers.get('cache-control'));
+  if ('no-store' in cacheControl) {
+    return false;
+  }
+  // Responses that can neither be fresh nor be revalidated are useless
+  const hasValidators = response.headers.has('etag') || response.headers.has('last-modified');
+  const maxAge = getMaxAge(Object.fromEntries(response.headers.entries()), defaultMaxAge);
+  return hasValidators || maxAge > 0;
+}
+
+/** Ranges are stored as separate entries */
+function getCacheKey(url: string, fetchOptions: RequestInit): string {
+  const range = new Headers(fetchOptions.headers).get('range');
+  return range ? `${url} ${range}` : url;
+}
+
+/** @returns remaining freshness lifetime in seconds */
+function getFreshness(entry: ResponseCacheEntry, defaultMaxAge: number): number {
+  const age = (Date.now() - entry.responseTime) / 1000;
+  return getMaxAge(entry.headers, defaultMaxAge) - age;
+}
+
+/** @returns freshness lifetime in seconds */
+function getMaxAge(headers: Record<string, string>, defaultMaxAge: number): number {
+  const cacheControl = parseCacheControl(headers['cache-control']);
+  if ('no-cache' in cacheControl) {
+    return 0;
+  }
+  const maxAge = Number(cacheControl['max-age']);
+  if (Number.isFinite(maxAge)) {
+    return maxAge;
+  }
+  if (headers.expires) {
+    const expires = Date.parse(headers.expires);
+    const date = headers.date ? Date.parse(headers.date) : Date.now();
+    // Invalid dates (e.g. `Expires: 0`) mean that the response is already expired
+    return Number.isFinite(expires) && Number.isFinite(date) ? (expires - date) / 1000 : 0;
+  }
+  return defaultMaxAge;
+}
+
+function parseCacheControl(cacheControl: string | null | undefined): Record<string, string> {
+  const directives: Record<string, string> = {};
+  for (const directive of (cacheControl || '').split(',')) {
+    const [name, value = ''] = directive.trim().split('=');
+    if (name) {
+      directives[name.toLowerCase()] = value.replace(/"/g, '');
+    }
+  }
+  return directives;
+}
+
+/** Turn a request into a conditional request that the server can answer with `304 Not Modified` */
+function addValidators(fetchOptions: RequestInit, entry: ResponseCacheEntry): RequestInit {
+  const headers = new Headers(fetchOptions.headers);
+  if (entry.headers.etag) {
+    headers.set('If-None-Match', entry.headers.etag);
+  }
+  if (entry.headers['last-modified']) {
+    headers.set('If-Modified-Since', entry.headers['last-modified']);
+  }
+  return {...fetchOptions, headers};
+}
+
+function updateEntry(entry: ResponseCacheEntry, response: Response): ResponseCacheEntry {
+  const headers = {...entry.headers};
+  for (const name of REVALIDATION_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  }
+  const now = Date.now();
+  return {...entry, headers, responseTime: now, lastAccessed: now};
+}
+
+function makeResponse(entry: ResponseCacheEntry): Response {
+  const {status, statusText, headers} = entry;
+  // Copy the body, the stored entry must not be consumed
+  const response = new Response(entry.body.slice(0), {status, statusText, headers});
+  Object.defineProperty(response, 'url', {value: entry.url});
+  return response;
+}
@@ -6,6 +6,11 @@ import type {LoaderOptions, Loader} from '../../loader-types';
 import type {RequiredOptions} from '../option-utils/merge-options';
 import {mergeOptions} from '../option-utils/merge-options';
 import {resolvePath} from '../path-utils/file-aliases';
+import {withFetchPolicy} from '../request-utils/fetch-policy';
+import {withResponseCache} from '../request-utils/response-cache';
+import type RequestScheduler from '../request-utils/request-scheduler';
+import type {RequestPriorityClass} from '../request-utils/request-scheduler';
+import {AbortError} from '../errors/abort-error';
 
 /** Common properties for all data sources */
 export type DataSourceOptions = Partial<{
@@ -18,6 +23,10 @@ export type DataSourceOptions = Partial<{
     loadOptions?: LoaderOptions;
     /** Make additional loaders available to the data source */
     loaders?: Loader[];
+    /** Throttles requests, e.g. `RequestScheduler.getGlobalScheduler()` to share limits with other sources and tilesets */
+    requestScheduler?: RequestScheduler;
+    /** Priority class of this source's requests when a `requestScheduler` is supplied */
+    requestPriorityClass?: RequestPriorityClass;
   };
   [key: string]: Record<string, unknown>;
 }>;
@@ -29,7 +38,9 @@ export abstract class DataSource<DataT, OptionsT extends DataSourceOptions> {
       type: 'auto',
       attributions: [],
       loadOptions: {},
-      loaders: []
+      loaders: [],
+      requestScheduler: undefined,
+      requestPriorityClass: 'visible'
     }
   };
 
@@ -60,6 +71,14 @@ export abstract class DataSource<DataT, OptionsT extends DataSourceOptions> {
     this.url = typeof data === 'string' ? resolvePath(data) : '';
     this.loadOptions = {...this.options.core?.loadOptions};
     this.fetch = getFetchFunction(this.loadOptions);
+
+    const {requestScheduler, requestPriorityClass} = this.options.core || {};
+    if (requestScheduler) {
+      this.fetch = withRequestScheduler(this.fetch, requestScheduler, {
+        owner: this,
+        priorityClass: requestPriorityClass
+      });
+    }
   }
 
   setProps(options: OptionsT) {
@@ -94,6 +113,14 @@ export abstract class DataSource<DataT, OptionsT extends DataSourceOptions> {
  * @param context
  */
 export function getFetchFunction(options?: LoaderOptions) {
+  // Retry, backoff and timeout policy, and response cache, if any
+  return withResponseCache(
+    withFetchPolicy(getBaseFetchFunction(options), options?.fetchPolicy),
+    options?.responseCache
+  );
+}
+
+function getBaseFetchFunction(options?: LoaderOptions) {
   const fetchFunction = options?.fetch;
 
   // options.fetch can be a function
@@ -104,9 +131,38 @@ export function getFetchFunction(options?: LoaderOptions) {
   // options.fetch can be an options object, use global fetch with those options
   const fetchOptions = options?.fetch;
   if (fetchOptions && typeof fetchOptions !== 'function') {
-    return (url) => fetch(url, fetchOptions);
+    return (url: string, requestOptions?: RequestInit) =>
+      fetch(url, {...fetchOptions, ...requestOptions});
   }
 
   // else return the global fetch function
-  return (url) => fetch(url);
+  return (url: string, requestOptions?: RequestInit) => fetch(url, requestOptions);
+}
+
+/**
+ * Wraps a fetch function so that every request waits for a slot in a `RequestScheduler`
+ * @note Requests that are aborted while queued are removed from the queue
+ */
+function withRequestScheduler(
+  fetchFunction: (url: string, options?: RequestInit) => Promise<Response>,
+  requestScheduler: RequestScheduler,
+  scheduleOptions: {owner: unknown; priorityClass?: RequestPriorityClass}
+): (url: string, options?: RequestInit) => Promise<Response> {
+  return async (url: string, fetchOptions?: RequestInit) => {
+    const signal = fetchOptions?.signal;
+    // Every call gets its own handle, identical URLs must not share a request slot
+    const requestToken = await requestScheduler.scheduleRequest(
+      {url},
+      () => (signal?.aborted ? -1 : 0),
+      {url, ...scheduleOptions}
+    );
+    if (!requestToken) {
+      throw new AbortError(`Request aborted: ${url}`, signal?.reason);
+    }
+    try {
+      return await fetchFunction(url, fetchOptions);
+    } finally {
+      requestToken.done();
+    }
+  };
 }
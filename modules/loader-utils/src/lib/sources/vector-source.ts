@@ -2,7 +2,7 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
-import type {Schema, GeoJSONTable, BinaryFeatureCollection} from '@loaders.gl/schema';
+import type {Schema, GeoJSONTable, ArrowTable, BinaryFeatureCollection} from '@loaders.gl/schema';
 
 export type VectorSourceProps = {};
 
@@ -19,7 +19,7 @@ export abstract class VectorSource {
   abstract getMetadata(options: {formatSpecificMetadata?: boolean}): Promise<VectorSourceMetadata>;
   abstract getFeatures(
     parameters: GetFeaturesParameters
-  ): Promise<GeoJSONTable | BinaryFeatureCollection>;
+  ): Promise<GeoJSONTable | ArrowTable | BinaryFeatureCollection>;
 }
 
 // PARAMETER TYPES
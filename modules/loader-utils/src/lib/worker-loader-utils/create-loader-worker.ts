@@ -1,6 +1,7 @@
 /* eslint-disable no-restricted-globals */
 import type {LoaderWithParser, LoaderOptions, LoaderContext} from '../../loader-types';
 import {WorkerBody} from '@loaders.gl/worker-utils';
+import {getLoaderErrorInfo} from '../errors/loader-error';
 // import {validateLoaderVersion} from './validate-loader-version';
 
 let requestId = 0;
@@ -36,7 +37,7 @@ export async function createLoaderWorker(loader: LoaderWithParser) {
           WorkerBody.postMessage('done', {result});
         } catch (error) {
           const message = error instanceof Error ? error.message : '';
-          WorkerBody.postMessage('error', {error: message});
+          WorkerBody.postMessage('error', {error: message, errorInfo: getLoaderErrorInfo(error)});
         }
         break;
       default:
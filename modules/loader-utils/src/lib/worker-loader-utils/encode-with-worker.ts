@@ -12,7 +12,7 @@ export function canEncodeWithWorker(writer: Writer, options?: WriterOptions) {
     return false;
   }
 
-  // Node workers are still experimental
+  // Node.js worker_threads are opt-in
   if (!isBrowser && !options?._nodeWorkers) {
     return false;
   }
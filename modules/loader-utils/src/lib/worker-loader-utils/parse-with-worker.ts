@@ -4,9 +4,12 @@ import {
   WorkerMessagePayload,
   isBrowser,
   WorkerFarm,
+  WorkerTimeoutError,
   getWorkerURL
 } from '@loaders.gl/worker-utils';
 import type {Loader, LoaderOptions, LoaderContext} from '../../loader-types';
+import {AbortError, throwIfAborted} from '../errors/abort-error';
+import {LoaderError, TimeoutError} from '../errors/loader-error';
 
 /**
  * Determines if a loader can parse with worker
@@ -18,7 +21,7 @@ export function canParseWithWorker(loader: Loader, options?: LoaderOptions) {
     return false;
   }
 
-  // Node workers are still experimental
+  // Node.js worker_threads are opt-in
   if (!isBrowser && !options?._nodeWorkers) {
     return false;
   }
@@ -43,10 +46,14 @@ export async function parseWithWorker(
   const workerFarm = WorkerFarm.getWorkerFarm(options);
   const workerPool = workerFarm.getWorkerPool({name, url});
 
+  // options.signal cannot be transferred, the job is cancelled on the main thread instead
+  const signal = options?.signal;
+  throwIfAborted(signal);
+
   // options.log object contains functions which cannot be transferred
   // context.fetch & context.parse functions cannot be transferred
   // TODO - decide how to handle logging on workers
-  options = JSON.parse(JSON.stringify(options));
+  options = JSON.parse(JSON.stringify({...options, signal: undefined}));
   context = JSON.parse(JSON.stringify(context || {}));
 
   const job = await workerPool.startJob(
@@ -55,16 +62,36 @@ export async function parseWithWorker(
     onMessage.bind(null, parseOnMainThread) // eslint-disable-line @typescript-eslint/no-misused-promises
   );
 
-  job.postMessage('process', {
-    // @ts-ignore
-    input: data,
-    options,
-    context
-  });
+  // Cancelling the job terminates the worker thread if it is already processing the job
+  const onAbort = () =>
+    job.cancel(new AbortError(`${loader.id} worker job aborted`, signal?.reason));
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    job.postMessage('process', {
+      // @ts-ignore
+      input: data,
+      options,
+      context
+    });
+  }
+  signal?.addEventListener('abort', onAbort);
 
-  const result = await job.result;
-  // TODO - what is going on here?
-  return await result.result;
+  try {
+    const result = await job.result;
+    // TODO - what is going on here?
+    return await result.result;
+  } catch (error) {
+    if (error instanceof WorkerTimeoutError) {
+      throw new TimeoutError(`${loader.id} worker job timed out after ${error.timeout}ms`, {
+        loader: loader.id,
+        cause: error
+      });
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
 }
 
 /**
@@ -85,7 +112,7 @@ async function onMessage(
       break;
 
     case 'error':
-      job.error(new Error(payload.error));
+      job.error(makeWorkerError(payload));
       break;
 
     case 'process':
@@ -105,3 +132,11 @@ async function onMessage(
       console.warn(`parse-with-worker unknown message ${type}`);
   }
 }
+
+/** Recreates an error thrown in the worker, preserving the code and byte offset of a `LoaderError` */
+function makeWorkerError(payload: WorkerMessagePayload): Error {
+  const {error = 'unknown error', errorInfo} = payload;
+  return errorInfo?.code
+    ? new LoaderError(error, errorInfo.code, {byteOffset: errorInfo.byteOffset})
+    : new Error(error);
+}
@@ -3,17 +3,37 @@
 // Copyright (c) vis.gl contributors
 
 import type {Format} from './format-types';
-import {FetchLike, TransformBatches} from './types';
+import {FetchLike, TransformBatches, StreamDecompression} from './types';
 import {ReadableFile} from './lib/files/file';
+import type {FetchPolicy} from './lib/request-utils/fetch-policy';
+import type {ResponseCache} from './lib/request-utils/response-cache';
 
 // LOADERS
 
+/** Progress reported to `options.onProgress` */
+export type LoaderProgress = {
+  /** Number of bytes fetched or read so far */
+  loadedBytes: number;
+  /** Total number of bytes, or `null` if not known (e.g. no `Content-Length` header) */
+  totalBytes: number | null;
+  /** Number of batches emitted so far (batched parsing only) */
+  batches: number;
+  /** Number of rows parsed so far */
+  rows: number;
+  /** `true` when the last progress event is reported */
+  done: boolean;
+};
+
 /**
  * Core Loader Options
  */
 export type LoaderOptions = {
   /** fetch options or a custom fetch function */
   fetch?: typeof fetch | FetchLike | RequestInit | null;
+  /** Retry, backoff and timeout policy for network requests */
+  fetchPolicy?: FetchPolicy;
+  /** Cache for network responses */
+  responseCache?: ResponseCache;
   /** Do not throw on errors */
   nothrow?: boolean;
 
@@ -42,6 +62,8 @@ export type LoaderOptions = {
   metadata?: boolean;
   /** Transforms to run on incoming batches */
   transforms?: TransformBatches[];
+  /** Compressions that `loadInBatches` uses to decompress compressed files and responses */
+  compressions?: StreamDecompression[];
 
   // module loading
 
@@ -62,7 +84,11 @@ export type LoaderOptions = {
   maxMobileConcurrency?: number;
   /** Set to `false` to prevent reuse workers */
   reuseWorkers?: boolean;
-  /** Whether to use workers under Node.js (experimental) */
+  /** Milliseconds after which a worker job is cancelled and its worker terminated. `0` disables. */
+  jobTimeout?: number;
+  /** How many times a worker job is retried on a fresh worker after the worker crashes */
+  maxJobRetries?: number;
+  /** Whether to use worker_threads under Node.js. Worker bundles are resolved from installed modules. */
   _nodeWorkers?: boolean;
   /** set to 'test' to run local worker */
   _workerType?: string;
@@ -97,8 +123,10 @@ export type LoaderOptions = {
   integrity?: never;
   /** @deprecated Use `options.fetch.keepalive` */
   keepalive?: never;
-  /** @deprecated Use `options.fetch.signal` */
-  signal?: never;
+  /** Signal that aborts fetching and parsing (including worker jobs) with an `AbortError` */
+  signal?: AbortSignal;
+  /** Called as data is fetched and parsed by `load()`, `parse()`, `loadInBatches()` and `parseInBatches()` */
+  onProgress?: (progress: LoaderProgress) => void;
 
   // Accept other keys (loader options objects, e.g. `options.csv`, `options.json` ...)
   [loaderId: string]: unknown;
@@ -146,6 +174,13 @@ export type Loader<DataT = any, BatchT = any, LoaderOptionsT = LoaderOptions> =
 
   /** Test some initial bytes of content to see if this loader might be a match */
   tests?: (((ArrayBuffer: ArrayBuffer) => boolean) | ArrayBuffer | string)[];
+  /**
+   * Inspect initial content and return a confidence between 0 (no match) and 1 (certain match).
+   * Used by `selectLoader()` to rank loaders that match the same extension or MIME type.
+   * Text loaders are passed a string, other loaders an ArrayBuffer.
+   * @note Only the first few kilobytes of content are passed.
+   */
+  sniff?(data: ArrayBuffer | string): number;
 
   /** @deprecated */
   supported?: boolean;
@@ -45,6 +45,21 @@ export type TransformBatches = (
   asyncIterator: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>
 ) => AsyncIterable<ArrayBuffer>;
 
+/**
+ * Decompresses a stream of batches, e.g. a `Compression` from `@loaders.gl/compression`.
+ * Selected by URL extension or `Content-Encoding` header, see `options.compressions`.
+ */
+export type StreamDecompression = {
+  name: string;
+  /** File extensions of compressed files, e.g. `gz` */
+  extensions: string[];
+  /** Values of the `Content-Encoding` header, e.g. `gzip` */
+  contentEncodings: string[];
+  /** Initial bytes of compressed data, for formats that have a fixed signature */
+  signature?: number[];
+  decompressBatches: TransformBatches;
+};
+
 /** Types that can be synchronously parsed */
 export type SyncDataType = string | ArrayBuffer; // TODO File | Blob can be read synchronously...
 
@@ -16,7 +16,13 @@ import './lib/path-utils/file-aliases.spec';
 import './lib/path-utils/path.spec';
 
 import './lib/request-utils/request-scheduler.spec';
+import './lib/request-utils/fetch-policy.spec';
+import './lib/request-utils/response-cache.spec';
 
+import './lib/errors/loader-error.spec';
+
+import './lib/files/cached-readable-file.spec';
+import './lib/filesystems/memory-filesystem.spec';
 // import './lib/files/node-file-facade.spec';
 // import './lib/filesystems/node-filesystem-facade.spec';
 
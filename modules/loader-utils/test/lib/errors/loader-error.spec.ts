@@ -0,0 +1,71 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {getError} from 'test/common/get-error';
+import {
+  LoaderError,
+  CorruptDataError,
+  NetworkError,
+  RangeNotSupportedError,
+  AbortError,
+  InvalidPasswordError,
+  TimeoutError,
+  HttpFile,
+  addLoaderErrorInfo
+} from '@loaders.gl/loader-utils';
+
+const URL = 'https://example.com/data.bin';
+
+test('LoaderError', (t) => {
+  const cause = new Error('cause');
+  const error = new CorruptDataError('truncated', {loader: 'test', url: URL, byteOffset: 8, cause});
+  t.ok(error instanceof LoaderError, 'subclasses LoaderError');
+  t.ok(error instanceof Error, 'subclasses Error');
+  t.equal(error.code, 'CORRUPT_DATA', 'has code');
+  t.equal(error.name, 'CorruptDataError', 'has name');
+  t.equal(error.loader, 'test', 'has loader id');
+  t.equal(error.url, URL, 'has url');
+  t.equal(error.byteOffset, 8, 'has byte offset');
+  t.equal(error.cause, cause, 'has cause');
+
+  t.equal(new AbortError().code, 'ABORTED', 'AbortError has code');
+  t.ok(new AbortError() instanceof LoaderError, 'AbortError subclasses LoaderError');
+  t.equal(new InvalidPasswordError('').code, 'INVALID_PASSWORD', 'InvalidPasswordError has code');
+  t.equal(new TimeoutError('').code, 'TIMEOUT', 'TimeoutError has code');
+  t.end();
+});
+
+test('addLoaderErrorInfo', (t) => {
+  const error = new CorruptDataError('truncated', {byteOffset: 8});
+  addLoaderErrorInfo(error, {loader: 'test', url: URL, byteOffset: 0});
+  t.equal(error.loader, 'test', 'adds loader id');
+  t.equal(error.url, URL, 'adds url');
+  t.equal(error.byteOffset, 8, 'keeps byte offset');
+
+  const plainError = new Error('error');
+  t.equal(addLoaderErrorInfo(plainError, {loader: 'test'}), plainError, 'returns other errors');
+  t.notOk('loader' in plainError, 'leaves other errors unchanged');
+  t.end();
+});
+
+test('HttpFile#errors', async (t) => {
+  const makeFile = (response: () => Response) => new HttpFile(URL, {fetch: async () => response()});
+
+  const noRangeFile = makeFile(() => new Response(new Uint8Array(100)));
+  let error = await getError<LoaderError>(noRangeFile.read(10, 10));
+  t.ok(error instanceof RangeNotSupportedError, 'server without range support');
+  t.equal(error?.code, 'RANGE_NOT_SUPPORTED', 'has code');
+  t.equal(error?.byteOffset, 10, 'has byte offset');
+
+  const missingFile = makeFile(() => new Response('', {status: 404}));
+  error = await getError<LoaderError>(missingFile.read(0, 10));
+  t.ok(error instanceof NetworkError, 'error status');
+  t.equal((error as NetworkError).status, 404, 'has status');
+  t.equal(error?.url, URL, 'has url');
+
+  error = await getError<LoaderError>(missingFile.stat());
+  t.equal(error?.code, 'NETWORK', 'error status for HEAD request');
+  t.end();
+});
@@ -0,0 +1,165 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {CachedReadableFile, BlobFile} from '@loaders.gl/loader-utils';
+import type {ReadableFile} from '@loaders.gl/loader-utils';
+
+const FILE_SIZE = 1000;
+
+function makeData(size: number, seed: number = 0): Uint8Array {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i + seed) % 251;
+  }
+  return data;
+}
+
+/** A ReadableFile that records the ranges that are read */
+class RecordingFile extends BlobFile {
+  reads: [number, number][] = [];
+
+  async read(start: number | bigint = 0, length: number = 0): Promise<ArrayBuffer> {
+    this.reads.push([Number(start), length]);
+    return await super.read(start, length);
+  }
+}
+
+/** A ReadableFile that mimics an HTTP server with ETag support */
+class MockHttpFile implements ReadableFile {
+  readonly handle = 'mock';
+  readonly url = 'mock';
+  readonly size = 0;
+  readonly bigsize = 0n;
+  data: Uint8Array;
+  etag: string = '"v1"';
+  requestCount: number = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  async read(): Promise<ArrayBuffer> {
+    throw new Error('read() should not be called when fetchRange() is available');
+  }
+
+  async fetchRange(offset: number | bigint, length: number): Promise<Response> {
+    this.requestCount++;
+    const start = Number(offset);
+    if (start >= this.data.byteLength) {
+      return new Response(null, {status: 416});
+    }
+    const body = this.data.slice(start, start + length);
+    return new Response(body, {status: 206, headers: {ETag: this.etag}});
+  }
+
+  async close(): Promise<void> {}
+}
+
+test('CachedReadableFile#read', async (t) => {
+  const data = makeData(FILE_SIZE);
+  const file = new CachedReadableFile(new RecordingFile(data.buffer), {blockSize: 100});
+
+  const arrayBuffer = await file.read(150, 200);
+  t.deepEqual(new Uint8Array(arrayBuffer), data.slice(150, 350), 'returns requested range');
+
+  const tail = await file.read(950, 200);
+  t.deepEqual(new Uint8Array(tail), data.slice(950), 'truncates reads beyond end of file');
+
+  const empty = await file.read(10, 0);
+  t.equal(empty.byteLength, 0, 'returns empty buffer for zero length reads');
+  t.end();
+});
+
+test('CachedReadableFile#read caches aligned blocks', async (t) => {
+  const data = makeData(FILE_SIZE);
+  const recordingFile = new RecordingFile(data.buffer);
+  const file = new CachedReadableFile(recordingFile, {blockSize: 100});
+
+  await file.read(150, 200);
+  t.deepEqual(recordingFile.reads, [[100, 300]], 'reads whole blocks in one request');
+
+  const arrayBuffer = await file.read(210, 50);
+  t.deepEqual(new Uint8Array(arrayBuffer), data.slice(210, 260), 'returns cached range');
+  t.equal(recordingFile.reads.length, 1, 'does not issue a request for cached blocks');
+
+  await file.read(350, 100);
+  t.deepEqual(recordingFile.reads[1], [400, 100], 'only requests missing blocks');
+  t.end();
+});
+
+test('CachedReadableFile#read coalesces concurrent reads', async (t) => {
+  const data = makeData(FILE_SIZE);
+  const recordingFile = new RecordingFile(data.buffer);
+  const file = new CachedReadableFile(recordingFile, {blockSize: 100});
+
+  const results = await Promise.all([
+    file.read(0, 10),
+    file.read(120, 10),
+    file.read(50, 100),
+    file.read(650, 10)
+  ]);
+
+  t.deepEqual(new Uint8Array(results[0]), data.slice(0, 10));
+  t.deepEqual(new Uint8Array(results[1]), data.slice(120, 130));
+  t.deepEqual(new Uint8Array(results[2]), data.slice(50, 150));
+  t.deepEqual(new Uint8Array(results[3]), data.slice(650, 660));
+  t.deepEqual(
+    recordingFile.reads,
+    [
+      [0, 200],
+      [600, 100]
+    ],
+    'merges adjacent and overlapping reads'
+  );
+  t.end();
+});
+
+test('CachedReadableFile#maxCacheSize', async (t) => {
+  const data = makeData(FILE_SIZE);
+  const recordingFile = new RecordingFile(data.buffer);
+  const file = new CachedReadableFile(recordingFile, {blockSize: 100, maxCacheSize: 200});
+
+  await file.read(0, 100);
+  await file.read(100, 100);
+  await file.read(0, 100);
+  await file.read(200, 100);
+  t.equal(file.stats.get('Cached Bytes').count, 200, 'cache is bounded');
+  t.equal(recordingFile.reads.length, 3);
+
+  await file.read(0, 100);
+  t.equal(recordingFile.reads.length, 3, 'recently used block is kept');
+
+  await file.read(100, 100);
+  t.equal(recordingFile.reads.length, 4, 'least recently used block is evicted');
+  t.end();
+});
+
+test('CachedReadableFile#ETag', async (t) => {
+  const mockFile = new MockHttpFile(makeData(FILE_SIZE));
+  const file = new CachedReadableFile(mockFile, {blockSize: 100});
+
+  let arrayBuffer = await file.read(0, 50);
+  t.deepEqual(new Uint8Array(arrayBuffer), makeData(50), 'reads via fetchRange');
+  t.equal(file.etag, '"v1"', 'records ETag');
+
+  arrayBuffer = await file.read(950, 100);
+  t.equal(arrayBuffer.byteLength, 50, 'handles short responses');
+  arrayBuffer = await file.read(2000, 100);
+  t.equal(arrayBuffer.byteLength, 0, 'handles range not satisfiable');
+
+  // Modify the file on the "server"
+  mockFile.data = makeData(FILE_SIZE, 1);
+  mockFile.etag = '"v2"';
+
+  await file.read(500, 10);
+  t.equal(file.etag, '"v2"', 'updates ETag');
+  t.equal(file.stats.get('Invalidations').count, 1, 'invalidates cache when ETag changes');
+
+  const requestCount = mockFile.requestCount;
+  arrayBuffer = await file.read(0, 50);
+  t.equal(mockFile.requestCount, requestCount + 1, 'refetches invalidated blocks');
+  t.deepEqual(new Uint8Array(arrayBuffer), makeData(50, 1), 'returns updated data');
+  t.end();
+});
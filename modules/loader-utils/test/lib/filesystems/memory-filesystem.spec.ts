@@ -0,0 +1,62 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {MemoryFileSystem} from '@loaders.gl/loader-utils';
+
+test('MemoryFileSystem#writeFile', async (t) => {
+  const fileSystem = new MemoryFileSystem({'README.md': 'readme'});
+
+  await fileSystem.writeFile('./tiles/0/0.json', '{}');
+  await fileSystem.writeFile('tiles/0/1.bin', new Uint8Array([1, 2, 3]).buffer);
+
+  t.ok(await fileSystem.exists('tiles/0'), 'creates parent directories');
+  t.ok(await fileSystem.exists('tiles/0/1.bin'), 'file exists');
+  t.notOk(await fileSystem.exists('tiles/1'), 'missing directory does not exist');
+  t.deepEqual(await fileSystem.readdir(), ['README.md', 'tiles'], 'lists root directory');
+  t.deepEqual(
+    await fileSystem.readdir('tiles', {recursive: true}),
+    ['0', '0/0.json', '0/1.bin'],
+    'lists directory recursively'
+  );
+
+  const response = await fileSystem.fetch('tiles/0/0.json');
+  t.equal(await response.text(), '{}', 'reads back written file');
+  t.equal((await fileSystem.fetch('missing.json')).status, 404, 'missing file is not found');
+  t.deepEqual(
+    await fileSystem.stat('tiles/0/1.bin'),
+    {size: 3, bigsize: 3n, isDirectory: false},
+    'stats file'
+  );
+
+  await fileSystem.delete('tiles');
+  t.notOk(await fileSystem.exists('tiles/0/0.json'), 'deletes directory contents');
+  t.deepEqual(await fileSystem.readdir(), ['README.md'], 'deletes directory');
+
+  await t.rejects(fileSystem.delete(''), /root directory/, 'root directory cannot be deleted');
+  await t.rejects(fileSystem.delete('./'), /root directory/, 'root directory cannot be deleted');
+  t.deepEqual(await fileSystem.readdir(), ['README.md'], 'root directory is not deleted');
+  t.end();
+});
+
+test('MemoryFileSystem#openWritable', async (t) => {
+  const fileSystem = new MemoryFileSystem();
+  await fileSystem.mkdir('output');
+
+  const file = await fileSystem.openWritable('output/data.bin');
+  await file.write(new Uint8Array([1, 2]).buffer);
+  await file.write(new Uint8Array([3, 4, 5]).buffer);
+  await file.write(new Uint8Array([9]).buffer, 0);
+  await file.close();
+
+  const {'output/data.bin': arrayBuffer} = fileSystem.getFileMap();
+  t.deepEqual(
+    Array.from(new Uint8Array(arrayBuffer)),
+    [9, 2, 3, 4, 5],
+    'appends writes, and writes at offsets'
+  );
+
+  await t.rejects(fileSystem.writeFile('output', 'data'), 'can not overwrite a directory');
+  t.end();
+});
@@ -0,0 +1,179 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {fetchWithPolicy, withFetchPolicy, HttpFile, isBrowser} from '@loaders.gl/loader-utils';
+
+/** Returns a fetch function that responds with the supplied responses in order, and records calls */
+function makeStubFetch(responses: (() => Response | Promise<Response>)[]) {
+  const calls: {url: string; time: number}[] = [];
+  const stubFetch = async (url: string, options?: RequestInit): Promise<Response> => {
+    calls.push({url, time: Date.now()});
+    const respond = responses[Math.min(calls.length - 1, responses.length - 1)];
+    return await respond();
+  };
+  return {stubFetch, calls};
+}
+
+/** A response that never arrives, unless the request is aborted */
+function hang(signal?: AbortSignal | null): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(new Error('aborted')));
+  });
+}
+
+const FAST_RETRIES = {retryDelay: 1, maxRetryDelay: 5, jitter: 0};
+
+test('fetchWithPolicy#retries on retryable status codes', async (t) => {
+  const {stubFetch, calls} = makeStubFetch([
+    () => new Response('', {status: 503}),
+    () => new Response('', {status: 500}),
+    () => new Response('ok', {status: 200})
+  ]);
+
+  const response = await fetchWithPolicy('test', {}, {maxRetries: 3, ...FAST_RETRIES}, stubFetch);
+  t.equal(response.status, 200, 'returns successful response');
+  t.equal(await response.text(), 'ok');
+  t.equal(calls.length, 3, 'retried until success');
+  t.end();
+});
+
+test('fetchWithPolicy#gives up after maxRetries', async (t) => {
+  const {stubFetch, calls} = makeStubFetch([() => new Response('', {status: 503})]);
+
+  const response = await fetchWithPolicy('test', {}, {maxRetries: 2, ...FAST_RETRIES}, stubFetch);
+  t.equal(response.status, 503, 'returns last failed response');
+  t.equal(calls.length, 3, 'initial request + 2 retries');
+  t.end();
+});
+
+test('fetchWithPolicy#does not retry non-retryable responses', async (t) => {
+  const {stubFetch, calls} = makeStubFetch([() => new Response('', {status: 404})]);
+
+  const response = await fetchWithPolicy('test', {}, {maxRetries: 2, ...FAST_RETRIES}, stubFetch);
+  t.equal(response.status, 404);
+  t.equal(calls.length, 1, 'not retried');
+  t.end();
+});
+
+test('fetchWithPolicy#retries network errors', async (t) => {
+  const {stubFetch, calls} = makeStubFetch([
+    () => Promise.reject(new TypeError('Failed to fetch')),
+    () => new Response('ok')
+  ]);
+
+  const response = await fetchWithPolicy('test', {}, {maxRetries: 1, ...FAST_RETRIES}, stubFetch);
+  t.equal(response.status, 200);
+  t.equal(calls.length, 2);
+
+  const {stubFetch: failingFetch} = makeStubFetch([
+    () => Promise.reject(new TypeError('Failed to fetch'))
+  ]);
+  await t.rejects(
+    fetchWithPolicy('test', {}, {maxRetries: 1, ...FAST_RETRIES}, failingFetch),
+    /Failed to fetch/,
+    'rethrows after last retry'
+  );
+  t.end();
+});
+
+test('fetchWithPolicy#Retry-After', async (t) => {
+  const {stubFetch, calls} = makeStubFetch([
+    () => new Response('', {status: 429, headers: {'Retry-After': '0.05'}}),
+    () => new Response('ok')
+  ]);
+
+  await fetchWithPolicy('test', {}, {maxRetries: 1, retryDelay: 1, jitter: 0}, stubFetch);
+  t.ok(calls[1].time - calls[0].time >= 45, 'waits for Retry-After delay');
+  t.end();
+});
+
+test('fetchWithPolicy#timeout', async (t) => {
+  let attempts = 0;
+  const stubFetch = (url: string, options?: RequestInit) => {
+    attempts++;
+    return attempts === 1 ? hang(options?.signal) : Promise.resolve(new Response('ok'));
+  };
+
+  const response = await fetchWithPolicy(
+    'test',
+    {},
+    {timeout: 20, maxRetries: 1, ...FAST_RETRIES},
+    stubFetch
+  );
+  t.equal(response.status, 200, 'retries after timeout');
+
+  await t.rejects(
+    fetchWithPolicy('test', {}, {timeout: 20}, (url, options) => hang(options?.signal)),
+    /timed out/,
+    'rejects with timeout error'
+  );
+  t.end();
+});
+
+test('fetchWithPolicy#does not retry aborted requests', async (t) => {
+  const controller = new AbortController();
+  const {stubFetch, calls} = makeStubFetch([
+    () => {
+      controller.abort();
+      return Promise.reject(new Error('aborted'));
+    }
+  ]);
+
+  await t.rejects(
+    fetchWithPolicy('test', {signal: controller.signal}, {maxRetries: 3}, stubFetch),
+    /aborted/
+  );
+  t.equal(calls.length, 1, 'not retried');
+  t.end();
+});
+
+test('withFetchPolicy', async (t) => {
+  const {stubFetch} = makeStubFetch([() => new Response('')]);
+  t.equal(withFetchPolicy(stubFetch), stubFetch, 'returns fetch function if no policy');
+  t.notEqual(withFetchPolicy(stubFetch, {maxRetries: 1}), stubFetch, 'wraps fetch function');
+  t.end();
+});
+
+test('HttpFile#fetchPolicy against stub server - NODE ONLY', async (t) => {
+  if (isBrowser) {
+    t.comment('Skipping stub server tests in browser');
+    t.end();
+    return;
+  }
+
+  const http = await import('http');
+  const data = new Uint8Array(100).map((_, i) => i);
+
+  // Stub server that fails the first two requests
+  let requestCount = 0;
+  const server = http.createServer((request, response) => {
+    requestCount++;
+    if (requestCount <= 2) {
+      response.writeHead(503, {'Retry-After': '0'});
+      response.end();
+      return;
+    }
+    const [start, end] = (request.headers.range || '').replace('bytes=', '').split('-').map(Number);
+    response.writeHead(206, {'Content-Length': String(end - start + 1)});
+    response.end(Buffer.from(data.slice(start, end + 1)));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  const port = typeof address === 'object' ? address?.port : 0;
+
+  try {
+    const url = `http://127.0.0.1:${port}/data.bin`;
+
+    await t.rejects(new HttpFile(url).read(10, 5), /503/, 'fails without fetch policy');
+
+    const file = new HttpFile(url, {fetchPolicy: {maxRetries: 2, ...FAST_RETRIES}});
+    const arrayBuffer = await file.read(10, 5);
+    t.deepEqual(new Uint8Array(arrayBuffer), data.slice(10, 15), 'succeeds after retries');
+    t.equal(requestCount, 3, 'retried failed request');
+  } finally {
+    server.close();
+  }
+  t.end();
+});
@@ -102,3 +102,99 @@ test('RequestScheduler#debounce', async (t) => {
 
   t.end();
 });
+
+/** Schedules requests and records the order in which they are issued */
+function makeRecorder(scheduler: RequestScheduler) {
+  const issued: string[] = [];
+  const tokens: {done: () => any}[] = [];
+  const schedule = (name: string, options = {}, priority = 0) =>
+    scheduler
+      .scheduleRequest({name}, () => priority, options)
+      .then((token) => {
+        if (token) {
+          issued.push(name);
+          tokens.push(token);
+        }
+      });
+  const completeAll = () => tokens.splice(0).forEach((token) => token.done());
+  return {issued, schedule, completeAll};
+}
+
+test('RequestScheduler#maxRequestsPerOrigin', async (t) => {
+  const scheduler = new RequestScheduler({maxRequests: 4, maxRequestsPerOrigin: 2});
+  const {issued, schedule, completeAll} = makeRecorder(scheduler);
+
+  schedule('a1', {url: 'https://a.com/1'});
+  schedule('a2', {url: 'https://a.com/2'});
+  schedule('a3', {url: 'https://A.com/3'});
+  schedule('b1', {url: 'https://b.com/1'});
+  await sleep(10);
+
+  t.deepEqual(issued, ['a1', 'a2', 'b1'], 'limits requests per origin');
+  t.is(scheduler.activeRequestCount, 3, 'other origins use remaining slots');
+
+  completeAll();
+  await sleep(10);
+  t.deepEqual(issued, ['a1', 'a2', 'b1', 'a3'], 'issues queued request when origin frees up');
+  completeAll();
+  t.end();
+});
+
+test('RequestScheduler#priorityClass', async (t) => {
+  const scheduler = new RequestScheduler({maxRequests: 1});
+  const {issued, schedule, completeAll} = makeRecorder(scheduler);
+
+  // Occupy the only slot while the other requests are queued
+  const blocker = await scheduler.scheduleRequest('blocker');
+  schedule('prefetch', {priorityClass: 'prefetch'}, 0);
+  schedule('visible', {priorityClass: 'visible'}, 10);
+  schedule('high', {priorityClass: 'high'}, 20);
+  await sleep(10);
+  blocker?.done();
+
+  for (let i = 0; i < 3; i++) {
+    await sleep(10);
+    completeAll();
+  }
+  t.deepEqual(issued, ['high', 'visible', 'prefetch'], 'issues requests by priority class');
+  t.end();
+});
+
+test('RequestScheduler#fairness between owners', async (t) => {
+  const scheduler = new RequestScheduler({maxRequests: 4});
+  const {issued, schedule, completeAll} = makeRecorder(scheduler);
+  const tilesetA = {};
+  const tilesetB = {};
+
+  for (let i = 0; i < 4; i++) {
+    schedule(`a${i}`, {owner: tilesetA}, i);
+  }
+  schedule('b0', {owner: tilesetB}, 10);
+  schedule('b1', {owner: tilesetB}, 11);
+  await sleep(10);
+
+  t.deepEqual(issued.sort(), ['a0', 'a1', 'b0', 'b1'], 'shares slots between owners');
+  completeAll();
+  await sleep(10);
+  completeAll();
+
+  // Handles are deduplicated per owner
+  const token1 = scheduler.scheduleRequest('tile-0', () => 0, {owner: tilesetA});
+  const token2 = scheduler.scheduleRequest('tile-0', () => 0, {owner: tilesetB});
+  t.notEqual(token1, token2, 'identical handles of different owners are not deduplicated');
+  t.equal(
+    scheduler.scheduleRequest('tile-0', () => 0, {owner: tilesetA}),
+    token1,
+    'identical handles of the same owner are deduplicated'
+  );
+  (await token1)?.done();
+  (await token2)?.done();
+  t.end();
+});
+
+test('RequestScheduler#getGlobalScheduler', (t) => {
+  const scheduler = RequestScheduler.getGlobalScheduler();
+  t.equal(RequestScheduler.getGlobalScheduler(), scheduler, 'returns shared scheduler');
+  t.ok(scheduler.props.maxRequestsPerOrigin > 0, 'global scheduler limits requests per origin');
+  t.end();
+});
@@ -0,0 +1,214 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {
+  ResponseCache,
+  withResponseCache,
+  MemoryResponseCacheStorage,
+  IndexedDBResponseCacheStorage
+} from '@loaders.gl/loader-utils';
+
+const URL = 'https://example.com/data.bin';
+
+/** Returns a fetch function that responds with the supplied responses in order, and records calls */
+function makeStubFetch(responses: (() => Response)[]) {
+  const calls: {url: string; headers: Headers}[] = [];
+  const stubFetch = async (url: string, options?: RequestInit): Promise<Response> => {
+    calls.push({url, headers: new Headers(options?.headers)});
+    return responses[Math.min(calls.length - 1, responses.length - 1)]();
+  };
+  return {stubFetch, calls};
+}
+
+test('ResponseCache#returns fresh responses without a request', async (t) => {
+  const cache = new ResponseCache();
+  const {stubFetch, calls} = makeStubFetch([
+    () => new Response('data', {headers: {'Cache-Control': 'max-age=60'}})
+  ]);
+
+  const response1 = await cache.fetch(URL, {}, stubFetch);
+  t.equal(await response1.text(), 'data', 'returns response');
+  const response2 = await cache.fetch(URL, {}, stubFetch);
+  t.equal(await response2.text(), 'data', 'returns cached response');
+  t.equal(response2.url, URL, 'cached response has url');
+  t.equal(calls.length, 1, 'second request served from cache');
+  t.equal(cache.stats.get('Cache Hits').count, 1, 'counts hits');
+  t.equal(cache.stats.get('Cache Misses').count, 1, 'counts misses');
+  t.equal(cache.stats.get('Cached Bytes').count, 4, 'counts cached bytes');
+  t.end();
+});
+
+test('ResponseCache#revalidates stale responses', async (t) => {
+  const cache = new ResponseCache();
+  const {stubFetch, calls} = makeStubFetch([
+    () => new Response('data', {headers: {ETag: '"v1"'}}),
+    () => new Response(null, {status: 304, headers: {ETag: '"v1"'}})
+  ]);
+
+  await cache.fetch(URL, {}, stubFetch);
+  const response = await cache.fetch(URL, {}, stubFetch);
+  t.equal(calls.length, 2, 'stale response is revalidated');
+  t.equal(calls[1].headers.get('If-None-Match'), '"v1"', 'conditional request');
+  t.equal(response.status, 200, 'returns stored response');
+  t.equal(await response.text(), 'data', 'returns stored body');
+  t.equal(cache.stats.get('Revalidations').count, 1, 'counts revalidations');
+  t.end();
+});
+
+test('ResponseCache#does not store uncacheable responses', async (t) => {
+  const cache = new ResponseCache({defaultMaxAge: 60});
+  const {stubFetch, calls} = makeStubFetch([
+    () => new Response('data', {headers: {'Cache-Control': 'no-store'}}),
+    () => new Response('', {status: 404})
+  ]);
+
+  await cache.fetch(URL, {}, stubFetch);
+  await cache.fetch(URL, {}, stubFetch);
+  await cache.fetch(URL, {}, stubFetch);
+  await cache.fetch(URL, {method: 'POST'}, stubFetch);
+  await cache.fetch('data.bin', {}, stubFetch);
+  t.equal(calls.length, 5, 'no-store, errors, POST and local requests are not cached');
+  t.equal(cache.stats.get('Cached Bytes').count, 0, 'nothing stored');
+  t.end();
+});
+
+test('ResponseCache#stores ranges separately', async (t) => {
+  const cache = new ResponseCache({defaultMaxAge: 60});
+  const {stubFetch, calls} = makeStubFetch([
+    () => new Response('abcd', {status: 206}),
+    () => new Response('efgh', {status: 206})
+  ]);
+
+  await cache.fetch(URL, {headers: {Range: 'bytes=0-3'}}, stubFetch);
+  await cache.fetch(URL, {headers: {Range: 'bytes=4-7'}}, stubFetch);
+  const response = await cache.fetch(URL, {headers: {Range: 'bytes=0-3'}}, stubFetch);
+  t.equal(calls.length, 2, 'each range requested once');
+  t.equal(response.status, 206, 'returns partial content');
+  t.equal(await response.text(), 'abcd', 'returns the requested range');
+  t.end();
+});
+
+test('ResponseCache#evicts least recently used responses', async (t) => {
+  const storage = new MemoryResponseCacheStorage();
+  const cache = new ResponseCache({storage, maxSize: 10, defaultMaxAge: 60});
+  const {stubFetch} = makeStubFetch([() => new Response('1234')]);
+
+  await cache.fetch(`${URL}?1`, {}, stubFetch);
+  await cache.fetch(`${URL}?2`, {}, stubFetch);
+  // Access the first response so that the second one is least recently used
+  await cache.fetch(`${URL}?1`, {}, stubFetch);
+  await cache.fetch(`${URL}?3`, {}, stubFetch);
+
+  const keys = (await storage.entries()).map((entry) => entry.key).sort();
+  t.deepEqual(keys, [`${URL}?1`, `${URL}?3`], 'evicted least recently used response');
+  t.equal(cache.stats.get('Evictions').count, 1, 'counts evictions');
+  t.equal(cache.stats.get('Cached Bytes').count, 8, 'size stays within maxSize');
+  t.end();
+});
+
+test('ResponseCache#loads stored responses', async (t) => {
+  const storage = new MemoryResponseCacheStorage();
+  const {stubFetch, calls} = makeStubFetch([() => new Response('data')]);
+
+  await new ResponseCache({storage, defaultMaxAge: 60}).fetch(URL, {}, stubFetch);
+  const cache = new ResponseCache({storage, defaultMaxAge: 60});
+  const response = await cache.fetch(URL, {}, stubFetch);
+  t.equal(await response.text(), 'data', 'returns stored response');
+  t.equal(calls.length, 1, 'served from storage');
+
+  await cache.clear();
+  t.deepEqual(await storage.entries(), [], 'clear() empties storage');
+  t.end();
+});
+
+test('withResponseCache', async (t) => {
+  const {stubFetch, calls} = makeStubFetch([() => new Response('data')]);
+  t.equal(withResponseCache(stubFetch), stubFetch, 'returns fetch function without cache');
+
+  const cachedFetch = withResponseCache(stubFetch, new ResponseCache({defaultMaxAge: 60}));
+  await cachedFetch(URL);
+  const response = await cachedFetch(URL);
+  t.equal(await response.text(), 'data', 'returns response');
+  t.equal(calls.length, 1, 'served from cache');
+  t.end();
+});
+
+test('IndexedDBResponseCacheStorage', async (t) => {
+  const storage = new IndexedDBResponseCacheStorage({indexedDB: makeFakeIndexedDB()});
+  const entry = {
+    url: URL,
+    status: 200,
+    statusText: 'OK',
+    headers: {etag: '"v1"'},
+    body: new ArrayBuffer(4),
+    responseTime: 1,
+    lastAccessed: 1
+  };
+
+  await storage.set('key', entry);
+  t.deepEqual(await storage.get('key'), entry, 'stores entries');
+  t.deepEqual(
+    await storage.entries(),
+    [{key: 'key', byteLength: 4, lastAccessed: 1}],
+    'lists entries'
+  );
+
+  await storage.touch('key', 2);
+  t.equal((await storage.entries())[0].lastAccessed, 2, 'updates access time');
+
+  await storage.delete('key');
+  t.equal(await storage.get('key'), null, 'deletes entries');
+  t.deepEqual(await storage.entries(), [], 'deletes entry info');
+  await storage.close();
+  t.end();
+});
+
+/** Minimal in-memory `IDBFactory` supporting the requests used by `IndexedDBResponseCacheStorage` */
+function makeFakeIndexedDB(): IDBFactory {
+  const stores: Record<string, Map<string, unknown>> = {};
+
+  const makeRequest = (getResult: () => unknown, onDone?: () => void) => {
+    const request: any = {};
+    setTimeout(() => {
+      request.result = getResult();
+      request.onsuccess?.();
+      onDone?.();
+    });
+    return request;
+  };
+
+  const db = {
+    createObjectStore: (name: string) => (stores[name] = new Map()),
+    transaction: () => {
+      const transaction: any = {};
+      let pending = 0;
+      const onDone = () => --pending === 0 && transaction.oncomplete?.();
+      const request = (getResult: () => unknown) => {
+        pending++;
+        return makeRequest(getResult, onDone);
+      };
+      transaction.objectStore = (name: string) => ({
+        get: (key: string) => request(() => stores[name].get(key)),
+        getAll: () => request(() => [...stores[name].values()]),
+        put: (value: unknown, key: string) => request(() => stores[name].set(key, value)),
+        delete: (key: string) => request(() => stores[name].delete(key)),
+        clear: () => request(() => stores[name].clear())
+      });
+      return transaction;
+    },
+    close: () => {}
+  };
+
+  return {
+    open: () => {
+      const request: any = {result: db};
+      setTimeout(() => {
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    }
+  } as unknown as IDBFactory;
+}
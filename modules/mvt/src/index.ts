@@ -13,6 +13,12 @@ export type {TileJSON} from './lib/parse-tilejson';
 export {MVTLoader, MVTWorkerLoader} from './mvt-loader';
 export type {MVTLoaderOptions} from './mvt-loader';
 
+// MVTWriter
+
+export {MVTWriter} from './mvt-writer';
+export type {MVTWriterOptions} from './mvt-writer';
+export type {MVTTileData, MVTLayerData} from './lib/encoders/encode-mvt';
+
 // MVTSource
 
 export {MVTSource} from './mvt-source';
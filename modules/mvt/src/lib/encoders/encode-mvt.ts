@@ -0,0 +1,363 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright vis.gl contributors
+
+// This code is inspired by https://github.com/mapbox/vt-pbf under MIT license.
+
+import Protobuf from 'pbf';
+import type {
+  Feature,
+  Geometry,
+  Position,
+  GeoJSONTable,
+  BinaryFeatureCollection
+} from '@loaders.gl/schema';
+import {binaryToGeojson} from '@loaders.gl/gis';
+import * as MVT from '../pojo-parser/mvt-constants';
+import {projectLngLatToTile} from '../utils/geometry-utils';
+import type {MVTWriterOptions} from '../../mvt-writer';
+
+/** Features of a layer */
+export type MVTLayerData = Feature[] | GeoJSONTable | BinaryFeatureCollection;
+
+/** Features of a single layer, or layers by name */
+export type MVTTileData = MVTLayerData | {[layerName: string]: MVTLayerData};
+
+/** MVT writer options, with defaults applied */
+export type MVTEncoderOptions = Required<Omit<NonNullable<MVTWriterOptions['mvt']>, 'tileIndex'>> &
+  Pick<NonNullable<MVTWriterOptions['mvt']>, 'tileIndex'>;
+
+type MVTValue = string | number | boolean;
+
+/** A layer being encoded. Keys and values are dictionary encoded */
+type MVTLayerEncoder = {
+  name: string;
+  extent: number;
+  features: MVTFeatureEncoder[];
+  keys: string[];
+  values: MVTValue[];
+  keyIndices: Map<string, number>;
+  valueIndices: Map<string, number>;
+};
+
+type MVTFeatureEncoder = {
+  id?: number;
+  type: MVT.GeometryType;
+  /** Pairs of key and value indices */
+  tags: number[];
+  /** Geometry commands and zigzag encoded parameters */
+  geometry: number[];
+};
+
+/**
+ * Encodes features as a Mapbox Vector Tile
+ * @param data - features of a single layer, or layers by name
+ * @param options - writer options, with defaults applied
+ */
+export function encodeMVT(data: MVTTileData, options: MVTEncoderOptions): ArrayBuffer {
+  if (options.coordinates === 'wgs84' && !options.tileIndex) {
+    throw new Error('MVTWriter: WGS84 coordinates need tileIndex property');
+  }
+
+  const layers = new Map<string, MVTLayerEncoder>();
+  for (const [layerName, layerData] of getLayers(data, options)) {
+    for (const feature of getFeatures(layerData)) {
+      const layerProperty = feature.properties?.[options.layerProperty];
+      const name = typeof layerProperty === 'string' ? layerProperty : layerName;
+      let layer = layers.get(name);
+      if (!layer) {
+        layer = createLayer(name, options.extent);
+        layers.set(name, layer);
+      }
+      addFeature(layer, feature, options);
+    }
+  }
+
+  const pbf = new Protobuf();
+  for (const layer of layers.values()) {
+    pbf.writeMessage(MVT.TileInfo.layers, writeLayer, layer);
+  }
+  const bytes = pbf.finish();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+function getLayers(data: MVTTileData, options: MVTEncoderOptions): [string, MVTLayerData][] {
+  if (Array.isArray(data) || isLayerData(data)) {
+    return [[options.layerName, data]];
+  }
+  return Object.entries(data as Record<string, MVTLayerData>);
+}
+
+function isLayerData(data: MVTTileData): data is GeoJSONTable | BinaryFeatureCollection {
+  const {shape} = data as {shape?: unknown};
+  return shape === 'geojson-table' || shape === 'binary-feature-collection';
+}
+
+function getFeatures(data: MVTLayerData): Feature[] {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (data.shape === 'geojson-table') {
+    return data.features;
+  }
+  return binaryToGeojson(data) as Feature[];
+}
+
+function createLayer(name: string, extent: number): MVTLayerEncoder {
+  return {
+    name,
+    extent,
+    features: [],
+    keys: [],
+    values: [],
+    keyIndices: new Map(),
+    valueIndices: new Map()
+  };
+}
+
+function addFeature(layer: MVTLayerEncoder, feature: Feature, options: MVTEncoderOptions): void {
+  if (!feature.geometry) {
+    return;
+  }
+
+  const toTileCoordinates = (position: Position): number[] => {
+    const [x, y] =
+      options.coordinates === 'wgs84'
+        ? projectLngLatToTile(position, options.tileIndex!, options.extent)
+        : [position[0] * options.extent, position[1] * options.extent];
+    return [Math.round(x), Math.round(y)];
+  };
+
+  const encodedGeometry = encodeGeometry(feature.geometry, toTileCoordinates);
+  if (!encodedGeometry) {
+    return;
+  }
+
+  const encodedFeature: MVTFeatureEncoder = {...encodedGeometry, tags: []};
+  if (typeof feature.id === 'number' && Number.isSafeInteger(feature.id) && feature.id >= 0) {
+    encodedFeature.id = feature.id;
+  }
+
+  for (const [key, value] of Object.entries(feature.properties || {})) {
+    if (key !== options.layerProperty && value !== null && value !== undefined) {
+      encodedFeature.tags.push(getKeyIndex(layer, key), getValueIndex(layer, value));
+    }
+  }
+
+  layer.features.push(encodedFeature);
+}
+
+function getKeyIndex(layer: MVTLayerEncoder, key: string): number {
+  let index = layer.keyIndices.get(key);
+  if (index === undefined) {
+    index = layer.keys.push(key) - 1;
+    layer.keyIndices.set(key, index);
+  }
+  return index;
+}
+
+/** Values that are not strings, numbers or booleans are written as JSON strings */
+function getValueIndex(layer: MVTLayerEncoder, value: unknown): number {
+  const mvtValue =
+    typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+      ? value
+      : JSON.stringify(value, (key, item) => (typeof item === 'bigint' ? String(item) : item));
+  const valueKey = `${typeof mvtValue}:${mvtValue}`;
+  let index = layer.valueIndices.get(valueKey);
+  if (index === undefined) {
+    index = layer.values.push(mvtValue) - 1;
+    layer.valueIndices.set(valueKey, index);
+  }
+  return index;
+}
+
+// GEOMETRY
+
+type TransformPosition = (position: Position) => number[];
+
+function encodeGeometry(
+  geometry: Geometry,
+  transform: TransformPosition
+): {type: MVT.GeometryType; geometry: number[]} | null {
+  const encoder = new MVTGeometryEncoder();
+  let type: MVT.GeometryType;
+
+  switch (geometry.type) {
+    case 'Point':
+      type = MVT.GeometryType.POINT;
+      encoder.moveTo([geometry.coordinates].map(transform));
+      break;
+    case 'MultiPoint':
+      type = MVT.GeometryType.POINT;
+      encoder.moveTo(geometry.coordinates.map(transform));
+      break;
+    case 'LineString':
+      type = MVT.GeometryType.LINESTRING;
+      encoder.addLines([geometry.coordinates], transform);
+      break;
+    case 'MultiLineString':
+      type = MVT.GeometryType.LINESTRING;
+      encoder.addLines(geometry.coordinates, transform);
+      break;
+    case 'Polygon':
+      type = MVT.GeometryType.POLYGON;
+      encoder.addPolygon(geometry.coordinates, transform);
+      break;
+    case 'MultiPolygon':
+      type = MVT.GeometryType.POLYGON;
+      for (const polygon of geometry.coordinates) {
+        encoder.addPolygon(polygon, transform);
+      }
+      break;
+    default:
+      throw new Error(`MVTWriter: ${geometry.type} geometries are not supported`);
+  }
+
+  return encoder.commands.length > 0 ? {type, geometry: encoder.commands} : null;
+}
+
+/**
+ * Encodes geometries as "turtle graphics" commands
+ * - Parameters are zigzag encoded deltas from the previous position.
+ * - Consecutive duplicate positions are removed, rings are closed with a `ClosePath` command.
+ * - Exterior rings are written clockwise (positive area in tile coordinates), holes counterclockwise.
+ */
+class MVTGeometryEncoder {
+  commands: number[] = [];
+  private x = 0;
+  private y = 0;
+
+  addLines(lines: Position[][], transform: TransformPosition): void {
+    for (const line of lines) {
+      const positions = removeDuplicatePositions(line.map(transform));
+      if (positions.length >= 2) {
+        this.moveTo(positions.slice(0, 1));
+        this.lineTo(positions.slice(1));
+      }
+    }
+  }
+
+  addPolygon(rings: Position[][], transform: TransformPosition): void {
+    for (let i = 0; i < rings.length; i++) {
+      const positions = removeDuplicatePositions(rings[i].map(transform));
+      const [first] = positions;
+      const last = positions[positions.length - 1];
+      if (positions.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+        positions.pop();
+      }
+
+      const area = getSignedArea(positions);
+      if (positions.length < 3 || area === 0) {
+        // Holes of a degenerate exterior ring are dropped
+        if (i === 0) {
+          return;
+        }
+        continue; // eslint-disable-line no-continue
+      }
+      if (i === 0 ? area < 0 : area > 0) {
+        positions.reverse();
+      }
+
+      this.moveTo(positions.slice(0, 1));
+      this.lineTo(positions.slice(1));
+      this.closePath();
+    }
+  }
+
+  moveTo(positions: number[][]): void {
+    this.addCommand(MVT.Command.MoveTo, positions);
+  }
+
+  lineTo(positions: number[][]): void {
+    this.addCommand(MVT.Command.LineTo, positions);
+  }
+
+  closePath(): void {
+    this.commands.push(encodeCommand(MVT.Command.ClosePath, 1));
+  }
+
+  private addCommand(command: MVT.Command, positions: number[][]): void {
+    if (positions.length === 0) {
+      return;
+    }
+    this.commands.push(encodeCommand(command, positions.length));
+    for (const [x, y] of positions) {
+      this.commands.push(zigzag(x - this.x), zigzag(y - this.y));
+      this.x = x;
+      this.y = y;
+    }
+  }
+}
+
+function encodeCommand(command: MVT.Command, count: number): number {
+  return (count << 3) | (command & 0x7);
+}
+
+function zigzag(value: number): number {
+  return (value << 1) ^ (value >> 31);
+}
+
+function removeDuplicatePositions(positions: number[][]): number[][] {
+  return positions.filter(
+    (position, i) =>
+      i === 0 || position[0] !== positions[i - 1][0] || position[1] !== positions[i - 1][1]
+  );
+}
+
+/** Surveyor's formula, positive for clockwise rings in tile coordinates (y axis down) */
+function getSignedArea(ring: number[][]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return sum / 2;
+}
+
+// PROTOBUF
+
+function writeLayer(layer: MVTLayerEncoder, pbf?: Protobuf): void {
+  if (!pbf) {
+    return;
+  }
+  pbf.writeVarintField(MVT.LayerInfo.version, 2);
+  pbf.writeStringField(MVT.LayerInfo.name, layer.name);
+  for (const feature of layer.features) {
+    pbf.writeMessage(MVT.LayerInfo.features, writeFeature, feature);
+  }
+  for (const key of layer.keys) {
+    pbf.writeStringField(MVT.LayerInfo.keys, key);
+  }
+  for (const value of layer.values) {
+    pbf.writeMessage(MVT.LayerInfo.values, writeValue, value);
+  }
+  pbf.writeVarintField(MVT.LayerInfo.extent, layer.extent);
+}
+
+function writeFeature(feature: MVTFeatureEncoder, pbf?: Protobuf): void {
+  if (!pbf) {
+    return;
+  }
+  if (feature.id !== undefined) {
+    pbf.writeVarintField(MVT.FeatureInfo.id, feature.id);
+  }
+  pbf.writePackedVarint(MVT.FeatureInfo.tags, feature.tags);
+  pbf.writeVarintField(MVT.FeatureInfo.type, feature.type);
+  pbf.writePackedVarint(MVT.FeatureInfo.geometry, feature.geometry);
+}
+
+function writeValue(value: MVTValue, pbf?: Protobuf): void {
+  if (!pbf) {
+    return;
+  }
+  if (typeof value === 'string') {
+    pbf.writeStringField(MVT.PropertyType.string_value, value);
+  } else if (typeof value === 'boolean') {
+    pbf.writeBooleanField(MVT.PropertyType.bool_value, value);
+  } else if (!Number.isSafeInteger(value)) {
+    pbf.writeDoubleField(MVT.PropertyType.double_value, value);
+  } else if (value < 0) {
+    pbf.writeSVarintField(MVT.PropertyType.sint_value, value);
+  } else {
+    pbf.writeVarintField(MVT.PropertyType.uint_value, value);
+  }
+}
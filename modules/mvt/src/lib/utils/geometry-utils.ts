@@ -85,6 +85,25 @@ export function projectToLngLat(
   }
 }
 
+/**
+ * Projects a lngLat position to local tile coordinates (the inverse of `projectToLngLat`)
+ * @param position
+ * @param tileIndex
+ * @param extent
+ * @returns tile coordinates, in a [0, extent] range inside the tile
+ */
+export function projectLngLatToTile(
+  position: number[],
+  tileIndex: {x: number; y: number; z: number},
+  extent: number
+): number[] {
+  const size = extent * Math.pow(2, tileIndex.z);
+  const x = ((position[0] + 180) * size) / 360 - extent * tileIndex.x;
+  const y2 = (180 / Math.PI) * Math.log(Math.tan(Math.PI / 4 + (position[1] * Math.PI) / 360));
+  const y = ((180 - y2) * size) / 360 - extent * tileIndex.y;
+  return [x, y];
+}
+
 /**
  * Projects local tile coordinates to lngLat in place.
  * @param points
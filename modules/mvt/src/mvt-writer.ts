@@ -0,0 +1,56 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright vis.gl contributors
+
+import type {WriterWithEncoder, WriterOptions} from '@loaders.gl/loader-utils';
+import type {MVTTileData, MVTEncoderOptions} from './lib/encoders/encode-mvt';
+import {encodeMVT} from './lib/encoders/encode-mvt';
+import {MVTFormat} from './mvt-format';
+
+// __VERSION__ is injected by babel-plugin-version-inline
+// @ts-ignore TS2304: Cannot find name '__VERSION__'.
+const VERSION = typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'latest';
+
+export type MVTWriterOptions = WriterOptions & {
+  mvt?: {
+    /** `wgs84`: coordinates in long, lat (`tileIndex` must be provided). `local` coordinates are `0-1` from tile origin */
+    coordinates?: 'wgs84' | 'local';
+    /** An object containing tile index values (`x`, `y`, `z`) to project WGS84 coordinates into the tile. Mandatory with `wgs84` coordinates option. */
+    tileIndex?: {x: number; y: number; z: number};
+    /** Size of the tile in integer tile coordinates */
+    extent?: number;
+    /** Name of the layer, when the features of a single layer are written */
+    layerName?: string;
+    /** If the features have a `feature.properties[layerProperty]` string, they are written in the layer with this name. The property is not written. */
+    layerProperty?: string;
+  };
+};
+
+const DEFAULT_MVT_WRITER_OPTIONS: MVTEncoderOptions = {
+  coordinates: 'local',
+  extent: 4096,
+  layerName: 'default',
+  layerProperty: 'layerName'
+};
+
+/**
+ * Writer for the Mapbox Vector Tile format
+ */
+export const MVTWriter = {
+  ...MVTFormat,
+  version: VERSION,
+  binary: true,
+  options: {
+    mvt: DEFAULT_MVT_WRITER_OPTIONS as MVTWriterOptions['mvt']
+  },
+  async encode(data: MVTTileData, options?: MVTWriterOptions): Promise<ArrayBuffer> {
+    return encodeMVT(data, getMVTOptions(options));
+  },
+  encodeSync(data: MVTTileData, options?: MVTWriterOptions): ArrayBuffer {
+    return encodeMVT(data, getMVTOptions(options));
+  }
+} as const satisfies WriterWithEncoder<MVTTileData, never, MVTWriterOptions>;
+
+function getMVTOptions(options?: MVTWriterOptions): MVTEncoderOptions {
+  return {...DEFAULT_MVT_WRITER_OPTIONS, ...options?.mvt};
+}
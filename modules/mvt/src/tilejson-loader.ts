@@ -33,6 +33,7 @@ export const TileJSONLoader = {
   extensions: ['json'],
   mimeTypes: ['application/json'],
   text: true,
+  sniff: sniffTileJSON,
   options: {
     tilejson: {
       maxValues: undefined
@@ -50,3 +51,11 @@ export const TileJSONLoader = {
     return parseTileJSON(json, tilejsonOptions) as TileJSON;
   }
 } as const satisfies LoaderWithParser<TileJSON, never, TileJSONLoaderOptions>;
+
+/** TileJSON is served as `.json`, look for TileJSON specific keys */
+function sniffTileJSON(text: string): number {
+  if (/"tilejson"\s*:/.test(text)) {
+    return 1;
+  }
+  return /"(vector_layers|tilestats)"\s*:/.test(text) ? 0.7 : 0;
+}
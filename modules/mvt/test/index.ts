@@ -15,6 +15,7 @@ import './lib/utils/geometry-utils.spec';
 
 import './tilejson-loader.spec';
 import './mvt-loader.spec';
+import './mvt-writer.spec';
 import './mvt-source.spec';
 import './table-tile-source.spec';
 // import './table-tile-source-full.spec';
@@ -4,7 +4,7 @@
 
 // import type {BinaryFeatureCollection} from '@loaders.gl/schema';
 import test from 'tape-promise/tape';
-import {MVTLoader, MVTLoaderOptions} from '@loaders.gl/mvt';
+import {MVTLoader, MVTWorkerLoader, MVTLoaderOptions} from '@loaders.gl/mvt';
 import {setLoaderOptions, fetchFile, parse, parseSync} from '@loaders.gl/core';
 import {geojsonToBinary, binaryToGeojson} from '@loaders.gl/gis';
 
@@ -335,3 +335,14 @@ test('Triangulation is supported', async (t) => {
 
   t.end();
 });
+
+test('MVTWorkerLoader#parse', async (t) => {
+  const response = await fetchFile(MVT_POLYGONS_DATA_URL);
+  const mvtArrayBuffer = await response.arrayBuffer();
+  const options: MVTLoaderOptions = {mvt: {shape: 'binary'}};
+
+  const expected = parseSync(mvtArrayBuffer, MVTLoader, options);
+  const result = await parse(mvtArrayBuffer, MVTWorkerLoader, {...options, _nodeWorkers: true});
+  t.deepEqual(result, expected, 'worker result matches main thread result');
+  t.end();
+});
@@ -0,0 +1,165 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import type {Feature, GeoJSONTable, Polygon} from '@loaders.gl/schema';
+import {MVTLoader, MVTWriter} from '@loaders.gl/mvt';
+import {fetchFile, parse, encode} from '@loaders.gl/core';
+import {geojsonToBinary} from '@loaders.gl/gis';
+import Protobuf from 'pbf';
+import {VectorTile} from '../src/lib/vector-tile/vector-tile';
+
+const MVT_URLS = [
+  '@loaders.gl/mvt/test/data/mvt/points_4-2-6.mvt',
+  '@loaders.gl/mvt/test/data/mvt/lines_2-2-1.mvt',
+  '@loaders.gl/mvt/test/data/mvt/polygons_10-133-325.mvt',
+  '@loaders.gl/mvt/test/data/mvt/lines_10-501-386_multiplelayers.mvt',
+  '@loaders.gl/mvt/test/data/mvt/with_feature_id.mvt'
+];
+
+test('MVTWriter#round trip (local coordinates)', async (t) => {
+  for (const url of MVT_URLS) {
+    const arrayBuffer = await (await fetchFile(url)).arrayBuffer();
+    const features = (await parse(arrayBuffer, MVTLoader)) as Feature[];
+
+    // Features are written to the layers named by their `layerName` property
+    const encoded = await encode(features, MVTWriter);
+    const roundTripFeatures = await parse(encoded, MVTLoader);
+
+    t.deepEqual(roundTripFeatures, features, `${url} round trips`);
+  }
+  t.end();
+});
+
+test('MVTWriter#round trip (wgs84 coordinates)', async (t) => {
+  const arrayBuffer = await (await fetchFile(MVT_URLS[2])).arrayBuffer();
+  const tileIndex = {x: 133, y: 325, z: 10};
+  const mvt = {coordinates: 'wgs84', tileIndex, shape: 'geojson-table'} as const;
+
+  const table = (await parse(arrayBuffer, MVTLoader, {mvt})) as GeoJSONTable;
+  const encoded = await encode(table, MVTWriter, {mvt});
+  const roundTripTable = (await parse(encoded, MVTLoader, {mvt})) as GeoJSONTable;
+
+  t.equal(roundTripTable.features.length, table.features.length);
+  const [x0, y0] = (table.features[0].geometry as Polygon).coordinates[0][0];
+  const [x1, y1] = (roundTripTable.features[0].geometry as Polygon).coordinates[0][0];
+  t.ok(Math.abs(x1 - x0) < 1e-9 && Math.abs(y1 - y0) < 1e-9, 'coordinates are preserved');
+  t.end();
+});
+
+test('MVTWriter#binary features and layers', async (t) => {
+  const features: Feature[] = [
+    {type: 'Feature', geometry: {type: 'Point', coordinates: [0.25, 0.5]}, properties: {v: 1}},
+    {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [0.5, 0.5]
+        ]
+      },
+      properties: {v: 2}
+    }
+  ];
+
+  const encoded = await encode(
+    {points: geojsonToBinary(features.slice(0, 1)), lines: features.slice(1)},
+    MVTWriter
+  );
+  const tile = new VectorTile(new Protobuf(encoded));
+  t.deepEqual(Object.keys(tile.layers), ['points', 'lines'], 'layers are written by name');
+
+  const roundTripFeatures = (await parse(encoded, MVTLoader)) as Feature[];
+  t.deepEqual(
+    roundTripFeatures.map((feature) => feature.geometry),
+    features.map((feature) => feature.geometry)
+  );
+  t.deepEqual(
+    roundTripFeatures.map((feature) => feature.properties),
+    [
+      {v: 1, layerName: 'points'},
+      {v: 2, layerName: 'lines'}
+    ]
+  );
+  t.end();
+});
+
+test('MVTWriter#properties and winding order', async (t) => {
+  // Exterior ring is counterclockwise in tile coordinates (y axis down), hole is clockwise
+  const polygon: Polygon = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [0, 0],
+        [0, 0.5],
+        [0.5, 0.5],
+        [0.5, 0],
+        [0, 0]
+      ],
+      [
+        [0.1, 0.1],
+        [0.2, 0.1],
+        [0.2, 0.2],
+        [0.1, 0.2],
+        [0.1, 0.1]
+      ]
+    ]
+  };
+  const properties = {name: 'a', count: 3, offset: -2, ratio: 0.5, valid: true, empty: null};
+  const table: GeoJSONTable = {
+    shape: 'geojson-table',
+    type: 'FeatureCollection',
+    features: [
+      {type: 'Feature', id: 7, geometry: polygon, properties},
+      {type: 'Feature', geometry: polygon, properties: {...properties, name: 'b'}}
+    ]
+  };
+
+  const encoded = await encode(table, MVTWriter, {mvt: {layerName: 'polygons'}});
+
+  const layer = new VectorTile(new Protobuf(encoded)).layers.polygons;
+  t.equal(layer.version, 2);
+  t.equal(layer.extent, 4096);
+  t.deepEqual(layer._keys, ['name', 'count', 'offset', 'ratio', 'valid'], 'keys are deduplicated');
+  t.deepEqual(layer._values, ['a', 3, -2, 0.5, true, 'b'], 'values are deduplicated');
+
+  const geometry = layer.getGeoJSONFeature(0).loadGeometry();
+  t.ok(getSignedArea(geometry[0]) > 0, 'exterior ring has a positive area');
+  t.ok(getSignedArea(geometry[1]) < 0, 'hole has a negative area');
+
+  // MVTLoader returns feature ids in the properties
+  const [feature] = (await parse(encoded, MVTLoader)) as Feature[];
+  t.deepEqual(feature.properties, {
+    name: 'a',
+    count: 3,
+    offset: -2,
+    ratio: 0.5,
+    valid: true,
+    id: 7,
+    layerName: 'polygons'
+  });
+  t.end();
+});
+
+test('MVTWriter#errors', async (t) => {
+  const features: Feature[] = [
+    {type: 'Feature', geometry: {type: 'Point', coordinates: [0, 0]}, properties: {}}
+  ];
+  await t.rejects(
+    encode(features, MVTWriter, {mvt: {coordinates: 'wgs84'}}),
+    /tileIndex/,
+    'wgs84 coordinates need a tile index'
+  );
+  t.end();
+});
+
+/** Surveyor's formula in tile coordinates */
+function getSignedArea(ring: number[][]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return sum / 2;
+}
@@ -109,13 +109,7 @@ test('OBJLoader#parseText - object with vertex colors', async (t) => {
 });
 
 test('OBJWorkerLoader#parse(text)', async (t) => {
-  if (typeof Worker === 'undefined') {
-    t.comment('Worker is not usable in non-browser environments');
-    t.end();
-    return;
-  }
-
-  const data = await load(OBJ_ASCII_URL, OBJWorkerLoader);
+  const data = await load(OBJ_ASCII_URL, OBJWorkerLoader, {_nodeWorkers: true});
 
   validateMeshCategoryData(t, data);
 
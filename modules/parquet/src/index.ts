@@ -24,6 +24,21 @@ export {
   ParquetJSONWriter as ParquetWriter
 } from './parquet-json-writer';
 
+export type {
+  ParquetFilter,
+  ParquetFilterValue,
+  ParquetComparisonFilter,
+  ParquetInFilter,
+  ParquetNullFilter,
+  ParquetBboxFilter,
+  ParquetLogicalFilter
+} from './lib/filter/parquet-filter';
+
+// Data source
+
+export type {ParquetSourceOptions} from './parquet-source';
+export {ParquetSource, ParquetVectorSource} from './parquet-source';
+
 // EXPERIMENTAL - expose Parquet WASM loaders/writer
 
 export type {ParquetArrowLoaderOptions} from './parquet-arrow-loader';
@@ -35,6 +50,7 @@ export {ParquetArrowWriter} from './parquet-arrow-writer';
 export {preloadCompressions} from './parquetjs/compression';
 
 export {ParquetSchema} from './parquetjs/schema/schema';
+export type {ParquetIterationProps} from './parquetjs/parser/parquet-reader';
 export {ParquetReader} from './parquetjs/parser/parquet-reader';
 export {ParquetEncoder} from './parquetjs/encoder/parquet-encoder';
 
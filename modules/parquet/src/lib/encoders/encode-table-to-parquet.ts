@@ -0,0 +1,168 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {DataType, Field, Schema, Table, TableBatch} from '@loaders.gl/schema';
+import {getTableLength, getTableRowAsObject} from '@loaders.gl/schema-utils';
+import {concatenateArrayBuffersAsync} from '@loaders.gl/loader-utils';
+import type {ParquetRow, ParquetType, SchemaDefinition} from '../../parquetjs/schema/declare';
+import {ParquetSchema} from '../../parquetjs/schema/schema';
+import {ParquetEncoder, ParquetEnvelopeWriter} from '../../parquetjs/encoder/parquet-encoder';
+import {installBufferPolyfill} from '../../polyfills/buffer/index';
+
+export type EncodeParquetOptions = {
+  /** Number of rows in each row group. Rows are buffered in memory until a row group is complete */
+  rowGroupSize?: number;
+};
+
+/**
+ * Encodes a row table as a Parquet file
+ */
+export async function encodeTableToParquet(
+  table: Table,
+  options: EncodeParquetOptions
+): Promise<ArrayBuffer> {
+  const batch = {...table, batchType: 'data', length: getTableLength(table)} as TableBatch;
+  return await concatenateArrayBuffersAsync(encodeTableBatchesToParquet([batch], options));
+}
+
+/**
+ * Encodes row table batches as a Parquet file, yielding each row group as soon as it is written
+ * - The Parquet schema is taken from the schema of the first batch, or inferred from its rows.
+ * - All columns are optional, null and undefined values are written as nulls.
+ */
+export async function* encodeTableBatchesToParquet(
+  batches: AsyncIterable<TableBatch> | Iterable<TableBatch>,
+  options: EncodeParquetOptions
+): AsyncIterable<ArrayBuffer> {
+  installBufferPolyfill();
+
+  const chunks: Buffer[] = [];
+  let encoder: ParquetEncoder<ParquetRow> | null = null;
+  let fieldTypes: Record<string, ParquetType> = {};
+
+  for await (const batch of batches) {
+    if (batch.shape !== 'object-row-table' && batch.shape !== 'array-row-table') {
+      throw new Error(`ParquetWriter: unsupported batch shape ${batch.shape}`);
+    }
+    if (!encoder) {
+      const parquetSchema = getParquetSchema(batch.schema || deduceSchema(batch));
+      fieldTypes = Object.fromEntries(
+        parquetSchema.fieldList.map((field) => [
+          field.name,
+          field.originalType || field.primitiveType!
+        ])
+      );
+      encoder = openEncoder(parquetSchema, chunks, options);
+    }
+
+    const length = getTableLength(batch);
+    for (let rowIndex = 0; rowIndex < length; rowIndex++) {
+      const row = getTableRowAsObject(batch, rowIndex, {}, 'copy');
+      await encoder.appendRow(getParquetRow(row, fieldTypes));
+    }
+    // Row groups are written as soon as they are complete
+    yield* flushChunks(chunks);
+  }
+
+  // Without batches, the file has no columns
+  encoder = encoder || openEncoder(new ParquetSchema({}), chunks, options);
+  await encoder.close();
+  yield* flushChunks(chunks);
+}
+
+/** Opens an encoder that writes the file to `chunks` */
+function openEncoder(
+  schema: ParquetSchema,
+  chunks: Buffer[],
+  options: EncodeParquetOptions
+): ParquetEncoder<ParquetRow> {
+  const write = async (buffer: Buffer) => {
+    chunks.push(buffer);
+  };
+  const envelopeWriter = new ParquetEnvelopeWriter(schema, write, async () => {}, 0, {});
+  return new ParquetEncoder(schema, envelopeWriter, options);
+}
+
+function* flushChunks(chunks: Buffer[]): Iterable<ArrayBuffer> {
+  if (chunks.length > 0) {
+    const buffer = Buffer.concat(chunks.splice(0, chunks.length));
+    yield buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  }
+}
+
+/** Converts a loaders.gl schema to a Parquet schema with optional columns */
+function getParquetSchema(schema: Schema): ParquetSchema {
+  const schemaDefinition: SchemaDefinition = {};
+  for (const field of schema.fields) {
+    schemaDefinition[field.name] = {type: getParquetType(field.type), optional: true};
+  }
+  return new ParquetSchema(schemaDefinition);
+}
+
+// eslint-disable-next-line complexity
+function getParquetType(type: DataType): ParquetType {
+  switch (type) {
+    case 'bool':
+      return 'BOOLEAN';
+    case 'int8':
+    case 'int16':
+    case 'int32':
+    case 'uint8':
+    case 'uint16':
+      return 'INT32';
+    case 'int64':
+    case 'uint32':
+    case 'uint64':
+      return 'INT64';
+    case 'float16':
+    case 'float32':
+      return 'FLOAT';
+    case 'float64':
+      return 'DOUBLE';
+    case 'binary':
+      return 'BYTE_ARRAY';
+    case 'timestamp-millisecond':
+      return 'TIMESTAMP_MILLIS';
+    default:
+      // Other types are written as strings
+      return 'UTF8';
+  }
+}
+
+/** Infers the schema of a batch without schema from the first non-null value of each column */
+function deduceSchema(batch: TableBatch): Schema {
+  const values: Record<string, unknown> = {};
+  for (let rowIndex = 0; rowIndex < batch.length; rowIndex++) {
+    for (const [name, value] of Object.entries(getTableRowAsObject(batch, rowIndex, {}))) {
+      if (values[name] === undefined || values[name] === null) {
+        values[name] = value;
+      }
+    }
+  }
+  const fields = Object.entries(values).map(
+    ([name, value]): Field => ({name, type: deduceType(value), nullable: true})
+  );
+  return {fields, metadata: {}};
+}
+
+function deduceType(value: unknown): DataType {
+  switch (typeof value) {
+    case 'boolean':
+      return 'bool';
+    case 'number':
+      return 'float64';
+    default:
+      return value instanceof Date ? 'timestamp-millisecond' : 'utf8';
+  }
+}
+
+/** Non-string values of string columns are written as strings, objects as JSON */
+function getParquetRow(row: ParquetRow, fieldTypes: Record<string, ParquetType>): ParquetRow {
+  for (const [name, value] of Object.entries(row)) {
+    if (fieldTypes[name] === 'UTF8' && value !== null && value !== undefined) {
+      row[name] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  }
+  return row;
+}
@@ -0,0 +1,340 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {GeoMetadata} from '@loaders.gl/geoarrow';
+
+/** Value that columns are compared with */
+export type ParquetFilterValue = number | bigint | string | boolean;
+
+/**
+ * Column of a filter. A string is the name of a top level column,
+ * an array is the path of a nested column, e.g. `['bbox', 'xmin']`
+ */
+export type ParquetFilterColumn = string | string[];
+
+/** Compares the values of a column with a value. Null values never match */
+export type ParquetComparisonFilter = {
+  column: ParquetFilterColumn;
+  operator: '=' | '!=' | '<' | '<=' | '>' | '>=';
+  value: ParquetFilterValue;
+};
+
+/** Matches rows where the column has one of the values */
+export type ParquetInFilter = {
+  column: ParquetFilterColumn;
+  operator: 'in';
+  values: ParquetFilterValue[];
+};
+
+/** Matches rows where the column is (or is not) null */
+export type ParquetNullFilter = {
+  column: ParquetFilterColumn;
+  operator: 'is null' | 'is not null';
+};
+
+/**
+ * Matches rows whose geometry bounding box intersects `bbox`.
+ * Requires a GeoParquet 1.1 `covering` bbox column for the geometry column.
+ */
+export type ParquetBboxFilter = {
+  operator: 'bbox';
+  /** `[minX, minY, maxX, maxY]` */
+  bbox: [number, number, number, number];
+  /** Geometry column. Defaults to the primary geometry column */
+  column?: string;
+};
+
+/** Combines filters */
+export type ParquetLogicalFilter = {
+  operator: 'and' | 'or';
+  filters: ParquetFilter[];
+};
+
+/**
+ * Row filter, used to skip row groups and pages by their statistics,
+ * and to drop the rows that do not match.
+ */
+export type ParquetFilter =
+  | ParquetComparisonFilter
+  | ParquetInFilter
+  | ParquetNullFilter
+  | ParquetBboxFilter
+  | ParquetLogicalFilter;
+
+/** Filter on a single column */
+export type ParquetColumnFilter = ParquetComparisonFilter | ParquetInFilter | ParquetNullFilter;
+
+/** Statistics value, decoded from the physical type of the column */
+export type ParquetStatisticsValue = number | bigint | boolean | Uint8Array;
+
+/** Statistics of a column chunk or a page */
+export type ParquetStatistics = {
+  min?: ParquetStatisticsValue;
+  max?: ParquetStatisticsValue;
+  nullCount?: number;
+  /** All values are null */
+  allNull?: boolean;
+};
+
+/**
+ * Replaces bbox filters with comparisons on the GeoParquet covering columns
+ * @param filter - filter
+ * @param geoMetadata - GeoParquet metadata of the file
+ * @returns filter without bbox filters
+ */
+export function resolveParquetFilter(
+  filter: ParquetFilter,
+  geoMetadata: GeoMetadata | null
+): ParquetFilter {
+  switch (filter.operator) {
+    case 'and':
+    case 'or':
+      return {
+        operator: filter.operator,
+        filters: filter.filters.map((childFilter) => resolveParquetFilter(childFilter, geoMetadata))
+      };
+    case 'bbox':
+      return resolveBboxFilter(filter, geoMetadata);
+    default:
+      return filter;
+  }
+}
+
+/**
+ * Paths of the columns that a filter reads
+ * @note bbox filters must be resolved first
+ */
+export function getParquetFilterColumns(filter: ParquetFilter): string[][] {
+  switch (filter.operator) {
+    case 'and':
+    case 'or':
+      return filter.filters.flatMap(getParquetFilterColumns);
+    case 'bbox':
+      throw new Error('parquet: bbox filter has not been resolved');
+    default:
+      return [getColumnPath(filter.column)];
+  }
+}
+
+/** Path of a filter column */
+export function getColumnPath(column: ParquetFilterColumn): string[] {
+  return Array.isArray(column) ? column : [column];
+}
+
+/**
+ * Checks whether a row matches a (resolved) filter
+ * @param filter - filter
+ * @param row - materialized row
+ */
+export function parquetFilterMatchesRow(filter: ParquetFilter, row: Record<string, any>): boolean {
+  switch (filter.operator) {
+    case 'and':
+      return filter.filters.every((childFilter) => parquetFilterMatchesRow(childFilter, row));
+    case 'or':
+      return filter.filters.some((childFilter) => parquetFilterMatchesRow(childFilter, row));
+    case 'bbox':
+      throw new Error('parquet: bbox filter has not been resolved');
+    default:
+      return columnFilterMatchesValue(filter, getRowValue(row, getColumnPath(filter.column)));
+  }
+}
+
+/**
+ * Checks whether a row group or a page may contain rows that match a (resolved) filter
+ * @param filter - filter
+ * @param getStatistics - returns the statistics of a column, or `null` if they are not available
+ * @returns `false` if no row can match
+ */
+export function parquetFilterMayMatch(
+  filter: ParquetFilter,
+  getStatistics: (columnPath: string[]) => ParquetStatistics | null
+): boolean {
+  switch (filter.operator) {
+    case 'and':
+      return filter.filters.every((childFilter) =>
+        parquetFilterMayMatch(childFilter, getStatistics)
+      );
+    case 'or':
+      return filter.filters.some((childFilter) =>
+        parquetFilterMayMatch(childFilter, getStatistics)
+      );
+    case 'bbox':
+      throw new Error('parquet: bbox filter has not been resolved');
+    default: {
+      const statistics = getStatistics(getColumnPath(filter.column));
+      return !statistics || columnFilterMayMatch(filter, statistics);
+    }
+  }
+}
+
+/**
+ * Checks whether a column with the given statistics may have values that match a filter
+ * @param filter - filter on a single column
+ * @param statistics - column statistics
+ */
+// eslint-disable-next-line complexity
+export function columnFilterMayMatch(
+  filter: ParquetColumnFilter,
+  statistics: ParquetStatistics
+): boolean {
+  const {min, max, nullCount, allNull} = statistics;
+  switch (filter.operator) {
+    case 'is null':
+      return nullCount === undefined || nullCount > 0;
+    case 'is not null':
+      return !allNull;
+    case 'in':
+      return filter.values.some((value) =>
+        columnFilterMayMatch({column: filter.column, operator: '=', value}, statistics)
+      );
+    default:
+  }
+
+  if (allNull) {
+    return false;
+  }
+  if (min === undefined || max === undefined) {
+    return true;
+  }
+  const minComparison = compareValues(min, filter.value);
+  const maxComparison = compareValues(max, filter.value);
+  if (Number.isNaN(minComparison) || Number.isNaN(maxComparison)) {
+    return true;
+  }
+  switch (filter.operator) {
+    case '=':
+      return minComparison <= 0 && maxComparison >= 0;
+    case '!=':
+      return minComparison !== 0 || maxComparison !== 0;
+    case '<':
+      return minComparison < 0;
+    case '<=':
+      return minComparison <= 0;
+    case '>':
+      return maxComparison > 0;
+    case '>=':
+      return maxComparison >= 0;
+    default:
+      return true;
+  }
+}
+
+// eslint-disable-next-line complexity
+function columnFilterMatchesValue(filter: ParquetColumnFilter, value: unknown): boolean {
+  const isNull = value === null || value === undefined;
+  switch (filter.operator) {
+    case 'is null':
+      return isNull;
+    case 'is not null':
+      return !isNull;
+    case 'in':
+      return (
+        !isNull && filter.values.some((filterValue) => compareValues(value, filterValue) === 0)
+      );
+    default:
+  }
+
+  if (isNull) {
+    return false;
+  }
+  const comparison = compareValues(value, filter.value);
+  switch (filter.operator) {
+    case '=':
+      return comparison === 0;
+    case '!=':
+      return comparison !== 0 && !Number.isNaN(comparison);
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Compares two values. Strings are compared with binary values by their UTF-8 bytes,
+ * which is the order of Parquet statistics.
+ * @returns negative, zero or positive, or `NaN` if the values can not be compared
+ */
+// eslint-disable-next-line complexity
+export function compareValues(a: unknown, b: unknown): number {
+  const aBytes = toBytes(a);
+  const bBytes = toBytes(b);
+  if (aBytes || bBytes) {
+    return aBytes && bBytes ? compareBytes(aBytes, bBytes) : NaN;
+  }
+
+  const aNumber = typeof a === 'boolean' ? Number(a) : a;
+  const bNumber = typeof b === 'boolean' ? Number(b) : b;
+  if (!isNumeric(aNumber) || !isNumeric(bNumber)) {
+    return NaN;
+  }
+  if (aNumber < bNumber) {
+    return -1;
+  }
+  if (aNumber > bNumber) {
+    return 1;
+  }
+  // NaN is neither smaller nor larger than other numbers, but is not equal either
+  return Number.isNaN(aNumber) || Number.isNaN(bNumber) ? NaN : 0;
+}
+
+function isNumeric(value: unknown): value is number | bigint {
+  return typeof value === 'number' || typeof value === 'bigint';
+}
+
+function toBytes(value: unknown): Uint8Array | null {
+  if (typeof value === 'string') {
+    return new TextEncoder().encode(value);
+  }
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  }
+  return null;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+function getRowValue(row: Record<string, any>, path: string[]): unknown {
+  let value: any = row;
+  for (const name of path) {
+    value = value?.[name];
+  }
+  return value;
+}
+
+/** Rows intersect the bbox if their covering bbox intersects it */
+function resolveBboxFilter(
+  filter: ParquetBboxFilter,
+  geoMetadata: GeoMetadata | null
+): ParquetLogicalFilter {
+  const geometryColumn = filter.column || geoMetadata?.primary_column || '';
+  const covering = geoMetadata?.columns[geometryColumn]?.covering?.bbox;
+  if (!covering) {
+    throw new Error(`parquet: no bbox covering column for geometry column "${geometryColumn}"`);
+  }
+  const [minX, minY, maxX, maxY] = filter.bbox;
+  return {
+    operator: 'and',
+    filters: [
+      {column: covering.xmin, operator: '<=', value: maxX},
+      {column: covering.ymin, operator: '<=', value: maxY},
+      {column: covering.xmax, operator: '>=', value: minX},
+      {column: covering.ymax, operator: '>=', value: minY}
+    ]
+  };
+}
@@ -12,10 +12,23 @@ import * as arrow from 'apache-arrow';
 
 import {loadWasm} from '../utils/load-wasm';
 import {makeStreamIterator} from '../utils/make-stream-iterator';
+import type {ParquetFilter} from '../filter/parquet-filter';
+import {getParquetFilterColumns, parquetFilterMatchesRow} from '../filter/parquet-filter';
+import {ParquetReader} from '../../parquetjs/parser/parquet-reader';
+import {installBufferPolyfill} from '../../polyfills/buffer/index';
+
+export type ParquetWasmOptions = parquetWasm.ReaderOptions & {
+  wasmUrl: string;
+  /**
+   * Only rows that match the filter are returned.
+   * Row groups whose statistics or page indexes show that they have no matching rows are not read.
+   */
+  filter?: ParquetFilter;
+};
 
 export async function parseParquetFileToArrow(
   file: ReadableFile,
-  options?: parquetWasm.ReaderOptions & {wasmUrl: string}
+  options?: ParquetWasmOptions
 ): Promise<ArrowTable> {
   const wasmUrl = options?.wasmUrl;
 
@@ -29,9 +42,14 @@ export async function parseParquetFileToArrow(
     parquetFile = await wasm.ParquetFile.fromUrl(file.url);
   }
 
-  const wasmTable = await parquetFile.read(options);
-  const ipcStream = wasmTable.intoIPCStream();
-  const arrowTable = arrow.tableFromIPC(ipcStream);
+  const {readerOptions, filter} = await getReaderOptions(file, options);
+  const arrowTable = filterArrowTable(
+    readerOptions.rowGroups
+      ? await readRowGroups(parquetFile, readerOptions)
+      : arrow.tableFromIPC((await parquetFile.read(readerOptions)).intoIPCStream()),
+    filter,
+    options?.columns
+  );
 
   return {
     shape: 'arrow-table',
@@ -42,7 +60,7 @@ export async function parseParquetFileToArrow(
 
 export async function* parseParquetFileToArrowInBatches(
   file: ReadableFile,
-  options: parquetWasm.ReaderOptions & {wasmUrl: string}
+  options: ParquetWasmOptions
 ): AsyncIterable<ArrowTableBatch> {
   const wasmUrl = options?.wasmUrl;
 
@@ -56,17 +74,101 @@ export async function* parseParquetFileToArrowInBatches(
     parquetFile = await wasm.ParquetFile.fromUrl(file.url);
   }
 
-  const stream: ReadableStream<arrow.RecordBatch> = await parquetFile.stream(options);
+  const {readerOptions, filter} = await getReaderOptions(file, options);
+  const stream: ReadableStream<arrow.RecordBatch> = await parquetFile.stream(readerOptions);
 
   let schema: Schema;
   for await (const recordBatch of makeStreamIterator(stream)) {
-    schema ||= convertArrowToSchema(recordBatch.schema);
+    const table = filterArrowTable(new arrow.Table(recordBatch), filter, options.columns);
+    schema ||= convertArrowToSchema(table.schema);
     yield {
       batchType: 'data',
       shape: 'arrow-table',
       schema,
-      data: new arrow.Table(recordBatch),
-      length: recordBatch.numRows
+      data: table,
+      length: table.numRows
     };
   }
 }
+
+/**
+ * Replaces the filter with the indexes of the row groups that may have matching rows,
+ * and adds the filter columns to the columns to read
+ * @returns reader options, and the filter with bbox filters resolved
+ */
+async function getReaderOptions(
+  file: ReadableFile,
+  options?: ParquetWasmOptions
+): Promise<{readerOptions: parquetWasm.ReaderOptions; filter: ParquetFilter | null}> {
+  const {filter, ...readerOptions}: Partial<ParquetWasmOptions> = options || {};
+  if (!filter) {
+    return {readerOptions, filter: null};
+  }
+  installBufferPolyfill();
+  const reader = new ParquetReader(file);
+  const rowGroups = await reader.getMatchingRowGroups(filter);
+  const resolvedFilter = await reader.resolveFilter(filter);
+  const columns = readerOptions.columns && [
+    ...new Set([...readerOptions.columns, ...getFilterColumnNames(resolvedFilter)])
+  ];
+  return {
+    readerOptions: {
+      ...readerOptions,
+      columns,
+      rowGroups: rowGroups.filter(
+        (index) => !options?.rowGroups || options.rowGroups.includes(index)
+      )
+    },
+    filter: resolvedFilter
+  };
+}
+
+/**
+ * Drops the rows that do not match a (resolved) filter
+ * @param columns - columns to return, without the columns that are only read for the filter
+ */
+function filterArrowTable(
+  table: arrow.Table,
+  filter: ParquetFilter | null,
+  columns?: string[]
+): arrow.Table {
+  if (!filter) {
+    return table;
+  }
+  const filterTable = table.select(getFilterColumnNames(filter));
+  // Matching rows are copied as slices of consecutive rows
+  const slices: arrow.Table[] = [];
+  let sliceStart = -1;
+  for (let row = 0; row <= table.numRows; row++) {
+    const matches =
+      row < table.numRows && parquetFilterMatchesRow(filter, filterTable.get(row)?.toJSON() || {});
+    if (matches && sliceStart < 0) {
+      sliceStart = row;
+    } else if (!matches && sliceStart >= 0) {
+      slices.push(table.slice(sliceStart, row));
+      sliceStart = -1;
+    }
+  }
+  const filteredTable = slices.length ? slices[0].concat(...slices.slice(1)) : table.slice(0, 0);
+  return columns ? filteredTable.select(columns) : filteredTable;
+}
+
+/** Names of the top level columns of a filter */
+function getFilterColumnNames(filter: ParquetFilter): string[] {
+  return getParquetFilterColumns(filter).map((columnPath) => columnPath[0]);
+}
+
+/** `ParquetFile.read()` ignores the `rowGroups` option, so the row groups are streamed */
+async function readRowGroups(
+  parquetFile: parquetWasm.ParquetFile,
+  options: parquetWasm.ReaderOptions
+): Promise<arrow.Table> {
+  if (options.rowGroups?.length === 0) {
+    return arrow.tableFromIPC((await parquetFile.read({...options, limit: 0})).intoIPCStream());
+  }
+  const tables: arrow.Table[] = [];
+  for await (const recordBatch of makeStreamIterator<any>(await parquetFile.stream(options))) {
+    tables.push(arrow.tableFromIPC(recordBatch.intoIPCStream()));
+  }
+  return tables[0].concat(...tables.slice(1));
+}
@@ -11,6 +11,7 @@ import {
   parseParquetFileToArrowInBatches
 } from './lib/parsers/parse-parquet-to-arrow';
 import {VERSION, PARQUET_WASM_URL} from './lib/constants';
+import type {ParquetFilter} from './lib/filter/parquet-filter';
 
 /** Parquet WASM loader options */
 export type ParquetArrowLoaderOptions = LoaderOptions & {
@@ -21,6 +22,7 @@ export type ParquetArrowLoaderOptions = LoaderOptions & {
     columns?: string[]; // The column names from the file to read.
     rowGroups?: number[]; // Only read data from the provided row group indexes.
     concurrency?: number; // The number of concurrent requests to make
+    filter?: ParquetFilter; // Only return the rows that match the filter.
     wasmUrl?: string;
   };
 };
@@ -48,6 +50,7 @@ export const ParquetArrowWorkerLoader = {
       columns: undefined, // The column names from the file to read.
       rowGroups: undefined, // Only read data from the provided row group indexes.
       concurrency: undefined, // The number of concurrent requests to make
+      filter: undefined, // Only return the rows that match the filter.
       wasmUrl: PARQUET_WASM_URL
     }
   }
@@ -11,7 +11,7 @@ import type {
   // ColumnarTable,
   // ColumnarTableBatch
 } from '@loaders.gl/schema';
-import {BlobFile} from '@loaders.gl/loader-utils';
+import {BlobFile, isBrowser} from '@loaders.gl/loader-utils';
 
 import {parseParquetFile, parseParquetFileInBatches} from './lib/parsers/parse-parquet-to-json';
 import {
@@ -23,6 +23,7 @@ import {
 //   parseParquetFileInColumnarBatches
 // } from './lib/parsers/parse-parquet-to-columns';
 import {ParquetFormat} from './parquet-format';
+import type {ParquetFilter} from './lib/filter/parquet-filter';
 
 // Note: The Buffer polyfill is quite fragile
 // For some reason, just exporting directly fails with some bundlers
@@ -42,6 +43,8 @@ export type ParquetJSONLoaderOptions = LoaderOptions & {
     columnList?: string[] | string[][];
     /** If true, binary values are not converted to strings */
     preserveBinary?: boolean;
+    /** Only rows that match the filter are loaded. Row groups and pages without matching rows are not read */
+    filter?: ParquetFilter;
     /**  @deprecated not used? Set to true to indicate that this is a geoparquet file. */
     geoparquet?: boolean;
     /** @deprecated URL to override loaders.gl/core parser system */
@@ -61,13 +64,15 @@ export const ParquetJSONWorkerLoader = {
   id: 'parquet',
   module: 'parquet',
   version: VERSION,
-  worker: false,
+  // The Buffer polyfill is not available in browser workers, only Node.js workers are supported
+  worker: !isBrowser,
   options: {
     parquet: {
       columnList: [],
       geoparquet: true,
       url: undefined,
-      preserveBinary: false
+      preserveBinary: false,
+      filter: undefined
     }
   }
 } as const satisfies Loader<ObjectRowTable, ObjectRowTableBatch, ParquetJSONLoaderOptions>;
@@ -110,7 +115,8 @@ export const GeoParquetWorkerLoader = {
       columnList: [],
       geoparquet: true,
       url: undefined,
-      preserveBinary: false
+      preserveBinary: false,
+      filter: undefined
     }
   }
 } as const satisfies Loader<GeoJSONTable, GeoJSONTableBatch, ParquetJSONLoaderOptions>;
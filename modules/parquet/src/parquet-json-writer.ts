@@ -2,26 +2,45 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
-import type {WriterWithEncoder} from '@loaders.gl/loader-utils';
-import {Table, TableBatch} from '@loaders.gl/schema';
+import type {WriterWithEncoder, WriterOptions} from '@loaders.gl/loader-utils';
+import type {ArrayRowTable, ObjectRowTable, TableBatch} from '@loaders.gl/schema';
+import {
+  encodeTableToParquet,
+  encodeTableBatchesToParquet
+} from './lib/encoders/encode-table-to-parquet';
 import {ParquetFormat} from './parquet-format';
 
 // __VERSION__ is injected by babel-plugin-version-inline
 // @ts-ignore TS2304: Cannot find name '__VERSION__'.
 const VERSION = typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'latest';
 
-export type ParquetJSONWriterOptions = {};
+export type ParquetJSONWriterOptions = WriterOptions & {
+  parquet?: {
+    /** Number of rows in each row group. Rows are buffered in memory until a row group is complete */
+    rowGroupSize?: number;
+  };
+};
 
+/** Parquet writer for row tables, using parquetjs */
 export const ParquetJSONWriter = {
   ...ParquetFormat,
   id: 'parquet',
   module: 'parquet',
   version: VERSION,
-  options: {},
-  encode: async (data, options) => encodeSync(data, options),
-  encodeSync
-} as const satisfies WriterWithEncoder<Table, TableBatch, ParquetJSONWriterOptions>;
-
-function encodeSync(data, options?: ParquetJSONWriterOptions) {
-  return new ArrayBuffer(0);
-}
+  options: {
+    parquet: {
+      rowGroupSize: 4096
+    }
+  },
+  encode: async (table: ArrayRowTable | ObjectRowTable, options?: ParquetJSONWriterOptions) =>
+    await encodeTableToParquet(table, {...ParquetJSONWriter.options.parquet, ...options?.parquet}),
+  encodeInBatches: (batches: AsyncIterable<TableBatch>, options?: ParquetJSONWriterOptions) =>
+    encodeTableBatchesToParquet(batches, {
+      ...ParquetJSONWriter.options.parquet,
+      ...options?.parquet
+    })
+} as const satisfies WriterWithEncoder<
+  ArrayRowTable | ObjectRowTable,
+  TableBatch,
+  ParquetJSONWriterOptions
+>;
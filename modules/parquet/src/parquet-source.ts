@@ -0,0 +1,224 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {ArrowTable, GeoJSONTable, Geometry, Schema} from '@loaders.gl/schema';
+import type {
+  DataSourceOptions,
+  ReadableFile,
+  Source,
+  VectorSource,
+  VectorSourceLayer,
+  VectorSourceMetadata,
+  GetFeaturesParameters
+} from '@loaders.gl/loader-utils';
+import {BlobFile, CachedReadableFile, DataSource, HttpFile} from '@loaders.gl/loader-utils';
+import type {GeoMetadata} from '@loaders.gl/geoarrow';
+import {getGeoMetadata} from '@loaders.gl/geoarrow';
+import {convertGeoJSONToGeoArrowTable, convertWKBTableToGeoJSON} from '@loaders.gl/gis';
+
+import {ParquetFormat} from './parquet-format';
+import {VERSION} from './lib/constants';
+import type {ParquetBboxFilter} from './lib/filter/parquet-filter';
+import {ParquetReader} from './parquetjs/parser/parquet-reader';
+import {getSchemaFromParquetReader} from './lib/parsers/get-parquet-schema';
+import {installBufferPolyfill} from './polyfills/buffer/index';
+import {preloadCompressions} from './parquetjs/compression';
+
+export type ParquetSourceOptions = DataSourceOptions & {
+  parquet?: {
+    /**
+     * Shape of the tables returned by `getFeatures()`.
+     * `'arrow-table'` tables are GeoArrow tables, with a native GeoArrow encoding when possible.
+     */
+    shape?: 'geojson-table' | 'arrow-table';
+  };
+};
+
+/**
+ * Creates vector data sources for (Geo)Parquet urls or blobs
+ * @note Remote files are read with HTTP range requests, the server must support them
+ */
+export const ParquetSource = {
+  ...ParquetFormat,
+  id: 'parquet',
+  module: 'parquet',
+  version: VERSION,
+  type: 'parquet',
+  fromUrl: true,
+  fromBlob: true,
+
+  defaultOptions: {
+    parquet: {
+      shape: 'geojson-table'
+    }
+  },
+
+  testURL: (url: string) => url.endsWith('.parquet'),
+  createDataSource: (url: string | Blob, options: ParquetSourceOptions) =>
+    new ParquetVectorSource(url, options)
+} as const satisfies Source<ParquetVectorSource>;
+
+/**
+ * A (Geo)Parquet vector data source
+ * - Only the footer is read until features are requested.
+ * - Row groups are selected by the statistics of the GeoParquet bbox covering columns, if any.
+ */
+export class ParquetVectorSource
+  extends DataSource<string | Blob, ParquetSourceOptions>
+  implements VectorSource
+{
+  protected file: ReadableFile;
+  protected reader: Promise<ParquetReader> | null = null;
+  protected schema: Promise<Schema> | null = null;
+
+  constructor(data: string | Blob, options: ParquetSourceOptions) {
+    super(data, options, ParquetSource.defaultOptions);
+    this.file =
+      typeof data === 'string'
+        ? new CachedReadableFile(new HttpFile(this.url, {fetch: this.fetch}))
+        : new BlobFile(data);
+  }
+
+  async getSchema(): Promise<Schema> {
+    this.schema ||= this.getReader().then(getSchemaFromParquetReader);
+    return await this.schema;
+  }
+
+  async getMetadata(options: {formatSpecificMetadata?: boolean}): Promise<VectorSourceMetadata> {
+    const reader = await this.getReader();
+    const schema = await this.getSchema();
+    const fileMetadata = await reader.getFileMetadata();
+    const geoMetadata = getGeoMetadata(schema.metadata);
+
+    const metadata: VectorSourceMetadata = {
+      name: this.url,
+      keywords: [],
+      layers: [getLayer(this.url, geoMetadata)]
+    };
+
+    // Only add the big blob of source metadata if explicitly requested
+    if (options.formatSpecificMetadata) {
+      metadata.formatSpecificMetadata = {
+        geo: geoMetadata,
+        numRows: Number(fileMetadata.num_rows),
+        numRowGroups: fileMetadata.row_groups.length,
+        keyValueMetadata: await reader.getSchemaMetadata()
+      };
+    }
+    return metadata;
+  }
+
+  /**
+   * Loads the features that intersect a bounding box
+   * @note Without a bbox covering column, all row groups are read.
+   */
+  async getFeatures(parameters: GetFeaturesParameters): Promise<GeoJSONTable | ArrowTable> {
+    const reader = await this.getReader();
+    const schema = await this.getSchema();
+    const geoMetadata = getGeoMetadata(schema.metadata);
+    const [[minX, minY], [maxX, maxY]] = parameters.boundingBox;
+    const bbox: [number, number, number, number] = [minX, minY, maxX, maxY];
+    const filter = getBboxFilter(geoMetadata, bbox);
+
+    const rows: Record<string, unknown>[] = [];
+    for await (const rowBatch of reader.rowBatchIterator({filter: filter || undefined})) {
+      rows.push(...rowBatch);
+    }
+    const table = convertWKBTableToGeoJSON({shape: 'object-row-table', schema, data: rows}, schema);
+
+    // The covering filter has already dropped the rows that do not intersect the bounding box
+    if (!filter) {
+      table.features = table.features.filter(
+        (feature) => feature.geometry && geometryIntersectsBbox(feature.geometry, bbox)
+      );
+    }
+
+    if (this.options.parquet.shape === 'arrow-table') {
+      return convertGeoJSONToGeoArrowTable(table, geoMetadata?.primary_column);
+    }
+    return table;
+  }
+
+  /** Reads the size of remote files, as the reader starts by reading the footer */
+  protected async getReader(): Promise<ParquetReader> {
+    this.reader ||= (async () => {
+      installBufferPolyfill();
+      await preloadCompressions(this.loadOptions);
+      if (this.file instanceof CachedReadableFile) {
+        await this.file.stat();
+      }
+      return new ParquetReader(this.file, {preserveBinary: true});
+    })();
+    return await this.reader;
+  }
+}
+
+/** Selects the rows whose covering bbox intersects the bounding box, if the file has one */
+function getBboxFilter(
+  geoMetadata: GeoMetadata | null,
+  bbox: [number, number, number, number]
+): ParquetBboxFilter | null {
+  const primaryColumn = geoMetadata?.primary_column;
+  if (!primaryColumn || !geoMetadata.columns[primaryColumn]?.covering?.bbox) {
+    return null;
+  }
+  return {operator: 'bbox', bbox, column: primaryColumn};
+}
+
+/** Describes the primary geometry column */
+function getLayer(name: string, geoMetadata: GeoMetadata | null): VectorSourceLayer {
+  const layer: VectorSourceLayer = {name};
+  const columnMetadata = geoMetadata?.primary_column
+    ? geoMetadata.columns[geoMetadata.primary_column]
+    : null;
+  if (!columnMetadata) {
+    return layer;
+  }
+
+  // bbox is [minX, minY, maxX, maxY], or [minX, minY, minZ, maxX, maxY, maxZ]
+  const bbox = columnMetadata.bbox;
+  if (bbox) {
+    const half = bbox.length / 2;
+    layer.boundingBox = [
+      [bbox[0], bbox[1]],
+      [bbox[half], bbox[half + 1]]
+    ];
+  }
+
+  // A missing crs defaults to OGC:CRS84, `null` means that the crs is unknown
+  const crs = columnMetadata.crs as {id?: {authority: string; code: string | number}} | undefined;
+  if (crs === undefined) {
+    layer.crs = ['OGC:CRS84'];
+  } else if (crs?.id) {
+    layer.crs = [`${crs.id.authority}:${crs.id.code}`];
+  }
+  return layer;
+}
+
+function geometryIntersectsBbox(
+  geometry: Geometry,
+  bbox: [number, number, number, number]
+): boolean {
+  if (geometry.type === 'GeometryCollection') {
+    return geometry.geometries.some((child) => geometryIntersectsBbox(child, bbox));
+  }
+  const [minX, minY, maxX, maxY] = getCoordinatesBounds(geometry.coordinates);
+  return minX <= bbox[2] && minY <= bbox[3] && maxX >= bbox[0] && maxY >= bbox[1];
+}
+
+/** Bounds of a (nested) array of positions */
+function getCoordinatesBounds(
+  coordinates: any[],
+  bounds: number[] = [Infinity, Infinity, -Infinity, -Infinity]
+): number[] {
+  if (typeof coordinates[0] === 'number') {
+    bounds[0] = Math.min(bounds[0], coordinates[0]);
+    bounds[1] = Math.min(bounds[1], coordinates[1]);
+    bounds[2] = Math.max(bounds[2], coordinates[0]);
+    bounds[3] = Math.max(bounds[3], coordinates[1]);
+  } else {
+    coordinates.forEach((child) => getCoordinatesBounds(child, bounds));
+  }
+  return bounds;
+}
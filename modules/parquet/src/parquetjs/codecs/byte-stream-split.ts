@@ -0,0 +1,62 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {PrimitiveType} from '../schema/declare';
+import type {CursorBuffer, ParquetCodecOptions} from './declare';
+import * as PLAIN from './plain';
+
+// BYTE_STREAM_SPLIT encoding: the n-th bytes of all PLAIN encoded values are stored together
+// https://github.com/apache/parquet-format/blob/master/Encodings.md#byte-stream-split-byte_stream_split--9
+
+export function encodeValues(
+  type: PrimitiveType,
+  values: any[],
+  opts: ParquetCodecOptions = {}
+): Buffer {
+  const byteWidth = getByteWidth(type, opts);
+  const plainBuffer = PLAIN.encodeValues(type, values, opts);
+  const count = plainBuffer.length / byteWidth;
+  const buffer = Buffer.alloc(plainBuffer.length);
+  for (let i = 0; i < count; i++) {
+    for (let byte = 0; byte < byteWidth; byte++) {
+      buffer[byte * count + i] = plainBuffer[i * byteWidth + byte];
+    }
+  }
+  return buffer;
+}
+
+export function decodeValues(
+  type: PrimitiveType,
+  cursor: CursorBuffer,
+  count: number,
+  opts: ParquetCodecOptions
+): any[] {
+  const byteWidth = getByteWidth(type, opts);
+  const plainBuffer = Buffer.alloc(count * byteWidth);
+  for (let i = 0; i < count; i++) {
+    for (let byte = 0; byte < byteWidth; byte++) {
+      plainBuffer[i * byteWidth + byte] = cursor.buffer[cursor.offset + byte * count + i];
+    }
+  }
+  cursor.offset += plainBuffer.length;
+  return PLAIN.decodeValues(type, {buffer: plainBuffer, offset: 0}, count, opts);
+}
+
+function getByteWidth(type: PrimitiveType, opts: ParquetCodecOptions): number {
+  switch (type) {
+    case 'INT32':
+    case 'FLOAT':
+      return 4;
+    case 'INT64':
+    case 'DOUBLE':
+      return 8;
+    case 'FIXED_LEN_BYTE_ARRAY':
+      if (!opts.typeLength) {
+        throw new Error('missing option: typeLength (required for FIXED_LEN_BYTE_ARRAY)');
+      }
+      return opts.typeLength;
+    default:
+      throw new Error(`unsupported type: ${type}`);
+  }
+}
@@ -0,0 +1,173 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {PrimitiveType} from '../schema/declare';
+import type {CursorBuffer, ParquetCodecOptions} from './declare';
+
+// DELTA_BINARY_PACKED encoding
+// https://github.com/apache/parquet-format/blob/master/Encodings.md#delta-encoding-delta_binary_packed--5
+
+/** Number of values in a block, must be a multiple of 128 */
+const BLOCK_SIZE = 128;
+/** Number of miniblocks in a block, the number of values in a miniblock must be a multiple of 32 */
+const MINIBLOCK_COUNT = 4;
+
+export function encodeValues(
+  type: PrimitiveType,
+  values: any[],
+  opts?: ParquetCodecOptions
+): Buffer {
+  const bitSize = getBitSize(type);
+  const bigValues = values.map((value) => BigInt.asIntN(bitSize, BigInt(value)));
+  const miniblockSize = BLOCK_SIZE / MINIBLOCK_COUNT;
+
+  const bytes: number[] = [];
+  writeUnsignedVarInt(bytes, BigInt(BLOCK_SIZE));
+  writeUnsignedVarInt(bytes, BigInt(MINIBLOCK_COUNT));
+  writeUnsignedVarInt(bytes, BigInt(bigValues.length));
+  writeZigZagVarInt(bytes, bigValues[0] ?? 0n);
+
+  for (let blockStart = 1; blockStart < bigValues.length; blockStart += BLOCK_SIZE) {
+    // Deltas wrap around like the values, as readers add them with overflow
+    const deltas: bigint[] = [];
+    const blockEnd = Math.min(blockStart + BLOCK_SIZE, bigValues.length);
+    for (let i = blockStart; i < blockEnd; i++) {
+      deltas.push(BigInt.asIntN(bitSize, bigValues[i] - bigValues[i - 1]));
+    }
+    const minDelta = deltas.reduce((min, delta) => (delta < min ? delta : min));
+    writeZigZagVarInt(bytes, minDelta);
+
+    const miniblocks: bigint[][] = [];
+    for (let i = 0; i < MINIBLOCK_COUNT; i++) {
+      const miniblock = deltas.slice(i * miniblockSize, (i + 1) * miniblockSize);
+      miniblocks.push(miniblock.map((delta) => BigInt.asUintN(bitSize, delta - minDelta)));
+    }
+    const bitWidths = miniblocks.map(getMaxBitWidth);
+    bytes.push(...bitWidths);
+
+    // Unused miniblocks of the last block have a bit width, but no data
+    for (let i = 0; i < MINIBLOCK_COUNT && miniblocks[i].length > 0; i++) {
+      writeBitPacked(bytes, miniblocks[i], miniblockSize, bitWidths[i]);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function decodeValues(
+  type: PrimitiveType,
+  cursor: CursorBuffer,
+  count: number,
+  opts?: ParquetCodecOptions
+): any[] {
+  const bitSize = getBitSize(type);
+  const blockSize = Number(readUnsignedVarInt(cursor));
+  const miniblockCount = Number(readUnsignedVarInt(cursor));
+  const valueCount = Number(readUnsignedVarInt(cursor));
+  const miniblockSize = blockSize / miniblockCount;
+
+  const values: bigint[] = [];
+  let value = readZigZagVarInt(cursor);
+  if (valueCount > 0) {
+    values.push(value);
+  }
+
+  while (values.length < valueCount) {
+    const minDelta = readZigZagVarInt(cursor);
+    const bitWidths = cursor.buffer.subarray(cursor.offset, cursor.offset + miniblockCount);
+    cursor.offset += miniblockCount;
+
+    for (let i = 0; i < miniblockCount && values.length < valueCount; i++) {
+      const deltas = readBitPacked(cursor, miniblockSize, bitWidths[i]);
+      for (let j = 0; j < miniblockSize && values.length < valueCount; j++) {
+        value = BigInt.asIntN(bitSize, value + minDelta + deltas[j]);
+        values.push(value);
+      }
+    }
+  }
+
+  if (values.length < count) {
+    throw new Error('invalid DELTA_BINARY_PACKED encoding');
+  }
+  return values.slice(0, count).map((bigValue) => Number(bigValue));
+}
+
+function getBitSize(type: PrimitiveType): number {
+  switch (type) {
+    case 'INT32':
+      return 32;
+    case 'INT64':
+      return 64;
+    default:
+      throw new Error(`unsupported type: ${type}`);
+  }
+}
+
+function getMaxBitWidth(values: bigint[]): number {
+  const max = values.reduce((result, value) => (value > result ? value : result), 0n);
+  return max.toString(2).length - (max === 0n ? 1 : 0);
+}
+
+/** Appends values bit-packed from the least significant bit, padded with zeros to `count` values */
+function writeBitPacked(bytes: number[], values: bigint[], count: number, bitWidth: number): void {
+  const start = bytes.length;
+  bytes.length += (count * bitWidth) / 8;
+  bytes.fill(0, start);
+  for (let i = 0; i < values.length; i++) {
+    for (let bit = 0; bit < bitWidth; bit++) {
+      if ((values[i] >> BigInt(bit)) & 1n) {
+        const position = i * bitWidth + bit;
+        bytes[start + (position >> 3)] |= 1 << (position & 7);
+      }
+    }
+  }
+}
+
+function readBitPacked(cursor: CursorBuffer, count: number, bitWidth: number): bigint[] {
+  const values: bigint[] = new Array(count).fill(0n);
+  for (let i = 0; i < count; i++) {
+    let value = 0n;
+    for (let bit = 0; bit < bitWidth; bit++) {
+      const position = i * bitWidth + bit;
+      if (cursor.buffer[cursor.offset + (position >> 3)] & (1 << (position & 7))) {
+        value |= 1n << BigInt(bit);
+      }
+    }
+    values[i] = value;
+  }
+  cursor.offset += (count * bitWidth) / 8;
+  return values;
+}
+
+function writeUnsignedVarInt(bytes: number[], value: bigint): void {
+  do {
+    const byte = Number(value & 0x7fn);
+    value >>= 7n;
+    bytes.push(value ? byte | 0x80 : byte);
+  } while (value);
+}
+
+function readUnsignedVarInt(cursor: CursorBuffer): bigint {
+  let value = 0n;
+  let shift = 0n;
+  let byte: number;
+  do {
+    if (cursor.offset >= cursor.buffer.length) {
+      throw new Error('invalid DELTA_BINARY_PACKED encoding');
+    }
+    byte = cursor.buffer[cursor.offset++];
+    value |= BigInt(byte & 0x7f) << shift;
+    shift += 7n;
+  } while (byte & 0x80);
+  return value;
+}
+
+function writeZigZagVarInt(bytes: number[], value: bigint): void {
+  writeUnsignedVarInt(bytes, value >= 0n ? value << 1n : (-value << 1n) - 1n);
+}
+
+function readZigZagVarInt(cursor: CursorBuffer): bigint {
+  const value = readUnsignedVarInt(cursor);
+  return value & 1n ? -((value + 1n) >> 1n) : value >> 1n;
+}
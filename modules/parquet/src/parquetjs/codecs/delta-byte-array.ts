@@ -0,0 +1,65 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {PrimitiveType} from '../schema/declare';
+import type {CursorBuffer, ParquetCodecOptions} from './declare';
+import * as DELTA_BINARY_PACKED from './delta-binary-packed';
+import * as DELTA_LENGTH_BYTE_ARRAY from './delta-length-byte-array';
+
+// DELTA_BYTE_ARRAY encoding: DELTA_BINARY_PACKED lengths of the prefixes shared with the previous value,
+// followed by the DELTA_LENGTH_BYTE_ARRAY encoded suffixes
+// https://github.com/apache/parquet-format/blob/master/Encodings.md#delta-strings-delta_byte_array--7
+
+export function encodeValues(
+  type: PrimitiveType,
+  values: any[],
+  opts?: ParquetCodecOptions
+): Buffer {
+  checkType(type);
+  const prefixLengths: number[] = [];
+  const suffixes: Buffer[] = [];
+  let previousValue = Buffer.alloc(0);
+  for (const value of values) {
+    const buffer = Buffer.from(value);
+    const maxPrefixLength = Math.min(buffer.length, previousValue.length);
+    let prefixLength = 0;
+    while (prefixLength < maxPrefixLength && buffer[prefixLength] === previousValue[prefixLength]) {
+      prefixLength++;
+    }
+    prefixLengths.push(prefixLength);
+    suffixes.push(buffer.subarray(prefixLength));
+    previousValue = buffer;
+  }
+  return Buffer.concat([
+    DELTA_BINARY_PACKED.encodeValues('INT32', prefixLengths),
+    DELTA_LENGTH_BYTE_ARRAY.encodeValues('BYTE_ARRAY', suffixes)
+  ]);
+}
+
+export function decodeValues(
+  type: PrimitiveType,
+  cursor: CursorBuffer,
+  count: number,
+  opts?: ParquetCodecOptions
+): Buffer[] {
+  checkType(type);
+  const prefixLengths = DELTA_BINARY_PACKED.decodeValues('INT32', cursor, count);
+  const suffixes = DELTA_LENGTH_BYTE_ARRAY.decodeValues('BYTE_ARRAY', cursor, count);
+  const values: Buffer[] = [];
+  let previousValue = Buffer.alloc(0);
+  for (let i = 0; i < count; i++) {
+    if (prefixLengths[i] > previousValue.length) {
+      throw new Error('invalid DELTA_BYTE_ARRAY encoding');
+    }
+    previousValue = Buffer.concat([previousValue.subarray(0, prefixLengths[i]), suffixes[i]]);
+    values.push(previousValue);
+  }
+  return values;
+}
+
+function checkType(type: PrimitiveType): void {
+  if (type !== 'BYTE_ARRAY' && type !== 'FIXED_LEN_BYTE_ARRAY') {
+    throw new Error(`unsupported type: ${type}`);
+  }
+}
@@ -0,0 +1,41 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {PrimitiveType} from '../schema/declare';
+import type {CursorBuffer, ParquetCodecOptions} from './declare';
+import * as DELTA_BINARY_PACKED from './delta-binary-packed';
+
+// DELTA_LENGTH_BYTE_ARRAY encoding: DELTA_BINARY_PACKED lengths followed by the concatenated values
+// https://github.com/apache/parquet-format/blob/master/Encodings.md#delta-length-byte-array-delta_length_byte_array--6
+
+export function encodeValues(
+  type: PrimitiveType,
+  values: any[],
+  opts?: ParquetCodecOptions
+): Buffer {
+  if (type !== 'BYTE_ARRAY') {
+    throw new Error(`unsupported type: ${type}`);
+  }
+  const buffers = values.map((value) => Buffer.from(value));
+  const lengths = buffers.map((buffer) => buffer.length);
+  return Buffer.concat([DELTA_BINARY_PACKED.encodeValues('INT32', lengths), ...buffers]);
+}
+
+export function decodeValues(
+  type: PrimitiveType,
+  cursor: CursorBuffer,
+  count: number,
+  opts?: ParquetCodecOptions
+): Buffer[] {
+  if (type !== 'BYTE_ARRAY') {
+    throw new Error(`unsupported type: ${type}`);
+  }
+  const lengths = DELTA_BINARY_PACKED.decodeValues('INT32', cursor, count);
+  const values: Buffer[] = [];
+  for (const length of lengths) {
+    values.push(cursor.buffer.slice(cursor.offset, cursor.offset + length));
+    cursor.offset += length;
+  }
+  return values;
+}
@@ -9,7 +9,8 @@ import {decodeValues as decodeRleValues} from './rle';
 export function decodeValues(type, cursor, count, opts) {
   opts.bitWidth = cursor.buffer.slice(cursor.offset, cursor.offset + 1).readInt8(0);
   cursor.offset += 1;
-  return decodeRleValues(type, cursor, count, {...opts, disableEnvelope: true});
+  // The values are indexes into the dictionary, whatever the type of the column
+  return decodeRleValues('INT32', cursor, count, {...opts, disableEnvelope: true});
 }
 
 export function encodeValues(type, cursor, count, opts) {
@@ -9,6 +9,10 @@ import type {ParquetCodecKit} from './declare';
 import * as PLAIN from './plain';
 import * as RLE from './rle';
 import * as DICTIONARY from './dictionary';
+import * as DELTA_BINARY_PACKED from './delta-binary-packed';
+import * as DELTA_LENGTH_BYTE_ARRAY from './delta-length-byte-array';
+import * as DELTA_BYTE_ARRAY from './delta-byte-array';
+import * as BYTE_STREAM_SPLIT from './byte-stream-split';
 
 export * from './declare';
 
@@ -32,5 +36,21 @@ export const PARQUET_CODECS: Record<ParquetCodec, ParquetCodecKit> = {
     // @ts-ignore
     encodeValues: DICTIONARY.encodeValues,
     decodeValues: DICTIONARY.decodeValues
+  },
+  DELTA_BINARY_PACKED: {
+    encodeValues: DELTA_BINARY_PACKED.encodeValues,
+    decodeValues: DELTA_BINARY_PACKED.decodeValues
+  },
+  DELTA_LENGTH_BYTE_ARRAY: {
+    encodeValues: DELTA_LENGTH_BYTE_ARRAY.encodeValues,
+    decodeValues: DELTA_LENGTH_BYTE_ARRAY.decodeValues
+  },
+  DELTA_BYTE_ARRAY: {
+    encodeValues: DELTA_BYTE_ARRAY.encodeValues,
+    decodeValues: DELTA_BYTE_ARRAY.decodeValues
+  },
+  BYTE_STREAM_SPLIT: {
+    encodeValues: BYTE_STREAM_SPLIT.encodeValues,
+    decodeValues: BYTE_STREAM_SPLIT.decodeValues
   }
 };
@@ -14,12 +14,20 @@ export function encodeValues(
   values: any[],
   opts: ParquetCodecOptions
 ): Buffer {
+  // Boolean values are always encoded with a bit width of 1
+  if (type === 'BOOLEAN') {
+    opts = {...opts, bitWidth: 1};
+  }
   if (!('bitWidth' in opts)) {
     throw new Error('bitWidth is required');
   }
 
   switch (type) {
     case 'BOOLEAN':
+      // tslint:disable-next-line:no-parameter-reassignment
+      values = values.map((x) => Number(Boolean(x)));
+      break;
+
     case 'INT32':
     case 'INT64':
       // tslint:disable-next-line:no-parameter-reassignment
@@ -80,7 +88,11 @@ export function decodeValues(
   cursor: CursorBuffer,
   count: number,
   opts: ParquetCodecOptions
-): number[] {
+): number[] | boolean[] {
+  // Boolean values are always encoded with a bit width of 1
+  if (type === 'BOOLEAN') {
+    opts = {...opts, bitWidth: 1};
+  }
   if (!('bitWidth' in opts)) {
     throw new Error('bitWidth is required');
   }
@@ -113,7 +125,7 @@ export function decodeValues(
     throw new Error('invalid RLE encoding');
   }
 
-  return values;
+  return type === 'BOOLEAN' ? values.map(Boolean) : values;
 }
 
 function decodeRunBitpacked(
@@ -126,8 +126,7 @@ export class ParquetEncoder<T> {
   ) {
     this.schema = schema;
     this.envelopeWriter = envelopeWriter;
-    // @ts-ignore Row buffer typings...
-    this.rowBuffer = {};
+    this.rowBuffer = schema.rowGroup();
     this.rowGroupSize = opts.rowGroupSize || PARQUET_DEFAULT_ROW_GROUP_SIZE;
     this.closed = false;
     this.userMetadata = {};
@@ -156,8 +155,8 @@ export class ParquetEncoder<T> {
     }
     Shred.shredRecord(this.schema, row, this.rowBuffer);
     if (this.rowBuffer.rowCount >= this.rowGroupSize) {
-      // @ts-ignore
-      this.rowBuffer = {};
+      await this.envelopeWriter.writeRowGroup(this.rowBuffer);
+      this.rowBuffer = this.schema.rowGroup();
     }
   }
 
@@ -175,8 +174,8 @@ export class ParquetEncoder<T> {
     this.closed = true;
 
     if (this.rowBuffer.rowCount > 0 || this.rowBuffer.rowCount >= this.rowGroupSize) {
-      // @ts-ignore
-      this.rowBuffer = {};
+      await this.envelopeWriter.writeRowGroup(this.rowBuffer);
+      this.rowBuffer = this.schema.rowGroup();
     }
 
     await this.envelopeWriter.writeFooter(this.userMetadata);
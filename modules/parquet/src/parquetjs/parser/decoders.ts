@@ -27,6 +27,9 @@ import {decompress} from '../compression';
 import {PARQUET_RDLVL_TYPE, PARQUET_RDLVL_ENCODING} from '../../lib/constants';
 import {decodePageHeader, getThriftEnum, getBitWidth} from '../utils/read-utils';
 
+/** Encodings of data pages whose values are indexes into the dictionary page */
+const DICTIONARY_ENCODINGS: ParquetCodec[] = ['PLAIN_DICTIONARY', 'RLE_DICTIONARY'];
+
 /**
  * Decode data pages
  * @param buffer - input data
@@ -70,11 +73,11 @@ export async function decodeDataPages(
 
     const valueEncoding = getThriftEnum(
       Encoding,
-      page.pageHeader.data_page_header?.encoding!
+      (page.pageHeader.data_page_header || page.pageHeader.data_page_header_v2)?.encoding!
     ) as ParquetCodec;
-    // Pages might be in different encodings. We don't need to decode in case
-    // of 'PLAIN' encoding because all values are already in place
-    if (dictionary.length && valueEncoding !== 'PLAIN') {
+    // Pages might be in different encodings. Only dictionary encoded pages hold indexes
+    // into the dictionary, other pages (e.g. when the dictionary got too large) hold the values
+    if (dictionary.length && DICTIONARY_ENCODINGS.includes(valueEncoding)) {
       // eslint-disable-next-line no-loop-func
       page.values = page.values.map((value) => dictionary[value]);
     }
@@ -234,6 +237,7 @@ function decodeValues(
  * @param header
  * @param options
  */
+// eslint-disable-next-line max-statements
 async function decodeDataPage(
   cursor: CursorBuffer,
   header: PageHeader,
@@ -314,6 +318,7 @@ async function decodeDataPage(
     valueCountNonNull,
     decodeOptions
   );
+  cursor.offset = cursorEnd;
 
   return {
     dlevels: dLevels,
@@ -325,10 +330,11 @@ async function decodeDataPage(
 }
 
 /**
- * Do decoding of parquet dataPage in version 2 from column chunk
+ * Do decoding of parquet dataPage in version 2 from column chunk.
+ * The repetition and definition levels are never compressed, and have no length prefix.
  * @param cursor
  * @param header
- * @param opts
+ * @param context
  * @returns
  */
 async function decodeDataPageV2(
@@ -337,57 +343,53 @@ async function decodeDataPageV2(
   context: ParquetReaderContext
 ): Promise<ParquetPageData> {
   const cursorEnd = cursor.offset + header.compressed_page_size;
+  const pageHeader = header.data_page_header_v2!;
 
-  const valueCount = header.data_page_header_v2?.num_values;
-  // @ts-ignore
-  const valueCountNonNull = valueCount - header.data_page_header_v2?.num_nulls;
-  const valueEncoding = getThriftEnum(
-    Encoding,
-    header.data_page_header_v2?.encoding!
-  ) as ParquetCodec;
+  const valueCount = pageHeader.num_values;
+  const valueCountNonNull = valueCount - pageHeader.num_nulls;
+  const valueEncoding = getThriftEnum(Encoding, pageHeader.encoding) as ParquetCodec;
 
   /* read repetition levels */
+  const rLevelsEnd = cursor.offset + pageHeader.repetition_levels_byte_length;
   // tslint:disable-next-line:prefer-array-literal
   let rLevels = new Array(valueCount);
   if (context.column.rLevelMax > 0) {
-    rLevels = decodeValues(PARQUET_RDLVL_TYPE, PARQUET_RDLVL_ENCODING, cursor, valueCount!, {
+    rLevels = decodeValues(PARQUET_RDLVL_TYPE, PARQUET_RDLVL_ENCODING, cursor, valueCount, {
       bitWidth: getBitWidth(context.column.rLevelMax),
       disableEnvelope: true
     });
   } else {
     rLevels.fill(0);
   }
+  cursor.offset = rLevelsEnd;
 
   /* read definition levels */
+  const dLevelsEnd = cursor.offset + pageHeader.definition_levels_byte_length;
   // tslint:disable-next-line:prefer-array-literal
   let dLevels = new Array(valueCount);
   if (context.column.dLevelMax > 0) {
-    dLevels = decodeValues(PARQUET_RDLVL_TYPE, PARQUET_RDLVL_ENCODING, cursor, valueCount!, {
+    dLevels = decodeValues(PARQUET_RDLVL_TYPE, PARQUET_RDLVL_ENCODING, cursor, valueCount, {
       bitWidth: getBitWidth(context.column.dLevelMax),
       disableEnvelope: true
     });
   } else {
     dLevels.fill(0);
   }
+  cursor.offset = dLevelsEnd;
 
   /* read values */
-  let valuesBufCursor = cursor;
-
-  if (header.data_page_header_v2?.is_compressed) {
-    const valuesBuf = await decompress(
+  let valuesBuf = cursor.buffer.slice(cursor.offset, cursorEnd);
+  // is_compressed defaults to true, but pages of uncompressed column chunks are never compressed
+  if (pageHeader.is_compressed !== false && context.compression !== 'UNCOMPRESSED') {
+    const levelsByteLength =
+      pageHeader.repetition_levels_byte_length + pageHeader.definition_levels_byte_length;
+    valuesBuf = await decompress(
       context.compression,
-      cursor.buffer.slice(cursor.offset, cursorEnd),
-      header.uncompressed_page_size
+      valuesBuf,
+      header.uncompressed_page_size - levelsByteLength
     );
-
-    valuesBufCursor = {
-      buffer: valuesBuf,
-      offset: 0,
-      size: valuesBuf.length
-    };
-
-    cursor.offset = cursorEnd;
   }
+  cursor.offset = cursorEnd;
 
   const decodeOptions = {
     typeLength: context.column.typeLength,
@@ -397,7 +399,7 @@ async function decodeDataPageV2(
   const values = decodeValues(
     context.column.primitiveType!,
     valueEncoding,
-    valuesBufCursor,
+    {buffer: valuesBuf, offset: 0, size: valuesBuf.length},
     valueCountNonNull,
     decodeOptions
   );
@@ -406,7 +408,7 @@ async function decodeDataPageV2(
     dlevels: dLevels,
     rlevels: rLevels,
     values,
-    count: valueCount!,
+    count: valueCount,
     pageHeader: header
   };
 }
@@ -0,0 +1,282 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {ParquetColumnChunk, ParquetField, PrimitiveType} from '../schema/declare';
+import type {ColumnIndex, ColumnMetaData, OffsetIndex} from '../parquet-thrift/index';
+import type {
+  ParquetFilter,
+  ParquetStatistics,
+  ParquetStatisticsValue
+} from '../../lib/filter/parquet-filter';
+import {columnFilterMayMatch, getColumnPath} from '../../lib/filter/parquet-filter';
+
+/** Range of rows `[start, end)` of a row group */
+export type RowRange = [start: number, end: number];
+
+/** Page statistics and page locations of a column chunk */
+export type ParquetPageIndex = {
+  columnIndex?: ColumnIndex;
+  offsetIndex?: OffsetIndex;
+};
+
+/** Logical types whose statistics are ordered like the values the reader returns */
+const ORDERED_TYPES = new Set<string | undefined>([
+  undefined,
+  'UTF8',
+  'JSON',
+  'INT_8',
+  'INT_16',
+  'INT_32',
+  'INT_64',
+  'UINT_8',
+  'UINT_16',
+  'UINT_32',
+  'UINT_64'
+]);
+
+/** Byte size of the PLAIN encoded statistics values of fixed size types */
+const PRIMITIVE_TYPE_SIZES: Partial<Record<PrimitiveType, number>> = {
+  BOOLEAN: 1,
+  INT32: 4,
+  INT64: 8,
+  FLOAT: 4,
+  DOUBLE: 8
+};
+
+/**
+ * Decodes the statistics of a column chunk
+ * @returns statistics, or `null` if the column chunk has none
+ */
+export function decodeStatistics(
+  field: ParquetField,
+  columnMetaData: ColumnMetaData
+): ParquetStatistics | null {
+  const {statistics} = columnMetaData;
+  if (!statistics) {
+    return null;
+  }
+  // The deprecated `min` and `max` fields use signed comparison, which is wrong for binary values
+  const useDeprecated = field.primitiveType !== 'BYTE_ARRAY';
+  const min = statistics.min_value ?? (useDeprecated ? statistics.min : undefined);
+  const max = statistics.max_value ?? (useDeprecated ? statistics.max : undefined);
+  const nullCount =
+    statistics.null_count !== undefined && statistics.null_count !== null
+      ? Number(statistics.null_count)
+      : undefined;
+  return {
+    min: decodeStatisticsValue(field, min),
+    max: decodeStatisticsValue(field, max),
+    nullCount,
+    allNull: nullCount !== undefined && nullCount === Number(columnMetaData.num_values)
+  };
+}
+
+/**
+ * Decodes the statistics of a page from the column index
+ * @param field - column
+ * @param columnIndex - column index of the column chunk
+ * @param pageIndex - index of the page in the column chunk
+ */
+export function decodePageStatistics(
+  field: ParquetField,
+  columnIndex: ColumnIndex,
+  pageIndex: number
+): ParquetStatistics {
+  const allNull = columnIndex.null_pages[pageIndex];
+  return {
+    min: allNull ? undefined : decodeStatisticsValue(field, columnIndex.min_values[pageIndex]),
+    max: allNull ? undefined : decodeStatisticsValue(field, columnIndex.max_values[pageIndex]),
+    nullCount: columnIndex.null_counts ? Number(columnIndex.null_counts[pageIndex]) : undefined,
+    allNull
+  };
+}
+
+/** Decodes a PLAIN encoded min or max value */
+// eslint-disable-next-line complexity
+function decodeStatisticsValue(
+  field: ParquetField,
+  buffer: Buffer | undefined
+): ParquetStatisticsValue | undefined {
+  if (!buffer || !ORDERED_TYPES.has(field.originalType)) {
+    return undefined;
+  }
+  if (field.primitiveType === 'BYTE_ARRAY') {
+    return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+  const size = field.primitiveType && PRIMITIVE_TYPE_SIZES[field.primitiveType];
+  if (!size || buffer.byteLength < size) {
+    return undefined;
+  }
+  const dataView = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const isUnsigned = field.originalType?.startsWith('UINT');
+  switch (field.primitiveType) {
+    case 'BOOLEAN':
+      return dataView.getUint8(0) !== 0;
+    case 'INT32':
+      return isUnsigned ? dataView.getUint32(0, true) : dataView.getInt32(0, true);
+    case 'INT64':
+      return isUnsigned ? dataView.getBigUint64(0, true) : dataView.getBigInt64(0, true);
+    case 'FLOAT':
+      return ignoreNaN(dataView.getFloat32(0, true));
+    default:
+      return ignoreNaN(dataView.getFloat64(0, true));
+  }
+}
+
+function ignoreNaN(value: number): number | undefined {
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * Ranges of rows of the pages of a column chunk
+ * @param offsetIndex - offset index of the column chunk
+ * @param rowCount - number of rows of the row group
+ */
+export function getPageRowRanges(offsetIndex: OffsetIndex, rowCount: number): RowRange[] {
+  const pageLocations = offsetIndex.page_locations;
+  return pageLocations.map((pageLocation, i) => [
+    Number(pageLocation.first_row_index),
+    i + 1 < pageLocations.length ? Number(pageLocations[i + 1].first_row_index) : rowCount
+  ]);
+}
+
+/**
+ * Ranges of rows of a row group that may match a (resolved) filter, according to the page statistics
+ * @param filter - filter
+ * @param rowCount - number of rows of the row group
+ * @param getPageStatistics - returns the statistics and row ranges of the pages of a column, or `null`
+ */
+export function getFilterRowRanges(
+  filter: ParquetFilter,
+  rowCount: number,
+  getPageStatistics: (
+    columnPath: string[]
+  ) => {statistics: ParquetStatistics; rowRange: RowRange}[] | null
+): RowRange[] {
+  switch (filter.operator) {
+    case 'and':
+      return filter.filters.reduce<RowRange[]>(
+        (rowRanges, childFilter) =>
+          intersectRowRanges(
+            rowRanges,
+            getFilterRowRanges(childFilter, rowCount, getPageStatistics)
+          ),
+        [[0, rowCount]]
+      );
+    case 'or':
+      return filter.filters.reduce<RowRange[]>(
+        (rowRanges, childFilter) =>
+          unionRowRanges(rowRanges, getFilterRowRanges(childFilter, rowCount, getPageStatistics)),
+        []
+      );
+    case 'bbox':
+      throw new Error('parquet: bbox filter has not been resolved');
+    default: {
+      const pages = getPageStatistics(getColumnPath(filter.column));
+      if (!pages) {
+        return [[0, rowCount]];
+      }
+      const rowRanges = pages
+        .filter((page) => columnFilterMayMatch(filter, page.statistics))
+        .map((page) => page.rowRange);
+      return unionRowRanges(rowRanges, []);
+    }
+  }
+}
+
+/** Number of rows in sorted, non-overlapping row ranges */
+export function countRows(rowRanges: RowRange[]): number {
+  return rowRanges.reduce((count, [start, end]) => count + end - start, 0);
+}
+
+/** Rows in both sorted, non-overlapping row ranges */
+export function intersectRowRanges(a: RowRange[], b: RowRange[]): RowRange[] {
+  const rowRanges: RowRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i][0], b[j][0]);
+    const end = Math.min(a[i][1], b[j][1]);
+    if (start < end) {
+      rowRanges.push([start, end]);
+    }
+    if (a[i][1] < b[j][1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return rowRanges;
+}
+
+/** Rows in either row ranges, as sorted, non-overlapping row ranges */
+export function unionRowRanges(a: RowRange[], b: RowRange[]): RowRange[] {
+  const sortedRanges = [...a, ...b].sort((range1, range2) => range1[0] - range2[0]);
+  const rowRanges: RowRange[] = [];
+  for (const [start, end] of sortedRanges) {
+    const lastRange = rowRanges[rowRanges.length - 1];
+    if (lastRange && start <= lastRange[1]) {
+      lastRange[1] = Math.max(lastRange[1], end);
+    } else if (start < end) {
+      rowRanges.push([start, end]);
+    }
+  }
+  return rowRanges;
+}
+
+/**
+ * Keeps the values of the selected rows of a column chunk
+ * @param data - decoded values of the rows in `dataRowRanges`
+ * @param dataRowRanges - rows of the decoded values
+ * @param rowRanges - rows to keep, a subset of `dataRowRanges`
+ */
+// eslint-disable-next-line complexity
+export function selectRows(
+  data: ParquetColumnChunk,
+  dataRowRanges: RowRange[],
+  rowRanges: RowRange[],
+  dLevelMax: number
+): ParquetColumnChunk {
+  const selectedData: ParquetColumnChunk = {
+    dlevels: [],
+    rlevels: [],
+    values: [],
+    count: 0,
+    pageHeaders: data.pageHeaders
+  };
+  let dataRangeIndex = 0;
+  let rangeIndex = 0;
+  let row = dataRowRanges[0]?.[0] - 1;
+  let valueIndex = 0;
+  let keep = false;
+
+  for (let i = 0; i < data.dlevels.length; i++) {
+    // Repetition level 0 starts a new row
+    if (!data.rlevels[i]) {
+      row++;
+      while (dataRangeIndex < dataRowRanges.length && row >= dataRowRanges[dataRangeIndex][1]) {
+        dataRangeIndex++;
+        row = Math.max(row, dataRowRanges[dataRangeIndex]?.[0] ?? row);
+      }
+      while (rangeIndex < rowRanges.length && row >= rowRanges[rangeIndex][1]) {
+        rangeIndex++;
+      }
+      keep = rangeIndex < rowRanges.length && row >= rowRanges[rangeIndex][0];
+    }
+
+    const hasValue = data.dlevels[i] === dLevelMax;
+    if (keep) {
+      selectedData.dlevels.push(data.dlevels[i]);
+      selectedData.rlevels.push(data.rlevels[i]);
+      if (hasValue) {
+        selectedData.values.push(data.values[valueIndex]);
+      }
+      selectedData.count++;
+    }
+    if (hasValue) {
+      valueIndex++;
+    }
+  }
+  return selectedData;
+}
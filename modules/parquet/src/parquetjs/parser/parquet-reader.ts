@@ -5,10 +5,12 @@
 // Forked from https://github.com/kbajalc/parquets under MIT license
 
 import type {ReadableFile} from '@loaders.gl/loader-utils';
+import {CorruptDataError, UnsupportedFormatError} from '@loaders.gl/loader-utils';
 
 import {ParquetSchema} from '../schema/schema';
 import {decodeSchema, decodeDataPages, decodePage} from './decoders';
 import {materializeRows} from '../schema/shred';
+import {getGeoMetadata} from '@loaders.gl/geoarrow';
 
 import {PARQUET_MAGIC, PARQUET_MAGIC_ENCRYPTED} from '../../lib/constants';
 import {ColumnChunk, CompressionCodec, FileMetaData, RowGroup, Type} from '../parquet-thrift/index';
@@ -16,10 +18,34 @@ import {
   ParquetRowGroup,
   ParquetCompression,
   ParquetColumnChunk,
+  ParquetRow,
   PrimitiveType,
   ParquetReaderContext
 } from '../schema/declare';
-import {decodeFileMetadata, getThriftEnum, fieldIndexOf} from '../utils/read-utils';
+import {
+  decodeFileMetadata,
+  decodeColumnIndex,
+  decodeOffsetIndex,
+  getThriftEnum,
+  fieldIndexOf
+} from '../utils/read-utils';
+import type {ParquetFilter, ParquetStatistics} from '../../lib/filter/parquet-filter';
+import {
+  getParquetFilterColumns,
+  parquetFilterMatchesRow,
+  parquetFilterMayMatch,
+  resolveParquetFilter
+} from '../../lib/filter/parquet-filter';
+import type {ParquetPageIndex, RowRange} from './page-index';
+import {
+  countRows,
+  decodePageStatistics,
+  decodeStatistics,
+  getFilterRowRanges,
+  getPageRowRanges,
+  intersectRowRanges,
+  selectRows
+} from './page-index';
 
 export type ParquetReaderProps = {
   defaultDictionarySize?: number;
@@ -30,6 +56,18 @@ export type ParquetReaderProps = {
 export type ParquetIterationProps = {
   /** Filter allowing some columns to be dropped */
   columnList?: string[] | string[][];
+  /**
+   * Only rows that match the filter are returned.
+   * Row groups and pages are skipped using their statistics and the page index,
+   * so that only the byte ranges that may hold matching rows are read.
+   */
+  filter?: ParquetFilter;
+};
+
+/** Rows of a row group to read, with the page indexes of its columns */
+type ParquetRowSelection = {
+  rowRanges: RowRange[];
+  pageIndexes: Map<string, ParquetPageIndex>;
 };
 
 /**
@@ -74,31 +112,80 @@ export class ParquetReader {
   /** Yield one batch of rows at a time */
   async *rowBatchIterator(props?: ParquetIterationProps) {
     const schema = await this.getSchema();
+    if (!props?.filter) {
+      for await (const rowGroup of this.rowGroupIterator(props)) {
+        yield materializeRows(schema, rowGroup);
+      }
+      return;
+    }
+
+    // Columns that are only read to filter the rows are removed from the rows
+    const filter = await this.resolveFilter(props.filter);
+    const columnList = getColumnList(props);
+    const filterColumns = getParquetFilterColumns(filter).filter(
+      (path) => columnList.length > 0 && fieldIndexOf(columnList, path) < 0
+    );
+
     for await (const rowGroup of this.rowGroupIterator(props)) {
-      yield materializeRows(schema, rowGroup);
+      const rows = materializeRows(schema, rowGroup).filter((row) =>
+        parquetFilterMatchesRow(filter, row)
+      );
+      for (const row of rows) {
+        filterColumns.forEach((path) => deleteRowValue(row, path));
+      }
+      if (rows.length > 0) {
+        yield rows;
+      }
     }
   }
 
   /** Iterate over the raw row groups */
   async *rowGroupIterator(props?: ParquetIterationProps) {
-    // Ensure strings are nested in arrays
-    const columnList: string[][] = (props?.columnList || []).map((x) =>
-      Array.isArray(x) ? x : [x]
-    );
-
     const metadata = await this.getFileMetadata();
     const schema = await this.getSchema();
+    const filter = props?.filter && (await this.resolveFilter(props.filter));
+
+    let columnList = getColumnList(props);
+    if (filter && columnList.length > 0) {
+      columnList = [...columnList, ...getParquetFilterColumns(filter)];
+    }
 
     const rowGroupCount = metadata?.row_groups.length || 0;
 
     for (let rowGroupIndex = 0; rowGroupIndex < rowGroupCount; rowGroupIndex++) {
-      const rowGroup = await this.readRowGroup(
+      const rowGroup = metadata.row_groups[rowGroupIndex];
+      const rowSelection = filter
+        ? await this.getRowSelection(schema, rowGroup, filter, columnList)
+        : null;
+      if (rowSelection?.rowRanges.length !== 0) {
+        yield await this.readRowGroup(schema, rowGroup, columnList, rowSelection);
+      }
+    }
+  }
+
+  /**
+   * Indexes of the row groups that may have rows that match a filter,
+   * according to their statistics and the page indexes of the filter columns
+   */
+  async getMatchingRowGroups(filter: ParquetFilter): Promise<number[]> {
+    const metadata = await this.getFileMetadata();
+    const schema = await this.getSchema();
+    const resolvedFilter = await this.resolveFilter(filter);
+    const filterColumns = getParquetFilterColumns(resolvedFilter);
+    const rowGroupIndexes: number[] = [];
+    for (let rowGroupIndex = 0; rowGroupIndex < metadata.row_groups.length; rowGroupIndex++) {
+      const rowGroup = metadata.row_groups[rowGroupIndex];
+      const rowSelection = await this.getRowSelection(
         schema,
-        metadata.row_groups[rowGroupIndex],
-        columnList
+        rowGroup,
+        resolvedFilter,
+        filterColumns
       );
-      yield rowGroup;
+      if (rowSelection?.rowRanges.length !== 0) {
+        rowGroupIndexes.push(rowGroupIndex);
+      }
     }
+    return rowGroupIndexes;
   }
 
   async getRowCount(): Promise<number> {
@@ -121,7 +208,7 @@ export class ParquetReader {
   async getSchemaMetadata(): Promise<Record<string, string>> {
     const metadata = await this.getFileMetadata();
     const md: Record<string, string> = {};
-    for (const kv of metadata.key_value_metadata!) {
+    for (const kv of metadata.key_value_metadata || []) {
       md[kv.key] = kv.value!;
     }
     return md;
@@ -146,9 +233,9 @@ export class ParquetReader {
       case PARQUET_MAGIC:
         break;
       case PARQUET_MAGIC_ENCRYPTED:
-        throw new Error('Encrypted parquet file not supported');
+        throw new UnsupportedFormatError('Encrypted parquet file not supported', {byteOffset: 0});
       default:
-        throw new Error(`Invalid parquet file (magic=${magic})`);
+        throw new UnsupportedFormatError(`Invalid parquet file (magic=${magic})`, {byteOffset: 0});
     }
   }
 
@@ -160,13 +247,17 @@ export class ParquetReader {
 
     const magic = trailerBuf.slice(4).toString();
     if (magic !== PARQUET_MAGIC) {
-      throw new Error(`Not a valid parquet file (magic="${magic})`);
+      throw new CorruptDataError(`Not a valid parquet file (magic="${magic})`, {
+        byteOffset: this.file.size - PARQUET_MAGIC.length
+      });
     }
 
     const metadataSize = trailerBuf.readUInt32LE(0);
     const metadataOffset = this.file.size - metadataSize - trailerLen;
     if (metadataOffset < PARQUET_MAGIC.length) {
-      throw new Error(`Invalid metadata size ${metadataOffset}`);
+      throw new CorruptDataError(`Invalid metadata size ${metadataOffset}`, {
+        byteOffset: this.file.size - trailerLen
+      });
     }
 
     const arrayBuffer2 = await this.file.read(metadataOffset, metadataSize);
@@ -178,14 +269,19 @@ export class ParquetReader {
     return metadata;
   }
 
-  /** Data is stored in row groups (similar to Apache Arrow record batches) */
+  /**
+   * Data is stored in row groups (similar to Apache Arrow record batches)
+   * @param rowSelection - rows to read. All rows are read by default
+   */
   async readRowGroup(
     schema: ParquetSchema,
     rowGroup: RowGroup,
-    columnList: string[][]
+    columnList: string[][],
+    rowSelection?: ParquetRowSelection | null
   ): Promise<ParquetRowGroup> {
+    const rowCount = Number(rowGroup.num_rows);
     const buffer: ParquetRowGroup = {
-      rowCount: Number(rowGroup.num_rows),
+      rowCount: rowSelection ? countRows(rowSelection.rowRanges) : rowCount,
       columnData: {}
     };
     for (const colChunk of rowGroup.columns) {
@@ -194,7 +290,9 @@ export class ParquetReader {
       if (columnList.length > 0 && fieldIndexOf(columnList, colKey!) < 0) {
         continue; // eslint-disable-line no-continue
       }
-      buffer.columnData[colKey!.join()] = await this.readColumnChunk(schema, colChunk);
+      buffer.columnData[colKey!.join()] = rowSelection
+        ? await this.readColumnChunkRows(schema, colChunk, rowCount, rowSelection)
+        : await this.readColumnChunk(schema, colChunk);
     }
     return buffer;
   }
@@ -203,21 +301,7 @@ export class ParquetReader {
    * Each row group contains column chunks for all the columns.
    */
   async readColumnChunk(schema: ParquetSchema, colChunk: ColumnChunk): Promise<ParquetColumnChunk> {
-    if (colChunk.file_path !== undefined && colChunk.file_path !== null) {
-      throw new Error('external references are not supported');
-    }
-
-    const field = schema.findField(colChunk.meta_data?.path_in_schema!);
-    const type: PrimitiveType = getThriftEnum(Type, colChunk.meta_data?.type!) as any;
-
-    if (type !== field.primitiveType) {
-      throw new Error(`chunk type not matching schema: ${type}`);
-    }
-
-    const compression: ParquetCompression = getThriftEnum(
-      CompressionCodec,
-      colChunk.meta_data?.codec!
-    ) as any;
+    const context = this.getReaderContext(schema, colChunk);
 
     const pagesOffset = Number(colChunk.meta_data?.data_page_offset!);
     let pagesSize = Number(colChunk.meta_data?.total_compressed_size!);
@@ -229,18 +313,6 @@ export class ParquetReader {
       );
     }
 
-    const context: ParquetReaderContext = {
-      type,
-      rLevelMax: field.rLevelMax,
-      dLevelMax: field.dLevelMax,
-      compression,
-      column: field,
-      numValues: colChunk.meta_data?.num_values,
-      dictionary: [],
-      // Options - TBD is this the right place for these?
-      preserveBinary: this.props.preserveBinary
-    };
-
     let dictionary;
 
     const dictionaryPageOffset = colChunk?.meta_data?.dictionary_page_offset;
@@ -257,6 +329,104 @@ export class ParquetReader {
     return await decodeDataPages(pagesBuf, {...context, dictionary});
   }
 
+  /**
+   * Reads the pages of a column chunk that hold the selected rows,
+   * or the whole column chunk if it has no offset index
+   */
+  // eslint-disable-next-line max-statements
+  async readColumnChunkRows(
+    schema: ParquetSchema,
+    colChunk: ColumnChunk,
+    rowCount: number,
+    rowSelection: ParquetRowSelection
+  ): Promise<ParquetColumnChunk> {
+    const {rowRanges, pageIndexes} = rowSelection;
+    const colMetadata = colChunk.meta_data!;
+    const context = this.getReaderContext(schema, colChunk);
+    const offsetIndex = pageIndexes.get(colMetadata.path_in_schema.join())?.offsetIndex;
+    if (!offsetIndex?.page_locations.length) {
+      const data = await this.readColumnChunk(schema, colChunk);
+      return selectRows(data, [[0, rowCount]], rowRanges, context.dLevelMax);
+    }
+
+    const pageLocations = offsetIndex.page_locations;
+    const pageRowRanges = getPageRowRanges(offsetIndex, rowCount);
+    const pageIndices = pageRowRanges
+      .map((pageRowRange, pageIndex) => pageIndex)
+      .filter((pageIndex) => intersectRowRanges([pageRowRanges[pageIndex]], rowRanges).length);
+
+    // The dictionary page precedes the first data page
+    const chunkOffset = Number(colMetadata.dictionary_page_offset || colMetadata.data_page_offset);
+    const byteRanges: {offset: number; length: number}[] = [];
+    const firstPageOffset = Number(pageLocations[0].offset);
+    if (firstPageOffset > chunkOffset) {
+      byteRanges.push({offset: chunkOffset, length: firstPageOffset - chunkOffset});
+    }
+    for (const pageIndex of pageIndices) {
+      const offset = Number(pageLocations[pageIndex].offset);
+      const length = pageLocations[pageIndex].compressed_page_size;
+      const lastRange = byteRanges[byteRanges.length - 1];
+      if (lastRange && lastRange.offset + lastRange.length === offset) {
+        lastRange.length += length;
+      } else {
+        byteRanges.push({offset, length});
+      }
+    }
+
+    const arrayBuffers: ArrayBuffer[] = [];
+    for (const {offset, length} of byteRanges) {
+      arrayBuffers.push(await this.file.read(offset, length));
+    }
+    const pagesBuf = Buffer.concat(arrayBuffers.map((arrayBuffer) => Buffer.from(arrayBuffer)));
+    const data = await decodeDataPages(pagesBuf, {...context, numValues: undefined});
+    const dataRowRanges = pageIndices.map((pageIndex) => pageRowRanges[pageIndex]);
+    return selectRows(data, dataRowRanges, rowRanges, context.dLevelMax);
+  }
+
+  /**
+   * Reads the column indexes and offset indexes of the columns of a row group.
+   * Writers put the page indexes of all columns next to each other, so they are read at once.
+   */
+  async readPageIndexes(
+    rowGroup: RowGroup,
+    columnList: string[][]
+  ): Promise<Map<string, ParquetPageIndex>> {
+    const pageIndexes = new Map<string, ParquetPageIndex>();
+    const colChunks = rowGroup.columns.filter(
+      (colChunk) =>
+        columnList.length === 0 || fieldIndexOf(columnList, colChunk.meta_data!.path_in_schema) >= 0
+    );
+
+    const byteRanges = colChunks.flatMap((colChunk) => [
+      {offset: colChunk.column_index_offset, length: colChunk.column_index_length},
+      {offset: colChunk.offset_index_offset, length: colChunk.offset_index_length}
+    ]);
+    const start = Math.min(
+      ...byteRanges.map(({offset, length}) => (length ? Number(offset) : Infinity))
+    );
+    const end = Math.max(
+      ...byteRanges.map(({offset, length}) => (length ? Number(offset) + length : 0))
+    );
+    if (start >= end) {
+      return pageIndexes;
+    }
+
+    const buffer = Buffer.from(await this.file.read(start, end - start));
+    for (const colChunk of colChunks) {
+      const pageIndex: ParquetPageIndex = {};
+      if (colChunk.column_index_length) {
+        const offset = Number(colChunk.column_index_offset) - start;
+        pageIndex.columnIndex = decodeColumnIndex(buffer, offset).columnIndex;
+      }
+      if (colChunk.offset_index_length) {
+        const offset = Number(colChunk.offset_index_offset) - start;
+        pageIndex.offsetIndex = decodeOffsetIndex(buffer, offset).offsetIndex;
+      }
+      pageIndexes.set(colChunk.meta_data!.path_in_schema.join(), pageIndex);
+    }
+    return pageIndexes;
+  }
+
   /**
    * Getting dictionary for allows to flatten values by indices.
    * @param dictionaryPageOffset
@@ -292,4 +462,113 @@ export class ParquetReader {
 
     return decodedPage.dictionary!;
   }
+  /** Replaces bbox filters with comparisons on the GeoParquet covering columns */
+  async resolveFilter(filter: ParquetFilter): Promise<ParquetFilter> {
+    const geoMetadata = getGeoMetadata(await this.getSchemaMetadata());
+    return resolveParquetFilter(filter, geoMetadata);
+  }
+
+  /**
+   * Uses column chunk statistics and page statistics to find the rows of a row group that may match a filter
+   * @param columnList - columns to read, including the filter columns
+   * @returns rows to read, empty if the row group can be skipped, or `null` if all rows must be read
+   */
+  private async getRowSelection(
+    schema: ParquetSchema,
+    rowGroup: RowGroup,
+    filter: ParquetFilter,
+    columnList: string[][]
+  ): Promise<ParquetRowSelection | null> {
+    if (!rowGroupMayMatch(schema, rowGroup, filter)) {
+      return {rowRanges: [], pageIndexes: new Map()};
+    }
+
+    const rowCount = Number(rowGroup.num_rows);
+    const pageIndexes = await this.readPageIndexes(rowGroup, columnList);
+    const rowRanges = getFilterRowRanges(filter, rowCount, (path) => {
+      const {columnIndex, offsetIndex} = pageIndexes.get(path.join()) || {};
+      if (!columnIndex || !offsetIndex) {
+        return null;
+      }
+      const field = schema.findField(path);
+      return getPageRowRanges(offsetIndex, rowCount).map((rowRange, pageIndex) => ({
+        rowRange,
+        statistics: decodePageStatistics(field, columnIndex, pageIndex)
+      }));
+    });
+    return countRows(rowRanges) === rowCount ? null : {rowRanges, pageIndexes};
+  }
+
+  private getReaderContext(schema: ParquetSchema, colChunk: ColumnChunk): ParquetReaderContext {
+    if (colChunk.file_path !== undefined && colChunk.file_path !== null) {
+      throw new Error('external references are not supported');
+    }
+
+    const field = schema.findField(colChunk.meta_data?.path_in_schema!);
+    const type: PrimitiveType = getThriftEnum(Type, colChunk.meta_data?.type!) as any;
+
+    if (type !== field.primitiveType) {
+      throw new Error(`chunk type not matching schema: ${type}`);
+    }
+
+    const compression: ParquetCompression = getThriftEnum(
+      CompressionCodec,
+      colChunk.meta_data?.codec!
+    ) as any;
+
+    return {
+      type,
+      rLevelMax: field.rLevelMax,
+      dLevelMax: field.dLevelMax,
+      compression,
+      column: field,
+      numValues: colChunk.meta_data?.num_values,
+      dictionary: [],
+      // Options - TBD is this the right place for these?
+      preserveBinary: this.props.preserveBinary
+    };
+  }
+}
+
+/** Ensure strings are nested in arrays */
+function getColumnList(props?: ParquetIterationProps): string[][] {
+  return (props?.columnList || []).map((x) => (Array.isArray(x) ? x : [x]));
+}
+
+/** Checks the statistics of the column chunks of a row group */
+function rowGroupMayMatch(
+  schema: ParquetSchema,
+  rowGroup: RowGroup,
+  filter: ParquetFilter
+): boolean {
+  return parquetFilterMayMatch(filter, (path: string[]): ParquetStatistics | null => {
+    const colChunk = getColumnChunk(rowGroup, path);
+    return decodeStatistics(schema.findField(path), colChunk.meta_data!);
+  });
+}
+
+function getColumnChunk(rowGroup: RowGroup, path: string[]): ColumnChunk {
+  const colChunk = rowGroup.columns.find(
+    (columnChunk) => columnChunk.meta_data?.path_in_schema.join() === path.join()
+  );
+  if (!colChunk) {
+    throw new Error(`parquet: filter column not found: ${path.join('.')}`);
+  }
+  return colChunk;
+}
+
+/** Removes a value from a row, and the objects that it leaves empty */
+function deleteRowValue(row: ParquetRow, path: string[]): void {
+  const records: any[] = [row];
+  for (const name of path.slice(0, -1)) {
+    const record = records[records.length - 1][name];
+    if (!record || typeof record !== 'object') {
+      return;
+    }
+    records.push(record);
+  }
+  delete records[records.length - 1][path[path.length - 1]];
+  for (let i = records.length - 1; i > 0 && Object.keys(records[i]).length === 0; i--) {
+    delete records[i - 1][path[i - 1]];
+  }
 }
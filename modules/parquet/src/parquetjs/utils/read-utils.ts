@@ -9,7 +9,9 @@ import {
   TCompactProtocol,
   TFramedTransport,
   FileMetaData,
-  PageHeader
+  PageHeader,
+  ColumnIndex,
+  OffsetIndex
 } from '../parquet-thrift/index';
 
 class UFramedTransport extends TFramedTransport {
@@ -84,6 +86,22 @@ export function decodePageHeader(buf: Buffer, offset?: number) {
   return {length: transport.readPos - offset, pageHeader};
 }
 
+export function decodeColumnIndex(buf: Buffer, offset?: number) {
+  const transport = new UFramedTransport(buf);
+  transport.readPos = offset || 0;
+  const protocol = new TCompactProtocol(transport);
+  const columnIndex = ColumnIndex.read(protocol);
+  return {length: transport.readPos - (offset || 0), columnIndex};
+}
+
+export function decodeOffsetIndex(buf: Buffer, offset?: number) {
+  const transport = new UFramedTransport(buf);
+  transport.readPos = offset || 0;
+  const protocol = new TCompactProtocol(transport);
+  const offsetIndex = OffsetIndex.read(protocol);
+  return {length: transport.readPos - (offset || 0), offsetIndex};
+}
+
 /**
  * Get the number of bits required to store a given value
  */
@@ -14,7 +14,7 @@ const PARQUET_FILES = [
   // Specialized Dict for very large dictionaries: https://github.com/apache/parquet-format/blob/master/BloomFilter.md
   {supportedJs: false, supportedWasm: false, title: 'bloom_filter', path: 'good/bloom_filter.bin'},
   {supportedJs: true, supportedWasm: false, title: 'byte_array_decimal', path: 'good/byte_array_decimal.parquet'},
-  {supportedJs: false, supportedWasm: true, title: 'datapage_v2', path: 'good/datapage_v2.snappy.parquet'}, // Doesn't work on parquet-tools
+  {supportedJs: true, supportedWasm: true, title: 'datapage_v2', path: 'good/datapage_v2.snappy.parquet'}, // Doesn't work on parquet-tools
   {supportedJs: true, supportedWasm: false, title: 'dict', path: 'good/dict-page-offset-zero.parquet'},
   {supportedJs: true, supportedWasm: true, title: 'fixed_length_decimal', path: 'good/fixed_length_decimal.parquet'},
   {supportedJs: true, supportedWasm: true, title: 'fixed_length_decimal_legacy', path: 'good/fixed_length_decimal_legacy.parquet'},
@@ -34,10 +34,10 @@ const PARQUET_FILES = [
   {supportedJs: false, supportedWasm: true, title: 'single_nan', path: 'good/single_nan.parquet'},
 
   {supportedJs: false, supportedWasm: true, title: 'data_index_bloom_encoding_stats', path: 'good/data_index_bloom_encoding_stats.parquet'},
-  {supportedJs: false, supportedWasm: true, title: 'delta_binary_packed', path: 'good/delta_binary_packed.parquet'},
-  {supportedJs: false, supportedWasm: true, title: 'delta_byte_array', path: 'good/delta_byte_array.parquet'},
-  {supportedJs: false, supportedWasm: true, title: 'delta_encoding_optional_column', path: 'good/delta_encoding_optional_column.parquet'},
-  {supportedJs: false, supportedWasm: true, title: 'delta_encoding_required_column', path: 'good/delta_encoding_required_column.parquet'},
+  {supportedJs: true, supportedWasm: true, title: 'delta_binary_packed', path: 'good/delta_binary_packed.parquet'},
+  {supportedJs: true, supportedWasm: true, title: 'delta_byte_array', path: 'good/delta_byte_array.parquet'},
+  {supportedJs: true, supportedWasm: true, title: 'delta_encoding_optional_column', path: 'good/delta_encoding_optional_column.parquet'},
+  {supportedJs: true, supportedWasm: true, title: 'delta_encoding_required_column', path: 'good/delta_encoding_required_column.parquet'},
 
   // Encrypted
   {supportedJs: false, encrypted: true, supportedWasm: false, title: 'uniform_encryption', path: 'good/uniform_encryption.parquet.encrypted'},
@@ -7,10 +7,12 @@ import './init';
 // parquetjs unit test suite
 import './parquetjs/codec-plain.spec';
 import './parquetjs/codec-rle.spec';
+import './parquetjs/codec-delta.spec';
 import './parquetjs/schema.spec';
 import './parquetjs/shred.spec';
 import './parquetjs/thrift.spec';
 import './parquetjs/reader.spec';
+import './parquetjs/encoder.spec';
 
 // The integration spec runs tens of thousands of detailed tests. Too slow for CI, uncomment to run.
 // import './parquetjs/integration.spec';
@@ -18,8 +20,11 @@ import './parquetjs/reader.spec';
 // loader/writer
 import './parquet-arrow-loader.spec';
 import './parquet-arrow-writer.spec';
+import './parquet-json-writer.spec';
 
 import './parquet-json-loader.spec';
 import './geoparquet-loader.spec';
+import './parquet-filter.spec';
+import './parquet-source.spec';
 // import './parquet-json-columnar-loader.spec';
 
@@ -0,0 +1,200 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {BlobFile} from '@loaders.gl/loader-utils';
+import {fetchFile, load, setLoaderOptions} from '@loaders.gl/core';
+import {ParquetReader, ParquetJSONLoader, ParquetArrowLoader} from '@loaders.gl/parquet';
+import type {ArrowTable} from '@loaders.gl/schema';
+import type {ParquetFilter, ParquetIterationProps} from '@loaders.gl/parquet';
+
+// 3 row groups of 2 pages of 10 rows, with statistics and page indexes for all columns but `geometry`
+const PAGE_INDEX_URL = '@loaders.gl/parquet/test/data/page-index.parquet';
+
+setLoaderOptions({_workerType: 'test'});
+
+/** Reads the rows of the test file, and records the byte ranges that are read */
+async function readRows(props: ParquetIterationProps) {
+  const response = await fetchFile(PAGE_INDEX_URL);
+  const file = new BlobFile(await response.arrayBuffer());
+  const byteRanges: [number, number][] = [];
+  const read = file.read.bind(file);
+  file.read = async (start = 0, length = 0) => {
+    byteRanges.push([Number(start), Number(start) + length]);
+    return await read(start, length);
+  };
+
+  const reader = new ParquetReader(file);
+  const rows: any[] = [];
+  for await (const batch of reader.rowBatchIterator(props)) {
+    rows.push(...batch);
+  }
+  return {rows, byteRanges, reader};
+}
+
+test('ParquetReader#filter', async (t) => {
+  const {rows} = await readRows({columnList: ['id']});
+  t.equal(rows.length, 60, 'all rows');
+
+  const TEST_CASES: {filter: ParquetFilter; ids: number[]}[] = [
+    {filter: {column: 'id', operator: '=', value: 25}, ids: [25]},
+    {filter: {column: 'id', operator: '>=', value: 57}, ids: [57, 58, 59]},
+    {filter: {column: 'id', operator: 'in', values: [3, 47, 100]}, ids: [3, 47]},
+    {filter: {column: 'name', operator: '=', value: 'name-42'}, ids: [42]},
+    {filter: {column: 'name', operator: 'is null'}, ids: [3, 10, 17, 24, 31, 38, 45, 52, 59]},
+    {filter: {column: ['bbox', 'xmin'], operator: '>', value: 1000}, ids: []},
+    {
+      filter: {
+        operator: 'and',
+        filters: [
+          {column: 'category', operator: '!=', value: 'banana'},
+          {column: 'value', operator: '<', value: 33}
+        ]
+      },
+      ids: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 20, 21]
+    },
+    {
+      filter: {
+        operator: 'or',
+        filters: [
+          {column: 'id', operator: '<', value: 2},
+          {column: 'name', operator: '=', value: 'name-58'}
+        ]
+      },
+      ids: [0, 1, 58]
+    }
+  ];
+
+  for (const {filter, ids} of TEST_CASES) {
+    const result = await readRows({columnList: ['id'], filter});
+    t.deepEqual(
+      result.rows.map((row) => row.id),
+      ids,
+      `${JSON.stringify(filter)} returns matching rows`
+    );
+    t.ok(
+      result.rows.every((row) => Object.keys(row).join() === 'id'),
+      'filter columns are not returned'
+    );
+  }
+  t.end();
+});
+
+test('ParquetReader#filter - byte ranges', async (t) => {
+  const {rows, byteRanges, reader} = await readRows({
+    columnList: ['id'],
+    filter: {column: 'id', operator: '=', value: 25}
+  });
+  t.deepEqual(rows, [{id: 25}]);
+
+  const metadata = await reader.getFileMetadata();
+  const isRead = (start: number, end: number) =>
+    byteRanges.some((byteRange) => byteRange[0] < end && byteRange[1] > start);
+  const [rowGroup0, rowGroup1, rowGroup2] = metadata.row_groups;
+  const pageIndexes = await reader.readPageIndexes(rowGroup1, [['id']]);
+  const [page0, page1] = pageIndexes.get('id')!.offsetIndex!.page_locations;
+
+  t.notOk(
+    isRead(Number(rowGroup0.columns[0].file_offset), Number(rowGroup1.columns[0].file_offset)),
+    'skips row group 0'
+  );
+  t.notOk(
+    isRead(Number(rowGroup2.columns[0].file_offset), Number(rowGroup2.columns[1].file_offset)),
+    'skips row group 2'
+  );
+  t.ok(
+    isRead(Number(page0.offset), Number(page0.offset) + page0.compressed_page_size),
+    'reads page 0 of row group 1'
+  );
+  t.notOk(
+    isRead(Number(page1.offset), Number(page1.offset) + page1.compressed_page_size),
+    'skips page 1 of row group 1'
+  );
+  t.end();
+});
+
+test('ParquetReader#filter - pages with dictionary', async (t) => {
+  const {rows} = await readRows({filter: {column: 'category', operator: '=', value: 'banana'}});
+  t.equal(rows.length, 20, 'rows of matching pages');
+  t.ok(
+    rows.every((row) => row.category === 'banana' && row.id % 30 >= 10 && row.id % 30 < 20),
+    'dictionary page is read'
+  );
+  t.deepEqual(rows[0].bbox, {xmin: 10, ymin: 5, xmax: 10, ymax: 5}, 'nested columns are read');
+  t.end();
+});
+
+test('ParquetReader#getMatchingRowGroups', async (t) => {
+  const response = await fetchFile(PAGE_INDEX_URL);
+  const reader = new ParquetReader(new BlobFile(await response.arrayBuffer()));
+  t.deepEqual(await reader.getMatchingRowGroups({column: 'id', operator: '>', value: 30}), [1, 2]);
+  t.deepEqual(await reader.getMatchingRowGroups({column: 'id', operator: '<', value: 0}), []);
+  t.deepEqual(
+    await reader.getMatchingRowGroups({column: 'id', operator: '!=', value: 0}),
+    [0, 1, 2],
+    'row groups with other values may match'
+  );
+  t.deepEqual(
+    await reader.getMatchingRowGroups({
+      operator: 'and',
+      filters: [
+        {column: 'id', operator: '<', value: 10},
+        {column: 'category', operator: '=', value: 'banana'}
+      ]
+    }),
+    [],
+    'page indexes skip row groups'
+  );
+  await t.rejects(
+    reader.getMatchingRowGroups({column: 'missing', operator: '=', value: 0}),
+    /filter column not found/,
+    'unknown columns are rejected'
+  );
+  t.end();
+});
+
+test('ParquetJSONLoader#filter - bbox', async (t) => {
+  const table = await load(PAGE_INDEX_URL, ParquetJSONLoader, {
+    worker: false,
+    parquet: {
+      columnList: ['id'],
+      filter: {operator: 'bbox', bbox: [10, 0, 12.5, 100]}
+    }
+  });
+  t.deepEqual(table.data, [{id: 10}, {id: 11}, {id: 12}], 'bbox covering columns are filtered');
+  t.end();
+});
+
+test('ParquetArrowLoader#filter', async (t) => {
+  const idFilter: ParquetFilter = {column: 'id', operator: '>=', value: 45};
+  let table = (await load(PAGE_INDEX_URL, ParquetArrowLoader, {
+    worker: false,
+    parquet: {filter: idFilter}
+  })) as ArrowTable;
+  t.deepEqual(
+    table.data.getChild('id')?.toArray(),
+    Array.from({length: 15}, (_, i) => 45 + i),
+    'rows that do not match are removed'
+  );
+
+  table = (await load(PAGE_INDEX_URL, ParquetArrowLoader, {
+    worker: false,
+    parquet: {columns: ['name'], filter: {column: 'category', operator: '=', value: 'banana'}}
+  })) as ArrowTable;
+  t.deepEqual(
+    table.data.schema.fields.map((field) => field.name),
+    ['name'],
+    'filter columns are not returned'
+  );
+  t.equal(table.data.numRows, 20, 'rows of matching pages');
+
+  const bboxFilter: ParquetFilter = {operator: 'bbox', bbox: [100, 100, 200, 200]};
+  table = (await load(PAGE_INDEX_URL, ParquetArrowLoader, {
+    worker: false,
+    parquet: {filter: bboxFilter}
+  })) as ArrowTable;
+  t.equal(table.data.numRows, 0, 'no row group matches');
+  t.equal(table.data.schema.fields.length, 6, 'schema is read');
+  t.end();
+});
@@ -266,6 +266,16 @@ test('ParquetJSONLoader#load non_hadoop_lz4_compressed file', async (t) => {
   t.end();
 });
 
+test('ParquetJSONWorkerLoader#load', async (t) => {
+  const url = `${PARQUET_DIR}/good/alltypes_plain.parquet`;
+  const table = await load(url, ParquetJSONWorkerLoader, {parquet: {url}, _nodeWorkers: true});
+  t.equal(table.shape, 'object-row-table');
+  if (table.shape === 'object-row-table') {
+    t.equal(table.data.length, 8, 'rows parsed on worker');
+  }
+  t.end();
+});
+
 test('ParquetJSONLoader#load', async (t) => {
   // Buffer is not defined issue in worker thread of browser.
   if (!isBrowser) {
@@ -0,0 +1,104 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {validateWriter} from 'test/common/conformance';
+
+import {ParquetJSONLoader, _ParquetJSONWriter as ParquetJSONWriter} from '@loaders.gl/parquet';
+import {encode, load, parse} from '@loaders.gl/core';
+import type {ObjectRowTable, TableBatch} from '@loaders.gl/schema';
+
+const PARQUET_DIR = '@loaders.gl/parquet/test/data/apache/good';
+
+const ROWS = [
+  {name: 'a', count: 1, ratio: 0.5, valid: true, tags: ['x']},
+  {name: 'b', count: null, ratio: 1.5, valid: false, tags: null},
+  {name: null, count: 3, ratio: -2, valid: null, tags: ['y', 'z']}
+];
+
+test('ParquetJSONWriter#writer object', (t) => {
+  validateWriter(t, ParquetJSONWriter, 'ParquetJSONWriter');
+  t.end();
+});
+
+test('ParquetJSONWriter#round trip', async (t) => {
+  const table: ObjectRowTable = {shape: 'object-row-table', data: ROWS};
+  const arrayBuffer = await encode(table, ParquetJSONWriter);
+  const roundTripTable = await parse(arrayBuffer, ParquetJSONLoader, {worker: false});
+
+  // ParquetJSONLoader reads strings as buffers, and omits null values
+  t.deepEqual(
+    roundTripTable.data.map(({name, tags, ...row}) => ({
+      ...row,
+      name: name?.toString(),
+      tags: tags?.toString()
+    })),
+    [
+      {name: 'a', count: 1, ratio: 0.5, valid: true, tags: '["x"]'},
+      {name: 'b', ratio: 1.5, valid: false, tags: undefined},
+      {name: undefined, count: 3, ratio: -2, tags: '["y","z"]'}
+    ],
+    'rows round trip, objects are written as JSON'
+  );
+  t.end();
+});
+
+test('ParquetJSONWriter#encodeInBatches', async (t) => {
+  const batches: TableBatch[] = [0, 1, 2].map((index) => ({
+    batchType: 'data',
+    shape: 'array-row-table',
+    schema: {
+      fields: [
+        {name: 'index', type: 'int32'},
+        {name: 'label', type: 'utf8'}
+      ],
+      metadata: {}
+    },
+    data: [
+      [index * 2, `row ${index * 2}`],
+      [index * 2 + 1, `row ${index * 2 + 1}`]
+    ],
+    length: 2
+  }));
+
+  const chunks: ArrayBuffer[] = [];
+  for await (const chunk of ParquetJSONWriter.encodeInBatches(toAsyncIterable(batches), {
+    parquet: {rowGroupSize: 2}
+  })) {
+    chunks.push(chunk);
+  }
+  t.equal(chunks.length, 4, 'a chunk is written for each row group, and one for the footer');
+
+  const blob = new Blob(chunks);
+  const table = await parse(await blob.arrayBuffer(), ParquetJSONLoader, {worker: false});
+  t.deepEqual(
+    table.data.map((row) => [row.index, row.label.toString()]),
+    batches.flatMap((batch) => batch.data),
+    'array rows are written with the names of the schema'
+  );
+  t.end();
+});
+
+test('ParquetJSONWriter#round trip files', async (t) => {
+  for (const path of [
+    'binary.parquet',
+    'delta_binary_packed.parquet',
+    'delta_encoding_optional_column.parquet'
+  ]) {
+    const table = await load(`${PARQUET_DIR}/${path}`, ParquetJSONLoader, {worker: false});
+    const arrayBuffer = await encode(table, ParquetJSONWriter);
+    const roundTripTable = await parse(arrayBuffer, ParquetJSONLoader, {worker: false});
+    t.deepEqual(
+      roundTripTable.schema?.fields.map(({name}) => name),
+      table.schema?.fields.map(({name}) => name),
+      `${path}: columns round trip`
+    );
+    t.deepEqual(roundTripTable.data, table.data, `${path}: rows round trip`);
+  }
+  t.end();
+});
+
+async function* toAsyncIterable<T>(values: T[]): AsyncIterable<T> {
+  yield* values;
+}
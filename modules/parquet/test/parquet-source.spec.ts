@@ -0,0 +1,152 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {fetchFile} from '@loaders.gl/core';
+import type {ArrowTable, GeoJSONTable} from '@loaders.gl/schema';
+import {ParquetSource} from '@loaders.gl/parquet';
+
+// 60 points `[id, id / 2]` in 3 row groups, with a bbox covering column
+const PAGE_INDEX_URL = '@loaders.gl/parquet/test/data/page-index.parquet';
+// 5 countries, without a bbox covering column
+const GEOPARQUET_EXAMPLE_URL = '@loaders.gl/parquet/test/data/geoparquet/example.parquet';
+
+test('ParquetSource#testURL', (t) => {
+  t.ok(ParquetSource.testURL('https://example.com/data.parquet'));
+  t.notOk(ParquetSource.testURL('https://example.com/data.pmtiles'));
+  t.end();
+});
+
+test('ParquetSource#getMetadata', async (t) => {
+  const blob = await (await fetchFile(GEOPARQUET_EXAMPLE_URL)).blob();
+  const source = ParquetSource.createDataSource(blob, {});
+
+  const metadata = await source.getMetadata({formatSpecificMetadata: true});
+  t.deepEqual(metadata.layers[0].boundingBox, [
+    [-180, -90],
+    [180, 83.6451]
+  ]);
+  t.equal(metadata.formatSpecificMetadata?.numRows, 5);
+  t.equal(metadata.formatSpecificMetadata?.geo.primary_column, 'geometry');
+
+  const schema = await source.getSchema();
+  t.ok(schema.fields.find((field) => field.name === 'geometry'));
+  t.end();
+});
+
+test('ParquetSource#getFeatures (bbox covering)', async (t) => {
+  const blob = await (await fetchFile(PAGE_INDEX_URL)).blob();
+  const source = ParquetSource.createDataSource(blob, {});
+
+  const table = (await source.getFeatures({
+    layers: [],
+    boundingBox: [
+      [10, 0],
+      [19.5, 100]
+    ]
+  })) as GeoJSONTable;
+
+  t.equal(table.shape, 'geojson-table');
+  t.deepEqual(
+    table.features.map((feature) => feature.properties?.id),
+    [10, 11, 12, 13, 14, 15, 16, 17, 18, 19]
+  );
+  t.deepEqual(table.features[0].geometry, {type: 'Point', coordinates: [10, 5]});
+  t.end();
+});
+
+test('ParquetSource#getFeatures (no bbox covering)', async (t) => {
+  const blob = await (await fetchFile(GEOPARQUET_EXAMPLE_URL)).blob();
+  const source = ParquetSource.createDataSource(blob, {});
+
+  // Fiji, in the south west pacific
+  const table = (await source.getFeatures({
+    layers: [],
+    boundingBox: [
+      [177, -19],
+      [179, -16]
+    ]
+  })) as GeoJSONTable;
+
+  t.equal(table.features.length, 1);
+  t.equal(table.features[0].geometry.type, 'MultiPolygon');
+  t.end();
+});
+
+test('ParquetSource#getFeatures (url)', async (t) => {
+  const arrayBuffer = await (await fetchFile(PAGE_INDEX_URL)).arrayBuffer();
+  const requests: string[] = [];
+
+  // Serves the HEAD and range requests from memory
+  const fetch = async (url: string, options?: RequestInit): Promise<Response> => {
+    const headers = new Headers(options?.headers);
+    requests.push(options?.method || headers.get('Range') || 'GET');
+    if (options?.method === 'HEAD') {
+      return new Response(null, {headers: {'Content-Length': String(arrayBuffer.byteLength)}});
+    }
+    const [start, end] = headers.get('Range')!.slice('bytes='.length).split('-').map(Number);
+    return new Response(arrayBuffer.slice(start, end + 1), {status: 206});
+  };
+
+  const source = ParquetSource.createDataSource('https://example.com/page-index.parquet', {
+    core: {loadOptions: {fetch}}
+  });
+
+  const table = (await source.getFeatures({
+    layers: [],
+    boundingBox: [
+      [50, 0],
+      [100, 100]
+    ]
+  })) as GeoJSONTable;
+
+  t.equal(table.features.length, 10);
+  t.equal(requests[0], 'HEAD', 'reads the size of the file');
+
+  requests.length = 0;
+  const arrowSource = ParquetSource.createDataSource('https://example.com/page-index.parquet', {
+    core: {loadOptions: {fetch}},
+    parquet: {shape: 'arrow-table'}
+  });
+  const arrowTable = (await arrowSource.getFeatures({
+    layers: [],
+    boundingBox: [
+      [50, 0],
+      [100, 100]
+    ]
+  })) as ArrowTable;
+
+  t.equal(arrowTable.data.numRows, 10);
+  t.ok(
+    requests.length > 1 && requests.slice(1).every((request) => request.startsWith('bytes=')),
+    'arrow tables are read with range requests through the source'
+  );
+  t.end();
+});
+
+test('ParquetSource#getFeatures (arrow-table)', async (t) => {
+  const blob = await (await fetchFile(PAGE_INDEX_URL)).blob();
+  const source = ParquetSource.createDataSource(blob, {parquet: {shape: 'arrow-table'}});
+
+  const table = (await source.getFeatures({
+    layers: [],
+    boundingBox: [
+      [10, 0],
+      [19.5, 100]
+    ]
+  })) as ArrowTable;
+
+  t.equal(table.shape, 'arrow-table');
+  t.equal(table.data.numRows, 10, 'returns the features in the bounding box');
+  t.equal(
+    table.data.schema.fields.find((field) => field.name === 'geometry')?.metadata.get(
+      'ARROW:extension:name'
+    ),
+    'geoarrow.point',
+    'geometries are GeoArrow points'
+  );
+  t.deepEqual(table.data.getChild('id')?.toArray(), [10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+  t.deepEqual(table.data.getChild('geometry')?.get(0)?.toArray(), [10, 5]);
+  t.end();
+});
@@ -0,0 +1,127 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {PARQUET_CODECS} from '@loaders.gl/parquet/parquetjs/codecs';
+
+test('ParquetCodec::DELTA_BINARY_PACKED#should encode INT32 values', assert => {
+  const buf = PARQUET_CODECS.DELTA_BINARY_PACKED.encodeValues('INT32', [1, 2, 3, 4, 5]);
+
+  assert.deepEqual(buf, Buffer.from([
+    0x80, 0x01, // block size 128
+    0x04, // 4 miniblocks
+    0x05, // 5 values
+    0x02, // first value 1 (zigzag)
+    0x02, // min delta 1 (zigzag)
+    0x00, 0x00, 0x00, 0x00 // bit widths 0, no miniblock data
+  ]));
+  assert.end();
+});
+
+test('ParquetCodec::DELTA_BINARY_PACKED#should decode INT32 values', assert => {
+  const cursor = {
+    offset: 0,
+    buffer: Buffer.from([0x80, 0x01, 0x04, 0x05, 0x02, 0x02, 0x00, 0x00, 0x00, 0x00, 0xff])
+  };
+
+  const vals = PARQUET_CODECS.DELTA_BINARY_PACKED.decodeValues('INT32', cursor, 5, {});
+  assert.deepEqual(vals, [1, 2, 3, 4, 5]);
+  assert.equal(cursor.offset, 10, 'stops at the end of the encoded values');
+  assert.end();
+});
+
+test('ParquetCodec::DELTA_BINARY_PACKED#should round-trip values', assert => {
+  const int32Values: number[] = [];
+  const int64Values: number[] = [];
+  for (let i = 0; i < 1000; i++) {
+    int32Values.push(i % 7 ? i * 1000 - (i % 13) * 777 : -2147483648 + i);
+    int64Values.push(i % 3 ? 2 ** 50 - i * 12345678 : -(2 ** 45) + i);
+  }
+  int32Values.push(2147483647);
+
+  for (const [type, values] of [['INT32', int32Values], ['INT64', int64Values]] as const) {
+    const buf = PARQUET_CODECS.DELTA_BINARY_PACKED.encodeValues(type, values);
+    const cursor = {offset: 0, buffer: buf};
+    const vals = PARQUET_CODECS.DELTA_BINARY_PACKED.decodeValues(type, cursor, values.length, {});
+    assert.deepEqual(vals, values, `${type} values`);
+    assert.equal(cursor.offset, buf.length, `${type} buffer is read`);
+  }
+
+  const buf = PARQUET_CODECS.DELTA_BINARY_PACKED.encodeValues('INT32', []);
+  assert.deepEqual(PARQUET_CODECS.DELTA_BINARY_PACKED.decodeValues('INT32', {offset: 0, buffer: buf}, 0, {}), [], 'no values');
+  assert.end();
+});
+
+test('ParquetCodec::DELTA_LENGTH_BYTE_ARRAY#should round-trip values', assert => {
+  const values = ['Hello', 'World', 'Foobar', 'ABCDEF', ''];
+  const buf = PARQUET_CODECS.DELTA_LENGTH_BYTE_ARRAY.encodeValues('BYTE_ARRAY', values);
+  assert.equal(buf.subarray(buf.length - 22).toString(), 'HelloWorldFoobarABCDEF', 'values are concatenated');
+
+  const cursor = {offset: 0, buffer: buf};
+  const vals = PARQUET_CODECS.DELTA_LENGTH_BYTE_ARRAY.decodeValues('BYTE_ARRAY', cursor, values.length, {});
+  assert.deepEqual(vals.map(String), values);
+  assert.equal(cursor.offset, buf.length);
+  assert.end();
+});
+
+test('ParquetCodec::DELTA_BYTE_ARRAY#should round-trip values', assert => {
+  const values = ['axis', 'axle', 'babble', 'babyhood'];
+  const buf = PARQUET_CODECS.DELTA_BYTE_ARRAY.encodeValues('BYTE_ARRAY', values);
+  assert.equal(buf.subarray(buf.length - 17).toString(), 'axislebabbleyhood', 'suffixes are stored');
+
+  const cursor = {offset: 0, buffer: buf};
+  const vals = PARQUET_CODECS.DELTA_BYTE_ARRAY.decodeValues('BYTE_ARRAY', cursor, values.length, {});
+  assert.deepEqual(vals.map(String), values);
+  assert.equal(cursor.offset, buf.length);
+
+  const fixedValues = ['ab01', 'ab02', 'ac02'];
+  const fixedBuf = PARQUET_CODECS.DELTA_BYTE_ARRAY.encodeValues('FIXED_LEN_BYTE_ARRAY', fixedValues, {typeLength: 4});
+  const fixedVals = PARQUET_CODECS.DELTA_BYTE_ARRAY.decodeValues('FIXED_LEN_BYTE_ARRAY', {offset: 0, buffer: fixedBuf}, 3, {typeLength: 4});
+  assert.deepEqual(fixedVals.map(String), fixedValues, 'FIXED_LEN_BYTE_ARRAY values');
+  assert.end();
+});
+
+test('ParquetCodec::BYTE_STREAM_SPLIT#should encode FLOAT values', assert => {
+  const buf = PARQUET_CODECS.BYTE_STREAM_SPLIT.encodeValues('FLOAT', [1, 2, -0.5]);
+
+  assert.deepEqual(buf, Buffer.from([
+    0x00, 0x00, 0x00, // byte 0 of 1.0, 2.0, -0.5
+    0x00, 0x00, 0x00, // byte 1
+    0x80, 0x00, 0x00, // byte 2
+    0x3f, 0x40, 0xbf // byte 3
+  ]));
+  assert.end();
+});
+
+test('ParquetCodec::BYTE_STREAM_SPLIT#should round-trip values', assert => {
+  const testCases = [
+    {type: 'FLOAT', values: [1.5, -2.25, 0, 1e10]},
+    {type: 'DOUBLE', values: [Math.PI, -Math.E, 0, 1e300]},
+    {type: 'INT32', values: [1, -1, 2147483647, -2147483648]},
+    {type: 'INT64', values: [1, -1, 2 ** 52, -(2 ** 40)]}
+  ] as const;
+
+  for (const {type, values} of testCases) {
+    const buf = PARQUET_CODECS.BYTE_STREAM_SPLIT.encodeValues(type, [...values]);
+    const cursor = {offset: 0, buffer: buf};
+    const vals = PARQUET_CODECS.BYTE_STREAM_SPLIT.decodeValues(type, cursor, values.length, {});
+    assert.deepEqual(vals, values, `${type} values`);
+    assert.equal(cursor.offset, buf.length, `${type} buffer is read`);
+  }
+
+  const opts = {typeLength: 3};
+  const buf = PARQUET_CODECS.BYTE_STREAM_SPLIT.encodeValues('FIXED_LEN_BYTE_ARRAY', ['abc', 'def'], opts);
+  assert.equal(buf.toString(), 'adbecf', 'FIXED_LEN_BYTE_ARRAY bytes are split');
+  const vals = PARQUET_CODECS.BYTE_STREAM_SPLIT.decodeValues('FIXED_LEN_BYTE_ARRAY', {offset: 0, buffer: buf}, 2, opts);
+  assert.deepEqual(vals.map(String), ['abc', 'def'], 'FIXED_LEN_BYTE_ARRAY values');
+  assert.end();
+});
+
+test('ParquetCodec::RLE#should round-trip BOOLEAN values', assert => {
+  const values = [true, false, false, true, true, true, true, true, true, true, true, false];
+  const buf = PARQUET_CODECS.RLE.encodeValues('BOOLEAN', values, {});
+  const vals = PARQUET_CODECS.RLE.decodeValues('BOOLEAN', {offset: 0, buffer: buf}, values.length, {});
+  assert.deepEqual(vals, values);
+  assert.end();
+});
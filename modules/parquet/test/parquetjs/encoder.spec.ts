@@ -0,0 +1,89 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {BlobFile} from '@loaders.gl/loader-utils';
+import {ParquetEncoder, ParquetReader, ParquetSchema} from '@loaders.gl/parquet';
+import {ParquetEnvelopeWriter} from '@loaders.gl/parquet/parquetjs/encoder/parquet-encoder';
+
+const TEST_NUM_ROWS = 500;
+
+function makeTestSchema(compression) {
+  return new ParquetSchema({
+    id: {type: 'INT32', encoding: 'DELTA_BINARY_PACKED', compression},
+    quantity: {type: 'INT64', encoding: 'DELTA_BINARY_PACKED', optional: true, compression},
+    name: {type: 'UTF8', encoding: 'DELTA_LENGTH_BYTE_ARRAY', optional: true, compression},
+    path: {type: 'UTF8', encoding: 'DELTA_BYTE_ARRAY', compression},
+    price: {type: 'DOUBLE', encoding: 'BYTE_STREAM_SPLIT', compression},
+    ratio: {type: 'FLOAT', encoding: 'BYTE_STREAM_SPLIT', optional: true, compression},
+    available: {type: 'BOOLEAN', encoding: 'RLE', compression},
+    tags: {type: 'UTF8', encoding: 'DELTA_BYTE_ARRAY', repeated: true, compression}
+  });
+}
+
+function makeTestRows() {
+  const rows: {[key: string]: any}[] = [];
+  for (let i = 0; i < TEST_NUM_ROWS; i++) {
+    rows.push({
+      id: i * 7 - 3000 + (i % 13) * 1000,
+      quantity: i % 5 === 0 ? undefined : 2 ** 40 - i * 1234567,
+      name: i % 3 === 0 ? undefined : `name-${i}`,
+      path: `/data/dir-${Math.floor(i / 10)}/file-${i}`,
+      price: i / 3,
+      ratio: i % 4 === 0 ? undefined : i / 4,
+      available: i % 3 === 1,
+      tags: i % 2 ? ['a', `tag-${i}`] : []
+    });
+  }
+  return rows;
+}
+
+/** Writes rows to an in-memory parquet file, and reads them back */
+async function roundTrip(schema: ParquetSchema, rows: {[key: string]: any}[], useDataPageV2: boolean) {
+  const chunks: Buffer[] = [];
+  const write = async (buffer: Buffer) => {
+    chunks.push(buffer);
+  };
+  const envelopeWriter = new ParquetEnvelopeWriter(schema, write, async () => {}, 0, {useDataPageV2});
+  const encoder = new ParquetEncoder(schema, envelopeWriter, {rowGroupSize: 200});
+  for (const row of rows) {
+    await encoder.appendRow(row);
+  }
+  await encoder.close();
+
+  const buffer = Buffer.concat(chunks);
+  const reader = new ParquetReader(new BlobFile(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)));
+  const metadata = await reader.getFileMetadata();
+  const readRows: {[key: string]: any}[] = [];
+  for await (const batch of reader.rowBatchIterator()) {
+    readRows.push(...batch);
+  }
+  return {metadata, readRows};
+}
+
+test('ParquetEncoder#DELTA and BYTE_STREAM_SPLIT encodings round-trip', async t => {
+  const rows = makeTestRows();
+  for (const useDataPageV2 of [false, true]) {
+    for (const compression of ['UNCOMPRESSED', 'SNAPPY']) {
+      const title = `${useDataPageV2 ? 'Data Page V2' : 'Data Page V1'}, ${compression}`;
+      const {metadata, readRows} = await roundTrip(makeTestSchema(compression), rows, useDataPageV2);
+
+      t.equal(metadata.row_groups.length, 3, `${title}: row groups`);
+      t.equal(readRows.length, rows.length, `${title}: row count`);
+      const convertedRows = readRows.map(row => ({
+        ...row,
+        name: row.name?.toString(),
+        path: row.path.toString(),
+        tags: row.tags?.map(String) || []
+      }));
+      const expectedRows = rows.map(row => ({
+        ...row,
+        ratio: row.ratio === undefined ? undefined : Math.fround(row.ratio)
+      }));
+      // Missing values are not set in the rows that are read
+      t.deepEqual(JSON.parse(JSON.stringify(convertedRows)), JSON.parse(JSON.stringify(expectedRows)), `${title}: rows`);
+    }
+  }
+  t.end();
+});
@@ -0,0 +1,10 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// Polyfills increases the bundle size significantly. Use it for NodeJS worker only
+import '@loaders.gl/polyfills';
+import {createLoaderWorker} from '@loaders.gl/loader-utils';
+import {PCDLoader} from '../index';
+
+createLoaderWorker(PCDLoader);
@@ -69,13 +69,7 @@ test('PCDLoader#parse(binary)', async (t) => {
 });
 
 test('PCDWorkerLoader#parse(binary)', async (t) => {
-  if (typeof Worker === 'undefined') {
-    t.comment('Worker is not usable in non-browser environments');
-    t.end();
-    return;
-  }
-
-  const data = await load(PCD_BINARY_URL, PCDWorkerLoader);
+  const data = await load(PCD_BINARY_URL, PCDWorkerLoader, {_nodeWorkers: true});
   validateMeshCategoryData(t, data);
 
   t.equal(data.mode, 0, 'mode is POINTS (0)');
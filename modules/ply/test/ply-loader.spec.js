@@ -71,13 +71,7 @@ test('PLYLoader#parseSync(binary)', async (t) => {
 });
 
 test('PLYLoader#parse(WORKER)', async (t) => {
-  if (typeof Worker === 'undefined') {
-    t.comment('Worker is not usable in non-browser environments');
-    t.end();
-    return;
-  }
-
-  const data = await load(PLY_BUN_ZIPPER_URL, PLYWorkerLoader);
+  const data = await load(PLY_BUN_ZIPPER_URL, PLYWorkerLoader, {_nodeWorkers: true});
 
   validateMeshCategoryData(t, data);
   t.equal(data.attributes.POSITION.value.length, 107841, 'POSITION attribute was found');
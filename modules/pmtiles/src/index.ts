@@ -10,3 +10,8 @@ export {PMTilesTileSource} from './pmtiles-source';
 
 export {PMTilesLoader as _PMTilesLoader} from './pmtiles-loader';
 export type {PMTilesLoaderOptions} from './pmtiles-loader';
+
+export {PMTilesWriter} from './pmtiles-writer';
+export type {PMTilesWriterOptions} from './pmtiles-writer';
+export {writePMTiles} from './lib/write-pmtiles';
+export type {WritePMTilesOptions} from './lib/write-pmtiles';
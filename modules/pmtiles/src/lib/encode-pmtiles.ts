@@ -0,0 +1,99 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import * as pmtiles from 'pmtiles';
+
+/** Size of the fixed PMTiles v3 header */
+export const PMTILES_HEADER_SIZE_BYTES = 127;
+
+/** The header and the root directory must fit in the first 16KB of the archive */
+export const MAX_ROOT_DIRECTORY_SIZE_BYTES = 16384 - PMTILES_HEADER_SIZE_BYTES;
+
+/**
+ * Encodes a PMTiles v3 header
+ * @see https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md#3-header
+ */
+// eslint-disable-next-line max-statements
+export function encodePMTilesHeader(header: pmtiles.Header): ArrayBuffer {
+  const arrayBuffer = new ArrayBuffer(PMTILES_HEADER_SIZE_BYTES);
+  const dataView = new DataView(arrayBuffer);
+
+  new Uint8Array(arrayBuffer).set(new TextEncoder().encode('PMTiles'));
+  dataView.setUint8(7, 3);
+
+  setUint64(dataView, 8, header.rootDirectoryOffset);
+  setUint64(dataView, 16, header.rootDirectoryLength);
+  setUint64(dataView, 24, header.jsonMetadataOffset);
+  setUint64(dataView, 32, header.jsonMetadataLength);
+  setUint64(dataView, 40, header.leafDirectoryOffset);
+  setUint64(dataView, 48, header.leafDirectoryLength || 0);
+  setUint64(dataView, 56, header.tileDataOffset);
+  setUint64(dataView, 64, header.tileDataLength || 0);
+  setUint64(dataView, 72, header.numAddressedTiles);
+  setUint64(dataView, 80, header.numTileEntries);
+  setUint64(dataView, 88, header.numTileContents);
+
+  dataView.setUint8(96, header.clustered ? 1 : 0);
+  dataView.setUint8(97, header.internalCompression);
+  dataView.setUint8(98, header.tileCompression);
+  dataView.setUint8(99, header.tileType);
+  dataView.setUint8(100, header.minZoom);
+  dataView.setUint8(101, header.maxZoom);
+
+  // Positions are stored as integers in units of 10^-7 degrees
+  dataView.setInt32(102, Math.round(header.minLon * 1e7), true);
+  dataView.setInt32(106, Math.round(header.minLat * 1e7), true);
+  dataView.setInt32(110, Math.round(header.maxLon * 1e7), true);
+  dataView.setInt32(114, Math.round(header.maxLat * 1e7), true);
+  dataView.setUint8(118, header.centerZoom);
+  dataView.setInt32(119, Math.round(header.centerLon * 1e7), true);
+  dataView.setInt32(123, Math.round(header.centerLat * 1e7), true);
+
+  return arrayBuffer;
+}
+
+/**
+ * Encodes the entries of a directory (uncompressed)
+ * - Tile ids are delta encoded.
+ * - The offset of an entry that directly follows the previous entry is encoded as `0`.
+ * @see https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md#4-directories
+ */
+export function encodePMTilesDirectory(entries: pmtiles.Entry[]): ArrayBuffer {
+  const bytes: number[] = [];
+
+  writeVarint(bytes, entries.length);
+
+  let lastTileId = 0;
+  for (const entry of entries) {
+    writeVarint(bytes, entry.tileId - lastTileId);
+    lastTileId = entry.tileId;
+  }
+  for (const entry of entries) {
+    writeVarint(bytes, entry.runLength);
+  }
+  for (const entry of entries) {
+    writeVarint(bytes, entry.length);
+  }
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const previousEntry = entries[i - 1];
+    const isContiguous = i > 0 && entry.offset === previousEntry.offset + previousEntry.length;
+    writeVarint(bytes, isContiguous ? 0 : entry.offset + 1);
+  }
+
+  return new Uint8Array(bytes).buffer;
+}
+
+/** Writes an unsigned LEB128 varint. Bit operations are avoided since values can exceed 32 bits */
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+}
+
+function setUint64(dataView: DataView, byteOffset: number, value: number): void {
+  dataView.setBigUint64(byteOffset, BigInt(value), true);
+}
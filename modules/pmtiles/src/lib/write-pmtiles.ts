@@ -0,0 +1,416 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {TileSource, TileSourceMetadata, WritableFile} from '@loaders.gl/loader-utils';
+import {concatenateArrayBuffers} from '@loaders.gl/loader-utils';
+import type {ImageDataType, ImageType} from '@loaders.gl/images';
+import {ImageWriter, isImage} from '@loaders.gl/images';
+import type {MVTTileData, MVTWriterOptions} from '@loaders.gl/mvt';
+import {MVTWriter} from '@loaders.gl/mvt';
+import {GZipCompression} from '@loaders.gl/compression';
+import * as pmtiles from 'pmtiles';
+import {
+  PMTILES_HEADER_SIZE_BYTES,
+  MAX_ROOT_DIRECTORY_SIZE_BYTES,
+  encodePMTilesHeader,
+  encodePMTilesDirectory
+} from './encode-pmtiles';
+
+const {Compression, TileType, zxyToTileId, tileIdToZxy} = pmtiles;
+
+export type WritePMTilesOptions = {
+  /** Lowest zoom level to write. Defaults to the `minZoom` of the tile source metadata, or `0` */
+  minZoom?: number;
+  /** Highest zoom level to write. Defaults to the `maxZoom` of the tile source metadata */
+  maxZoom?: number;
+  /** Only tiles intersecting `[[w, s], [e, n]]` are written, `w > e` crosses the antimeridian. Defaults to the `boundingBox` of the tile source metadata, or the world */
+  bounds?: [min: [x: number, y: number], max: [x: number, y: number]];
+  /** JSON metadata of the archive, e.g. `vector_layers`. Added to the `name` and `attribution` of the tile source metadata */
+  metadata?: Record<string, unknown>;
+  /** Compression of the directories and of the JSON metadata. Default `'gzip'` */
+  internalCompression?: 'gzip' | 'none';
+  /** Options for encoding tiles that the tile source returns as features, e.g. `TableVectorTileSource` */
+  mvt?: MVTWriterOptions['mvt'];
+};
+
+/** Web mercator tiles cover latitudes up to ±85.0511° */
+const WORLD_BOUNDS: [[number, number], [number, number]] = [
+  [-180, -85.0511287798066],
+  [180, 85.0511287798066]
+];
+
+/** Number of entries in the first try at splitting the directory into leaf directories */
+const MIN_LEAF_DIRECTORY_ENTRIES = 4096;
+
+/** Tile data starts after the header and the space that is reserved for the root directory */
+const TILE_DATA_OFFSET = PMTILES_HEADER_SIZE_BYTES + MAX_ROOT_DIRECTORY_SIZE_BYTES;
+
+/**
+ * Writes the tiles of a tile source to a PMTiles v3 archive
+ * - Tiles are requested zoom level by zoom level, in tile id (Hilbert curve) order, so the archive is clustered.
+ * - Tile data is written as tiles are requested, after the first 16KB that are reserved for the header and the root directory.
+ *   Leaf directories and the JSON metadata are written after the tile data, and the header and root directory last.
+ * - Tiles with identical contents are only stored once.
+ * - Leaf directories are created when the root directory does not fit in the first 16KB of the archive.
+ * @note Directory entries are kept in memory until all tiles have been requested.
+ * @param file - file to write the archive to, with positional writes. It is not closed.
+ * @param tileSource - source of the tiles. Tiles can be returned as encoded tiles (`ArrayBuffer`),
+ * as features or tables (which are encoded as MVT) or as images (which are encoded as PNG).
+ * @param options - zoom levels and bounds of the tiles to write
+ */
+// eslint-disable-next-line complexity
+export async function writePMTiles(
+  file: WritableFile,
+  tileSource: TileSource,
+  options: WritePMTilesOptions = {}
+): Promise<void> {
+  const sourceMetadata = await tileSource.getMetadata();
+  const minZoom = options.minZoom ?? sourceMetadata.minZoom ?? 0;
+  const maxZoom = options.maxZoom ?? sourceMetadata.maxZoom;
+  if (maxZoom === undefined) {
+    throw new Error('PMTilesWriter: maxZoom must be specified');
+  }
+  const bounds = options.bounds || sourceMetadata.boundingBox || WORLD_BOUNDS;
+
+  const archive = new PMTilesArchiveBuilder(file);
+  for (let z = minZoom; z <= maxZoom; z++) {
+    for (const tileId of getTileIds(z, bounds)) {
+      const [, x, y] = tileIdToZxy(tileId);
+      const tile = await tileSource.getTile({x, y, z});
+      const tileData = tile ? await encodeTile(tile, {x, y, z}, options) : null;
+      if (tileData && tileData.byteLength > 0) {
+        await archive.addTile(tileId, tileData);
+      }
+    }
+  }
+
+  const internalCompression = options.internalCompression || 'gzip';
+  const compress = getCompressor(internalCompression);
+  const {rootDirectory, leafDirectories} = await archive.getDirectories(compress);
+  const jsonMetadata = await compress(encodeJSONMetadata(sourceMetadata, options.metadata));
+
+  const header = archive.getHeader(
+    {rootDirectory, jsonMetadata, leafDirectories},
+    {minZoom, maxZoom, bounds, internalCompression}
+  );
+  await file.write(leafDirectories, header.leafDirectoryOffset);
+  await file.write(jsonMetadata, header.jsonMetadataOffset);
+  await file.write(encodePMTilesHeader(header), 0);
+  await file.write(rootDirectory, header.rootDirectoryOffset);
+}
+
+/**
+ * Writes the deduplicated contents of the tiles of an archive and collects their directory entries
+ * @note Tiles must be added in increasing tile id order
+ */
+class PMTilesArchiveBuilder {
+  entries: pmtiles.Entry[] = [];
+  tileDataLength = 0;
+  numAddressedTiles = 0;
+  numTileContents = 0;
+  tileType?: pmtiles.TileType;
+  tileCompression?: pmtiles.Compression;
+
+  private file: WritableFile;
+  /** Offsets and lengths of the contents, indexed by content hash */
+  private contentsByHash = new Map<number, {offset: number; length: number}[]>();
+
+  constructor(file: WritableFile) {
+    this.file = file;
+  }
+
+  async addTile(tileId: number, tileData: ArrayBuffer): Promise<void> {
+    const [tileType, tileCompression] = getTileType(tileData);
+    if (this.tileType === undefined) {
+      [this.tileType, this.tileCompression] = [tileType, tileCompression];
+    } else if (tileType !== this.tileType || tileCompression !== this.tileCompression) {
+      const [z, x, y] = tileIdToZxy(tileId);
+      throw new Error(
+        `PMTilesWriter: tile ${z}/${x}/${y} has a different type than the first tile`
+      );
+    }
+
+    const {offset, length} = await this.addContent(tileData);
+    this.numAddressedTiles++;
+
+    // Consecutive tiles with the same contents share an entry
+    const lastEntry = this.entries[this.entries.length - 1];
+    if (lastEntry?.offset === offset && lastEntry.tileId + lastEntry.runLength === tileId) {
+      lastEntry.runLength++;
+    } else {
+      this.entries.push({tileId, offset, length, runLength: 1});
+    }
+  }
+
+  /**
+   * @param sections - encoded sections. The root directory follows the header, the leaf directories
+   * and the JSON metadata follow the tile data.
+   * @param options - requested zoom levels and bounds
+   */
+  getHeader(
+    sections: {rootDirectory: ArrayBuffer; jsonMetadata: ArrayBuffer; leafDirectories: ArrayBuffer},
+    options: {
+      minZoom: number;
+      maxZoom: number;
+      bounds: [[number, number], [number, number]];
+      internalCompression: 'gzip' | 'none';
+    }
+  ): pmtiles.Header {
+    const {rootDirectory, jsonMetadata, leafDirectories} = sections;
+    const leafDirectoryOffset = TILE_DATA_OFFSET + this.tileDataLength;
+    const jsonMetadataOffset = leafDirectoryOffset + leafDirectories.byteLength;
+
+    // Zoom levels of the tiles that were written
+    const firstEntry = this.entries[0];
+    const lastEntry = this.entries[this.entries.length - 1];
+    const minZoom = firstEntry ? tileIdToZxy(firstEntry.tileId)[0] : options.minZoom;
+    const maxZoom = lastEntry
+      ? tileIdToZxy(lastEntry.tileId + lastEntry.runLength - 1)[0]
+      : options.maxZoom;
+
+    const [[minLon, minLat], [maxLon, maxLat]] = options.bounds;
+    return {
+      specVersion: 3,
+      rootDirectoryOffset: PMTILES_HEADER_SIZE_BYTES,
+      rootDirectoryLength: rootDirectory.byteLength,
+      jsonMetadataOffset,
+      jsonMetadataLength: jsonMetadata.byteLength,
+      leafDirectoryOffset,
+      leafDirectoryLength: leafDirectories.byteLength,
+      tileDataOffset: TILE_DATA_OFFSET,
+      tileDataLength: this.tileDataLength,
+      numAddressedTiles: this.numAddressedTiles,
+      numTileEntries: this.entries.length,
+      numTileContents: this.numTileContents,
+      clustered: true,
+      internalCompression:
+        options.internalCompression === 'gzip' ? Compression.Gzip : Compression.None,
+      tileCompression: this.tileCompression ?? Compression.Unknown,
+      tileType: this.tileType ?? TileType.Unknown,
+      minZoom,
+      maxZoom,
+      minLon,
+      minLat,
+      maxLon,
+      maxLat,
+      centerZoom: minZoom,
+      // Bounds with `minLon > maxLon` cross the antimeridian
+      centerLon:
+        minLon > maxLon ? (((minLon + maxLon + 360) / 2 + 180) % 360) - 180 : (minLon + maxLon) / 2,
+      centerLat: (minLat + maxLat) / 2
+    };
+  }
+
+  /**
+   * Encodes the directories. If the root directory is too large, entries are moved to leaf directories,
+   * with twice as many entries per leaf directory until the root directory fits.
+   */
+  async getDirectories(
+    compress: (arrayBuffer: ArrayBuffer) => Promise<ArrayBuffer>
+  ): Promise<{rootDirectory: ArrayBuffer; leafDirectories: ArrayBuffer}> {
+    const rootDirectory = await compress(encodePMTilesDirectory(this.entries));
+    if (rootDirectory.byteLength <= MAX_ROOT_DIRECTORY_SIZE_BYTES) {
+      return {rootDirectory, leafDirectories: new ArrayBuffer(0)};
+    }
+
+    for (let leafSize = MIN_LEAF_DIRECTORY_ENTRIES; ; leafSize *= 2) {
+      const rootEntries: pmtiles.Entry[] = [];
+      const leafDirectories: ArrayBuffer[] = [];
+      let offset = 0;
+      for (let i = 0; i < this.entries.length; i += leafSize) {
+        const leafDirectory = await compress(
+          encodePMTilesDirectory(this.entries.slice(i, i + leafSize))
+        );
+        // Entries with a run length of 0 point to leaf directories
+        const {tileId} = this.entries[i];
+        rootEntries.push({tileId, offset, length: leafDirectory.byteLength, runLength: 0});
+        leafDirectories.push(leafDirectory);
+        offset += leafDirectory.byteLength;
+      }
+
+      const leafRootDirectory = await compress(encodePMTilesDirectory(rootEntries));
+      if (leafRootDirectory.byteLength <= MAX_ROOT_DIRECTORY_SIZE_BYTES) {
+        return {
+          rootDirectory: leafRootDirectory,
+          leafDirectories: concatenateArrayBuffers(...leafDirectories)
+        };
+      }
+    }
+  }
+
+  /**
+   * Writes the contents unless identical contents were written before
+   * @note Contents are identified by their length and 53-bit hash, as written contents are not kept in memory
+   * @returns the offset and length of the contents in the tile data
+   */
+  private async addContent(tileData: ArrayBuffer): Promise<{offset: number; length: number}> {
+    const hash = hashBytes(new Uint8Array(tileData));
+    const candidates = this.contentsByHash.get(hash) || [];
+    const content = candidates.find(({length}) => length === tileData.byteLength);
+    if (content) {
+      return content;
+    }
+
+    const newContent = {offset: this.tileDataLength, length: tileData.byteLength};
+    await this.file.write(tileData, TILE_DATA_OFFSET + this.tileDataLength);
+    this.tileDataLength += tileData.byteLength;
+    this.numTileContents++;
+    this.contentsByHash.set(hash, [...candidates, newContent]);
+    return newContent;
+  }
+}
+
+/**
+ * Yields the ids of the tiles at zoom level `z` that intersect the bounds, in increasing order
+ * The tile quadtree is traversed in Hilbert curve order, skipping the quadrants outside of the bounds,
+ * so the ids are not all held in memory. Bounds with `west > east` cross the antimeridian.
+ */
+function* getTileIds(z: number, bounds: [[number, number], [number, number]]): Generator<number> {
+  const [[west, south], [east, north]] = bounds;
+  const [minX, minY] = getTileXY(z, west, north);
+  const [maxX, maxY] = getTileXY(z, east, south);
+  const xRanges: [number, number][] =
+    west > east
+      ? [
+          [minX, 2 ** z - 1],
+          [0, maxX]
+        ]
+      : [[minX, maxX]];
+  yield* getQuadrantTileIds(z, {z: 0, x: 0, y: 0}, xRanges, [minY, maxY]);
+}
+
+/** Yields the ids of the tiles at zoom level `z` in a quadrant that intersect the x and y ranges */
+function* getQuadrantTileIds(
+  z: number,
+  quadrant: {z: number; x: number; y: number},
+  xRanges: [number, number][],
+  yRange: [number, number]
+): Generator<number> {
+  // Range of the tiles at zoom level `z` in the quadrant
+  const size = 2 ** (z - quadrant.z);
+  const [minX, minY] = [quadrant.x * size, quadrant.y * size];
+  const [maxX, maxY] = [minX + size - 1, minY + size - 1];
+  const intersectsX = xRanges.some(([min, max]) => min <= maxX && max >= minX);
+  if (!intersectsX || yRange[0] > maxY || yRange[1] < minY) {
+    return;
+  }
+  if (quadrant.z === z) {
+    yield zxyToTileId(z, quadrant.x, quadrant.y);
+    return;
+  }
+
+  // The Hilbert curve visits the children of a quadrant one after the other
+  const children = [0, 1, 2, 3].map((i) => ({
+    z: quadrant.z + 1,
+    x: quadrant.x * 2 + (i % 2),
+    y: quadrant.y * 2 + Math.floor(i / 2)
+  }));
+  children.sort((a, b) => zxyToTileId(a.z, a.x, a.y) - zxyToTileId(b.z, b.x, b.y));
+  for (const child of children) {
+    yield* getQuadrantTileIds(z, child, xRanges, yRange);
+  }
+}
+
+/** @returns the x, y index of the web mercator tile containing a position */
+function getTileXY(z: number, lng: number, lat: number): [x: number, y: number] {
+  const size = 2 ** z;
+  const latitude =
+    (Math.max(Math.min(lat, WORLD_BOUNDS[1][1]), WORLD_BOUNDS[0][1]) * Math.PI) / 180;
+  const x = ((lng + 180) / 360) * size;
+  const y = ((1 - Math.log(Math.tan(latitude) + 1 / Math.cos(latitude)) / Math.PI) / 2) * size;
+  const clamp = (value: number) => Math.min(Math.max(Math.floor(value), 0), size - 1);
+  return [clamp(x), clamp(y)];
+}
+
+/** Metadata of the tile source, with application supplied metadata (e.g. `vector_layers`) */
+function encodeJSONMetadata(
+  sourceMetadata: TileSourceMetadata,
+  metadata?: Record<string, unknown>
+): ArrayBuffer {
+  const jsonMetadata: Record<string, unknown> = {};
+  if (sourceMetadata.name) {
+    jsonMetadata.name = sourceMetadata.name;
+  }
+  if (sourceMetadata.attributions?.length) {
+    jsonMetadata.attribution = sourceMetadata.attributions.join(', ');
+  }
+  return new TextEncoder().encode(JSON.stringify({...jsonMetadata, ...metadata})).buffer;
+}
+
+/** Encodes tiles that the tile source did not return as encoded tiles */
+async function encodeTile(
+  tile: unknown,
+  tileIndex: {x: number; y: number; z: number},
+  options: WritePMTilesOptions
+): Promise<ArrayBuffer> {
+  if (tile instanceof ArrayBuffer) {
+    return tile;
+  }
+  if (ArrayBuffer.isView(tile)) {
+    return tile.buffer.slice(tile.byteOffset, tile.byteOffset + tile.byteLength);
+  }
+  if (isFeatures(tile)) {
+    return MVTWriter.encodeSync(tile, {mvt: {...options.mvt, tileIndex}});
+  }
+  if (isImage(tile as ImageType)) {
+    return await ImageWriter.encode(tile as ImageDataType, {image: {mimeType: 'image/png'}});
+  }
+  throw new Error('PMTilesWriter: tile source returned unsupported tile data');
+}
+
+function isFeatures(tile: unknown): tile is MVTTileData {
+  const shape = (tile as {shape?: unknown}).shape;
+  return Array.isArray(tile) || shape === 'geojson-table' || shape === 'binary-feature-collection';
+}
+
+/** Detects the type and compression of a tile from its signature */
+function getTileType(tileData: ArrayBuffer): [pmtiles.TileType, pmtiles.Compression] {
+  const bytes = new Uint8Array(tileData);
+  const ascii = String.fromCharCode(...bytes.subarray(0, 12));
+  switch (true) {
+    case bytes[0] === 0x1f && bytes[1] === 0x8b:
+      // Only vector tiles are compressed
+      return [TileType.Mvt, Compression.Gzip];
+    case ascii.startsWith('\x89PNG'):
+      return [TileType.Png, Compression.None];
+    case bytes[0] === 0xff && bytes[1] === 0xd8:
+      return [TileType.Jpeg, Compression.None];
+    case ascii.startsWith('RIFF') && ascii.slice(8) === 'WEBP':
+      return [TileType.Webp, Compression.None];
+    case ascii.slice(4, 12) === 'ftypavif':
+      return [TileType.Avif, Compression.None];
+    case bytes[0] === 0x1a:
+      // Vector tiles start with a `layers` message field
+      return [TileType.Mvt, Compression.None];
+    default:
+      return [TileType.Unknown, Compression.None];
+  }
+}
+
+function getCompressor(
+  compression: 'gzip' | 'none'
+): (arrayBuffer: ArrayBuffer) => Promise<ArrayBuffer> {
+  switch (compression) {
+    case 'gzip':
+      const gzip = new GZipCompression();
+      return (arrayBuffer) => gzip.compress(arrayBuffer);
+    case 'none':
+      return async (arrayBuffer) => arrayBuffer;
+    default:
+      throw new Error(`PMTilesWriter: unsupported compression ${compression}`);
+  }
+}
+
+/** 53-bit cyrb53 hash, a number that is safe to use as a map key */
+function hashBytes(bytes: Uint8Array): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < bytes.length; i++) {
+    h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+    h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
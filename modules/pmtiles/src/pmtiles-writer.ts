@@ -0,0 +1,34 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {WriterWithEncoder, WriterOptions, TileSource} from '@loaders.gl/loader-utils';
+import {MemoryFileSystem} from '@loaders.gl/loader-utils';
+import {VERSION} from './lib/version';
+import {PMTilesFormat} from './pmtiles-format';
+import type {WritePMTilesOptions} from './lib/write-pmtiles';
+import {writePMTiles} from './lib/write-pmtiles';
+
+export type PMTilesWriterOptions = WriterOptions & {
+  pmtiles?: WritePMTilesOptions;
+};
+
+/**
+ * Writer for PMTiles archives, encodes the tiles of a tile source
+ * @note To write large archives to a file, use `writePMTiles()`.
+ */
+export const PMTilesWriter = {
+  ...PMTilesFormat,
+  version: VERSION,
+  binary: true,
+  options: {
+    pmtiles: {}
+  },
+  async encode(tileSource: TileSource, options?: PMTilesWriterOptions): Promise<ArrayBuffer> {
+    const fileSystem = new MemoryFileSystem();
+    const file = await fileSystem.openWritable('archive.pmtiles');
+    await writePMTiles(file, tileSource, options?.pmtiles);
+    await file.close();
+    return fileSystem.getFileMap()['archive.pmtiles'];
+  }
+} as const satisfies WriterWithEncoder<TileSource, never, PMTilesWriterOptions>;
@@ -5,3 +5,4 @@
 import './pmtiles-source.spec';
 
 import './pmtiles-loader.spec';
+import './pmtiles-writer.spec';
@@ -0,0 +1,198 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {encode} from '@loaders.gl/core';
+import type {TileSource, TileSourceMetadata, GetTileParameters} from '@loaders.gl/loader-utils';
+import {MemoryFileSystem} from '@loaders.gl/loader-utils';
+import type {GeoJSONTable, Point} from '@loaders.gl/schema';
+import {TableTileSource} from '@loaders.gl/mvt';
+import {PMTilesSource, PMTilesWriter, writePMTiles} from '@loaders.gl/pmtiles';
+import {zxyToTileId} from 'pmtiles';
+import {getError} from 'test/common/get-error';
+
+/** Vector tiles start with the `layers` field */
+const TILE = new Uint8Array([0x1a, 0x02, 0x78, 0x01]).buffer;
+
+test('PMTilesWriter#deduplicates tiles', async (t) => {
+  const tileSource = createTileSource(() => TILE, {minZoom: 0, maxZoom: 3, name: 'test'});
+  const arrayBuffer = await encode(tileSource, PMTilesWriter);
+
+  const source = PMTilesSource.createDataSource(new Blob([arrayBuffer]), {});
+  const header = await source.pmtiles.getHeader();
+  t.equal(header.numAddressedTiles, 1 + 4 + 16 + 64, 'all tiles are addressed');
+  t.equal(header.numTileContents, 1, 'identical tiles are stored once');
+  t.equal(header.numTileEntries, 1, 'consecutive identical tiles share an entry');
+  t.ok(header.clustered);
+  t.equal(
+    header.tileDataOffset,
+    16384,
+    'tile data follows the space reserved for the root directory'
+  );
+  t.ok(
+    header.leafDirectoryOffset >= header.tileDataOffset + Number(header.tileDataLength) &&
+      header.jsonMetadataOffset >= header.leafDirectoryOffset + Number(header.leafDirectoryLength),
+    'leaf directories and metadata follow the tile data'
+  );
+
+  const metadata = await source.getMetadata();
+  t.equal(metadata.tileMIMEType, 'application/vnd.mapbox-vector-tile');
+  t.equal(metadata.name, 'test');
+  t.deepEqual([metadata.minZoom, metadata.maxZoom], [0, 3]);
+
+  t.deepEqual(await source.getTile({z: 3, x: 5, y: 2}), TILE);
+  t.equal(await source.getTile({z: 4, x: 0, y: 0}), null);
+  t.end();
+});
+
+test('PMTilesWriter#leaf directories', async (t) => {
+  // Unique tiles, except in the western half of the world
+  const getTile = ({x, y, z}: GetTileParameters) =>
+    x < 2 ** (z - 1) ? null : new Uint32Array([z, x, y]).buffer;
+  const tileSource = createTileSource(getTile, {minZoom: 0, maxZoom: 7});
+
+  const fileSystem = new MemoryFileSystem();
+  const file = await fileSystem.openWritable('tiles.pmtiles');
+  await writePMTiles(file, tileSource, {minZoom: 1, internalCompression: 'none'});
+  await file.close();
+  const arrayBuffer = fileSystem.getFileMap()['tiles.pmtiles'];
+
+  const source = PMTilesSource.createDataSource(new Blob([arrayBuffer]), {});
+  const header = await source.pmtiles.getHeader();
+  t.ok(header.rootDirectoryLength <= 16384 - 127, 'root directory fits in the first 16KB');
+  t.ok(Number(header.leafDirectoryLength) > 0, 'leaf directories are written');
+  t.equal(header.numTileContents, (4 ** 8 - 4) / 3 / 2);
+  t.deepEqual([header.minZoom, header.maxZoom], [1, 7]);
+
+  for (const [z, x, y] of [
+    [1, 1, 0],
+    [5, 17, 3],
+    [7, 127, 127],
+    [7, 100, 31]
+  ]) {
+    t.deepEqual(await source.getTile({z, x, y}), getTile({z, x, y}), `tile ${z}/${x}/${y}`);
+  }
+  t.equal(await source.getTile({z: 7, x: 0, y: 0}), null, 'missing tile');
+  t.equal(await source.getTile({z: 0, x: 0, y: 0}), null, 'tile below minZoom');
+  t.end();
+});
+
+test('PMTilesWriter#TableVectorTileSource', async (t) => {
+  const table: GeoJSONTable = {
+    shape: 'geojson-table',
+    type: 'FeatureCollection',
+    features: [
+      {type: 'Feature', geometry: {type: 'Point', coordinates: [2.35, 48.85]}, properties: {n: 1}},
+      {type: 'Feature', geometry: {type: 'Point', coordinates: [-74, 40.7]}, properties: {n: 2}}
+    ]
+  };
+  // Tiles are generated and written with local coordinates
+  const tableSource = TableTileSource.createDataSource(table, {table: {maxZoom: 4}});
+
+  const arrayBuffer = await encode(tableSource, PMTilesWriter, {
+    pmtiles: {
+      bounds: [
+        [0, 40],
+        [10, 50]
+      ],
+      mvt: {layerName: 'points'},
+      // eslint-disable-next-line camelcase
+      metadata: {vector_layers: [{id: 'points', fields: {n: 'Number'}}]}
+    }
+  });
+
+  const source = PMTilesSource.createDataSource(new Blob([arrayBuffer]), {});
+  const metadata = await source.getMetadata();
+  t.deepEqual(metadata.boundingBox, [
+    [0, 40],
+    [10, 50]
+  ]);
+  t.deepEqual(
+    metadata.tilejson?.layers?.map((layer) => layer.name),
+    ['points']
+  );
+
+  const tile = (await source.getVectorTile({z: 4, x: 8, y: 5})) as GeoJSONTable;
+  t.equal(tile.features.length, 1, 'tiles within bounds are written');
+  const [lng, lat] = (tile.features[0].geometry as Point).coordinates;
+  // Positions are rounded to the 4096 x 4096 tile grid
+  t.ok(Math.abs(lng - 2.35) < 1e-2 && Math.abs(lat - 48.85) < 1e-2, 'coordinates are preserved');
+  t.deepEqual(tile.features[0].properties, {n: 1});
+
+  t.equal(
+    await source.getTile({z: 4, x: 4, y: 6}),
+    null,
+    'tiles outside of bounds are not written'
+  );
+  t.end();
+});
+
+test('PMTilesWriter#bounds', async (t) => {
+  const requestedTiles: GetTileParameters[] = [];
+  const getTile = (parameters: GetTileParameters) => {
+    requestedTiles.push(parameters);
+    return new Uint32Array([parameters.z, parameters.x, parameters.y]).buffer;
+  };
+  const tileSource = createTileSource(getTile, {minZoom: 0, maxZoom: 6});
+
+  const arrayBuffer = await encode(tileSource, PMTilesWriter, {
+    pmtiles: {
+      // Crosses the antimeridian
+      bounds: [
+        [170, -10],
+        [-170, 10]
+      ]
+    }
+  });
+
+  const tileIds = requestedTiles.map(({z, x, y}) => zxyToTileId(z, x, y));
+  t.ok(
+    tileIds.every((tileId, i) => i === 0 || tileId > tileIds[i - 1]),
+    'tiles are requested in tile id order'
+  );
+  const xs = new Set(requestedTiles.filter(({z}) => z === 6).map(({x}) => x));
+  t.deepEqual(
+    [...xs].sort((a, b) => a - b),
+    [0, 1, 62, 63],
+    'tiles on both sides of the antimeridian are requested'
+  );
+
+  const source = PMTilesSource.createDataSource(new Blob([arrayBuffer]), {});
+  const header = await source.pmtiles.getHeader();
+  t.deepEqual([header.minLon, header.maxLon, header.centerLon], [170, -170, -180]);
+  for (const [z, x, y] of [
+    [6, 63, 30],
+    [6, 0, 33]
+  ]) {
+    t.deepEqual(await source.getTile({z, x, y}), getTile({z, x, y}), `tile ${z}/${x}/${y}`);
+  }
+  t.equal(await source.getTile({z: 6, x: 32, y: 32}), null, 'tiles outside of bounds');
+  t.end();
+});
+
+test('PMTilesWriter#tile types', async (t) => {
+  const PNG_TILE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).buffer;
+  const tileSource = createTileSource(({z}) => (z === 2 ? PNG_TILE : TILE), {
+    minZoom: 0,
+    maxZoom: 2
+  });
+  const error = await getError(encode(tileSource, PMTilesWriter));
+  t.equal(
+    error?.message,
+    'PMTilesWriter: tile 2/0/0 has a different type than the first tile',
+    'tiles with different types are rejected'
+  );
+  t.end();
+});
+
+function createTileSource(
+  getTile: (parameters: GetTileParameters) => ArrayBuffer | null,
+  metadata: TileSourceMetadata
+): TileSource {
+  return {
+    getMetadata: async () => metadata,
+    getTile: async (parameters) => getTile(parameters),
+    getTileData: async () => null
+  };
+}
@@ -0,0 +1,105 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {
+  ResponseCacheStorage,
+  ResponseCacheEntry,
+  ResponseCacheEntryInfo
+} from '@loaders.gl/loader-utils';
+import fsPromise from 'fs/promises';
+import {createHash} from 'crypto';
+import {join} from 'path';
+
+/** Entry metadata, stored as JSON next to the response body */
+type EntryMetadata = Omit<ResponseCacheEntry, 'body'> & {key: string; byteLength: number};
+
+/**
+ * Stores responses in a directory on the local file system, persisting them across runs
+ * - Each entry is stored as a `.json` metadata file and a `.bin` body file, named after a hash of the key.
+ */
+export class NodeFileResponseCacheStorage implements ResponseCacheStorage {
+  readonly directory: string;
+
+  constructor(props: {directory: string}) {
+    this.directory = props.directory;
+  }
+
+  async get(key: string): Promise<ResponseCacheEntry | null> {
+    const metadata = await this._readMetadata(this._getPath(key, 'json'));
+    if (!metadata) {
+      return null;
+    }
+    try {
+      const buffer = await fsPromise.readFile(this._getPath(key, 'bin'));
+      const body = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+      const {url, status, statusText, headers, responseTime, lastAccessed} = metadata;
+      return {url, status, statusText, headers, body, responseTime, lastAccessed};
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+    const {body, ...entryWithoutBody} = entry;
+    const metadata: EntryMetadata = {...entryWithoutBody, key, byteLength: body.byteLength};
+    await fsPromise.mkdir(this.directory, {recursive: true});
+    // Write the body first, entries without metadata are ignored
+    await fsPromise.writeFile(this._getPath(key, 'bin'), new Uint8Array(body));
+    await fsPromise.writeFile(this._getPath(key, 'json'), JSON.stringify(metadata));
+  }
+
+  async touch(key: string, lastAccessed: number): Promise<void> {
+    const path = this._getPath(key, 'json');
+    const metadata = await this._readMetadata(path);
+    if (metadata) {
+      await fsPromise.writeFile(path, JSON.stringify({...metadata, lastAccessed}));
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsPromise.rm(this._getPath(key, 'json'), {force: true});
+    await fsPromise.rm(this._getPath(key, 'bin'), {force: true});
+  }
+
+  async entries(): Promise<ResponseCacheEntryInfo[]> {
+    let filenames: string[];
+    try {
+      filenames = await fsPromise.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const entries: ResponseCacheEntryInfo[] = [];
+    for (const filename of filenames) {
+      if (filename.endsWith('.json')) {
+        const metadata = await this._readMetadata(join(this.directory, filename));
+        if (metadata) {
+          const {key, byteLength, lastAccessed} = metadata;
+          entries.push({key, byteLength, lastAccessed});
+        }
+      }
+    }
+    return entries;
+  }
+
+  async clear(): Promise<void> {
+    await fsPromise.rm(this.directory, {recursive: true, force: true});
+  }
+
+  // PRIVATE
+
+  protected _getPath(key: string, extension: 'json' | 'bin'): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(this.directory, `${hash}.${extension}`);
+  }
+
+  protected async _readMetadata(path: string): Promise<EntryMetadata | null> {
+    try {
+      const buffer = await fsPromise.readFile(path);
+      return JSON.parse(buffer.toString('utf8'));
+    } catch {
+      return null;
+    }
+  }
+}
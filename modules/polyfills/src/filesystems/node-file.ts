@@ -102,14 +102,15 @@ export class NodeFile implements ReadableFile, WritableFile {
 
   async write(
     arrayBuffer: ArrayBuffer,
-    offset: number | bigint = 0,
+    offset?: number | bigint,
     length: number = arrayBuffer.byteLength
   ): Promise<number> {
     return new Promise((resolve, reject) => {
       // TODO - Node.js doesn't offer write with bigint offsets???
-      const nOffset = Number(offset);
-      const uint8Array = new Uint8Array(arrayBuffer, Number(offset), length);
-      fs.write(this.handle, uint8Array, 0, length, nOffset, (err, bytesWritten) =>
+      // A null position writes at the current file position, i.e. after the previous write
+      const position = offset === undefined ? null : Number(offset);
+      const uint8Array = new Uint8Array(arrayBuffer, 0, length);
+      fs.write(this.handle, uint8Array, 0, length, position, (err, bytesWritten) =>
         err ? reject(err) : resolve(bytesWritten)
       );
     });
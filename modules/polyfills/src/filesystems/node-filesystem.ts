@@ -2,9 +2,10 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
-import {Stat, RandomAccessFileSystem} from '@loaders.gl/loader-utils';
+import {Stat, RandomAccessFileSystem, WritableFileSystem} from '@loaders.gl/loader-utils';
 // @ts-expect-error
 import fsPromise from 'fs/promises';
+import {dirname} from 'path';
 import {NodeFile} from './node-file';
 import {fetchNode} from './fetch-node';
 
@@ -16,7 +17,7 @@ import {fetchNode} from './fetch-node';
  * Compatible with BrowserFileSystem.
  * @param options
  */
-export class NodeFileSystem implements RandomAccessFileSystem {
+export class NodeFileSystem implements RandomAccessFileSystem, WritableFileSystem {
   readable: boolean = true;
   writable: boolean = true;
 
@@ -52,4 +53,42 @@ export class NodeFileSystem implements RandomAccessFileSystem {
   async openWritableFile(path: string, flags: 'w' | 'wx' = 'w', mode?: any): Promise<NodeFile> {
     return new NodeFile(path, flags, mode);
   }
+
+  // implements WritableFileSystem
+
+  async mkdir(path: string): Promise<void> {
+    await fsPromise.mkdir(path, {recursive: true});
+  }
+
+  async writeFile(path: string, data: ArrayBuffer | ArrayBufferView | string): Promise<void> {
+    await fsPromise.mkdir(dirname(path), {recursive: true});
+    if (typeof data === 'string') {
+      await fsPromise.writeFile(path, data);
+    } else if (ArrayBuffer.isView(data)) {
+      await fsPromise.writeFile(
+        path,
+        new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      );
+    } else {
+      await fsPromise.writeFile(path, new Uint8Array(data));
+    }
+  }
+
+  async openWritable(path: string): Promise<NodeFile> {
+    await fsPromise.mkdir(dirname(path), {recursive: true});
+    return new NodeFile(path, 'w');
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      await fsPromise.stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    await fsPromise.rm(path, {recursive: true, force: true});
+  }
 }
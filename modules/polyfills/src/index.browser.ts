@@ -5,6 +5,7 @@ export function installFilePolyfills() {}
 
 // Dummy export to avoid import errors in browser tests
 export const NodeFileSystem = null;
+export const NodeFileResponseCacheStorage = null;
 
 export function fetchNode(path: string, options: RequestInit): Promise<Response> {
   throw new Error('fetchNode not available in browser');
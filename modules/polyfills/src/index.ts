@@ -46,6 +46,8 @@ globalThis.loaders.NodeFile = NodeFile;
 globalThis.loaders.NodeFileSystem = NodeFileSystem;
 globalThis.loaders.fetchNode = fetchNode;
 
+export {NodeFileResponseCacheStorage} from './filesystems/node-file-response-cache-storage';
+
 // CRYPTO POLYFILLS
 globalThis.loaders.NodeHash = NodeHash;
 
@@ -96,13 +98,15 @@ import {
   readFileAsArrayBuffer,
   readFileAsText,
   requireFromFile,
-  requireFromString
+  requireFromString,
+  resolvePackageFile
 } from './load-library/require-utils.node';
 
 globalThis.loaders.readFileAsArrayBuffer = readFileAsArrayBuffer;
 globalThis.loaders.readFileAsText = readFileAsText;
 globalThis.loaders.requireFromFile = requireFromFile;
 globalThis.loaders.requireFromString = requireFromString;
+globalThis.loaders.resolvePackageFile = resolvePackageFile;
 
 export {installFilePolyfills} from './file/install-file-polyfills';
 
@@ -36,6 +36,22 @@ export async function readFileAsText(filename: string): Promise<string> {
   return text;
 }
 
+/**
+ * Resolves a file in the folder of the entry point of an installed package, e.g. a worker bundle
+ * Packages are resolved relative to cwd
+ * @returns the absolute path of the file, or `null` if the package or the file is not found
+ */
+export function resolvePackageFile(packageName: string, filename: string): string | null {
+  try {
+    // @ts-ignore Not present in older Node.js type definitions
+    const require = Module.createRequire(path.join(process.cwd(), 'noop.js'));
+    const filePath = path.join(path.dirname(require.resolve(packageName)), filename);
+    return fs.existsSync(filePath) ? filePath : null;
+  } catch {
+    return null;
+  }
+}
+
 // Node.js Dynamically require from file
 // Relative names are resolved relative to cwd
 // This indirect function is provided because webpack will try to bundle `module.require`.
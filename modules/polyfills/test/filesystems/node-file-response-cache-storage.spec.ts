@@ -0,0 +1,66 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {isBrowser} from '@loaders.gl/core';
+import {ResponseCache} from '@loaders.gl/loader-utils';
+import {NodeFileResponseCacheStorage} from '@loaders.gl/polyfills';
+
+const CACHE_DIRECTORY = 'modules/polyfills/test/data/.response-cache';
+const URL = 'https://example.com/data.bin';
+
+if (!isBrowser) {
+  test('NodeFileResponseCacheStorage', async (t) => {
+    const storage = new NodeFileResponseCacheStorage({directory: CACHE_DIRECTORY});
+    const entry = {
+      url: URL,
+      status: 200,
+      statusText: 'OK',
+      headers: {etag: '"v1"'},
+      body: new Uint8Array([1, 2, 3, 4]).buffer,
+      responseTime: 1,
+      lastAccessed: 1
+    };
+
+    await storage.set('key', entry);
+    t.deepEqual(await storage.get('key'), entry, 'stores entries');
+    t.deepEqual(
+      await storage.entries(),
+      [{key: 'key', byteLength: 4, lastAccessed: 1}],
+      'lists entries'
+    );
+
+    await storage.touch('key', 2);
+    t.equal((await storage.entries())[0].lastAccessed, 2, 'updates access time');
+
+    await storage.delete('key');
+    t.equal(await storage.get('key'), null, 'deletes entries');
+
+    await storage.clear();
+    t.deepEqual(await storage.entries(), [], 'clears entries');
+    t.end();
+  });
+
+  test('NodeFileResponseCacheStorage#persists responses', async (t) => {
+    let requestCount = 0;
+    const fetchFunction = async () => {
+      requestCount++;
+      return new Response('data', {headers: {'Cache-Control': 'max-age=60'}});
+    };
+
+    const storage = new NodeFileResponseCacheStorage({directory: CACHE_DIRECTORY});
+    await new ResponseCache({storage}).fetch(URL, {}, fetchFunction);
+
+    // A new cache (e.g. in a new process) reads responses from the directory
+    const cache = new ResponseCache({
+      storage: new NodeFileResponseCacheStorage({directory: CACHE_DIRECTORY})
+    });
+    const response = await cache.fetch(URL, {}, fetchFunction);
+    t.equal(await response.text(), 'data', 'returns stored response');
+    t.equal(requestCount, 1, 'served from directory');
+
+    await storage.clear();
+    t.end();
+  });
+}
@@ -17,4 +17,28 @@ if (!isBrowser) {
     t.ok(NodeFilesystem, 'NodeFileSystem defined');
     t.end();
   });
+
+  test('NodeFileSystem#WritableFileSystem', async (t) => {
+    const fileSystem = new NodeFilesystem({});
+    const directory = 'modules/polyfills/test/data/.writable-filesystem';
+
+    await fileSystem.writeFile(`${directory}/tiles/0.json`, '{}');
+    t.ok(await fileSystem.exists(`${directory}/tiles`), 'creates parent directories');
+    t.deepEqual(await fileSystem.readdir(`${directory}/tiles`), ['0.json'], 'writes file');
+
+    const file = await fileSystem.openWritable(`${directory}/data.bin`);
+    await file.write(new Uint8Array([1, 2]).buffer);
+    await file.write(new Uint8Array([3]).buffer);
+    await file.close();
+    const response = await fileSystem.fetch(`${directory}/data.bin`, {});
+    t.deepEqual(
+      Array.from(new Uint8Array(await response.arrayBuffer())),
+      [1, 2, 3],
+      'appends writes'
+    );
+
+    await fileSystem.delete(directory);
+    t.notOk(await fileSystem.exists(directory), 'deletes directory');
+    t.end();
+  });
 }
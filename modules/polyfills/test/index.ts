@@ -13,6 +13,9 @@ import './file/file-polyfill.spec';
 import './filesystems/fetch-node.spec';
 import './filesystems/node-file.spec';
 import './filesystems/node-filesystem.spec';
+import './filesystems/node-file-response-cache-storage.spec';
+
+import './load-library/resolve-package-file.spec';
 
 // TODO - v4.0 restore these tests
 // import './load-library/require-utils.spec';
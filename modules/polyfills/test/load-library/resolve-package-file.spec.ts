@@ -0,0 +1,21 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {isBrowser} from '@loaders.gl/core';
+import {resolvePackageFile} from '../../src/load-library/require-utils.node';
+
+test('polyfills#resolvePackageFile', (t) => {
+  if (isBrowser) {
+    t.comment('resolvePackageFile is Node.js only');
+    t.end();
+    return;
+  }
+
+  const filePath = resolvePackageFile('@probe.gl/stats', 'index.cjs');
+  t.ok(filePath?.endsWith('index.cjs'), 'resolves file next to package entry point');
+  t.equal(resolvePackageFile('@probe.gl/stats', 'missing.cjs'), null, 'missing file');
+  t.equal(resolvePackageFile('@loaders.gl/missing-module', 'index.cjs'), null, 'missing package');
+  t.end();
+});
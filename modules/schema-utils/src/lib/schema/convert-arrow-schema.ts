@@ -222,10 +222,12 @@ export function deserializeArrowType(dataType: DataType): arrow.DataType {
   if (typeof dataType === 'object') {
     switch (dataType.type) {
       case 'decimal':
-        return new arrow.Decimal(dataType.precision, dataType.scale, dataType.bitWidth);
+        return new arrow.Decimal(dataType.scale, dataType.precision, dataType.bitWidth);
       case 'map':
-        let children = dataType.children.map((arrowField) => deserializeArrowField(arrowField));
-        return new arrow.Map_(children as any, dataType.keysSorted);
+        const mapChildren = dataType.children.map((arrowField) =>
+          deserializeArrowField(arrowField)
+        );
+        return new arrow.Map_(mapChildren as any, dataType.keysSorted);
       case 'list':
         const field = deserializeArrowField(dataType.children[0]);
         return new arrow.List(field);
@@ -233,8 +235,10 @@ export function deserializeArrowType(dataType: DataType): arrow.DataType {
         const child = deserializeArrowField(dataType.children[0]);
         return new arrow.FixedSizeList(dataType.listSize, child);
       case 'struct':
-        children = dataType.children.map((arrowField) => deserializeArrowField(arrowField));
-        return new arrow.Struct(children);
+        const structChildren = dataType.children.map((arrowField) =>
+          deserializeArrowField(arrowField)
+        );
+        return new arrow.Struct(structChildren);
       default:
         throw new Error('array type not supported');
     }
@@ -0,0 +1,56 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {WriterWithEncoder, WriterOptions} from '@loaders.gl/loader-utils';
+import type {ArrayRowTable, ColumnarTable, GeoJSONTable, ObjectRowTable} from '@loaders.gl/schema';
+import {convertTable} from '@loaders.gl/schema-utils';
+import type {EncodeDBFOptions} from './lib/encoders/encode-dbf';
+import {encodeDBF} from './lib/encoders/encode-dbf';
+import {DBFFormat} from './dbf-format';
+
+// __VERSION__ is injected by babel-plugin-version-inline
+// @ts-ignore TS2304: Cannot find name '__VERSION__'.
+const VERSION = typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'latest';
+
+export type DBFWriterOptions = WriterOptions & {
+  dbf?: {
+    /** Encoding of the strings, `'utf-8'` or `'latin1'` */
+    encoding?: string;
+  };
+};
+
+/** Tables that can be encoded, the properties of the features of GeoJSON tables are written */
+export type DBFTable = ObjectRowTable | ArrayRowTable | ColumnarTable | GeoJSONTable;
+
+const DEFAULT_DBF_WRITER_OPTIONS: EncodeDBFOptions = {
+  encoding: 'latin1'
+};
+
+/**
+ * Writer for DBF files, the attribute tables of shapefiles
+ */
+export const DBFWriter = {
+  ...DBFFormat,
+  version: VERSION,
+  binary: true,
+  options: {
+    dbf: DEFAULT_DBF_WRITER_OPTIONS as DBFWriterOptions['dbf']
+  },
+  async encode(table: DBFTable, options?: DBFWriterOptions): Promise<ArrayBuffer> {
+    return encodeDBFTable(table, options);
+  },
+  encodeSync(table: DBFTable, options?: DBFWriterOptions): ArrayBuffer {
+    return encodeDBFTable(table, options);
+  }
+} as const satisfies WriterWithEncoder<DBFTable, never, DBFWriterOptions>;
+
+function encodeDBFTable(table: DBFTable, options?: DBFWriterOptions): ArrayBuffer {
+  const dbfOptions = {...DEFAULT_DBF_WRITER_OPTIONS, ...options?.dbf};
+  if (table.shape === 'geojson-table') {
+    const rows = table.features.map((feature) => feature.properties || {});
+    return encodeDBF(rows, table.schema, dbfOptions);
+  }
+  const {data, schema} = convertTable(table, 'object-row-table');
+  return encodeDBF(data, schema, dbfOptions);
+}
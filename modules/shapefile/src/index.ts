@@ -12,6 +12,13 @@ export {DBFArrowLoader, DBFArrowWorkerLoader} from './dbf-arrow-loader';
 export type {SHPLoaderOptions} from './shp-loader';
 export {SHPLoader, SHPWorkerLoader} from './shp-loader';
 
+export type {ShapefileWriterOptions} from './shapefile-writer';
+export type {ShapefileTable} from './lib/encoders/encode-shapefile';
+export {ShapefileWriter, encodeShapefile} from './shapefile-writer';
+
+export type {DBFWriterOptions, DBFTable} from './dbf-writer';
+export {DBFWriter} from './dbf-writer';
+
 // EXPERIMENTAL
 export {BinaryReader as _BinaryReader} from './lib/streaming/binary-reader';
 export {BinaryChunkReader as _BinaryChunkReader} from './lib/streaming/binary-chunk-reader';
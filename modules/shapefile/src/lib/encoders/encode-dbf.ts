@@ -0,0 +1,327 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {DataType, Schema} from '@loaders.gl/schema';
+import type {DBFField} from '../parsers/types';
+
+const LITTLE_ENDIAN = true;
+const DBF_HEADER_SIZE = 32;
+const DBF_FIELD_DESCRIPTOR_SIZE = 32;
+const DBF_HEADER_TERMINATOR = 0x0d;
+const DBF_EOF_MARKER = 0x1a;
+const DBF_VERSION = 0x03;
+
+/** Maximum length of field names, in bytes */
+const MAX_NAME_LENGTH = 10;
+/** Maximum length of character fields, in bytes */
+const MAX_CHARACTER_LENGTH = 254;
+/** Maximum length of numeric fields, in characters */
+const MAX_NUMBER_LENGTH = 19;
+/** Maximum number of decimals of numeric fields */
+const MAX_DECIMALS = 15;
+
+export type EncodeDBFOptions = {
+  /** Encoding of the strings, `'utf-8'` or `'latin1'` */
+  encoding: string;
+};
+
+type DBFEncoding = 'utf-8' | 'latin1';
+
+type DBFRow = {[columnName: string]: unknown};
+
+/** A field and the column of the rows that it is written from */
+type DBFColumn = DBFField & {columnName: string};
+
+/**
+ * Encodes rows as a dBASE III file, the attribute table of a shapefile
+ * - The type and the length of the fields are inferred from the values, with the schema as a hint.
+ * - Field names are truncated to 10 bytes, numbers are added to names that are not unique after truncation.
+ * @param rows rows of the table
+ * @param schema schema of the table, the fields are written when there are no rows
+ * @see https://www.dbase.com/Knowledgebase/INT/db7_file_fmt.htm
+ */
+// eslint-disable-next-line max-statements
+export function encodeDBF(
+  rows: DBFRow[],
+  schema: Schema | undefined,
+  options: EncodeDBFOptions
+): ArrayBuffer {
+  const encoding = getDBFEncoding(options.encoding);
+  const columns = getDBFColumns(rows, schema, encoding);
+
+  const headerLength = DBF_HEADER_SIZE + columns.length * DBF_FIELD_DESCRIPTOR_SIZE + 1;
+  // Each record starts with a deletion flag
+  const recordLength = columns.reduce((length, column) => length + column.fieldLength, 1);
+
+  const bytes = new Uint8Array(headerLength + rows.length * recordLength + 1);
+  const dataView = new DataView(bytes.buffer);
+
+  const date = new Date();
+  dataView.setUint8(0, DBF_VERSION);
+  dataView.setUint8(1, date.getUTCFullYear() - 1900);
+  dataView.setUint8(2, date.getUTCMonth() + 1);
+  dataView.setUint8(3, date.getUTCDate());
+  dataView.setUint32(4, rows.length, LITTLE_ENDIAN);
+  dataView.setUint16(8, headerLength, LITTLE_ENDIAN);
+  dataView.setUint16(10, recordLength, LITTLE_ENDIAN);
+  dataView.setUint8(29, getDBFLanguageDriver(encoding));
+
+  let offset = DBF_HEADER_SIZE;
+  for (const column of columns) {
+    bytes.set(encodeString(column.name, encoding), offset);
+    dataView.setUint8(offset + 11, column.dataType.charCodeAt(0));
+    dataView.setUint8(offset + 16, column.fieldLength);
+    dataView.setUint8(offset + 17, column.decimal);
+    offset += DBF_FIELD_DESCRIPTOR_SIZE;
+  }
+  bytes[offset++] = DBF_HEADER_TERMINATOR;
+
+  // Records are padded with spaces, which also mark null values
+  bytes.fill(0x20, offset, bytes.length - 1);
+  for (const row of rows) {
+    // Skip the deletion flag
+    offset++;
+    for (const column of columns) {
+      const text = encodeValue(row[column.columnName], column);
+      bytes.set(encodeFieldText(text, column, encoding), offset);
+      offset += column.fieldLength;
+    }
+  }
+  bytes[offset] = DBF_EOF_MARKER;
+
+  return bytes.buffer;
+}
+
+/**
+ * Returns the code page of an encoding, as written in the `.cpg` file of a shapefile
+ * @note ShapefileLoader decodes the `.dbf` file with the code page in the `.cpg` file
+ */
+export function getDBFCodePage(encoding: string): string {
+  return getDBFEncoding(encoding) === 'utf-8' ? 'UTF-8' : 'ISO-8859-1';
+}
+
+function getDBFEncoding(encoding: string): DBFEncoding {
+  switch (encoding.toLowerCase()) {
+    case 'utf-8':
+    case 'utf8':
+      return 'utf-8';
+    case 'latin1':
+    case 'iso-8859-1':
+      return 'latin1';
+    default:
+      throw new Error(`DBFWriter: unsupported encoding ${encoding}`);
+  }
+}
+
+/** Language driver ID of the encoding, 0x57 is ANSI. UTF-8 has no language driver ID */
+function getDBFLanguageDriver(encoding: DBFEncoding): number {
+  return encoding === 'latin1' ? 0x57 : 0;
+}
+
+/** Returns the fields of the columns, in the order the columns appear in the rows */
+function getDBFColumns(rows: DBFRow[], schema: Schema | undefined, encoding: DBFEncoding) {
+  const columnNames = new Set<string>();
+  for (const row of rows) {
+    for (const columnName in row) {
+      columnNames.add(columnName);
+    }
+  }
+  if (rows.length === 0) {
+    schema?.fields.forEach((field) => columnNames.add(field.name));
+  }
+
+  const names = new Set<string>();
+  const columns: DBFColumn[] = [];
+  for (const columnName of columnNames) {
+    const values = rows.map((row) => row[columnName]);
+    const type = schema?.fields.find((field) => field.name === columnName)?.type;
+    const name = getUniqueFieldName(columnName, names, encoding);
+    names.add(name);
+    columns.push({columnName, name, ...getDBFFieldType(values, type, encoding)});
+  }
+  return columns;
+}
+
+/** Field names are truncated to 10 bytes, a number is added to names that already exist */
+function getUniqueFieldName(columnName: string, names: Set<string>, encoding: DBFEncoding) {
+  let name = truncateString(columnName, MAX_NAME_LENGTH, encoding);
+  for (let i = 1; names.has(name); i++) {
+    const suffix = String(i);
+    name = truncateString(columnName, MAX_NAME_LENGTH - suffix.length, encoding) + suffix;
+  }
+  return name;
+}
+
+/** Infers the type and the length of a field from the values of a column and its schema type */
+function getDBFFieldType(
+  values: unknown[],
+  type: DataType | undefined,
+  encoding: DBFEncoding
+): Omit<DBFField, 'name'> {
+  const nonNullValues = values.filter((value) => value !== null && value !== undefined);
+  const dataType =
+    (typeof type === 'string' && getDBFDataType(type)) || inferDBFDataType(nonNullValues);
+
+  switch (dataType) {
+    case 'L':
+      return {dataType, fieldLength: 1, decimal: 0};
+    case 'D':
+      return {dataType, fieldLength: 8, decimal: 0};
+    case 'N':
+      return getNumberFieldType(nonNullValues.filter(isNumber));
+    case 'C':
+    default:
+      return getCharacterFieldType(nonNullValues, encoding);
+  }
+}
+
+/** Character fields are as long as the longest value, up to 254 bytes */
+function getCharacterFieldType(values: unknown[], encoding: DBFEncoding): Omit<DBFField, 'name'> {
+  let fieldLength = 1;
+  for (const value of values) {
+    const text = truncateString(encodeCharacter(value), MAX_CHARACTER_LENGTH, encoding);
+    fieldLength = Math.max(fieldLength, encodeString(text, encoding).byteLength);
+  }
+  return {dataType: 'C', fieldLength, decimal: 0};
+}
+
+/** Returns the DBF type of a schema type, `null` if values are written as strings */
+function getDBFDataType(type: string): 'N' | 'L' | 'D' | 'C' | null {
+  if (type === 'bool') {
+    return 'L';
+  }
+  if (type.startsWith('date') || type.startsWith('timestamp')) {
+    return 'D';
+  }
+  if (/^(u?int|float)\d+$/.test(type)) {
+    return 'N';
+  }
+  return type === 'utf8' ? 'C' : null;
+}
+
+function inferDBFDataType(values: unknown[]): 'N' | 'L' | 'D' | 'C' {
+  if (values.length > 0 && values.every((value) => typeof value === 'boolean')) {
+    return 'L';
+  }
+  if (values.length > 0 && values.every((value) => value instanceof Date)) {
+    return 'D';
+  }
+  if (
+    values.length > 0 &&
+    values.every((value) => typeof value === 'number' || typeof value === 'bigint')
+  ) {
+    return 'N';
+  }
+  return 'C';
+}
+
+/**
+ * Numeric fields have enough decimals to write the values exactly, up to 15 decimals
+ * Decimals are dropped when the values do not fit in 19 characters.
+ * 64-bit integers (bigints) are written exactly.
+ */
+function getNumberFieldType(values: (number | bigint)[]): Omit<DBFField, 'name'> {
+  let decimal = 0;
+  for (const value of values) {
+    while (
+      typeof value === 'number' &&
+      decimal < MAX_DECIMALS &&
+      Number(value.toFixed(decimal)) !== value
+    ) {
+      decimal++;
+    }
+  }
+  let fieldLength = values.reduce<number>(
+    (length, value) => Math.max(length, formatNumber(value, decimal).length),
+    1
+  );
+  if (fieldLength > MAX_NUMBER_LENGTH) {
+    decimal = Math.max(0, decimal - (fieldLength - MAX_NUMBER_LENGTH));
+    fieldLength = MAX_NUMBER_LENGTH;
+  }
+  return {dataType: 'N', fieldLength, decimal};
+}
+
+/** Returns the text of a value, an empty string for null values */
+function encodeValue(value: unknown, field: DBFField): string {
+  if (value === null || value === undefined) {
+    return field.dataType === 'L' ? '?' : '';
+  }
+  switch (field.dataType) {
+    case 'L':
+      return value ? 'T' : 'F';
+    case 'D':
+      return encodeDate(value);
+    case 'N':
+      return isNumber(value) ? encodeNumber(value, field) : '';
+    case 'C':
+    default:
+      return encodeCharacter(value);
+  }
+}
+
+/** Numbers that do not fit in the field are written in exponential notation */
+function encodeNumber(value: number | bigint, field: DBFField): string {
+  const text = formatNumber(value, field.decimal);
+  return text.length <= field.fieldLength
+    ? text.padStart(field.fieldLength)
+    : Number(value).toPrecision(Math.max(1, field.fieldLength - 7));
+}
+
+function formatNumber(value: number | bigint, decimal: number): string {
+  if (typeof value === 'bigint') {
+    return decimal > 0 ? `${value}.${'0'.repeat(decimal)}` : String(value);
+  }
+  return value.toFixed(decimal);
+}
+
+/** Dates are written as `YYYYMMDD`, from dates, timestamps in milliseconds or date strings */
+function encodeDate(value: unknown): string {
+  const date = value instanceof Date ? value : new Date(value as number | string);
+  if (isNaN(date.getTime())) {
+    return '';
+  }
+  const year = String(date.getUTCFullYear()).padStart(4, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+/** Objects and arrays are written as JSON */
+function encodeCharacter(value: unknown): string {
+  return typeof value === 'object' && !(value instanceof Date)
+    ? JSON.stringify(value)
+    : String(value);
+}
+
+/** Encodes the text of a field, truncated to the length of the field */
+function encodeFieldText(text: string, field: DBFField, encoding: DBFEncoding): Uint8Array {
+  return encodeString(truncateString(text, field.fieldLength, encoding), encoding);
+}
+
+/** Truncates a string to a number of bytes, without splitting characters */
+function truncateString(text: string, byteLength: number, encoding: DBFEncoding): string {
+  // Each character is encoded in at least one byte
+  const characters = Array.from(text).slice(0, byteLength);
+  while (encodeString(characters.join(''), encoding).byteLength > byteLength) {
+    characters.pop();
+  }
+  return characters.join('');
+}
+
+/** Characters that are not in latin1 are written as `?` */
+function encodeString(text: string, encoding: DBFEncoding): Uint8Array {
+  if (encoding === 'utf-8') {
+    return new TextEncoder().encode(text);
+  }
+  return Uint8Array.from(Array.from(text), (character) => {
+    const code = character.charCodeAt(0);
+    return code < 256 ? code : 0x3f;
+  });
+}
+
+/** Finite numbers and bigints, e.g. the values of int64 columns */
+function isNumber(value: unknown): value is number | bigint {
+  return (typeof value === 'number' && Number.isFinite(value)) || typeof value === 'bigint';
+}
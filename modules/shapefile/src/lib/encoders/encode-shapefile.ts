@@ -0,0 +1,101 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {ArrowTable, Feature, Field, GeoJSONTable} from '@loaders.gl/schema';
+import type {WKTCRS} from '@loaders.gl/gis';
+import {convertToGeoJSONTable} from '@loaders.gl/gis';
+import {WKTCRSWriter} from '@loaders.gl/wkt';
+import type {SHPShapeGroup} from './encode-shp';
+import {encodeSHP, getSHPShapeGroup, getSHPShapeType} from './encode-shp';
+import {encodeDBF, getDBFCodePage} from './encode-dbf';
+
+export type EncodeShapefileOptions = {
+  /** Name of the files, without extension */
+  name: string;
+  /** CRS of the coordinates, written to the `.prj` file. `null` if unknown */
+  crs: WKTCRS | string | null;
+  /** Encoding of the strings of the `.dbf` file, `'utf-8'` or `'latin1'` */
+  encoding: string;
+};
+
+/** Tables that can be encoded as shapefiles */
+export type ShapefileTable = GeoJSONTable | ArrowTable;
+
+/** CRS of the coordinates of GeoJSON, in the ESRI flavor of WKT used by `.prj` files */
+export const WGS84_WKTCRS: WKTCRS = [
+  'GEOGCS',
+  'GCS_WGS_1984',
+  ['DATUM', 'D_WGS_1984', ['SPHEROID', 'WGS_1984', 6378137, 298.257223563]],
+  ['PRIMEM', 'Greenwich', 0],
+  ['UNIT', 'Degree', 0.0174532925199433]
+];
+
+/**
+ * Encodes a table as the files of one or more shapefiles
+ * - A shapefile only contains one type of shapes, so features are split by geometry type.
+ *   With several geometry types, the type is added to the names of the files, e.g. `name_polygon.shp`.
+ * - Features without geometry are written as null shapes with the features of the first geometry type.
+ * @returns A map of file names to file contents: `.shp`, `.shx`, `.dbf`, `.cpg` and `.prj` files
+ */
+export function encodeShapefileFiles(
+  table: ShapefileTable,
+  options: EncodeShapefileOptions
+): Record<string, ArrayBuffer> {
+  const {features, schema} = convertToGeoJSONTable(table);
+  const propertySchema = schema && {...schema, fields: schema.fields.filter(isPropertyField)};
+  const groups = getShapeGroups(features);
+
+  const textEncoder = new TextEncoder();
+  const cpg = textEncoder.encode(getDBFCodePage(options.encoding)).buffer;
+  const prj = options.crs && textEncoder.encode(encodeCRS(options.crs)).buffer;
+
+  const fileMap: Record<string, ArrayBuffer> = {};
+  for (const [group, groupFeatures] of groups) {
+    const name = groups.size > 1 ? `${options.name}_${group}` : options.name;
+    const geometries = groupFeatures.map((feature) => feature.geometry || null);
+    const rows = groupFeatures.map((feature) => feature.properties || {});
+    const {shp, shx} = encodeSHP(geometries, getSHPShapeType(group, geometries));
+
+    fileMap[`${name}.shp`] = shp;
+    fileMap[`${name}.shx`] = shx;
+    fileMap[`${name}.dbf`] = encodeDBF(rows, propertySchema, options);
+    fileMap[`${name}.cpg`] = cpg;
+    if (prj) {
+      fileMap[`${name}.prj`] = prj;
+    }
+  }
+  return fileMap;
+}
+
+/**
+ * Splits features by type of shapes, in the order of the features
+ * Features without geometry are written with the first type of shapes.
+ */
+function getShapeGroups(features: Feature[]): Map<SHPShapeGroup | null, Feature[]> {
+  const firstGeometry = features.find((feature) => feature.geometry)?.geometry;
+  const defaultGroup = firstGeometry ? getSHPShapeGroup(firstGeometry) : null;
+
+  const groups = new Map<SHPShapeGroup | null, Feature[]>();
+  for (const feature of features) {
+    const group = feature.geometry ? getSHPShapeGroup(feature.geometry) : defaultGroup;
+    const groupFeatures = groups.get(group) || [];
+    groupFeatures.push(feature);
+    groups.set(group, groupFeatures);
+  }
+  // Tables without features are written as a shapefile of null shapes
+  if (groups.size === 0) {
+    groups.set(null, []);
+  }
+  return groups;
+}
+
+/** GeoArrow tables have geometry columns in their schema */
+function isPropertyField(field: Field): boolean {
+  const extensionName = field.metadata?.['ARROW:extension:name'] || '';
+  return field.type !== 'binary' && !extensionName.startsWith('geoarrow.');
+}
+
+function encodeCRS(crs: WKTCRS | string): string {
+  return typeof crs === 'string' ? crs : WKTCRSWriter.encodeTextSync(crs, {});
+}
@@ -0,0 +1,285 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {Geometry, Position} from '@loaders.gl/schema';
+
+const LITTLE_ENDIAN = true;
+const BIG_ENDIAN = false;
+const SHP_MAGIC_NUMBER = 0x0000270a;
+const SHP_VERSION = 1000;
+const SHP_HEADER_SIZE = 100;
+const SHP_RECORD_HEADER_SIZE = 8;
+const SHX_RECORD_SIZE = 8;
+
+/** Shapes of a shapefile, a shapefile only contains shapes of one type */
+export type SHPShapeGroup = 'point' | 'multipoint' | 'polyline' | 'polygon';
+
+/** Shape types of the groups, the shape types with Z coordinates are 10 more */
+const SHP_SHAPE_TYPES: Record<SHPShapeGroup, number> = {
+  point: 1,
+  polyline: 3,
+  polygon: 5,
+  multipoint: 8
+};
+const SHP_NULL_SHAPE_TYPE = 0;
+const SHP_Z_SHAPE_TYPE_OFFSET = 10;
+
+/** Positions of a shape, and the indices of the first position of each part */
+type Shape = {
+  positions: Position[];
+  parts: number[];
+};
+
+/** `[minX, minY, maxX, maxY, minZ, maxZ]` */
+type BoundingBox = [number, number, number, number, number, number];
+
+/**
+ * Returns the group of shapes that a geometry is written to
+ * Lines and polygons are written as polylines and polygons with several parts.
+ */
+export function getSHPShapeGroup(geometry: Geometry): SHPShapeGroup {
+  switch (geometry.type) {
+    case 'Point':
+      return 'point';
+    case 'MultiPoint':
+      return 'multipoint';
+    case 'LineString':
+    case 'MultiLineString':
+      return 'polyline';
+    case 'Polygon':
+    case 'MultiPolygon':
+      return 'polygon';
+    default:
+      throw new Error(`ShapefileWriter: ${geometry.type} geometries are not supported`);
+  }
+}
+
+/**
+ * Returns the shape type of a group of geometries
+ * @param group group of the geometries, `null` if all geometries are null
+ */
+export function getSHPShapeType(group: SHPShapeGroup | null, geometries: (Geometry | null)[]) {
+  if (!group) {
+    return SHP_NULL_SHAPE_TYPE;
+  }
+  const hasZ = geometries.some(
+    (geometry) => geometry && getShape(geometry).positions.some((position) => position.length > 2)
+  );
+  return SHP_SHAPE_TYPES[group] + (hasZ ? SHP_Z_SHAPE_TYPE_OFFSET : 0);
+}
+
+/**
+ * Encodes geometries of a shape type as a `.shp` file and its `.shx` index
+ * - Null geometries are written as null shapes.
+ * - Missing Z coordinates are written as 0, the M values of shapes with Z coordinates are written as 0.
+ * - Polygon rings are written clockwise, holes counterclockwise.
+ * @see https://www.esri.com/content/dam/esrisites/sitecore-archive/Files/Pdfs/library/whitepapers/pdfs/shapefile.pdf
+ */
+export function encodeSHP(
+  geometries: (Geometry | null)[],
+  shapeType: number
+): {shp: ArrayBuffer; shx: ArrayBuffer} {
+  const hasZ = shapeType > SHP_Z_SHAPE_TYPE_OFFSET;
+  const shapes = geometries.map((geometry) => geometry && getShape(geometry));
+  const contentLengths = shapes.map((shape) => getContentLength(shape, shapeType, hasZ));
+
+  const shpLength =
+    SHP_HEADER_SIZE +
+    contentLengths.reduce(
+      (length, contentLength) => length + SHP_RECORD_HEADER_SIZE + contentLength,
+      0
+    );
+  const shxLength = SHP_HEADER_SIZE + shapes.length * SHX_RECORD_SIZE;
+
+  const shp = new DataView(new ArrayBuffer(shpLength));
+  const shx = new DataView(new ArrayBuffer(shxLength));
+
+  const boundingBox = getBoundingBox(shapes.flatMap((shape) => shape?.positions || []));
+  writeHeader(shp, shapeType, boundingBox);
+  writeHeader(shx, shapeType, boundingBox);
+
+  let offset = SHP_HEADER_SIZE;
+  for (let i = 0; i < shapes.length; i++) {
+    // Offsets and lengths are in 16-bit words
+    shx.setInt32(SHP_HEADER_SIZE + i * SHX_RECORD_SIZE, offset / 2, BIG_ENDIAN);
+    shx.setInt32(SHP_HEADER_SIZE + i * SHX_RECORD_SIZE + 4, contentLengths[i] / 2, BIG_ENDIAN);
+
+    // Record numbers start at 1
+    shp.setInt32(offset, i + 1, BIG_ENDIAN);
+    shp.setInt32(offset + 4, contentLengths[i] / 2, BIG_ENDIAN);
+    offset += SHP_RECORD_HEADER_SIZE;
+
+    const shape = shapes[i];
+    shp.setInt32(offset, shape ? shapeType : SHP_NULL_SHAPE_TYPE, LITTLE_ENDIAN);
+    if (shape) {
+      writeShape(shp, offset + 4, shape, shapeType, hasZ);
+    }
+    offset += contentLengths[i];
+  }
+
+  return {shp: shp.buffer, shx: shx.buffer};
+}
+
+/** The header of `.shp` and `.shx` files, only the file length is different */
+function writeHeader(dataView: DataView, shapeType: number, boundingBox: BoundingBox): void {
+  const [minX, minY, maxX, maxY, minZ, maxZ] = boundingBox;
+  dataView.setInt32(0, SHP_MAGIC_NUMBER, BIG_ENDIAN);
+  dataView.setInt32(24, dataView.byteLength / 2, BIG_ENDIAN);
+  dataView.setInt32(28, SHP_VERSION, LITTLE_ENDIAN);
+  dataView.setInt32(32, shapeType, LITTLE_ENDIAN);
+  dataView.setFloat64(36, minX, LITTLE_ENDIAN);
+  dataView.setFloat64(44, minY, LITTLE_ENDIAN);
+  dataView.setFloat64(52, maxX, LITTLE_ENDIAN);
+  dataView.setFloat64(60, maxY, LITTLE_ENDIAN);
+  dataView.setFloat64(68, minZ, LITTLE_ENDIAN);
+  dataView.setFloat64(76, maxZ, LITTLE_ENDIAN);
+  // The M range is 0
+}
+
+/** Returns the length of the content of a record in bytes, after the record header */
+function getContentLength(shape: Shape | null, shapeType: number, hasZ: boolean): number {
+  if (!shape) {
+    return 4;
+  }
+  const nPoints = shape.positions.length;
+  // Z and M ranges and values
+  const zmLength = hasZ ? 2 * (16 + nPoints * 8) : 0;
+  switch (shapeType % SHP_Z_SHAPE_TYPE_OFFSET) {
+    case SHP_SHAPE_TYPES.point:
+      return 4 + (hasZ ? 32 : 16);
+    case SHP_SHAPE_TYPES.multipoint:
+      return 4 + 32 + 4 + nPoints * 16 + zmLength;
+    default:
+      return 4 + 32 + 4 + 4 + shape.parts.length * 4 + nPoints * 16 + zmLength;
+  }
+}
+
+/** Writes a shape after its shape type */
+// eslint-disable-next-line max-statements
+function writeShape(
+  dataView: DataView,
+  offset: number,
+  shape: Shape,
+  shapeType: number,
+  hasZ: boolean
+): void {
+  const {positions, parts} = shape;
+
+  if (shapeType % SHP_Z_SHAPE_TYPE_OFFSET === SHP_SHAPE_TYPES.point) {
+    const [x, y, z = 0] = positions[0];
+    dataView.setFloat64(offset, x, LITTLE_ENDIAN);
+    dataView.setFloat64(offset + 8, y, LITTLE_ENDIAN);
+    if (hasZ) {
+      dataView.setFloat64(offset + 16, z, LITTLE_ENDIAN);
+      // M is 0
+    }
+    return;
+  }
+
+  const [minX, minY, maxX, maxY, minZ, maxZ] = getBoundingBox(positions);
+  dataView.setFloat64(offset, minX, LITTLE_ENDIAN);
+  dataView.setFloat64(offset + 8, minY, LITTLE_ENDIAN);
+  dataView.setFloat64(offset + 16, maxX, LITTLE_ENDIAN);
+  dataView.setFloat64(offset + 24, maxY, LITTLE_ENDIAN);
+  offset += 32;
+
+  if (shapeType % SHP_Z_SHAPE_TYPE_OFFSET !== SHP_SHAPE_TYPES.multipoint) {
+    dataView.setInt32(offset, parts.length, LITTLE_ENDIAN);
+    offset += 4;
+  }
+  dataView.setInt32(offset, positions.length, LITTLE_ENDIAN);
+  offset += 4;
+  if (shapeType % SHP_Z_SHAPE_TYPE_OFFSET !== SHP_SHAPE_TYPES.multipoint) {
+    for (const part of parts) {
+      dataView.setInt32(offset, part, LITTLE_ENDIAN);
+      offset += 4;
+    }
+  }
+
+  for (const [x, y] of positions) {
+    dataView.setFloat64(offset, x, LITTLE_ENDIAN);
+    dataView.setFloat64(offset + 8, y, LITTLE_ENDIAN);
+    offset += 16;
+  }
+
+  if (hasZ) {
+    dataView.setFloat64(offset, minZ, LITTLE_ENDIAN);
+    dataView.setFloat64(offset + 8, maxZ, LITTLE_ENDIAN);
+    offset += 16;
+    for (const [, , z = 0] of positions) {
+      dataView.setFloat64(offset, z, LITTLE_ENDIAN);
+      offset += 8;
+    }
+    // The M range and the M values are 0
+  }
+}
+
+/** Returns the positions and parts of a geometry, with polygon rings in shapefile orientation */
+function getShape(geometry: Geometry): Shape {
+  switch (geometry.type) {
+    case 'Point':
+      return {positions: [geometry.coordinates], parts: [0]};
+    case 'MultiPoint':
+      return {positions: geometry.coordinates, parts: [0]};
+    case 'LineString':
+      return getPartsShape([geometry.coordinates]);
+    case 'MultiLineString':
+      return getPartsShape(geometry.coordinates);
+    case 'Polygon':
+      return getPartsShape(geometry.coordinates.map(getOrientedRing));
+    case 'MultiPolygon':
+      return getPartsShape(geometry.coordinates.flatMap((polygon) => polygon.map(getOrientedRing)));
+    default:
+      throw new Error(`ShapefileWriter: ${geometry.type} geometries are not supported`);
+  }
+}
+
+function getPartsShape(lines: Position[][]): Shape {
+  const positions: Position[] = [];
+  const parts: number[] = [];
+  for (const line of lines) {
+    parts.push(positions.length);
+    positions.push(...line);
+  }
+  return {positions, parts};
+}
+
+/**
+ * Returns a closed ring, the first ring of a polygon is clockwise and holes are counterclockwise
+ * ShapefileLoader uses the orientation of the rings to find the rings of each polygon.
+ */
+function getOrientedRing(ring: Position[], index: number): Position[] {
+  const [firstX, firstY] = ring[0];
+  const [lastX, lastY] = ring[ring.length - 1];
+  const closedRing = firstX === lastX && firstY === lastY ? ring : [...ring, ring[0]];
+  const clockwise = getSignedArea(closedRing) > 0;
+  const isOuterRing = index === 0;
+  return clockwise === isOuterRing ? closedRing : [...closedRing].reverse();
+}
+
+/** Signed area of a closed ring, positive when the ring is clockwise */
+function getSignedArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += (ring[i][0] + ring[i + 1][0]) * (ring[i][1] - ring[i + 1][1]);
+  }
+  return area / 2;
+}
+
+/** Returns the bounding box of positions, 0 when there are no positions */
+function getBoundingBox(positions: Position[]): BoundingBox {
+  if (positions.length === 0) {
+    return [0, 0, 0, 0, 0, 0];
+  }
+  const boundingBox: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity, Infinity, -Infinity];
+  for (const [x, y, z = 0] of positions) {
+    boundingBox[0] = Math.min(boundingBox[0], x);
+    boundingBox[1] = Math.min(boundingBox[1], y);
+    boundingBox[2] = Math.max(boundingBox[2], x);
+    boundingBox[3] = Math.max(boundingBox[3], y);
+    boundingBox[4] = Math.min(boundingBox[4], z);
+    boundingBox[5] = Math.max(boundingBox[5], z);
+  }
+  return boundingBox;
+}
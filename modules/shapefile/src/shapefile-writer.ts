@@ -0,0 +1,78 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {WriterWithEncoder, WriterOptions} from '@loaders.gl/loader-utils';
+import type {WKTCRS} from '@loaders.gl/gis';
+import {ZipWriter} from '@loaders.gl/zip';
+import type {EncodeShapefileOptions, ShapefileTable} from './lib/encoders/encode-shapefile';
+import {encodeShapefileFiles, WGS84_WKTCRS} from './lib/encoders/encode-shapefile';
+
+// __VERSION__ is injected by babel-plugin-version-inline
+// @ts-ignore TS2304: Cannot find name '__VERSION__'.
+const VERSION = typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'latest';
+
+export type ShapefileWriterOptions = WriterOptions & {
+  shapefile?: {
+    /** Name of the files in the archive, without extension */
+    name?: string;
+    /** CRS of the coordinates, written to the `.prj` file. `null` if unknown. Defaults to WGS84 */
+    crs?: WKTCRS | string | null;
+  };
+  dbf?: {
+    /** Encoding of the strings of the `.dbf` file, `'utf-8'` or `'latin1'` */
+    encoding?: string;
+  };
+};
+
+const DEFAULT_SHAPEFILE_WRITER_OPTIONS = {
+  name: 'shapefile',
+  crs: WGS84_WKTCRS
+};
+
+const DEFAULT_DBF_WRITER_OPTIONS = {
+  encoding: 'utf-8'
+};
+
+/**
+ * Writer for shapefiles, the files of the shapefiles are written to a zip archive
+ * @note Use `encodeShapefile` to get the files without a zip archive
+ */
+export const ShapefileWriter = {
+  name: 'Shapefile',
+  id: 'shapefile',
+  module: 'shapefile',
+  version: VERSION,
+  category: 'geometry',
+  extensions: ['zip'],
+  mimeTypes: ['application/zip'],
+  binary: true,
+  options: {
+    shapefile: DEFAULT_SHAPEFILE_WRITER_OPTIONS,
+    dbf: DEFAULT_DBF_WRITER_OPTIONS
+  } as ShapefileWriterOptions,
+  async encode(table: ShapefileTable, options?: ShapefileWriterOptions): Promise<ArrayBuffer> {
+    const fileMap = encodeShapefile(table, options);
+    return await ZipWriter.encode(fileMap);
+  }
+} as const satisfies WriterWithEncoder<ShapefileTable, never, ShapefileWriterOptions>;
+
+/**
+ * Encodes a table as the files of one or more shapefiles
+ * @returns A map of file names to file contents: `.shp`, `.shx`, `.dbf`, `.cpg` and `.prj` files
+ */
+export function encodeShapefile(
+  table: ShapefileTable,
+  options?: ShapefileWriterOptions
+): Record<string, ArrayBuffer> {
+  return encodeShapefileFiles(table, getShapefileOptions(options));
+}
+
+function getShapefileOptions(options?: ShapefileWriterOptions): EncodeShapefileOptions {
+  return {
+    ...DEFAULT_SHAPEFILE_WRITER_OPTIONS,
+    ...DEFAULT_DBF_WRITER_OPTIONS,
+    ...options?.shapefile,
+    ...options?.dbf
+  };
+}
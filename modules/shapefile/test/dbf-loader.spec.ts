@@ -4,7 +4,7 @@
 
 import test from 'tape-promise/tape';
 import {setLoaderOptions, fetchFile, parse} from '@loaders.gl/core';
-import {DBFLoader} from '@loaders.gl/shapefile';
+import {DBFLoader, DBFWorkerLoader} from '@loaders.gl/shapefile';
 
 setLoaderOptions({
   _workerType: 'test'
@@ -48,3 +48,14 @@ test('Shapefile JS DBF tests', async (t) => {
 
   t.end();
 });
+
+test('DBFWorkerLoader#parse', async (t) => {
+  const response = await fetchFile(`${SHAPEFILE_JS_DATA_FOLDER}/mixed-properties.dbf`);
+  const body = await response.arrayBuffer();
+  const options = {dbf: {encoding: 'utf8'}};
+
+  const expected = await parse(body.slice(0), DBFLoader, {...options, worker: false});
+  const output = await parse(body, DBFWorkerLoader, {...options, _nodeWorkers: true});
+  t.deepEqual(output, expected, 'worker result matches main thread result');
+  t.end();
+});
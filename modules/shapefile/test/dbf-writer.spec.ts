@@ -0,0 +1,169 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {fetchFile, parse, encode} from '@loaders.gl/core';
+import {DBFLoader, DBFWriter} from '@loaders.gl/shapefile';
+import type {ColumnarTable, ObjectRowTable} from '@loaders.gl/schema';
+
+const SHAPEFILE_JS_DATA_FOLDER = '@loaders.gl/shapefile/test/data/shapefile-js';
+const SHAPEFILE_JS_TEST_FILES = [
+  'boolean-property',
+  'date-property',
+  'mixed-properties',
+  'number-null-property',
+  'number-property',
+  'string-property',
+  'utf8-property'
+];
+
+test('DBFWriter#round trip', async (t) => {
+  for (const testFileName of SHAPEFILE_JS_TEST_FILES) {
+    const response = await fetchFile(`${SHAPEFILE_JS_DATA_FOLDER}/${testFileName}.dbf`);
+    const options = {worker: false, dbf: {encoding: 'utf-8', shape: 'object-row-table'}};
+    const table = (await parse(await response.arrayBuffer(), DBFLoader, options)) as ObjectRowTable;
+
+    const arrayBuffer = await encode(table, DBFWriter, {dbf: {encoding: 'utf-8'}});
+    const roundTripTable = (await parse(arrayBuffer, DBFLoader, options)) as ObjectRowTable;
+
+    t.deepEqual(roundTripTable.data, table.data, `${testFileName} rows round trip`);
+    t.deepEqual(roundTripTable.schema, table.schema, `${testFileName} schema round trip`);
+  }
+  t.end();
+});
+
+test('DBFWriter#field types', async (t) => {
+  const table: ObjectRowTable = {
+    shape: 'object-row-table',
+    data: [
+      {
+        count: 1,
+        ratio: 0.125,
+        valid: true,
+        name: 'a',
+        date: new Date('2024-01-02T03:04:05.000Z'),
+        tags: ['x', 'y'],
+        aVeryLongColumnName: 1,
+        aVeryLongColumnNameToo: 2
+      },
+      {count: 12345, ratio: -2, valid: false, name: null, date: null, tags: null},
+      {count: null, ratio: null, valid: null, name: 'a longer name'}
+    ]
+  };
+
+  const arrayBuffer = DBFWriter.encodeSync(table);
+  const roundTripTable = (await parse(arrayBuffer, DBFLoader, {
+    worker: false,
+    dbf: {shape: 'object-row-table'}
+  })) as ObjectRowTable;
+
+  t.deepEqual(
+    roundTripTable.schema?.fields.map((field) => [field.name, field.type]),
+    [
+      ['count', 'float64'],
+      ['ratio', 'float64'],
+      ['valid', 'bool'],
+      ['name', 'utf8'],
+      ['date', 'timestamp-millisecond'],
+      ['tags', 'utf8'],
+      ['aVeryLongC', 'float64'],
+      ['aVeryLong1', 'float64']
+    ],
+    'field types are inferred and field names are unique'
+  );
+
+  const view = new DataView(arrayBuffer);
+  const getField = (index: number) => [
+    String.fromCharCode(view.getUint8(32 + index * 32 + 11)),
+    view.getUint8(32 + index * 32 + 16),
+    view.getUint8(32 + index * 32 + 17)
+  ];
+  t.deepEqual(getField(0), ['N', 5, 0], 'integer field width');
+  t.deepEqual(getField(1), ['N', 6, 3], 'decimal field width');
+  t.deepEqual(getField(3), ['C', 13, 0], 'character field width');
+  t.equal(view.getUint8(29), 0x57, 'language driver');
+
+  t.deepEqual(
+    roundTripTable.data,
+    [
+      {
+        count: 1,
+        ratio: 0.125,
+        valid: true,
+        name: 'a',
+        date: Date.UTC(2024, 0, 2),
+        tags: '["x","y"]',
+        aVeryLongC: 1,
+        aVeryLong1: 2
+      },
+      {
+        count: 12345,
+        ratio: -2,
+        valid: false,
+        name: null,
+        date: NaN,
+        tags: null,
+        aVeryLongC: null,
+        aVeryLong1: null
+      },
+      {
+        count: null,
+        ratio: null,
+        valid: null,
+        name: 'a longer name',
+        date: NaN,
+        tags: null,
+        aVeryLongC: null,
+        aVeryLong1: null
+      }
+    ],
+    'rows round trip'
+  );
+  t.end();
+});
+
+test('DBFWriter#int64', async (t) => {
+  const table: ColumnarTable = {
+    shape: 'columnar-table',
+    schema: {fields: [{name: 'big', type: 'int64', nullable: true}], metadata: {}},
+    data: {big: new BigInt64Array([1n, -9007199254740993n])}
+  };
+
+  const arrayBuffer = DBFWriter.encodeSync(table);
+  const view = new DataView(arrayBuffer);
+  t.equal(String.fromCharCode(view.getUint8(32 + 11)), 'N', 'numeric field');
+
+  const roundTripTable = (await parse(arrayBuffer, DBFLoader, {
+    worker: false,
+    dbf: {shape: 'object-row-table'}
+  })) as ObjectRowTable;
+  t.deepEqual(roundTripTable.data, [{big: 1}, {big: -9007199254740992}], 'bigints are written');
+
+  const text = new TextDecoder().decode(arrayBuffer.slice(32 + 32 + 1));
+  t.ok(text.includes('-9007199254740993'), 'bigints are written exactly');
+  t.end();
+});
+
+test('DBFWriter#encoding', async (t) => {
+  const table: ObjectRowTable = {shape: 'object-row-table', data: [{name: 'México 東京'}]};
+
+  for (const [encoding, expected] of [
+    ['latin1', 'México ??'],
+    ['utf-8', 'México 東京']
+  ]) {
+    const arrayBuffer = await encode(table, DBFWriter, {dbf: {encoding}});
+    const roundTripTable = (await parse(arrayBuffer, DBFLoader, {
+      worker: false,
+      dbf: {encoding, shape: 'object-row-table'}
+    })) as ObjectRowTable;
+    t.deepEqual(roundTripTable.data, [{name: expected}], `strings are encoded as ${encoding}`);
+  }
+
+  t.throws(
+    () => DBFWriter.encodeSync(table, {dbf: {encoding: 'shift-jis'}}),
+    /unsupported encoding/,
+    'unsupported encodings throw'
+  );
+  t.end();
+});
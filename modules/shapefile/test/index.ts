@@ -10,3 +10,6 @@ import './dbf-arrow-loader.spec';
 import './shp-loader.spec';
 import './dbf-loader.spec';
 import './shapefile-loader.spec';
+
+import './dbf-writer.spec';
+import './shapefile-writer.spec';
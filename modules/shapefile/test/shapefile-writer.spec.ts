@@ -0,0 +1,259 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {load, parse, encode} from '@loaders.gl/core';
+import {
+  DBFLoader,
+  SHPLoader,
+  ShapefileLoader,
+  ShapefileWriter,
+  encodeShapefile
+} from '@loaders.gl/shapefile';
+import {ZipLoader} from '@loaders.gl/zip';
+import {GeoArrowLoader} from '@loaders.gl/arrow';
+import {GEOARROW_TEST_CASES} from '@loaders.gl/arrow/test/data/geoarrow/test-cases';
+import type {Feature, GeoJSONTable, Geometry, MultiLineString} from '@loaders.gl/schema';
+
+const SHAPEFILE_JS_DATA_FOLDER = '@loaders.gl/shapefile/test/data/shapefile-js';
+const SHAPEFILE_JS_TEST_FILES = [
+  'boolean-property',
+  'date-property',
+  'empty',
+  'latin1-property',
+  'mixed-properties',
+  'multipoints',
+  'multipolygon_with_holes',
+  'number-property',
+  'points',
+  'polygons',
+  'polylines',
+  'string-property',
+  'utf8-property'
+];
+
+test('ShapefileWriter#round trip', async (t) => {
+  for (const testFileName of SHAPEFILE_JS_TEST_FILES) {
+    const table = (await load(`${SHAPEFILE_JS_DATA_FOLDER}/${testFileName}.shp`, ShapefileLoader, {
+      worker: false,
+      shapefile: {shape: 'geojson-table'}
+    })) as GeoJSONTable;
+
+    const fileMap = encodeShapefile(table, {shapefile: {name: testFileName}});
+    t.deepEqual(
+      Object.keys(fileMap).sort(),
+      ['cpg', 'dbf', 'prj', 'shp', 'shx'].map((extension) => `${testFileName}.${extension}`),
+      `${testFileName} files are written`
+    );
+
+    const roundTripTable = await loadShapefile(fileMap, testFileName);
+    t.deepEqual(roundTripTable.features, table.features, `${testFileName} features round trip`);
+  }
+  t.end();
+});
+
+test('ShapefileWriter#zip archive', async (t) => {
+  const table = makeTable([
+    {type: 'Point', coordinates: [1, 2]},
+    {type: 'Point', coordinates: [3, 4]}
+  ]);
+
+  const arrayBuffer = await encode(table, ShapefileWriter, {shapefile: {name: 'points'}});
+  const fileMap = (await parse(arrayBuffer, ZipLoader)) as Record<string, ArrayBuffer>;
+  t.deepEqual(Object.keys(fileMap).sort(), [
+    'points.cpg',
+    'points.dbf',
+    'points.prj',
+    'points.shp',
+    'points.shx'
+  ]);
+
+  const decoder = new TextDecoder();
+  t.equal(decoder.decode(fileMap['points.cpg']), 'UTF-8', 'code page is written');
+  t.ok(decoder.decode(fileMap['points.prj']).startsWith('GEOGCS["GCS_WGS_1984"'), 'CRS is written');
+
+  const roundTripTable = await loadShapefile(fileMap, 'points');
+  t.deepEqual(roundTripTable.features, table.features, 'features round trip');
+  t.end();
+});
+
+test('ShapefileWriter#geometry types', async (t) => {
+  const polygon: Geometry = {
+    type: 'Polygon',
+    coordinates: [
+      // Counterclockwise outer ring and clockwise hole, as in GeoJSON
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+        [0, 0]
+      ],
+      [
+        [2, 2],
+        [2, 4],
+        [4, 4],
+        [4, 2],
+        [2, 2]
+      ]
+    ]
+  };
+  const lineString: Geometry = {
+    type: 'LineString',
+    coordinates: [
+      [-5, 1, 2],
+      [20, -3, 4]
+    ]
+  };
+  const table = makeTable([
+    polygon,
+    {type: 'Point', coordinates: [1, 2]},
+    null,
+    lineString,
+    {
+      type: 'MultiLineString',
+      coordinates: [
+        [
+          [0, 0],
+          [1, 1]
+        ],
+        [
+          [2, 2],
+          [3, 3]
+        ]
+      ]
+    }
+  ]);
+
+  const fileMap = encodeShapefile(table, {shapefile: {name: 'mixed', crs: null}});
+  t.deepEqual(
+    Object.keys(fileMap)
+      .filter((fileName) => fileName.endsWith('.shp'))
+      .sort(),
+    ['mixed_point.shp', 'mixed_polygon.shp', 'mixed_polyline.shp'],
+    'a shapefile is written for each type of shapes'
+  );
+  t.notOk(fileMap['mixed_point.prj'], 'no CRS is written');
+
+  const {header} = await parse(fileMap['mixed_polyline.shp'], SHPLoader, {worker: false});
+  t.equal(header.type, 13, 'shapes with Z coordinates are written as PolyLineZ');
+  t.deepEqual(
+    header.bbox,
+    {minX: -5, minY: -3, minZ: 0, minM: 0, maxX: 20, maxY: 3, maxZ: 4, maxM: 0},
+    'bounding box is written'
+  );
+
+  const polygons = await loadShapefile(fileMap, 'mixed_polygon');
+  t.deepEqual(
+    polygons.features[0].geometry,
+    {
+      type: 'Polygon',
+      coordinates: [[...polygon.coordinates[0]].reverse(), [...polygon.coordinates[1]].reverse()]
+    },
+    'rings are written in shapefile orientation'
+  );
+
+  // Null shapes are written with the first type of shapes
+  t.equal(fileMap['mixed_polygon.shx'].byteLength, 100 + 2 * 8, 'null shapes are indexed');
+  const rows = await parse(fileMap['mixed_polygon.dbf'], DBFLoader, {worker: false});
+  t.deepEqual(
+    rows.map((row) => row.index),
+    [0, 2],
+    'properties are written with their geometries'
+  );
+
+  const lines = await loadShapefile(fileMap, 'mixed_polyline');
+  t.deepEqual(
+    lines.features[0].geometry,
+    {
+      type: 'LineString',
+      coordinates: [
+        [-5, 1, 2, 0],
+        [20, -3, 4, 0]
+      ]
+    },
+    'Z coordinates are written, with 0 as M values'
+  );
+  t.deepEqual(
+    (lines.features[1].geometry as MultiLineString).coordinates,
+    [
+      [
+        [0, 0, 0, 0],
+        [1, 1, 0, 0]
+      ],
+      [
+        [2, 2, 0, 0],
+        [3, 3, 0, 0]
+      ]
+    ],
+    'missing Z coordinates are written as 0'
+  );
+
+  t.throws(
+    () =>
+      encodeShapefile(
+        makeTable([
+          {type: 'GeometryCollection', geometries: [{type: 'Point', coordinates: [0, 0]}]}
+        ])
+      ),
+    /GeometryCollection geometries are not supported/,
+    'geometry collections throw'
+  );
+  t.end();
+});
+
+test('ShapefileWriter#GeoArrow tables', async (t) => {
+  for (const [url, expectedGeojson] of GEOARROW_TEST_CASES) {
+    // The holes of these test cases are clockwise, they are written counterclockwise
+    if (url.includes('hole')) {
+      // eslint-disable-next-line no-continue
+      continue;
+    }
+    const arrowTable = await load(url, GeoArrowLoader, {
+      worker: false,
+      arrow: {shape: 'arrow-table'}
+    });
+
+    const fileMap = encodeShapefile(arrowTable);
+    const table = await loadShapefile(fileMap, 'shapefile');
+    t.deepEqual(
+      table.features.map((feature) => feature.geometry),
+      expectedGeojson.features.map((feature) => feature.geometry),
+      `${url} geometries round trip`
+    );
+  }
+  t.end();
+});
+
+// HELPERS
+
+function makeTable(geometries: (Geometry | null)[]): GeoJSONTable {
+  const features = geometries.map(
+    (geometry, index): Feature => ({
+      type: 'Feature',
+      // @ts-expect-error null geometries
+      geometry,
+      properties: {index}
+    })
+  );
+  return {shape: 'geojson-table', type: 'FeatureCollection', features};
+}
+
+/** Loads a shapefile from the files written by `encodeShapefile` */
+async function loadShapefile(
+  fileMap: Record<string, ArrayBuffer>,
+  name: string
+): Promise<GeoJSONTable> {
+  const fetch = async (url: string) => {
+    const response = fileMap[url] ? new Response(fileMap[url]) : new Response(null, {status: 404});
+    // ShapefileLoader finds the other files from the URL of the response
+    Object.defineProperty(response, 'url', {value: url});
+    return response;
+  };
+  return (await load(`${name}.shp`, ShapefileLoader, {
+    worker: false,
+    fetch,
+    shapefile: {shape: 'geojson-table'}
+  })) as GeoJSONTable;
+}
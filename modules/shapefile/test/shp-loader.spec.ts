@@ -5,7 +5,7 @@
 import test from 'tape-promise/tape';
 import {setLoaderOptions, load, fetchFile} from '@loaders.gl/core';
 import {geojsonToBinary} from '@loaders.gl/gis';
-import {SHPLoader} from '@loaders.gl/shapefile';
+import {SHPLoader, SHPWorkerLoader} from '@loaders.gl/shapefile';
 
 const SHAPEFILE_POLYGON_PATH = '@loaders.gl/shapefile/test/data/shapefile-js/polygons.shp';
 const SHAPEFILE_JS_DATA_FOLDER = '@loaders.gl/shapefile/test/data/shapefile-js';
@@ -26,6 +26,14 @@ test('SHPLoader#load polygons', async (t) => {
   t.end();
 });
 
+test('SHPWorkerLoader#load polygons', async (t) => {
+  const result = await load(SHAPEFILE_POLYGON_PATH, SHPWorkerLoader, {_nodeWorkers: true});
+  const expected = await load(SHAPEFILE_POLYGON_PATH, SHPLoader, {worker: false});
+
+  t.deepEqual(result, expected, 'worker result matches main thread result');
+  t.end();
+});
+
 test('Shapefile JS Point tests', async (t) => {
   for (const testFileName of SHAPEFILE_JS_POINT_TEST_FILES) {
     const output = await load(`${SHAPEFILE_JS_DATA_FOLDER}/${testFileName}.shp`, SHPLoader);
@@ -2,13 +2,13 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
-import type {Loader, LoaderWithParser} from '@loaders.gl/loader-utils';
+import type {Loader, LoaderWithParser, LoaderOptions} from '@loaders.gl/loader-utils';
 import {VERSION} from './lib/utils/version';
 import {parseCompressedTexture} from './lib/parsers/parse-compressed-texture';
 import {parseBasis} from './lib/parsers/parse-basis';
 
 /** Options for the CompressedTextureLoader */
-export type CompressedTextureLoaderOptions = {
+export type CompressedTextureLoaderOptions = LoaderOptions & {
   'compressed-texture'?: {
     /** @deprecated Specify path to libraries */
     libraryPath?: string;
@@ -60,7 +60,7 @@ export const CompressedTextureLoader = {
   ...CompressedTextureWorkerLoader,
   parse: async (arrayBuffer: ArrayBuffer, options?: CompressedTextureLoaderOptions) => {
     if (options?.['compressed-texture']?.useBasis) {
-      // @ts-expect-error TODO not allowed to modify inputs
+      // TODO not allowed to modify inputs
       options.basis = {
         format: {
           alpha: 'BC3',
@@ -5,5 +5,4 @@
 import {createLoaderWorker} from '@loaders.gl/loader-utils';
 import {CompressedTextureLoader} from '../compressed-texture-loader';
 
-// @ts-expect-error
 createLoaderWorker(CompressedTextureLoader);
@@ -0,0 +1,11 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// Polyfills increases the bundle size significantly. Use it for NodeJS worker only
+import '@loaders.gl/polyfills';
+import {createLoaderWorker} from '@loaders.gl/loader-utils';
+import {CrunchLoader} from '../crunch-loader';
+import {parseCrunch} from '../lib/parsers/parse-crunch';
+
+createLoaderWorker({...CrunchLoader, parse: parseCrunch});
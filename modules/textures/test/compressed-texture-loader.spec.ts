@@ -4,7 +4,7 @@
 
 import test from 'tape-promise/tape';
 
-import {CompressedTextureLoader} from '@loaders.gl/textures';
+import {CompressedTextureLoader, CompressedTextureWorkerLoader} from '@loaders.gl/textures';
 import {load, setLoaderOptions} from '@loaders.gl/core';
 
 const KTX_URL = '@loaders.gl/textures/test/data/test_etc1s.ktx2';
@@ -46,3 +46,10 @@ test('CompressedTextureLoader#PVR', async (t) => {
   t.ok(texture, 'PVR container loaded OK');
   t.end();
 });
+
+test('CompressedTextureWorkerLoader#DDS', async (t) => {
+  const texture = await load(DDS_URL, CompressedTextureWorkerLoader, {_nodeWorkers: true});
+  const expected = await load(DDS_URL, CompressedTextureLoader, {worker: false});
+  t.deepEqual(texture, expected, 'worker result matches main thread result');
+  t.end();
+});
@@ -33,13 +33,7 @@ test('NPYLoader#parse', async (t) => {
 });
 
 test('NPYWorkerLoader#parse', async (t) => {
-  if (typeof Worker === 'undefined') {
-    t.comment('Worker is not usable in non-browser environments');
-    t.end();
-    return;
-  }
-
-  const {data, header} = await load(NPY_UINT8_URL, NPYWorkerLoader);
+  const {data, header} = await load(NPY_UINT8_URL, NPYWorkerLoader, {_nodeWorkers: true});
 
   const expectedData = new Uint8Array([1, 2, 3, 4]);
   // eslint-disable-next-line camelcase
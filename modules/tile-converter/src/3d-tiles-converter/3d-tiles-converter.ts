@@ -6,18 +6,19 @@ import type {
   I3STileAttributes
 } from '@loaders.gl/i3s';
 import type {Tile3DBoundingVolume, Tiles3DTileJSON} from '@loaders.gl/3d-tiles';
+import type {WritableFileSystem} from '@loaders.gl/loader-utils';
 
 import {join} from 'path';
 import process from 'process';
 import transform from 'json-map-transform';
 import {load, isBrowser} from '@loaders.gl/core';
+import {NodeFilesystem} from '@loaders.gl/loader-utils';
 import {I3SLoader, I3SAttributeLoader, COORDINATE_SYSTEM} from '@loaders.gl/i3s';
 import {Geoid} from '@math.gl/geoid';
 
 import {PGMLoader} from '../pgm-loader';
 import {i3sObbTo3dTilesObb} from './helpers/i3s-obb-to-3d-tiles-obb';
 import {convertScreenThresholdToGeometricError} from '../lib/utils/lod-conversion-utils';
-import {writeFile, removeDir} from '../lib/utils/file-utils';
 import {calculateDatasetSize, timeConverter} from '../lib/utils/statistic-utils';
 import {TILESET as tilesetTemplate} from './json-templates/tileset';
 import {createObbFromMbs} from '../i3s-converter/helpers/coordinate-converter';
@@ -43,6 +44,8 @@ const I3S = 'I3S';
 export default class Tiles3DConverter {
   options: any;
   tilesetPath: string;
+  /** File system that the tileset is written to */
+  fileSystem: WritableFileSystem | null = null;
   vertexCounter: number;
   conversionStartTime: [number, number];
   geoidHeightModel: Geoid | null;
@@ -58,7 +61,7 @@ export default class Tiles3DConverter {
     i3s: {coordinateSystem: COORDINATE_SYSTEM.LNGLAT_OFFSETS, decodeTextures: false},
     // We need to load local fs workers because nodejs can't load workers from the Internet
     'i3s-content': {
-      workerUrl: './modules/i3s/dist/i3s-content-worker-node.js'
+      workerUrl: './modules/i3s/dist/i3s-content-worker-node.cjs'
     }
   };
   conversionDump: ConversionDump;
@@ -88,6 +91,7 @@ export default class Tiles3DConverter {
    * @param options.tilesetName the output name of the tileset
    * @param options.egmFilePath location of *.pgm file to convert heights from ellipsoidal to gravity-related format
    * @param options.maxDepth The max tree depth of conversion
+   * @param options.fileSystem the file system to write the tileset to. Defaults to the local file system
    */
   // eslint-disable-next-line complexity, max-statements
   public async convert(options: {
@@ -99,6 +103,7 @@ export default class Tiles3DConverter {
     egmFilePath: string;
     inquirer?: {prompt: PromptModule};
     analyze?: boolean;
+    fileSystem?: WritableFileSystem;
   }): Promise<string | undefined> {
     if (isBrowser) {
       console.log(BROWSER_ERROR_MESSAGE); // eslint-disable-line no-console
@@ -112,9 +117,11 @@ export default class Tiles3DConverter {
       maxDepth,
       egmFilePath,
       inquirer,
-      analyze
+      analyze,
+      fileSystem
     } = options;
     this.conversionStartTime = process.hrtime();
+    this.fileSystem = fileSystem || new NodeFilesystem({});
     this.options = {maxDepth, inquirer, outputVersion};
     this.fileExt = this.options.outputVersion === '1.0' ? 'b3dm' : 'glb';
 
@@ -157,7 +164,10 @@ export default class Tiles3DConverter {
     this.tilesetPath = join(`${outputPath}`, `${tilesetName}`);
     this.attributeStorageInfo = this.sourceTileset.attributeStorageInfo;
 
-    await this.conversionDump.createDump(options as ConversionDumpOptions);
+    // Conversions can only be resumed from the local file system
+    if (!fileSystem) {
+      await this.conversionDump.createDump(options as ConversionDumpOptions);
+    }
     if (this.conversionDump.restored && this.options.inquirer) {
       const result = await this.options.inquirer.prompt([
         {
@@ -173,11 +183,7 @@ export default class Tiles3DConverter {
     }
     // Removing the tilesetPath needed to exclude erroneous files after conversion
     if (!this.conversionDump.restored) {
-      try {
-        await removeDir(this.tilesetPath);
-      } catch (e) {
-        // do nothing
-      }
+      await this.fileSystem.delete(this.tilesetPath);
     }
 
     const rootTile: Tiles3DTileJSON = {
@@ -192,12 +198,12 @@ export default class Tiles3DConverter {
     await this._addChildren(rootNode, rootTile, 1);
 
     const tileset = transform({asset: {version: outputVersion}, root: rootTile}, tilesetTemplate());
-    await writeFile(this.tilesetPath, JSON.stringify(tileset), 'tileset.json');
+    await this._writeFile('tileset.json', JSON.stringify(tileset));
     await this.conversionDump.deleteDumpFile();
 
     this.progress.stopMonitoring();
 
-    await this._finishConversion({slpk: false, outputPath, tilesetName});
+    await this._finishConversion({slpk: false, outputPath, tilesetName, local: !fileSystem});
 
     if (this.slpkFilesystem) {
       this.slpkFilesystem.destroy();
@@ -305,11 +311,7 @@ export default class Tiles3DConverter {
       );
 
       await this.conversionDump.addNode(`${sourceChild.id}.${this.fileExt}`, sourceChild.id);
-      await writeFile(
-        this.tilesetPath,
-        new Uint8Array(contentData),
-        `${sourceChild.id}.${this.fileExt}`
-      );
+      await this._writeFile(`${sourceChild.id}.${this.fileExt}`, contentData);
       await this.conversionDump.updateConvertedNodesDumpFile(
         `${sourceChild.id}.${this.fileExt}`,
         sourceChild.id,
@@ -492,16 +494,29 @@ export default class Tiles3DConverter {
     }
   }
 
+  /**
+   * Write a file of the tileset to the file system
+   * @param fileName - name of the file in the tileset directory
+   * @param data - file content
+   */
+  private async _writeFile(fileName: string, data: string | ArrayBuffer): Promise<void> {
+    const path = join(this.tilesetPath, fileName);
+    await this.fileSystem?.writeFile(path, data);
+    console.log(`${path} saved.`); // eslint-disable-line no-console
+  }
+
   /**
    * Print statistics in the end of conversion
    * @param params - output files data
+   * @param params.local - if the tileset is written to the local file system, where the files size is calculated
    */
   private async _finishConversion(params: {
     slpk: boolean;
     outputPath: string;
     tilesetName: string;
+    local: boolean;
   }): Promise<void> {
-    const filesSize = await calculateDatasetSize(params);
+    const filesSize = params.local ? await calculateDatasetSize(params) : null;
     const diff = process.hrtime(this.conversionStartTime);
     const conversionTime = timeConverter(diff);
 
@@ -141,10 +141,10 @@ export default class I3SConverter {
     basis: {
       format: 'rgba32',
       // We need to load local fs workers because nodejs can't load workers from the Internet
-      workerUrl: './modules/textures/dist/basis-worker-node.js'
+      workerUrl: './modules/textures/dist/basis-worker-node.cjs'
     },
     // We need to load local fs workers because nodejs can't load workers from the Internet
-    draco: {workerUrl: './modules/draco/dist/draco-worker-node.js'},
+    draco: {workerUrl: './modules/draco/dist/draco-worker-node.cjs'},
     fetch: {},
     modules: {}
   };
@@ -1269,7 +1269,7 @@ export default class I3SConverter {
                 ...KTX2BasisWriterWorker.options,
                 ['ktx2-basis-writer']: {
                   // We need to load local fs workers because nodejs can't load workers from the Internet
-                  workerUrl: './modules/textures/dist/ktx2-basis-writer-worker-node.js'
+                  workerUrl: './modules/textures/dist/ktx2-basis-writer-worker-node.cjs'
                 },
                 reuseWorkers: true,
                 _nodeWorkers: true,
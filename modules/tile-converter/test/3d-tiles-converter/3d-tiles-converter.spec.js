@@ -2,6 +2,7 @@
 import test from 'tape-promise/tape';
 import {Tiles3DConverter} from '@loaders.gl/tile-converter';
 import {isBrowser, setLoaderOptions} from '@loaders.gl/core';
+import {MemoryFileSystem} from '@loaders.gl/loader-utils';
 import {readdir} from 'fs/promises';
 import {BROWSER_ERROR_MESSAGE} from '../../src/constants';
 import {cleanUpPath} from '../utils/file-utils';
@@ -63,3 +64,25 @@ test('tile-converter(3d-tiles)#converts SLPK file', async (t) => {
   await cleanUpPath('data/NY');
   t.end();
 });
+
+test('tile-converter(3d-tiles)#converts SLPK file to a WritableFileSystem', async (t) => {
+  if (!isBrowser) {
+    const fileSystem = new MemoryFileSystem();
+    const converter = new Tiles3DConverter();
+    await converter.convert({
+      inputUrl: SLPK_URL,
+      outputPath: 'data',
+      tilesetName: 'NY',
+      egmFilePath: PGM_FILE_PATH,
+      fileSystem
+    });
+
+    const files = await fileSystem.readdir('data/NY');
+    t.ok(files.includes('tileset.json'), 'tileset.json is written to the file system');
+    t.ok(
+      files.some((fileName) => fileName.endsWith('.glb')),
+      'tiles are written to the file system'
+    );
+  }
+  t.end();
+});
@@ -9,6 +9,7 @@ import {Vector3, Matrix4} from '@math.gl/core';
 import {CullingVolume} from '@math.gl/culling';
 
 import {load} from '@loaders.gl/core';
+import type {RequestPriorityClass} from '@loaders.gl/loader-utils';
 
 // Note: circular dependency
 import type {Tileset3D} from './tileset-3d';
@@ -342,6 +343,16 @@ export class Tile3D {
     return Math.max(rootScreenSpaceError - screenSpaceError, 0);
   }
 
+  /**
+   * Tiles that are loaded ahead of the viewport, e.g. siblings outside of the camera frustum or tiles
+   * outside of their viewer request volume, are only requested when no visible tiles are queued.
+   * @note The priority class is fixed when the request is scheduled
+   */
+  _getPriorityClass(): RequestPriorityClass {
+    // Visibility is not known before the tile has been traversed
+    return this._visible === undefined || this.isVisibleAndInRequestVolume ? 'visible' : 'prefetch';
+  }
+
   /**
    *  Requests the tile's content.
    * The request may not be made if the Request Scheduler can't prioritize it.
@@ -366,7 +377,12 @@ export class Tile3D {
 
     const requestToken = await this.tileset._requestScheduler.scheduleRequest(
       this.id,
-      this._getPriority.bind(this)
+      this._getPriority.bind(this),
+      {
+        url: this.tileset.getTileUrl(this.contentUrl),
+        priorityClass: this._getPriorityClass(),
+        owner: this.tileset
+      }
     );
 
     if (!requestToken) {
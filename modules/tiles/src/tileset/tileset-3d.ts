@@ -48,6 +48,7 @@ export type Tileset3DProps = {
   // loading
   throttleRequests?: boolean;
   maxRequests?: number;
+  requestScheduler?: RequestScheduler | null;
   loadOptions?: LoaderOptions;
   loadTiles?: boolean;
   basePath?: string;
@@ -88,6 +89,11 @@ type Props = {
   throttleRequests: boolean;
   /** Number of simultaneous requsts, if throttleRequests is true */
   maxRequests: number;
+  /**
+   * Scheduler shared with other tilesets and tile sources, e.g. `RequestScheduler.getGlobalScheduler()`.
+   * If supplied, `throttleRequests` and `maxRequests` are ignored.
+   */
+  requestScheduler: RequestScheduler | null;
   /* Maximum amount of GPU memory (in MB) that may be used to cache tiles. */
   maximumMemoryUsage: number;
   /* The maximum additional memory (in MB) to allow for cache headroom before adjusting the screen spacer error */
@@ -128,6 +134,7 @@ const DEFAULT_PROPS: Props = {
   modelMatrix: new Matrix4(),
   throttleRequests: true,
   maxRequests: 64,
+  requestScheduler: null,
   /** Default memory values optimized for viewing mesh-based 3D Tiles on both mobile and desktop devices */
   maximumMemoryUsage: 32,
   memoryCacheOverflow: 1,
@@ -317,10 +324,12 @@ export class Tileset3D {
 
     // TRAVERSAL
     this._traverser = this._initializeTraverser();
-    this._requestScheduler = new RequestScheduler({
-      throttleRequests: this.options.throttleRequests,
-      maxRequests: this.options.maxRequests
-    });
+    this._requestScheduler =
+      this.options.requestScheduler ||
+      new RequestScheduler({
+        throttleRequests: this.options.throttleRequests,
+        maxRequests: this.options.maxRequests
+      });
 
     this.memoryAdjustedScreenSpaceError = this.options.maximumScreenSpaceError;
     this._cacheBytes = this.options.maximumMemoryUsage * 1024 * 1024;
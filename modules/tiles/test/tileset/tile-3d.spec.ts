@@ -366,6 +366,44 @@ test('Tile3D#cartographic bounding box', (t) => {
   t.end();
 });
 
+test('Tile3D#request priority class', async (t) => {
+  const priorityClasses: string[] = [];
+  const tileset = {
+    ...MOCK_TILESET,
+    getTileUrl: (url) => url,
+    _requestScheduler: {
+      scheduleRequest: async (handle, getPriority, options) => {
+        priorityClasses.push(options.priorityClass);
+        // Cancel the request
+        return null;
+      }
+    }
+  };
+  const tileHeader = {...TILE_HEADER_WITH_BOUNDING_SPHERE, contentUrl: '0/0.b3dm'};
+
+  // @ts-ignore
+  const tile = new Tile3D(tileset, tileHeader);
+  await tile.loadContent();
+  // @ts-ignore private
+  tile._visible = true;
+  tile._inRequestVolume = true;
+  await tile.loadContent();
+  // @ts-ignore private
+  tile._visible = false;
+  await tile.loadContent();
+  // @ts-ignore private
+  tile._visible = true;
+  tile._inRequestVolume = false;
+  await tile.loadContent();
+
+  t.deepEqual(
+    priorityClasses,
+    ['visible', 'visible', 'prefetch', 'prefetch'],
+    'tiles outside of the frustum or of the request volume are prefetched'
+  );
+  t.end();
+});
+
 /*
 test('Tile3D#bounding volumes', tt => {
   test('Tile3D#returns the tile bounding volume if the content bounding volume is undefined', t => {
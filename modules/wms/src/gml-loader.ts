@@ -30,6 +30,7 @@ export const GMLLoader = {
   extensions: ['xml'],
   mimeTypes: ['application/vnd.ogc.gml', 'application/xml', 'text/xml'],
   testText: testXMLFile,
+  sniff: sniffGML,
   options: {
     gml: {}
   },
@@ -42,3 +43,8 @@ function testXMLFile(text: string): boolean {
   // TODO - There could be space first.
   return text.startsWith('<?xml');
 }
+
+/** Many XML formats embed GML, so GML elements are only moderate evidence */
+function sniffGML(text: string): number {
+  return /<gml:|xmlns:gml=/.test(text) ? 0.7 : 0;
+}
@@ -47,6 +47,7 @@ export const WMSCapabilitiesLoader = {
   extensions: ['xml'],
   mimeTypes: ['application/vnd.ogc.wms_xml', 'application/xml', 'text/xml'],
   testText: testXMLFile,
+  sniff: (text: string) => (/<(WMS_Capabilities|WMT_MS_Capabilities)[\s>]/.test(text) ? 1 : 0),
   options: {
     wms: {}
   },
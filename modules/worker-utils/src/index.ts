@@ -21,8 +21,10 @@ export {assert} from './lib/env-utils/assert';
 export {isBrowser, isWorker} from './lib/env-utils/globals';
 
 // WORKER UTILS - TYPES
+export type {WorkerJobOptions} from './lib/worker-farm/worker-job';
 export {default as WorkerJob} from './lib/worker-farm/worker-job';
 export {default as WorkerThread} from './lib/worker-farm/worker-thread';
+export {WorkerTimeoutError} from './lib/worker-farm/worker-timeout-error';
 
 // WORKER FARMS
 export {default as WorkerFarm} from './lib/worker-farm/worker-farm';
@@ -14,3 +14,5 @@ export class NodeWorker {
 export type {NodeWorker as NodeWorkerType};
 
 export const parentPort = null;
+
+export const isMarkedAsUntransferable: ((object: unknown) => boolean) | undefined = undefined;
@@ -7,3 +7,7 @@ export * from 'worker_threads';
 export const parentPort = WorkerThreads?.parentPort;
 export const NodeWorker = WorkerThreads.Worker;
 export type NodeWorkerType = WorkerThreads.Worker;
+/** Available from Node.js v21, which throws when untransferable buffers are transferred */
+export const isMarkedAsUntransferable: ((object: unknown) => boolean) | undefined =
+  // @ts-ignore Not present in older Node.js type definitions
+  WorkerThreads.isMarkedAsUntransferable;
@@ -24,13 +24,15 @@ export function getWorkerName(worker: WorkerObject): string {
  * Generate a worker URL based on worker object and options
  * @returns A URL to one of the following:
  * - a published worker on unpkg CDN
+ * - on Node.js, the worker bundle of the installed module
  * - a local test worker
  * - a URL provided by the user in options
  */
 export function getWorkerURL(worker: WorkerObject, options: WorkerOptions = {}): string {
   const workerOptions = options[worker.id] || {};
 
-  const workerFile = isBrowser ? `${worker.id}-worker.js` : `${worker.id}-worker-node.js`;
+  // Node.js worker bundles are CommonJS, and our packages are `"type": "module"`
+  const workerFile = isBrowser ? `${worker.id}-worker.js` : `${worker.id}-worker-node.cjs`;
 
   let url = workerOptions.workerUrl;
 
@@ -55,17 +57,9 @@ export function getWorkerURL(worker: WorkerObject, options: WorkerOptions = {}):
     }
   }
 
-  // If url override is not provided, generate a URL to published version on npm CDN unpkg.com
+  // If url override is not provided, use the installed module on Node.js, or a published version on npm CDN unpkg.com
   if (!url) {
-    // GENERATE
-    let version = worker.version;
-    // On master we need to load npm alpha releases published with the `beta` tag
-    if (version === 'latest') {
-      // throw new Error('latest worker version specified');
-      version = NPM_TAG;
-    }
-    const versionTag = version ? `@${version}` : '';
-    url = `https://unpkg.com/@loaders.gl/${worker.module}${versionTag}/dist/${workerFile}`;
+    url = getDefaultWorkerURL(worker, workerFile);
   }
 
   assert(url);
@@ -73,3 +67,23 @@ export function getWorkerURL(worker: WorkerObject, options: WorkerOptions = {}):
   // Allow user to override location
   return url;
 }
+
+function getDefaultWorkerURL(worker: WorkerObject, workerFile: string): string {
+  // Node.js cannot start workers from URLs, use the bundle of the installed module (requires @loaders.gl/polyfills)
+  if (!isBrowser) {
+    const {resolvePackageFile} = globalThis.loaders || {};
+    const filePath = resolvePackageFile?.(`@loaders.gl/${worker.module}`, workerFile);
+    if (filePath) {
+      return filePath;
+    }
+  }
+
+  let version = worker.version;
+  // On master we need to load npm alpha releases published with the `beta` tag
+  if (version === 'latest') {
+    // throw new Error('latest worker version specified');
+    version = NPM_TAG;
+  }
+  const versionTag = version ? `@${version}` : '';
+  return `https://unpkg.com/@loaders.gl/${worker.module}${versionTag}/dist/${workerFile}`;
+}
@@ -10,12 +10,16 @@ import WorkerThread from './worker-thread';
  * @param maxMobileConcurrency - max count of workers on mobile
  * @param maxConcurrency - max count of workers
  * @param reuseWorkers - if false, destroys workers when task is completed
+ * @param jobTimeout - milliseconds after which a job is cancelled and its worker terminated, 0 disables
+ * @param maxJobRetries - how many times a job is retried on a fresh worker after an uncaught worker error
  * @param onDebug - callback intended to allow application to log worker pool activity
  */
 export type WorkerFarmProps = {
   maxConcurrency?: number;
   maxMobileConcurrency?: number;
   reuseWorkers?: boolean;
+  jobTimeout?: number;
+  maxJobRetries?: number;
   onDebug?: () => void;
 };
 
@@ -23,6 +27,8 @@ const DEFAULT_PROPS: Required<WorkerFarmProps> = {
   maxConcurrency: 3,
   maxMobileConcurrency: 1,
   reuseWorkers: true,
+  jobTimeout: 0,
+  maxJobRetries: 0,
   onDebug: () => {}
 };
 
@@ -107,6 +113,8 @@ export default class WorkerFarm {
       maxConcurrency: this.props.maxConcurrency,
       maxMobileConcurrency: this.props.maxMobileConcurrency,
       reuseWorkers: this.props.reuseWorkers,
+      jobTimeout: this.props.jobTimeout,
+      maxJobRetries: this.props.maxJobRetries,
       onDebug: this.props.onDebug
     };
   }
@@ -5,23 +5,44 @@
 import type {WorkerMessageType, WorkerMessagePayload} from '../../types';
 import WorkerThread from './worker-thread';
 import {assert} from '../env-utils/assert';
+import {WorkerTimeoutError} from './worker-timeout-error';
+
+/** Options for a job started by `WorkerPool.startJob()` */
+export type WorkerJobOptions = {
+  /** Milliseconds after which the job is cancelled and its worker thread terminated. `0` disables. */
+  timeout?: number;
+  /** How many times the job is restarted on a fresh worker thread after an uncaught worker error */
+  maxRetries?: number;
+};
 
 /**
  * Represents one Job handled by a WorkerPool or WorkerFarm
  */
 export default class WorkerJob {
   readonly name: string;
-  readonly workerThread: WorkerThread;
+  /** Worker thread running the job. Replaced if the job is retried after a worker crash. */
+  workerThread: WorkerThread;
   isRunning: boolean = true;
+  /** Set if the job was cancelled before it completed */
+  isCancelled: boolean = false;
+  /** Set if the job was cancelled because it did not complete in time */
+  isTimedOut: boolean = false;
+  /** Set once a message has been posted to the worker thread */
+  isDispatched: boolean = false;
+  /** Remaining number of times the job can be retried after a worker crash */
+  retriesLeft: number;
   /** Promise that resolves when Job is done */
   readonly result: Promise<any>;
 
   private _resolve: (value: any) => void = () => {};
   private _reject: (reason?: any) => void = () => {};
+  /** Messages posted so far, kept while the job can be retried */
+  private _messages: {type: WorkerMessageType; payload: WorkerMessagePayload}[] = [];
 
-  constructor(jobName: string, workerThread: WorkerThread) {
+  constructor(jobName: string, workerThread: WorkerThread, options: WorkerJobOptions = {}) {
     this.name = jobName;
     this.workerThread = workerThread;
+    this.retriesLeft = options.maxRetries || 0;
     this.result = new Promise((resolve, reject) => {
       this._resolve = resolve;
       this._reject = reject;
@@ -31,21 +52,42 @@ export default class WorkerJob {
   /**
    * Send a message to the job's worker thread
    * @param data any data structure, ideally consisting mostly of transferrable objects
+   * @note While the job can be retried, messages are copied rather than transferred so that they can be re-posted
    */
   postMessage(type: WorkerMessageType, payload: WorkerMessagePayload): void {
-    this.workerThread.postMessage({
-      source: 'loaders.gl', // Lets worker ignore unrelated messages
-      type,
-      payload
-    });
+    this.isDispatched = true;
+    if (this.retriesLeft > 0) {
+      this._messages.push({type, payload});
+    }
+    this._postMessage(type, payload);
+  }
+
+  /**
+   * Restart the job on a fresh worker thread, re-posting all messages posted so far
+   * @note Called by the WorkerPool after an uncaught error in the job's worker thread
+   */
+  retry(workerThread: WorkerThread): void {
+    assert(this.retriesLeft > 0);
+    this.retriesLeft--;
+    this.workerThread = workerThread;
+    const messages = this._messages;
+    this._messages = this.retriesLeft > 0 ? messages : [];
+    for (const {type, payload} of messages) {
+      this._postMessage(type, payload);
+    }
   }
 
   /**
    * Call to resolve the `result` Promise with the supplied value
    */
   done(value: any): void {
+    // Late messages from the worker of a cancelled job are ignored
+    if (this.isCancelled) {
+      return;
+    }
     assert(this.isRunning);
     this.isRunning = false;
+    this._messages = [];
     this._resolve(value);
   }
 
@@ -53,8 +95,50 @@ export default class WorkerJob {
    * Call to reject the `result` Promise with the supplied error
    */
   error(error: Error): void {
+    if (this.isCancelled) {
+      return;
+    }
     assert(this.isRunning);
     this.isRunning = false;
+    this._messages = [];
     this._reject(error);
   }
+
+  /**
+   * Cancel the job, rejecting the `result` Promise with the supplied error
+   * @note If the job has already been dispatched, the worker thread is terminated rather than reused
+   */
+  cancel(error: Error = new Error(`Job ${this.name} cancelled`)): void {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isRunning = false;
+    this.isCancelled = true;
+    this._messages = [];
+    this._reject(error);
+  }
+
+  /**
+   * Cancel the job because it did not complete within `timeout` milliseconds
+   * The `result` Promise is rejected with a `WorkerTimeoutError`
+   */
+  timeOut(timeout: number): void {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isTimedOut = true;
+    this.cancel(new WorkerTimeoutError(`Job ${this.name} timed out after ${timeout}ms`, timeout));
+  }
+
+  private _postMessage(type: WorkerMessageType, payload: WorkerMessagePayload): void {
+    this.workerThread.postMessage(
+      {
+        source: 'loaders.gl', // Lets worker ignore unrelated messages
+        type,
+        payload
+      },
+      // Messages that may be re-posted must not be transferred
+      this.retriesLeft > 0 ? [] : undefined
+    );
+  }
 }
@@ -2,10 +2,17 @@
 // SPDX-License-Identifier: MIT
 // Copyright (c) vis.gl contributors
 
+import {Stats} from '@probe.gl/stats';
 import type {WorkerMessageType, WorkerMessagePayload} from '../../types';
 import {isMobile, isBrowser} from '../env-utils/globals';
 import WorkerThread from './worker-thread';
-import WorkerJob from './worker-job';
+import WorkerJob, {type WorkerJobOptions} from './worker-job';
+
+const STAT_QUEUED_JOBS = 'Queued Jobs';
+const STAT_ACTIVE_JOBS = 'Active Jobs';
+const STAT_FAILED_JOBS = 'Failed Jobs';
+const STAT_TIMED_OUT_JOBS = 'Timed Out Jobs';
+const STAT_RETRIED_JOBS = 'Retried Jobs';
 
 /** WorkerPool onDebug Callback Parameters */
 type OnDebugParameters = {
@@ -26,6 +33,10 @@ export type WorkerPoolProps = {
   maxMobileConcurrency?: number;
   onDebug?: (options: OnDebugParameters) => any;
   reuseWorkers?: boolean;
+  /** Default timeout in milliseconds for jobs, after which the worker thread is terminated. `0` disables. */
+  jobTimeout?: number;
+  /** Default number of times a job is retried on a fresh worker thread after an uncaught worker error */
+  maxJobRetries?: number;
 };
 
 /** Private helper types */
@@ -37,6 +48,7 @@ type QueuedJob = {
   onMessage: OnMessage;
   onError: OnError;
   onStart: (value: any) => void; // Resolve job start promise
+  options: WorkerJobOptions;
 };
 
 /**
@@ -50,6 +62,10 @@ export default class WorkerPool {
   maxMobileConcurrency: number = 1;
   onDebug: (options: OnDebugParameters) => any = () => {};
   reuseWorkers: boolean = true;
+  jobTimeout: number = 0;
+  maxJobRetries: number = 0;
+  /** Counts of queued, active, failed, timed out and retried jobs */
+  readonly stats: Stats;
 
   private props: WorkerPoolProps = {};
   private jobQueue: QueuedJob[] = [];
@@ -70,6 +86,13 @@ export default class WorkerPool {
     this.source = props.source;
     this.url = props.url;
     this.setProps(props);
+
+    this.stats = new Stats({id: this.name});
+    this.stats.get(STAT_QUEUED_JOBS);
+    this.stats.get(STAT_ACTIVE_JOBS);
+    this.stats.get(STAT_FAILED_JOBS);
+    this.stats.get(STAT_TIMED_OUT_JOBS);
+    this.stats.get(STAT_RETRIED_JOBS);
   }
 
   /**
@@ -100,17 +123,29 @@ export default class WorkerPool {
     if (props.onDebug !== undefined) {
       this.onDebug = props.onDebug;
     }
+    if (props.jobTimeout !== undefined) {
+      this.jobTimeout = props.jobTimeout;
+    }
+    if (props.maxJobRetries !== undefined) {
+      this.maxJobRetries = props.maxJobRetries;
+    }
   }
 
+  /**
+   * Queues a job, and resolves when a worker thread is available to process it
+   * @param options override the pool's `jobTimeout` and `maxJobRetries` for this job
+   */
   async startJob(
     name: string,
     onMessage: OnMessage = (job, type, data) => job.done(data),
-    onError: OnError = (job, error) => job.error(error)
+    onError: OnError = (job, error) => job.error(error),
+    options: WorkerJobOptions = {}
   ): Promise<WorkerJob> {
     // Promise resolves when thread starts working on this job
     const startPromise = new Promise<WorkerJob>((onStart) => {
       // Promise resolves when thread completes or fails working on this job
-      this.jobQueue.push({name, onMessage, onError, onStart});
+      this.jobQueue.push({name, onMessage, onError, onStart, options});
+      this.stats.get(STAT_QUEUED_JOBS).incrementCount();
       return this;
     });
     this._startQueuedJob(); // eslint-disable-line @typescript-eslint/no-floating-promises
@@ -146,11 +181,13 @@ export default class WorkerPool {
       });
 
       // Create a worker job to let the app access thread and manage job completion
-      const job = new WorkerJob(queuedJob.name, workerThread);
+      const {timeout = this.jobTimeout, maxRetries = this.maxJobRetries} = queuedJob.options;
+      const job = new WorkerJob(queuedJob.name, workerThread, {maxRetries});
+      this.stats.get(STAT_QUEUED_JOBS).decrementCount();
+      this.stats.get(STAT_ACTIVE_JOBS).incrementCount();
 
-      // Set the worker thread's message handlers
-      workerThread.onMessage = (data) => queuedJob.onMessage(job, data.type, data.payload);
-      workerThread.onError = (error) => queuedJob.onError(job, error);
+      this._setWorkerThreadHandlers(job, queuedJob);
+      const timer = timeout > 0 ? setTimeout(() => job.timeOut(timeout), timeout) : null;
 
       // Resolve the start promise so that the app can start sending messages to worker
       queuedJob.onStart(job);
@@ -159,24 +196,67 @@ export default class WorkerPool {
       try {
         await job.result;
       } catch (error) {
-        // eslint-disable-next-line no-console
-        console.error(`Worker exception: ${error}`);
+        this._onJobFailed(job, error);
       } finally {
-        this.returnWorkerToQueue(workerThread);
+        if (timer) {
+          clearTimeout(timer);
+        }
+        this.stats.get(STAT_ACTIVE_JOBS).decrementCount();
+        // A cancelled job may still be running on the worker thread, so the thread can't be reused
+        this.returnWorkerToQueue(job.workerThread, job.isCancelled && job.isDispatched);
       }
     }
   }
 
+  /** Routes messages and errors from the job's worker thread to the job's handlers */
+  _setWorkerThreadHandlers(job: WorkerJob, queuedJob: QueuedJob): void {
+    const {workerThread} = job;
+    workerThread.onMessage = (data) => queuedJob.onMessage(job, data.type, data.payload);
+    workerThread.onError = (error) => {
+      if (job.isRunning && job.retriesLeft > 0) {
+        this._retryJob(job, queuedJob);
+      } else {
+        queuedJob.onError(job, error);
+      }
+    };
+  }
+
+  /** Replaces the crashed worker thread of a job with a fresh one, and restarts the job on it */
+  _retryJob(job: WorkerJob, queuedJob: QueuedJob): void {
+    this.stats.get(STAT_RETRIED_JOBS).incrementCount();
+    job.workerThread.destroy();
+    job.retry(this._createWorkerThread());
+    this._setWorkerThreadHandlers(job, queuedJob);
+  }
+
+  _onJobFailed(job: WorkerJob, error: unknown): void {
+    if (job.isTimedOut) {
+      this.stats.get(STAT_TIMED_OUT_JOBS).incrementCount();
+    }
+    if (!job.isCancelled) {
+      this.stats.get(STAT_FAILED_JOBS).incrementCount();
+      // eslint-disable-next-line no-console
+      console.error(`Worker exception: ${error}`);
+    }
+  }
+
   /**
    * Returns a worker to the idle queue
    * Destroys the worker if
    *  - pool is destroyed
    *  - if this pool doesn't reuse workers
    *  - if maxConcurrency has been lowered
+   *  - if the worker is still busy with a cancelled job
+   *  - if the worker has crashed
    * @param worker
+   * @param isBusy worker is still processing a cancelled job
    */
-  returnWorkerToQueue(worker: WorkerThread) {
+  returnWorkerToQueue(worker: WorkerThread, isBusy: boolean = false) {
     const shouldDestroyWorker =
+      // A worker still processing a cancelled job is terminated (and replaced on demand)
+      isBusy ||
+      // A worker that had an uncaught error has been terminated
+      worker.terminated ||
       // Workers on Node.js prevent the process from exiting.
       // Until we figure out how to close them before exit, we always destroy them
       !isBrowser ||
@@ -211,14 +291,18 @@ export default class WorkerPool {
     // Create fresh worker if we haven't yet created the max amount of worker threads for this worker source
     if (this.count < this._getMaxConcurrency()) {
       this.count++;
-      const name = `${this.name.toLowerCase()} (#${this.count} of ${this.maxConcurrency})`;
-      return new WorkerThread({name, source: this.source, url: this.url});
+      return this._createWorkerThread();
     }
 
     // No worker available, have to wait
     return null;
   }
 
+  _createWorkerThread(): WorkerThread {
+    const name = `${this.name.toLowerCase()} (#${this.count} of ${this.maxConcurrency})`;
+    return new WorkerThread({name, source: this.source, url: this.url});
+  }
+
   _getMaxConcurrency() {
     return isMobile ? this.maxMobileConcurrency : this.maxConcurrency;
   }
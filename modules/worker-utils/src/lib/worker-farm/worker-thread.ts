@@ -145,12 +145,17 @@ export default class WorkerThread {
       // console.error('message', data);
       this.onMessage(data);
     });
+    // This callback represents an uncaught exception in the worker thread
     worker.on('error', (error) => {
-      // console.error('error', error);
       this.onError(error);
+      this.terminated = true;
     });
+    // A worker that exits without being terminated has crashed, e.g. by running out of memory
     worker.on('exit', (code) => {
-      // console.error('exit', code);
+      if (!this.terminated) {
+        this.onError(new Error(`Worker ${this.name} exited with code ${code}`));
+        this.terminated = true;
+      }
     });
     return worker;
   }
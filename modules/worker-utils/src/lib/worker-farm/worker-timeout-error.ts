@@ -0,0 +1,19 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+/**
+ * Rejects a worker job that did not complete within its timeout
+ * @note The `code` identifies timeouts without importing this class, e.g. `error.code === 'TIMEOUT'`
+ */
+export class WorkerTimeoutError extends Error {
+  readonly code = 'TIMEOUT';
+  /** The timeout of the job, in milliseconds */
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'WorkerTimeoutError';
+    this.timeout = timeout;
+  }
+}
@@ -5,6 +5,8 @@
 // NOTE - there is a copy of this function is both in core and loader-utils
 // core does not need all the utils in loader-utils, just this one.
 
+import {isMarkedAsUntransferable} from '../node/worker_threads';
+
 /**
  * Returns an array of Transferrable objects that can be used with postMessage
  * https://developer.mozilla.org/en-US/docs/Web/API/Worker/postMessage
@@ -49,7 +51,8 @@ function isTransferable(object: unknown) {
     return false;
   }
   if (object instanceof ArrayBuffer) {
-    return true;
+    // Node.js buffers from the shared `Buffer` pool cannot be transferred, only copied
+    return !isMarkedAsUntransferable?.(object);
   }
   if (typeof MessagePort !== 'undefined' && object instanceof MessagePort) {
     return true;
@@ -79,6 +79,8 @@ export type WorkerMessagePayload = {
   input?: any; // Transferable;
   result?: any; // Transferable
   error?: string;
+  /** Machine-readable error details, e.g. the `code` and `byteOffset` of a `LoaderError` */
+  errorInfo?: {[key: string]: any};
 };
 
 export type WorkerMessageData = {
@@ -3,7 +3,7 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
-import {WorkerPool} from '@loaders.gl/worker-utils';
+import {WorkerPool, WorkerJob, WorkerTimeoutError} from '@loaders.gl/worker-utils';
 
 const CHUNKS_TOTAL = 6;
 const MAX_CONCURRENCY = 3;
@@ -115,3 +115,148 @@ test('WorkerPool with reuseWorkers === true param', async (t) => {
   workerPool.destroy();
   t.end();
 });
+
+test('WorkerJob#cancel', async (t) => {
+  const messages: unknown[] = [];
+  const workerThread = {postMessage: (message) => messages.push(message)};
+
+  // @ts-expect-error only postMessage is used
+  const job = new WorkerJob('test-job', workerThread);
+  t.notOk(job.isDispatched, 'job is not dispatched before posting a message');
+  job.postMessage('process', {input: 1});
+  t.ok(job.isDispatched, 'job is dispatched after posting a message');
+  t.equal(messages.length, 1, 'message posted to worker thread');
+
+  job.cancel(new Error('cancelled'));
+  t.ok(job.isCancelled, 'job is cancelled');
+  t.notOk(job.isRunning, 'job is no longer running');
+  await t.rejects(job.result, /cancelled/, 'result rejects with cancellation error');
+
+  t.doesNotThrow(() => job.done({output: 1}), 'late results of cancelled job are ignored');
+  t.end();
+});
+
+test('WorkerPool#cancel job', async (t) => {
+  if (!hasWorker) {
+    t.comment('Worker test is browser only');
+    t.end();
+    return;
+  }
+
+  const workerPool = new WorkerPool({
+    source: testWorkerSource,
+    name: 'test-worker',
+    maxConcurrency: 1,
+    reuseWorkers: true
+  });
+
+  // Cancel a job before it is dispatched, the worker can be reused
+  const idleJob = await workerPool.startJob('test-job');
+  idleJob.cancel(new Error('cancelled'));
+  await t.rejects(idleJob.result, /cancelled/, 'cancelled job rejects');
+
+  // Cancel a job after it is dispatched, the worker must be terminated
+  const busyJob = await workerPool.startJob('test-job');
+  t.equal(busyJob.workerThread, idleJob.workerThread, 'worker of undispatched job is reused');
+  busyJob.postMessage('process', {input: 1});
+  busyJob.cancel(new Error('cancelled'));
+  await t.rejects(busyJob.result, /cancelled/, 'cancelled job rejects');
+
+  const job = await workerPool.startJob('test-job');
+  t.ok(busyJob.workerThread.terminated, 'worker of dispatched job is terminated');
+  t.notEqual(job.workerThread, busyJob.workerThread, 'new worker is created');
+  job.postMessage('process', {input: 2});
+  t.deepEqual(await job.result, {output: 2}, 'new worker processes jobs');
+
+  workerPool.destroy();
+  t.end();
+});
+
+// Runs on both browser workers and Node.js worker_threads
+const crashingWorkerSource = `
+  const port = typeof self === 'undefined' ? require('worker_threads').parentPort : self;
+  function onMessage(data) {
+    const {input} = data.payload;
+    if (input === 'crash') {
+      throw new Error('crash');
+    }
+    if (input !== 'hang') {
+      port.postMessage({source: 'loaders.gl', type: 'done', payload: {output: input}});
+    }
+  }
+  if (typeof self === 'undefined') {
+    port.on('message', onMessage);
+  } else {
+    self.onmessage = function (event) { onMessage(event.data); };
+  }
+`;
+
+test('WorkerPool#jobTimeout', async (t) => {
+  if (!WorkerPool.isSupported()) {
+    t.comment('Workers not supported');
+    t.end();
+    return;
+  }
+
+  const workerPool = new WorkerPool({
+    source: crashingWorkerSource,
+    name: 'timeout-worker',
+    maxConcurrency: 1,
+    jobTimeout: 100
+  });
+
+  const job = await workerPool.startJob('test-job');
+  job.postMessage('process', {input: 'hang'});
+  const error = await job.result.catch((reason) => reason);
+  t.ok(error instanceof WorkerTimeoutError, 'job times out');
+  t.equal(error.code, 'TIMEOUT', 'timeout error has a code');
+  t.equal(error.timeout, 100, 'timeout error has the timeout');
+  t.ok(job.isTimedOut, 'job is timed out');
+
+  const nextJob = await workerPool.startJob('test-job', undefined, undefined, {timeout: 0});
+  t.ok(job.workerThread.terminated, 'worker of timed out job is terminated');
+  t.notEqual(nextJob.workerThread, job.workerThread, 'new worker is created');
+  nextJob.postMessage('process', {input: 1});
+  t.deepEqual(await nextJob.result, {output: 1}, 'new worker processes jobs');
+
+  t.equal(workerPool.stats.get('Timed Out Jobs').count, 1, 'timed out jobs are counted');
+  t.equal(workerPool.stats.get('Active Jobs').count, 0, 'no active jobs');
+  t.equal(workerPool.stats.get('Queued Jobs').count, 0, 'no queued jobs');
+
+  workerPool.destroy();
+  t.end();
+});
+
+test('WorkerPool#maxJobRetries', async (t) => {
+  if (!WorkerPool.isSupported()) {
+    t.comment('Workers not supported');
+    t.end();
+    return;
+  }
+
+  const workerPool = new WorkerPool({
+    source: crashingWorkerSource,
+    name: 'crashing-worker',
+    maxConcurrency: 1,
+    maxJobRetries: 1
+  });
+
+  const job = await workerPool.startJob('test-job');
+  const workerThread = job.workerThread;
+  const input = new Uint8Array([1, 2, 3]);
+  job.postMessage('process', {input: 'crash', context: {data: input.buffer}});
+  t.equal(input.byteLength, 3, 'input of retryable job is not transferred');
+  await t.rejects(job.result, /crash/, 'job fails after retries are exhausted');
+  t.notEqual(job.workerThread, workerThread, 'job was retried on a new worker');
+  t.ok(workerThread.terminated, 'crashed worker is terminated');
+
+  t.equal(workerPool.stats.get('Retried Jobs').count, 1, 'retried jobs are counted');
+  t.equal(workerPool.stats.get('Failed Jobs').count, 1, 'failed jobs are counted');
+
+  const nextJob = await workerPool.startJob('test-job');
+  nextJob.postMessage('process', {input: 2});
+  t.deepEqual(await nextJob.result, {output: 2}, 'pool recovers from crashed workers');
+
+  workerPool.destroy();
+  t.end();
+});
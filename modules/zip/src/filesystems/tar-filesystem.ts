@@ -0,0 +1,193 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {
+  FileSystem,
+  isBrowser,
+  FileProviderInterface,
+  isFileProvider,
+  FileHandleFile,
+  DataViewFile
+} from '@loaders.gl/loader-utils';
+import {GZipCompression} from '@loaders.gl/compression';
+import {TarFileHeader, makeTarHeaderIterator} from '../parse-tar/tar-header';
+
+/** Options for TarFileSystem */
+export type TarFileSystemOptions = {
+  /**
+   * Whether the archive is gzipped (`.tar.gz`, `.tgz`). Detected from the first bytes by default.
+   * Gzipped archives are decompressed into memory, as gzip does not allow random access.
+   */
+  gzip?: boolean;
+};
+
+/** Symbolic and hard links followed before giving up */
+const MAX_LINK_DEPTH = 16;
+
+/**
+ * FileSystem adapter for a tar file
+ * Holds FileProvider object that provides random access to archived files
+ */
+export class TarFileSystem implements FileSystem {
+  /** FileProvider instance promise */
+  public fileProvider: FileProviderInterface | null = null;
+  public fileName?: string;
+  private options: TarFileSystemOptions;
+  /** Tar archives have no central directory, so the headers are read once */
+  private fileHeaders: Promise<Map<string, TarFileHeader>> | null = null;
+
+  /**
+   * Constructor
+   * @param file - instance of FileProvider or file path string
+   * @param options - gzip option
+   */
+  constructor(file: FileProviderInterface | string, options: TarFileSystemOptions = {}) {
+    this.options = options;
+    // Try to open file in NodeJS
+    if (typeof file === 'string') {
+      this.fileName = file;
+      if (!isBrowser) {
+        this.fileProvider = new FileHandleFile(file);
+      } else {
+        throw new Error('Cannot open file for random access in a WEB browser');
+      }
+    } else if (isFileProvider(file)) {
+      this.fileProvider = file;
+    }
+  }
+
+  /** Clean up resources */
+  async destroy() {
+    if (this.fileProvider) {
+      await this.fileProvider.destroy();
+    }
+  }
+
+  /**
+   * Get file names list from tar archive
+   * @returns array of file names
+   */
+  async readdir(): Promise<string[]> {
+    const fileHeaders = await this.getFileHeaders();
+    return Array.from(fileHeaders.keys());
+  }
+
+  /**
+   * Get file metadata
+   * @param filename - name of a file
+   * @returns tar header data
+   */
+  async stat(filename: string): Promise<TarFileHeader & {size: number}> {
+    const fileHeader = await this.getFileHeader(filename);
+    return {...fileHeader, size: Number(fileHeader.fileSize)};
+  }
+
+  /**
+   * Implementation of fetch against this file system
+   * @param filename - name of a file
+   * @returns - Response with file data
+   */
+  async fetch(filename: string): Promise<Response> {
+    if (this.fileName && filename.indexOf(this.fileName) === 0) {
+      filename = filename.substring(this.fileName.length + 1);
+    }
+
+    const fileHeader = await this.resolveLinks(await this.getFileHeader(filename));
+    const fileProvider = await this.getTarFileProvider();
+    const file = await fileProvider.slice(
+      fileHeader.fileDataOffset,
+      fileHeader.fileDataOffset + fileHeader.fileSize
+    );
+
+    const response = new Response(file);
+    Object.defineProperty(response, 'url', {
+      value: filename ? `${this.fileName || ''}/${filename}` : this.fileName || ''
+    });
+    return response;
+  }
+
+  /**
+   * Get tar header of a file
+   * @param filename - name of a file
+   * @returns tar header
+   */
+  private async getFileHeader(filename: string): Promise<TarFileHeader> {
+    const fileHeaders = await this.getFileHeaders();
+    const fileHeader = fileHeaders.get(filename);
+    if (!fileHeader) {
+      throw new Error('File has not been found in the tar archive');
+    }
+    return fileHeader;
+  }
+
+  /** Tar headers by file name */
+  private async getFileHeaders(): Promise<Map<string, TarFileHeader>> {
+    this.fileHeaders = this.fileHeaders || this.readFileHeaders();
+    return await this.fileHeaders;
+  }
+
+  /** Reads the headers of all files. Later entries replace earlier entries with the same name */
+  private async readFileHeaders(): Promise<Map<string, TarFileHeader>> {
+    const fileHeaders = new Map<string, TarFileHeader>();
+    for await (const fileHeader of makeTarHeaderIterator(await this.getTarFileProvider())) {
+      if (fileHeader.fileName) {
+        fileHeaders.set(fileHeader.fileName, fileHeader);
+      }
+    }
+    return fileHeaders;
+  }
+
+  /** Returns the header of the file that symbolic and hard links point to */
+  private async resolveLinks(fileHeader: TarFileHeader): Promise<TarFileHeader> {
+    let header = fileHeader;
+    for (let depth = 0; depth < MAX_LINK_DEPTH; depth++) {
+      if (header.type === 'link') {
+        // Hard links hold the path of the target in the archive
+        header = await this.getFileHeader(resolvePath('', header.linkName));
+      } else if (header.type === 'symlink') {
+        header = await this.getFileHeader(resolvePath(header.fileName, header.linkName));
+      } else {
+        return header;
+      }
+    }
+    throw new Error(`Too many levels of links in the tar archive: ${fileHeader.fileName}`);
+  }
+
+  /** Decompresses gzipped archives */
+  private async getTarFileProvider(): Promise<FileProviderInterface> {
+    if (!this.fileProvider) {
+      throw new Error('No data detected in the tar archive');
+    }
+    const gzip = this.options.gzip ?? (await isGzip(this.fileProvider));
+    if (gzip) {
+      const compressedData = await this.fileProvider.slice(0n, this.fileProvider.length);
+      const data = await new GZipCompression().decompress(compressedData);
+      await this.fileProvider.destroy();
+      this.fileProvider = new DataViewFile(new DataView(data));
+      this.options = {...this.options, gzip: false};
+    }
+    return this.fileProvider;
+  }
+}
+
+async function isGzip(fileProvider: FileProviderInterface): Promise<boolean> {
+  return (
+    fileProvider.length >= 2n &&
+    (await fileProvider.getUint8(0n)) === 0x1f &&
+    (await fileProvider.getUint8(1n)) === 0x8b
+  );
+}
+
+/** Resolves the target of a symbolic link relative to the directory of the link */
+function resolvePath(linkPath: string, target: string): string {
+  const parts = target.startsWith('/') ? [] : linkPath.split('/').slice(0, -1);
+  for (const part of target.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
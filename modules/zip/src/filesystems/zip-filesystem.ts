@@ -7,14 +7,24 @@ import {
   isBrowser,
   FileProviderInterface,
   isFileProvider,
-  FileHandleFile
+  FileHandleFile,
+  UnsupportedFormatError,
+  InvalidPasswordError
 } from '@loaders.gl/loader-utils';
 import {ZipCDFileHeader, makeZipCDHeaderIterator} from '../parse-zip/cd-file-header';
-import {parseZipLocalFileHeader} from '../parse-zip/local-file-header';
-import {DeflateCompression} from '@loaders.gl/compression';
+import {ZipLocalFileHeader, parseZipLocalFileHeader} from '../parse-zip/local-file-header';
+import {DeflateCompression, ZstdCompression} from '@loaders.gl/compression';
 import {IndexedArchive} from './IndexedArchive';
+import {inflate64} from '../lib/compression/deflate64';
+import {bunzip2} from '../lib/compression/bzip2';
+import {unzipLZMA} from '../lib/compression/lzma';
+import {decryptZipCrypto} from '../lib/encryption/zip-crypto';
+import {decryptWinZipAES} from '../lib/encryption/winzip-aes';
 
-export type CompressionHandler = (compressedFile: ArrayBuffer) => Promise<ArrayBuffer>;
+export type CompressionHandler = (
+  compressedFile: ArrayBuffer,
+  uncompressedSize?: number
+) => Promise<ArrayBuffer>;
 /** Handling different compression types in zip */
 export const ZIP_COMPRESSION_HANDLERS: {[key: number]: CompressionHandler} = {
   /** No compression */
@@ -24,9 +34,49 @@ export const ZIP_COMPRESSION_HANDLERS: {[key: number]: CompressionHandler} = {
     const compression = new DeflateCompression({raw: true});
     const decompressedData = await compression.decompress(compressedFile);
     return decompressedData;
+  },
+  /** Deflate64 */
+  9: async (compressedFile, uncompressedSize) => inflate64(compressedFile, uncompressedSize),
+  /** bzip2 */
+  12: async (compressedFile, uncompressedSize) => bunzip2(compressedFile, uncompressedSize),
+  /** LZMA */
+  14: async (compressedFile, uncompressedSize) => unzipLZMA(compressedFile, uncompressedSize),
+  /** Zstandard. Requires the `zstd-codec` module to be registered with `registerJSModules()` */
+  93: async (compressedFile) => {
+    const compression = new ZstdCompression({});
+    return await compression.decompress(compressedFile);
   }
 };
 
+/** Names of compression methods that are not supported, for error messages */
+const UNSUPPORTED_COMPRESSION_METHODS: {[key: number]: string} = {
+  1: 'Shrink',
+  2: 'Reduce',
+  3: 'Reduce',
+  4: 'Reduce',
+  5: 'Reduce',
+  6: 'Implode',
+  10: 'PKWARE DCL Implode',
+  18: 'IBM TERSE',
+  19: 'IBM LZ77',
+  95: 'XZ',
+  96: 'JPEG',
+  97: 'WavPack',
+  98: 'PPMd',
+  99: 'WinZip AES without encryption info'
+};
+
+/** General purpose bit flags */
+const ENCRYPTED_FLAG = 0x1;
+const DATA_DESCRIPTOR_FLAG = 0x8;
+const STRONG_ENCRYPTION_FLAG = 0x40;
+
+/** Options for ZipFileSystem */
+export type ZipFileSystemOptions = {
+  /** Password of entries encrypted with WinZip AES or the traditional PKWARE encryption (ZipCrypto) */
+  password?: string;
+};
+
 /**
  * FileSystem adapter for a ZIP file
  * Holds FileProvider object that provides random access to archived files
@@ -36,12 +86,18 @@ export class ZipFileSystem implements FileSystem {
   public fileProvider: FileProviderInterface | null = null;
   public fileName?: string;
   public archive: IndexedArchive | null = null;
+  private options: ZipFileSystemOptions;
 
   /**
    * Constructor
    * @param file - instance of FileProvider or file path string
+   * @param options - password of encrypted entries
    */
-  constructor(file: FileProviderInterface | IndexedArchive | string) {
+  constructor(
+    file: FileProviderInterface | IndexedArchive | string,
+    options: ZipFileSystemOptions = {}
+  ) {
+    this.options = options;
     // Try to open file in NodeJS
     if (typeof file === 'string') {
       this.fileName = file;
@@ -102,35 +158,9 @@ export class ZipFileSystem implements FileSystem {
       filename = filename.substring(this.fileName.length + 1);
     }
 
-    let uncompressedFile: ArrayBuffer;
-    if (this.archive) {
-      uncompressedFile = await this.archive.getFile(filename, 'http');
-    } else {
-      if (!this.fileProvider) {
-        throw new Error('No data detected in the zip archive');
-      }
-      const cdFileHeader = await this.getCDFileHeader(filename);
-      const localFileHeader = await parseZipLocalFileHeader(
-        cdFileHeader.localHeaderOffset,
-        this.fileProvider
-      );
-      if (!localFileHeader) {
-        throw new Error('Local file header has not been found in the zip archive`');
-      }
-
-      const compressionHandler =
-        ZIP_COMPRESSION_HANDLERS[localFileHeader.compressionMethod.toString()];
-      if (!compressionHandler) {
-        throw Error('Only Deflation compression is supported');
-      }
-
-      const compressedFile = await this.fileProvider.slice(
-        localFileHeader.fileDataOffset,
-        localFileHeader.fileDataOffset + localFileHeader.compressedSize
-      );
-
-      uncompressedFile = await compressionHandler(compressedFile);
-    }
+    const uncompressedFile = this.archive
+      ? await this.archive.getFile(filename, 'http')
+      : await this.readFile(filename);
 
     const response = new Response(uncompressedFile);
     Object.defineProperty(response, 'url', {
@@ -139,6 +169,82 @@ export class ZipFileSystem implements FileSystem {
     return response;
   }
 
+  /**
+   * Reads, decrypts and decompresses a file from the archive
+   * @param filename - name of a file
+   * @returns uncompressed file data
+   */
+  private async readFile(filename: string): Promise<ArrayBuffer> {
+    if (!this.fileProvider) {
+      throw new Error('No data detected in the zip archive');
+    }
+    const cdFileHeader = await this.getCDFileHeader(filename);
+    const localFileHeader = await parseZipLocalFileHeader(
+      cdFileHeader.localHeaderOffset,
+      this.fileProvider
+    );
+    if (!localFileHeader) {
+      throw new Error('Local file header has not been found in the zip archive`');
+    }
+
+    // Entries encrypted with WinZip AES store the actual compression method in an extra field
+    const compressionMethod =
+      localFileHeader.winZipAES?.compressionMethod ?? localFileHeader.compressionMethod;
+    const compressionHandler = ZIP_COMPRESSION_HANDLERS[compressionMethod];
+    if (!compressionHandler) {
+      const methodName = UNSUPPORTED_COMPRESSION_METHODS[compressionMethod] || 'unknown';
+      throw new UnsupportedFormatError(
+        `ZIP compression method ${compressionMethod} (${methodName}) of ${filename} is not supported`,
+        {url: filename}
+      );
+    }
+
+    // Sizes in the local file header are not set for entries followed by a data descriptor
+    let compressedFile = await this.fileProvider.slice(
+      localFileHeader.fileDataOffset,
+      localFileHeader.fileDataOffset + cdFileHeader.compressedSize
+    );
+    if (localFileHeader.generalPurposeBitFlag & ENCRYPTED_FLAG) {
+      compressedFile = await this.decrypt(compressedFile, localFileHeader);
+    }
+
+    return await compressionHandler(compressedFile, Number(cdFileHeader.uncompressedSize));
+  }
+
+  /**
+   * Decrypts an encrypted file
+   * @param encryptedFile - encrypted file data
+   * @param localFileHeader - local file header of the file
+   * @returns compressed file data
+   */
+  private async decrypt(
+    encryptedFile: ArrayBuffer,
+    localFileHeader: ZipLocalFileHeader
+  ): Promise<ArrayBuffer> {
+    const {fileName, generalPurposeBitFlag, winZipAES} = localFileHeader;
+    if (generalPurposeBitFlag & STRONG_ENCRYPTION_FLAG) {
+      throw new UnsupportedFormatError(`ZIP strong encryption of ${fileName} is not supported`, {
+        url: fileName
+      });
+    }
+    const {password} = this.options;
+    if (password === undefined) {
+      throw new InvalidPasswordError(`${fileName} is encrypted, a password is required`, {
+        url: fileName
+      });
+    }
+    if (winZipAES) {
+      return await decryptWinZipAES(encryptedFile, password, winZipAES.strength);
+    }
+    // The last byte of the encryption header is checked against the CRC-32, which is not known
+    // before the data for entries followed by a data descriptor
+    const checkByte =
+      generalPurposeBitFlag & DATA_DESCRIPTOR_FLAG
+        ? localFileHeader.lastModTime >>> 8
+        : localFileHeader.crc32 >>> 24;
+    return decryptZipCrypto(encryptedFile, password, checkByte);
+  }
+
   /**
    * Get central directory file header
    * @param filename - name of a file
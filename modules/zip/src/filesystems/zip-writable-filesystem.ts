@@ -0,0 +1,42 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {WritableFile} from '@loaders.gl/loader-utils';
+import {MemoryFileSystem} from '@loaders.gl/loader-utils';
+import {ZipWriter, ZipWriterOptions} from '../zip-writer';
+
+export type ZipWritableFileSystemProps = {
+  /** If supplied, the archive is written to this file when the file system is closed */
+  file?: WritableFile;
+  /** Options for encoding the archive */
+  zipWriterOptions?: ZipWriterOptions;
+};
+
+/**
+ * WritableFileSystem that collects files into a ZIP archive
+ * - Files are kept in memory until `close()` encodes the archive.
+ * @note Empty directories are not stored in the archive
+ */
+export class ZipWritableFileSystem extends MemoryFileSystem {
+  readonly props: ZipWritableFileSystemProps;
+
+  constructor(props: ZipWritableFileSystemProps = {}) {
+    super();
+    this.props = props;
+  }
+
+  /**
+   * Encode the archive, and write it to `props.file` (which is then closed) if supplied
+   * @returns the encoded archive
+   */
+  async close(): Promise<ArrayBuffer> {
+    const arrayBuffer = await ZipWriter.encode(this.getFileMap(), this.props.zipWriterOptions);
+    const {file} = this.props;
+    if (file) {
+      await file.write(arrayBuffer);
+      await file.close();
+    }
+    return arrayBuffer;
+  }
+}
@@ -5,6 +5,7 @@
 export {ZipLoader} from './zip-loader';
 export {ZipWriter} from './zip-writer';
 export {TarBuilder} from './tar-builder';
+export {TarLoader} from './tar-loader';
 
 export {
   parseZipCDFileHeader,
@@ -20,10 +21,22 @@ export {
 export {parseEoCDRecord} from './parse-zip/end-of-central-directory';
 export {searchFromTheEnd} from './parse-zip/search-from-the-end';
 export {addOneFile, createZip} from './parse-zip/zip-composition';
+export {writeZipArchive} from './parse-zip/zip-archive-writer';
+export type {
+  ZipArchiveEntry,
+  ZipEntryCompression,
+  WriteZipArchiveOptions
+} from './parse-zip/zip-archive-writer';
 
 // export type {HashElement} from './hash-file-utility';
 export {IndexedArchive} from './filesystems/IndexedArchive';
 export {parseHashTable, makeHashTableFromZipHeaders, composeHashFile} from './hash-file-utility';
 
 export {ZipFileSystem, ZIP_COMPRESSION_HANDLERS} from './filesystems/zip-filesystem';
-export type {CompressionHandler} from './filesystems/zip-filesystem';
+export type {CompressionHandler, ZipFileSystemOptions} from './filesystems/zip-filesystem';
+export {TarFileSystem} from './filesystems/tar-filesystem';
+export type {TarFileSystemOptions} from './filesystems/tar-filesystem';
+export {parseTarHeader, makeTarHeaderIterator} from './parse-tar/tar-header';
+export type {TarFileHeader, TarEntryType} from './parse-tar/tar-header';
+export {ZipWritableFileSystem} from './filesystems/zip-writable-filesystem';
+export type {ZipWritableFileSystemProps} from './filesystems/zip-writable-filesystem';
@@ -0,0 +1,327 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// bzip2 format: https://github.com/dsnet/compress/blob/master/doc/bzip2-format.pdf
+// ZIP compression method 12
+
+import {CorruptDataError, UnsupportedFormatError} from '@loaders.gl/loader-utils';
+import {OutputBuffer} from './output-buffer';
+
+const BLOCK_MAGIC_HIGH = 0x314159;
+const BLOCK_MAGIC_LOW = 0x265359;
+const END_MAGIC_HIGH = 0x177245;
+const END_MAGIC_LOW = 0x385090;
+
+const MAX_GROUPS = 6;
+const MAX_CODE_LENGTH = 20;
+const SYMBOLS_PER_GROUP = 50;
+const RUNA = 0;
+const RUNB = 1;
+
+/** Canonical Huffman code: number of codes of each length, and symbols ordered by code */
+type Huffman = {counts: Uint16Array; symbols: Uint16Array};
+
+/**
+ * Decompresses bzip2 data, which may consist of several concatenated streams
+ * @note Checksums are not verified
+ * @param compressedData - bzip2 stream(s)
+ * @param uncompressedSize - expected size of the output, if known
+ */
+export function bunzip2(compressedData: ArrayBuffer, uncompressedSize?: number): ArrayBuffer {
+  const reader = new BitReader(new Uint8Array(compressedData));
+  const output = new OutputBuffer(uncompressedSize);
+  do {
+    readStream(reader, output);
+  } while (reader.hasData());
+  return output.getArrayBuffer();
+}
+
+function readStream(reader: BitReader, output: OutputBuffer): void {
+  // 'BZh' followed by the block size in 100KB
+  if (reader.bits(24) !== 0x425a68) {
+    throw new CorruptDataError('bzip2: invalid stream header');
+  }
+  const level = reader.bits(8) - 0x30;
+  if (level < 1 || level > 9) {
+    throw new CorruptDataError('bzip2: invalid block size');
+  }
+  const blockData = new Uint32Array(level * 100000);
+
+  let originPointer = readBlockHeader(reader);
+  while (originPointer >= 0) {
+    const blockLength = readBlock(reader, blockData);
+    if (originPointer >= blockLength && blockLength > 0) {
+      throw new CorruptDataError('bzip2: invalid origin pointer');
+    }
+    linkBlock(blockData, blockLength);
+    writeBlock(blockData, blockLength, originPointer, output);
+    originPointer = readBlockHeader(reader);
+  }
+}
+
+/**
+ * Reads the header of the next block
+ * @returns the origin pointer of the block, or -1 at the end of the stream
+ */
+function readBlockHeader(reader: BitReader): number {
+  const magicHigh = reader.bits(24);
+  const magicLow = reader.bits(24);
+  if (magicHigh === END_MAGIC_HIGH && magicLow === END_MAGIC_LOW) {
+    // Skip the stream CRC, streams are padded to whole bytes
+    reader.bits(32);
+    reader.alignToByte();
+    return -1;
+  }
+  if (magicHigh !== BLOCK_MAGIC_HIGH || magicLow !== BLOCK_MAGIC_LOW) {
+    throw new CorruptDataError('bzip2: invalid block header');
+  }
+  // Skip the block CRC
+  reader.bits(32);
+  if (reader.bits(1)) {
+    throw new UnsupportedFormatError('bzip2: randomized blocks are not supported');
+  }
+  return reader.bits(24);
+}
+
+/**
+ * Reads the Huffman coded, move-to-front and run-length encoded contents of a block
+ * @returns number of bytes of the Burrows-Wheeler transformed block, stored in `blockData`
+ */
+function readBlock(reader: BitReader, blockData: Uint32Array): number {
+  const symbolMap = readSymbolMap(reader);
+  // Run symbols RUNA and RUNB, move-to-front indices 1..n-1, end of block
+  const alphabetSize = symbolMap.length + 2;
+  const {groups, selectors} = readHuffmanGroups(reader, alphabetSize);
+
+  const moveToFront = symbolMap.slice();
+  let length = 0;
+  let runLength = 0;
+  let runBit = 1;
+  for (let index = 0; ; index++) {
+    const group = groups[selectors[Math.floor(index / SYMBOLS_PER_GROUP)]];
+    if (!group) {
+      throw new CorruptDataError('bzip2: missing Huffman group selector');
+    }
+    const symbol = decodeSymbol(reader, group);
+
+    if (symbol === RUNA || symbol === RUNB) {
+      runLength += symbol === RUNA ? runBit : 2 * runBit;
+      runBit *= 2;
+      continue; // eslint-disable-line no-continue
+    }
+
+    // A run of the first move-to-front symbol ends
+    if (length + runLength + 1 > blockData.length) {
+      throw new CorruptDataError('bzip2: block is too long');
+    }
+    blockData.fill(moveToFront[0], length, length + runLength);
+    length += runLength;
+    runLength = 0;
+    runBit = 1;
+
+    if (symbol === alphabetSize - 1) {
+      return length;
+    }
+    blockData[length++] = moveToFrontByte(moveToFront, symbol - 1);
+  }
+}
+
+/** @returns the byte at `index`, after moving it to the front */
+function moveToFrontByte(moveToFront: number[], index: number): number {
+  const byte = moveToFront[index];
+  moveToFront.copyWithin(1, 0, index);
+  moveToFront[0] = byte;
+  return byte;
+}
+
+/** Links each byte to the position of the following byte (inverse Burrows-Wheeler transform) */
+function linkBlock(blockData: Uint32Array, blockLength: number): void {
+  const byteCounts = new Uint32Array(256);
+  for (let i = 0; i < blockLength; i++) {
+    byteCounts[blockData[i]]++;
+  }
+  let sum = 0;
+  for (let byte = 0; byte < 256; byte++) {
+    const count = byteCounts[byte];
+    byteCounts[byte] = sum;
+    sum += count;
+  }
+  for (let i = 0; i < blockLength; i++) {
+    const byte = blockData[i] & 0xff;
+    blockData[byteCounts[byte]++] |= i << 8;
+  }
+}
+
+/** Reverts the Burrows-Wheeler transform and the initial run-length encoding */
+function writeBlock(
+  blockData: Uint32Array,
+  blockLength: number,
+  originPointer: number,
+  output: OutputBuffer
+): void {
+  let position = blockLength > 0 ? blockData[originPointer] >>> 8 : 0;
+  let previousByte = -1;
+  let repeatCount = 0;
+  for (let i = 0; i < blockLength; i++) {
+    const entry = blockData[position];
+    const byte = entry & 0xff;
+    position = entry >>> 8;
+
+    // Runs of 4 to 255 identical bytes are stored as 4 bytes followed by a count
+    if (repeatCount === 4) {
+      for (let j = 0; j < byte; j++) {
+        output.pushByte(previousByte);
+      }
+      repeatCount = 0;
+      previousByte = -1;
+      continue; // eslint-disable-line no-continue
+    }
+    repeatCount = byte === previousByte ? repeatCount + 1 : 1;
+    previousByte = byte;
+    output.pushByte(byte);
+  }
+}
+
+/** Reads the bytes that occur in the block */
+function readSymbolMap(reader: BitReader): number[] {
+  const symbolMap: number[] = [];
+  const usedRanges = reader.bits(16);
+  for (let range = 0; range < 16; range++) {
+    if (usedRanges & (0x8000 >> range)) {
+      const usedBytes = reader.bits(16);
+      for (let i = 0; i < 16; i++) {
+        if (usedBytes & (0x8000 >> i)) {
+          symbolMap.push(range * 16 + i);
+        }
+      }
+    }
+  }
+  if (symbolMap.length === 0) {
+    throw new CorruptDataError('bzip2: block has no symbols');
+  }
+  return symbolMap;
+}
+
+/** Reads the Huffman codes, and the Huffman code used for each 50 symbols */
+function readHuffmanGroups(
+  reader: BitReader,
+  alphabetSize: number
+): {groups: Huffman[]; selectors: number[]} {
+  const groupCount = reader.bits(3);
+  const selectorCount = reader.bits(15);
+  if (groupCount < 2 || groupCount > MAX_GROUPS || selectorCount === 0) {
+    throw new CorruptDataError('bzip2: invalid Huffman groups');
+  }
+  const selectors = readSelectors(reader, groupCount, selectorCount);
+  const groups: Huffman[] = [];
+  for (let i = 0; i < groupCount; i++) {
+    groups.push(makeHuffman(readCodeLengths(reader, alphabetSize)));
+  }
+  return {groups, selectors};
+}
+
+/** Reads the move-to-front and unary coded Huffman group of each 50 symbols */
+function readSelectors(reader: BitReader, groupCount: number, selectorCount: number): number[] {
+  const moveToFront = [0, 1, 2, 3, 4, 5].slice(0, groupCount);
+  const selectors: number[] = [];
+  for (let i = 0; i < selectorCount; i++) {
+    let index = 0;
+    while (reader.bits(1)) {
+      index++;
+      if (index >= groupCount) {
+        throw new CorruptDataError('bzip2: invalid selector');
+      }
+    }
+    const group = moveToFront[index];
+    moveToFront.splice(index, 1);
+    moveToFront.unshift(group);
+    selectors.push(group);
+  }
+  return selectors;
+}
+
+/** Reads the delta coded code lengths of a Huffman group */
+function readCodeLengths(reader: BitReader, alphabetSize: number): Uint8Array {
+  const lengths = new Uint8Array(alphabetSize);
+  let length = reader.bits(5);
+  for (let symbol = 0; symbol < alphabetSize; symbol++) {
+    while (reader.bits(1)) {
+      length += reader.bits(1) ? -1 : 1;
+    }
+    if (length < 1 || length > MAX_CODE_LENGTH) {
+      throw new CorruptDataError('bzip2: invalid code length');
+    }
+    lengths[symbol] = length;
+  }
+  return lengths;
+}
+
+function makeHuffman(lengths: Uint8Array): Huffman {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (const length of lengths) {
+    counts[length]++;
+  }
+  const offsets = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (let length = 1; length < MAX_CODE_LENGTH; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return {counts, symbols};
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+    code |= reader.bits(1);
+    const count = huffman.counts[length];
+    if (code - count < first) {
+      return huffman.symbols[index + (code - first)];
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new CorruptDataError('bzip2: invalid Huffman code');
+}
+
+/** Reads bits, most significant bit first */
+class BitReader {
+  private data: Uint8Array;
+  private offset = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  hasData(): boolean {
+    return this.offset < this.data.length;
+  }
+
+  /** Reads up to 24 bits, or 32 bits */
+  bits(count: number): number {
+    if (count > 24) {
+      return this.bits(16) * 0x10000 + this.bits(count - 16);
+    }
+    while (this.bitCount < count) {
+      if (this.offset >= this.data.length) {
+        throw new CorruptDataError('bzip2: unexpected end of data');
+      }
+      this.bitBuffer = (this.bitBuffer << 8) | this.data[this.offset++];
+      this.bitCount += 8;
+    }
+    this.bitCount -= count;
+    return (this.bitBuffer >>> this.bitCount) & ((1 << count) - 1);
+  }
+
+  alignToByte(): void {
+    this.bitCount = 0;
+  }
+}
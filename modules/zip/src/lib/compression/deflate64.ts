@@ -0,0 +1,235 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// Deflate64 ("Enhanced Deflate", ZIP compression method 9) differs from Deflate in its 64KB window,
+// in length code 285 (16 extra bits) and in distance codes 30 and 31.
+// Decoding follows https://github.com/madler/zlib/blob/develop/contrib/puff/puff.c
+
+import {CorruptDataError} from '@loaders.gl/loader-utils';
+import {OutputBuffer} from './output-buffer';
+
+const MAX_BITS = 15;
+const END_OF_BLOCK = 256;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 3
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 16
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577, 32769, 49153
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+  14, 14
+];
+/** Order of the code length code lengths in a dynamic block header */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/** Canonical Huffman code: number of codes of each length, and symbols ordered by code */
+type Huffman = {counts: Uint16Array; symbols: Uint16Array};
+
+let fixedCodes: {lengthCode: Huffman; distanceCode: Huffman} | null = null;
+
+/**
+ * Decompresses Deflate64 data
+ * @param compressedData - raw Deflate64 stream
+ * @param uncompressedSize - expected size of the output, if known
+ */
+export function inflate64(compressedData: ArrayBuffer, uncompressedSize?: number): ArrayBuffer {
+  const reader = new BitReader(new Uint8Array(compressedData));
+  const output = new OutputBuffer(uncompressedSize);
+  let isLastBlock = false;
+  while (!isLastBlock) {
+    isLastBlock = reader.bits(1) === 1;
+    const blockType = reader.bits(2);
+    switch (blockType) {
+      case 0:
+        readStoredBlock(reader, output);
+        break;
+      case 1:
+        fixedCodes = fixedCodes || makeFixedCodes();
+        readCompressedBlock(reader, output, fixedCodes.lengthCode, fixedCodes.distanceCode);
+        break;
+      case 2:
+        readDynamicBlock(reader, output);
+        break;
+      default:
+        throw new CorruptDataError('Deflate64: invalid block type');
+    }
+  }
+  return output.getArrayBuffer();
+}
+
+function readStoredBlock(reader: BitReader, output: OutputBuffer): void {
+  reader.alignToByte();
+  const length = reader.bits(16);
+  const complement = reader.bits(16);
+  if (length !== (~complement & 0xffff)) {
+    throw new CorruptDataError('Deflate64: invalid stored block length');
+  }
+  output.push(reader.bytes(length));
+}
+
+function readDynamicBlock(reader: BitReader, output: OutputBuffer): void {
+  const lengthCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const lengths = readCodeLengths(reader, makeHuffman(codeLengths), lengthCount + distanceCount);
+
+  const lengthCode = makeHuffman(lengths.subarray(0, lengthCount));
+  const distanceCode = makeHuffman(lengths.subarray(lengthCount));
+  readCompressedBlock(reader, output, lengthCode, distanceCode);
+}
+
+/** Reads the run-length encoded code lengths of the literal/length and distance codes */
+function readCodeLengths(reader: BitReader, codeLengthCode: Huffman, count: number): Uint8Array {
+  const lengths = new Uint8Array(count);
+  for (let index = 0; index < count; ) {
+    const symbol = decodeSymbol(reader, codeLengthCode);
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue; // eslint-disable-line no-continue
+    }
+    let length = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      if (index === 0) {
+        throw new CorruptDataError('Deflate64: repeated length without a previous length');
+      }
+      length = lengths[index - 1];
+      repeat = 3 + reader.bits(2);
+    } else {
+      repeat = symbol === 17 ? 3 + reader.bits(3) : 11 + reader.bits(7);
+    }
+    if (index + repeat > count) {
+      throw new CorruptDataError('Deflate64: too many code lengths');
+    }
+    lengths.fill(length, index, index + repeat);
+    index += repeat;
+  }
+  return lengths;
+}
+
+function readCompressedBlock(
+  reader: BitReader,
+  output: OutputBuffer,
+  lengthCode: Huffman,
+  distanceCode: Huffman
+): void {
+  for (;;) {
+    let symbol = decodeSymbol(reader, lengthCode);
+    if (symbol < END_OF_BLOCK) {
+      output.pushByte(symbol);
+    } else if (symbol === END_OF_BLOCK) {
+      return;
+    } else {
+      symbol -= 257;
+      if (symbol >= LENGTH_BASE.length) {
+        throw new CorruptDataError('Deflate64: invalid length code');
+      }
+      const length = LENGTH_BASE[symbol] + reader.bits(LENGTH_EXTRA[symbol]);
+      const distanceSymbol = decodeSymbol(reader, distanceCode);
+      if (distanceSymbol >= DISTANCE_BASE.length) {
+        throw new CorruptDataError('Deflate64: invalid distance code');
+      }
+      const distance = DISTANCE_BASE[distanceSymbol] + reader.bits(DISTANCE_EXTRA[distanceSymbol]);
+      output.copyMatch(distance, length);
+    }
+  }
+}
+
+function makeFixedCodes(): {lengthCode: Huffman; distanceCode: Huffman} {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return {lengthCode: makeHuffman(lengths), distanceCode: makeHuffman(new Uint8Array(32).fill(5))};
+}
+
+function makeHuffman(lengths: Uint8Array): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (const length of lengths) {
+    counts[length]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let length = 1; length < MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  return {counts, symbols};
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  // Codes are stored bit by bit, most significant bit first
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length <= MAX_BITS; length++) {
+    code |= reader.bits(1);
+    const count = huffman.counts[length];
+    if (code - count < first) {
+      return huffman.symbols[index + (code - first)];
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new CorruptDataError('Deflate64: invalid Huffman code');
+}
+
+/** Reads bits, least significant bit first */
+class BitReader {
+  private data: Uint8Array;
+  private offset = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.offset >= this.data.length) {
+        throw new CorruptDataError('Deflate64: unexpected end of data');
+      }
+      this.bitBuffer |= this.data[this.offset++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new CorruptDataError('Deflate64: unexpected end of data');
+    }
+    this.offset += length;
+    return this.data.subarray(this.offset - length, this.offset);
+  }
+}
@@ -0,0 +1,342 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// LZMA decoder following the reference decoder in the LZMA SDK (DOC/lzma-specification.txt)
+// ZIP compression method 14: https://pkwaredownloads.blob.core.windows.net/pkware-general/Documentation/APPNOTE-6.3.9.TXT
+
+import {CorruptDataError} from '@loaders.gl/loader-utils';
+import {OutputBuffer} from './output-buffer';
+
+const PROBABILITY_BITS = 11;
+const PROBABILITY_INITIAL = 1 << (PROBABILITY_BITS - 1);
+const MOVE_BITS = 5;
+const TOP_VALUE = 1 << 24;
+
+const STATES = 12;
+const POS_BITS_MAX = 4;
+const LEN_TO_POS_STATES = 4;
+const ALIGN_BITS = 4;
+const END_POS_MODEL_INDEX = 14;
+const FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >> 1);
+const MATCH_MIN_LENGTH = 2;
+/** Distance of the end of stream marker */
+const END_MARKER = 0xffffffff;
+
+/**
+ * Decompresses an LZMA entry of a ZIP archive: a 4 byte LZMA SDK version and properties size,
+ * followed by the properties and the LZMA stream
+ * @param compressedData - ZIP LZMA data
+ * @param uncompressedSize - size of the output, if known. Otherwise the stream must end with an end marker.
+ */
+export function unzipLZMA(compressedData: ArrayBuffer, uncompressedSize?: number): ArrayBuffer {
+  const data = new Uint8Array(compressedData);
+  if (data.length < 9) {
+    throw new CorruptDataError('LZMA: unexpected end of data');
+  }
+  const propertiesSize = data[2] | (data[3] << 8);
+  if (propertiesSize !== 5) {
+    throw new CorruptDataError('LZMA: invalid properties size');
+  }
+  return decodeLZMA(data.subarray(4), uncompressedSize);
+}
+
+/**
+ * Decodes a raw LZMA stream preceded by the 5 byte properties
+ */
+function decodeLZMA(data: Uint8Array, uncompressedSize?: number): ArrayBuffer {
+  const properties = data[0];
+  if (properties >= 9 * 5 * 5) {
+    throw new CorruptDataError('LZMA: invalid properties');
+  }
+  const decoder = new LZMADecoder(
+    properties % 9,
+    Math.floor(properties / 9) % 5,
+    Math.floor(properties / 45),
+    new RangeDecoder(data.subarray(5)),
+    uncompressedSize
+  );
+  decoder.decode();
+  return decoder.output.getArrayBuffer();
+}
+
+/** LZMA state: probabilities of the range coder, last distances */
+class LZMADecoder {
+  output: OutputBuffer;
+  private rangeDecoder: RangeDecoder;
+  private unpackSize: number;
+
+  private literalContextBits: number;
+  private literalPosMask: number;
+  private posMask: number;
+
+  private literalProbs: Uint16Array;
+  private isMatch = makeProbs(STATES << POS_BITS_MAX);
+  private isRep = makeProbs(STATES);
+  private isRepG0 = makeProbs(STATES);
+  private isRepG1 = makeProbs(STATES);
+  private isRepG2 = makeProbs(STATES);
+  private isRep0Long = makeProbs(STATES << POS_BITS_MAX);
+  private posSlotProbs: Uint16Array[] = [];
+  private posProbs = makeProbs(1 + FULL_DISTANCES - END_POS_MODEL_INDEX);
+  private alignProbs = makeProbs(1 << ALIGN_BITS);
+  private lengthDecoder = new LengthDecoder();
+  private repLengthDecoder = new LengthDecoder();
+
+  private state = 0;
+  private reps = [0, 0, 0, 0];
+
+  constructor(
+    literalContextBits: number,
+    literalPosBits: number,
+    posBits: number,
+    rangeDecoder: RangeDecoder,
+    uncompressedSize?: number
+  ) {
+    this.literalContextBits = literalContextBits;
+    this.literalPosMask = (1 << literalPosBits) - 1;
+    this.posMask = (1 << posBits) - 1;
+    this.literalProbs = makeProbs(0x300 << (literalContextBits + literalPosBits));
+    for (let i = 0; i < LEN_TO_POS_STATES; i++) {
+      this.posSlotProbs.push(makeProbs(1 << 6));
+    }
+    this.rangeDecoder = rangeDecoder;
+    this.unpackSize = uncompressedSize ?? Infinity;
+    this.output = new OutputBuffer(uncompressedSize);
+  }
+
+  decode(): void {
+    const {rangeDecoder, output} = this;
+    while (output.length < this.unpackSize) {
+      const posState = output.length & this.posMask;
+      const state = this.state;
+      if (rangeDecoder.decodeBit(this.isMatch, (state << POS_BITS_MAX) + posState) === 0) {
+        this.decodeLiteral();
+        this.state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+      } else if (rangeDecoder.decodeBit(this.isRep, state) === 0) {
+        if (!this.decodeMatch(posState)) {
+          // End marker
+          return;
+        }
+      } else {
+        this.decodeRepMatch(posState);
+      }
+    }
+  }
+
+  private decodeLiteral(): void {
+    const {rangeDecoder, output} = this;
+    const previousByte = output.length > 0 ? output.getByte(1) : 0;
+    const literalState =
+      ((output.length & this.literalPosMask) << this.literalContextBits) +
+      (previousByte >> (8 - this.literalContextBits));
+    const offset = 0x300 * literalState;
+    const probs = this.literalProbs;
+
+    let symbol = 1;
+    if (this.state >= 7) {
+      let matchByte = output.getByte(this.reps[0] + 1);
+      do {
+        const matchBit = (matchByte >> 7) & 1;
+        matchByte <<= 1;
+        const bit = rangeDecoder.decodeBit(probs, offset + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) {
+          break;
+        }
+      } while (symbol < 0x100);
+    }
+    while (symbol < 0x100) {
+      symbol = (symbol << 1) | rangeDecoder.decodeBit(probs, offset + symbol);
+    }
+    output.pushByte(symbol - 0x100);
+  }
+
+  /** @returns `false` at the end marker */
+  private decodeMatch(posState: number): boolean {
+    const reps = this.reps;
+    reps[3] = reps[2];
+    reps[2] = reps[1];
+    reps[1] = reps[0];
+    const length = this.lengthDecoder.decode(this.rangeDecoder, posState);
+    this.state = this.state < 7 ? 7 : 10;
+    reps[0] = this.decodeDistance(length);
+    if (reps[0] === END_MARKER) {
+      return false;
+    }
+    this.copyMatch(length);
+    return true;
+  }
+
+  private decodeRepMatch(posState: number): void {
+    const {rangeDecoder, reps, state} = this;
+    if (this.output.length === 0) {
+      throw new CorruptDataError('LZMA: match before any data');
+    }
+    if (rangeDecoder.decodeBit(this.isRepG0, state) === 0) {
+      if (rangeDecoder.decodeBit(this.isRep0Long, (state << POS_BITS_MAX) + posState) === 0) {
+        // Short rep: a single byte
+        this.state = state < 7 ? 9 : 11;
+        this.output.pushByte(this.output.getByte(reps[0] + 1));
+        return;
+      }
+    } else {
+      let distance: number;
+      if (rangeDecoder.decodeBit(this.isRepG1, state) === 0) {
+        distance = reps[1];
+      } else {
+        if (rangeDecoder.decodeBit(this.isRepG2, state) === 0) {
+          distance = reps[2];
+        } else {
+          distance = reps[3];
+          reps[3] = reps[2];
+        }
+        reps[2] = reps[1];
+      }
+      reps[1] = reps[0];
+      reps[0] = distance;
+    }
+    const length = this.repLengthDecoder.decode(rangeDecoder, posState);
+    this.state = state < 7 ? 8 : 11;
+    this.copyMatch(length);
+  }
+
+  private decodeDistance(length: number): number {
+    const {rangeDecoder} = this;
+    const lengthState = Math.min(length, LEN_TO_POS_STATES - 1);
+    const posSlot = decodeBitTree(rangeDecoder, this.posSlotProbs[lengthState], 0, 6);
+    if (posSlot < 4) {
+      return posSlot;
+    }
+    const directBitCount = (posSlot >> 1) - 1;
+    let distance = (2 | (posSlot & 1)) * 2 ** directBitCount;
+    if (posSlot < END_POS_MODEL_INDEX) {
+      return (
+        distance +
+        decodeReverseBitTree(rangeDecoder, this.posProbs, distance - posSlot, directBitCount)
+      );
+    }
+    distance += rangeDecoder.decodeDirectBits(directBitCount - ALIGN_BITS) * 2 ** ALIGN_BITS;
+    return distance + decodeReverseBitTree(rangeDecoder, this.alignProbs, 0, ALIGN_BITS);
+  }
+
+  private copyMatch(length: number): void {
+    const matchLength = Math.min(length + MATCH_MIN_LENGTH, this.unpackSize - this.output.length);
+    this.output.copyMatch(this.reps[0] + 1, matchLength);
+  }
+}
+
+class LengthDecoder {
+  private choice = makeProbs(2);
+  private lowProbs: Uint16Array[] = [];
+  private midProbs: Uint16Array[] = [];
+  private highProbs = makeProbs(1 << 8);
+
+  constructor() {
+    for (let i = 0; i < 1 << POS_BITS_MAX; i++) {
+      this.lowProbs.push(makeProbs(1 << 3));
+      this.midProbs.push(makeProbs(1 << 3));
+    }
+  }
+
+  decode(rangeDecoder: RangeDecoder, posState: number): number {
+    if (rangeDecoder.decodeBit(this.choice, 0) === 0) {
+      return decodeBitTree(rangeDecoder, this.lowProbs[posState], 0, 3);
+    }
+    if (rangeDecoder.decodeBit(this.choice, 1) === 0) {
+      return 8 + decodeBitTree(rangeDecoder, this.midProbs[posState], 0, 3);
+    }
+    return 16 + decodeBitTree(rangeDecoder, this.highProbs, 0, 8);
+  }
+}
+
+class RangeDecoder {
+  private data: Uint8Array;
+  private offset = 5;
+  private range = 0xffffffff;
+  private code: number;
+
+  constructor(data: Uint8Array) {
+    if (data.length < 5 || data[0] !== 0) {
+      throw new CorruptDataError('LZMA: invalid range coder header');
+    }
+    this.data = data;
+    this.code = ((data[1] << 24) | (data[2] << 16) | (data[3] << 8) | data[4]) >>> 0;
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const probability = probs[index];
+    const bound = (this.range >>> PROBABILITY_BITS) * probability;
+    let bit: number;
+    if (this.code < bound) {
+      this.range = bound;
+      probs[index] = probability + (((1 << PROBABILITY_BITS) - probability) >> MOVE_BITS);
+      bit = 0;
+    } else {
+      this.range -= bound;
+      this.code -= bound;
+      probs[index] = probability - (probability >> MOVE_BITS);
+      bit = 1;
+    }
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(count: number): number {
+    let result = 0;
+    for (let i = 0; i < count; i++) {
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      this.normalize();
+      result = result * 2 + bit;
+    }
+    return result;
+  }
+
+  private normalize(): void {
+    if (this.range < TOP_VALUE) {
+      if (this.offset >= this.data.length) {
+        throw new CorruptDataError('LZMA: unexpected end of data');
+      }
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.data[this.offset++]) >>> 0;
+    }
+  }
+}
+
+function decodeBitTree(
+  rangeDecoder: RangeDecoder,
+  probs: Uint16Array,
+  offset: number,
+  bitCount: number
+): number {
+  let m = 1;
+  for (let i = 0; i < bitCount; i++) {
+    m = (m << 1) + rangeDecoder.decodeBit(probs, offset + m);
+  }
+  return m - (1 << bitCount);
+}
+
+function decodeReverseBitTree(
+  rangeDecoder: RangeDecoder,
+  probs: Uint16Array,
+  offset: number,
+  bitCount: number
+): number {
+  let m = 1;
+  let symbol = 0;
+  for (let i = 0; i < bitCount; i++) {
+    const bit = rangeDecoder.decodeBit(probs, offset + m);
+    m = (m << 1) + bit;
+    symbol |= bit << i;
+  }
+  return symbol;
+}
+
+function makeProbs(length: number): Uint16Array {
+  return new Uint16Array(length).fill(PROBABILITY_INITIAL);
+}
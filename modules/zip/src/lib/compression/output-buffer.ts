@@ -0,0 +1,66 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {CorruptDataError} from '@loaders.gl/loader-utils';
+
+const INITIAL_SIZE = 0x10000;
+
+/**
+ * Growable output of a decompressor, which also serves as the window for LZ77 matches
+ */
+export class OutputBuffer {
+  /** Number of bytes written */
+  length = 0;
+  private data: Uint8Array;
+
+  /** @param size - expected size of the output, if known */
+  constructor(size?: number) {
+    this.data = new Uint8Array(size || INITIAL_SIZE);
+  }
+
+  pushByte(byte: number): void {
+    if (this.length === this.data.length) {
+      this.grow(1);
+    }
+    this.data[this.length++] = byte;
+  }
+
+  push(bytes: Uint8Array): void {
+    this.grow(bytes.length);
+    this.data.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /** @returns the byte written `distance` bytes before the end */
+  getByte(distance: number): number {
+    return this.data[this.length - distance];
+  }
+
+  /** Copies `length` bytes, starting `distance` bytes before the end. The ranges may overlap. */
+  copyMatch(distance: number, length: number): void {
+    if (distance > this.length || distance <= 0) {
+      throw new CorruptDataError('Match distance is too far back');
+    }
+    this.grow(length);
+    const data = this.data;
+    for (let i = 0; i < length; i++) {
+      data[this.length] = data[this.length - distance];
+      this.length++;
+    }
+  }
+
+  getArrayBuffer(): ArrayBuffer {
+    return this.length === this.data.length
+      ? this.data.buffer
+      : this.data.slice(0, this.length).buffer;
+  }
+
+  private grow(length: number): void {
+    if (this.length + length > this.data.length) {
+      const data = new Uint8Array(Math.max(this.data.length * 2, this.length + length));
+      data.set(this.data.subarray(0, this.length));
+      this.data = data;
+    }
+  }
+}
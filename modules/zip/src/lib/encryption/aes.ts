@@ -0,0 +1,143 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// AES block encryption (FIPS 197). The Web Crypto API does not support the little-endian
+// counter mode of WinZip AES, so the key stream is generated block by block.
+
+let tables: {sBox: Uint8Array; encode: Uint32Array[]} | null = null;
+
+/** AES cipher that encrypts single 16 byte blocks */
+export class AESBlockCipher {
+  private roundKeys: Uint32Array;
+  private rounds: number;
+
+  /** @param key - 16, 24 or 32 bytes */
+  constructor(key: Uint8Array) {
+    if (key.length !== 16 && key.length !== 24 && key.length !== 32) {
+      throw new Error('AES: invalid key length');
+    }
+    tables = tables || makeTables();
+    this.rounds = key.length / 4 + 6;
+    this.roundKeys = expandKey(key, this.rounds, tables.sBox);
+  }
+
+  /** Encrypts the 16 bytes of `input` into `output` */
+  encryptBlock(input: Uint8Array, output: Uint8Array): void {
+    const {sBox, encode} = tables!;
+    const [t0, t1, t2, t3] = encode;
+    const keys = this.roundKeys;
+
+    let s0 = readUint32(input, 0) ^ keys[0];
+    let s1 = readUint32(input, 4) ^ keys[1];
+    let s2 = readUint32(input, 8) ^ keys[2];
+    let s3 = readUint32(input, 12) ^ keys[3];
+    let k = 4;
+    for (let round = 1; round < this.rounds; round++) {
+      const a0 = t0[s0 >>> 24] ^ t1[(s1 >>> 16) & 0xff] ^ t2[(s2 >>> 8) & 0xff] ^ t3[s3 & 0xff];
+      const a1 = t0[s1 >>> 24] ^ t1[(s2 >>> 16) & 0xff] ^ t2[(s3 >>> 8) & 0xff] ^ t3[s0 & 0xff];
+      const a2 = t0[s2 >>> 24] ^ t1[(s3 >>> 16) & 0xff] ^ t2[(s0 >>> 8) & 0xff] ^ t3[s1 & 0xff];
+      const a3 = t0[s3 >>> 24] ^ t1[(s0 >>> 16) & 0xff] ^ t2[(s1 >>> 8) & 0xff] ^ t3[s2 & 0xff];
+      s0 = a0 ^ keys[k++];
+      s1 = a1 ^ keys[k++];
+      s2 = a2 ^ keys[k++];
+      s3 = a3 ^ keys[k++];
+    }
+
+    // Last round has no MixColumns step
+    const states = [s0, s1, s2, s3];
+    for (let i = 0; i < 4; i++) {
+      const word =
+        ((sBox[states[i] >>> 24] << 24) |
+          (sBox[(states[(i + 1) % 4] >>> 16) & 0xff] << 16) |
+          (sBox[(states[(i + 2) % 4] >>> 8) & 0xff] << 8) |
+          sBox[states[(i + 3) % 4] & 0xff]) ^
+        keys[k++];
+      writeUint32(output, i * 4, word);
+    }
+  }
+}
+
+function expandKey(key: Uint8Array, rounds: number, sBox: Uint8Array): Uint32Array {
+  const keyWords = key.length / 4;
+  const roundKeys = new Uint32Array(4 * (rounds + 1));
+  for (let i = 0; i < keyWords; i++) {
+    roundKeys[i] = readUint32(key, i * 4);
+  }
+  let roundConstant = 1;
+  for (let i = keyWords; i < roundKeys.length; i++) {
+    let word = roundKeys[i - 1];
+    if (i % keyWords === 0) {
+      // RotWord, SubWord and round constant
+      word = subWord((word << 8) | (word >>> 24), sBox) ^ (roundConstant << 24);
+      roundConstant = multiplyBy2(roundConstant);
+    } else if (keyWords > 6 && i % keyWords === 4) {
+      word = subWord(word, sBox);
+    }
+    roundKeys[i] = roundKeys[i - keyWords] ^ word;
+  }
+  return roundKeys;
+}
+
+function subWord(word: number, sBox: Uint8Array): number {
+  return (
+    (sBox[word >>> 24] << 24) |
+    (sBox[(word >>> 16) & 0xff] << 16) |
+    (sBox[(word >>> 8) & 0xff] << 8) |
+    sBox[word & 0xff]
+  );
+}
+
+/** Computes the S-box and the combined SubBytes / ShiftRows / MixColumns tables */
+function makeTables(): {sBox: Uint8Array; encode: Uint32Array[]} {
+  // Powers and logarithms of the generator 3 in GF(2^8)
+  const powers = new Uint8Array(256);
+  const logarithms = new Uint8Array(256);
+  for (let i = 0, x = 1; i < 255; i++) {
+    powers[i] = x;
+    logarithms[x] = i;
+    x ^= multiplyBy2(x);
+  }
+
+  const sBox = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    const inverse = i === 0 ? 0 : powers[(255 - logarithms[i]) % 255];
+    let value = inverse;
+    for (let shift = 1; shift < 5; shift++) {
+      value ^= ((inverse << shift) | (inverse >>> (8 - shift))) & 0xff;
+    }
+    sBox[i] = value ^ 0x63;
+  }
+
+  const encode = [0, 1, 2, 3].map(() => new Uint32Array(256));
+  for (let i = 0; i < 256; i++) {
+    const s = sBox[i];
+    const s2 = multiplyBy2(s);
+    const word = ((s2 << 24) | (s << 16) | (s << 8) | (s2 ^ s)) >>> 0;
+    for (let j = 0; j < 4; j++) {
+      encode[j][i] = ((word >>> (8 * j)) | (word << (32 - 8 * j))) >>> 0;
+    }
+  }
+  return {sBox, encode};
+}
+
+function multiplyBy2(x: number): number {
+  return ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
@@ -0,0 +1,131 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// WinZip AES encryption: https://www.winzip.com/en/support/aes-encryption/
+
+import {CorruptDataError, InvalidPasswordError} from '@loaders.gl/loader-utils';
+import {AESBlockCipher} from './aes';
+
+/** Compression method of entries encrypted with WinZip AES */
+export const WINZIP_AES_COMPRESSION_METHOD = 99;
+/** Id of the extra field that holds the AES strength and the actual compression method */
+export const WINZIP_AES_EXTRA_FIELD_ID = 0x9901;
+
+const KEY_LENGTHS: Record<number, number> = {1: 16, 2: 24, 3: 32};
+const PASSWORD_VERIFIER_LENGTH = 2;
+const AUTHENTICATION_CODE_LENGTH = 10;
+const PBKDF2_ITERATIONS = 1000;
+const BLOCK_SIZE = 16;
+
+/** Contents of the WinZip AES extra field */
+export type WinZipAESInfo = {
+  /** 1: AES-128, 2: AES-192, 3: AES-256 */
+  strength: number;
+  /** Compression method of the decrypted data */
+  compressionMethod: number;
+};
+
+/**
+ * Parses the data of the WinZip AES extra field
+ * @param extraField - data of the 0x9901 extra field, without id and size
+ */
+export function parseWinZipAESExtraField(extraField: DataView): WinZipAESInfo {
+  return {
+    strength: extraField.getUint8(4),
+    compressionMethod: extraField.getUint16(5, true)
+  };
+}
+
+/**
+ * Decrypts and authenticates an entry encrypted with WinZip AES
+ * @param encryptedData - salt, password verifier, encrypted data and authentication code
+ * @param password - password of the entry
+ * @param strength - AES strength from the extra field
+ * @returns compressed data of the entry
+ */
+export async function decryptWinZipAES(
+  encryptedData: ArrayBuffer,
+  password: string,
+  strength: number
+): Promise<ArrayBuffer> {
+  const keyLength = KEY_LENGTHS[strength];
+  if (!keyLength) {
+    throw new CorruptDataError(`Invalid WinZip AES strength ${strength}`);
+  }
+  const saltLength = keyLength / 2;
+  const dataOffset = saltLength + PASSWORD_VERIFIER_LENGTH;
+  const dataEnd = encryptedData.byteLength - AUTHENTICATION_CODE_LENGTH;
+  if (dataEnd < dataOffset) {
+    throw new CorruptDataError('WinZip AES encrypted entry is truncated');
+  }
+
+  const bytes = new Uint8Array(encryptedData);
+  const keys = await deriveKeys(password, bytes.subarray(0, saltLength), keyLength);
+  const verifier = bytes.subarray(saltLength, dataOffset);
+  if (verifier[0] !== keys.verifier[0] || verifier[1] !== keys.verifier[1]) {
+    throw new InvalidPasswordError('Invalid password for encrypted ZIP entry');
+  }
+
+  const data = bytes.subarray(dataOffset, dataEnd);
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    keys.hmacKey,
+    {name: 'HMAC', hash: 'SHA-1'},
+    false,
+    ['sign']
+  );
+  const authenticationCode = new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data));
+  const expectedCode = bytes.subarray(dataEnd);
+  if (expectedCode.some((byte, i) => byte !== authenticationCode[i])) {
+    throw new CorruptDataError('WinZip AES authentication failed, the entry is corrupt');
+  }
+
+  return decryptCTR(data, new AESBlockCipher(keys.encryptionKey));
+}
+
+async function deriveKeys(
+  password: string,
+  salt: Uint8Array,
+  keyLength: number
+): Promise<{encryptionKey: Uint8Array; hmacKey: Uint8Array; verifier: Uint8Array}> {
+  const passwordKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    {name: 'PBKDF2', hash: 'SHA-1', salt, iterations: PBKDF2_ITERATIONS},
+    passwordKey,
+    (2 * keyLength + PASSWORD_VERIFIER_LENGTH) * 8
+  );
+  const derived = new Uint8Array(bits);
+  return {
+    encryptionKey: derived.subarray(0, keyLength),
+    hmacKey: derived.subarray(keyLength, 2 * keyLength),
+    verifier: derived.subarray(2 * keyLength)
+  };
+}
+
+/** AES counter mode with a little-endian counter starting at 1 */
+function decryptCTR(data: Uint8Array, cipher: AESBlockCipher): ArrayBuffer {
+  const output = new Uint8Array(data.length);
+  const counter = new Uint8Array(BLOCK_SIZE);
+  const keyStream = new Uint8Array(BLOCK_SIZE);
+  for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      counter[i]++;
+      if (counter[i] !== 0) {
+        break;
+      }
+    }
+    cipher.encryptBlock(counter, keyStream);
+    const end = Math.min(offset + BLOCK_SIZE, data.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = data[i] ^ keyStream[i - offset];
+    }
+  }
+  return output.buffer;
+}
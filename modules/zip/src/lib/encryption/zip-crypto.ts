@@ -0,0 +1,66 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+// Traditional PKWARE encryption ("ZipCrypto"), APPNOTE.TXT section 6.1
+
+import {InvalidPasswordError} from '@loaders.gl/loader-utils';
+
+const HEADER_SIZE = 12;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Decrypts an entry encrypted with the traditional PKWARE encryption
+ * @param encryptedData - 12 byte encryption header followed by the encrypted data
+ * @param password - password of the entry
+ * @param checkByte - expected last byte of the decrypted header: the high byte of the CRC-32,
+ *   or of the modification time for entries with a data descriptor
+ * @returns compressed data of the entry
+ */
+export function decryptZipCrypto(
+  encryptedData: ArrayBuffer,
+  password: string,
+  checkByte: number
+): ArrayBuffer {
+  const keys = new Uint32Array([0x12345678, 0x23456789, 0x34567890]);
+  for (const byte of new TextEncoder().encode(password)) {
+    updateKeys(keys, byte);
+  }
+
+  const data = new Uint8Array(encryptedData);
+  const output = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const temp = (keys[2] | 2) & 0xffff;
+    output[i] = data[i] ^ (((temp * (temp ^ 1)) >>> 8) & 0xff);
+    updateKeys(keys, output[i]);
+  }
+
+  if (data.length < HEADER_SIZE || output[HEADER_SIZE - 1] !== checkByte) {
+    throw new InvalidPasswordError('Invalid password for encrypted ZIP entry');
+  }
+  return output.slice(HEADER_SIZE).buffer;
+}
+
+function updateKeys(keys: Uint32Array, byte: number): void {
+  keys[0] = updateCRC32(keys[0], byte);
+  keys[1] = Math.imul(keys[1] + (keys[0] & 0xff), 134775813) + 1;
+  keys[2] = updateCRC32(keys[2], keys[1] >>> 24);
+}
+
+function updateCRC32(crc: number, byte: number): number {
+  crcTable = crcTable || makeCRC32Table();
+  return (crc >>> 8) ^ crcTable[(crc ^ byte) & 0xff];
+}
+
+function makeCRC32Table(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[i] = value;
+  }
+  return table;
+}
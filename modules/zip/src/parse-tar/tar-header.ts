@@ -0,0 +1,251 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import {CorruptDataError, FileProviderInterface} from '@loaders.gl/loader-utils';
+
+/** Type of an entry of a tar archive */
+export type TarEntryType = 'file' | 'directory' | 'symlink' | 'link' | 'other';
+
+/**
+ * tar file header info, with the long names and sizes of GNU and PAX extension headers applied
+ * according to https://www.gnu.org/software/tar/manual/html_node/Standard.html
+ */
+export type TarFileHeader = {
+  /** File name, without leading `./` */
+  fileName: string;
+  /** Entry type */
+  type: TarEntryType;
+  /** File size */
+  fileSize: bigint;
+  /** File mode */
+  mode: number;
+  /** Modification time, in seconds since the epoch */
+  mtime: number;
+  /** Target of symbolic and hard links */
+  linkName: string;
+  /** Offset of the header, or of the first extension header of the entry */
+  headerOffset: bigint;
+  /** Offset of the file data */
+  fileDataOffset: bigint;
+};
+
+export const TAR_BLOCK_SIZE = 512n;
+
+// offsets according to https://www.gnu.org/software/tar/manual/html_node/Standard.html
+const NAME_OFFSET = 0;
+const NAME_LENGTH = 100;
+const MODE_OFFSET = 100;
+const SIZE_OFFSET = 124;
+const SIZE_LENGTH = 12;
+const MTIME_OFFSET = 136;
+const CHECKSUM_OFFSET = 148;
+const CHECKSUM_LENGTH = 8;
+const TYPE_FLAG_OFFSET = 156;
+const LINK_NAME_OFFSET = 157;
+const MAGIC_OFFSET = 257;
+const PREFIX_OFFSET = 345;
+const PREFIX_LENGTH = 155;
+
+/** Magic of POSIX archives, "ustar\0". GNU archives have "ustar  \0" and no file name prefix */
+const USTAR_MAGIC = 'ustar';
+
+const ENTRY_TYPES: {[typeFlag: string]: TarEntryType} = {
+  '': 'file',
+  '0': 'file',
+  '7': 'file',
+  '1': 'link',
+  '2': 'symlink',
+  '5': 'directory'
+};
+
+/** Type flags of headers that apply to the next entry */
+const GNU_LONG_NAME = 'L';
+const GNU_LONG_LINK_NAME = 'K';
+const PAX_HEADER = 'x';
+const PAX_GLOBAL_HEADER = 'g';
+
+/** Fields overridden by extension headers */
+type TarExtendedFields = {fileName?: string; linkName?: string; fileSize?: bigint};
+
+/**
+ * Parses the tar header at the given offset, with the extension headers preceding it
+ * @param headerOffset - offset of the header
+ * @param file - tar archive
+ * @returns header info, or `null` at the end of the archive
+ */
+export async function parseTarHeader(
+  headerOffset: bigint,
+  file: FileProviderInterface
+): Promise<TarFileHeader | null> {
+  let offset = headerOffset;
+  let extendedFields: TarExtendedFields = {};
+
+  while (offset + TAR_BLOCK_SIZE <= file.length) {
+    const header = new Uint8Array(await file.slice(offset, offset + TAR_BLOCK_SIZE));
+    if (header.every((byte) => byte === 0)) {
+      return null;
+    }
+    checkHeader(header, offset);
+
+    const typeFlag = readString(header, TYPE_FLAG_OFFSET, 1);
+    const size = readNumber(header, SIZE_OFFSET, SIZE_LENGTH);
+    const dataOffset = offset + TAR_BLOCK_SIZE;
+
+    if (!isExtensionHeader(typeFlag)) {
+      return {
+        fileName: (extendedFields.fileName ?? readFileName(header)).replace(/^(\.\/)+/, ''),
+        type: ENTRY_TYPES[typeFlag] || 'other',
+        fileSize: extendedFields.fileSize ?? size,
+        mode: Number(readNumber(header, MODE_OFFSET, 8)),
+        mtime: Number(readNumber(header, MTIME_OFFSET, SIZE_LENGTH)),
+        linkName: extendedFields.linkName ?? readString(header, LINK_NAME_OFFSET, NAME_LENGTH),
+        headerOffset,
+        fileDataOffset: dataOffset
+      };
+    }
+
+    const data = new Uint8Array(await file.slice(dataOffset, dataOffset + size));
+    extendedFields = {...extendedFields, ...parseExtensionHeader(typeFlag, data)};
+    offset = dataOffset + alignToBlock(size);
+  }
+
+  throw new CorruptDataError('Unexpected end of tar archive', {byteOffset: Number(offset)});
+}
+
+/**
+ * Iterates the headers of all entries of a tar archive
+ * @param file - tar archive
+ */
+export async function* makeTarHeaderIterator(
+  file: FileProviderInterface
+): AsyncIterable<TarFileHeader> {
+  let offset = 0n;
+  for (;;) {
+    const header = await parseTarHeader(offset, file);
+    if (!header) {
+      return;
+    }
+    yield header;
+    offset = header.fileDataOffset + alignToBlock(header.fileSize);
+  }
+}
+
+/**
+ * Checks whether an array buffer starts with a tar header
+ * @param arrayBuffer - beginning of the file
+ */
+export function isTar(arrayBuffer: ArrayBuffer): boolean {
+  if (arrayBuffer.byteLength < Number(TAR_BLOCK_SIZE)) {
+    return false;
+  }
+  const header = new Uint8Array(arrayBuffer, 0, Number(TAR_BLOCK_SIZE));
+  return (
+    readString(header, MAGIC_OFFSET, 5) === USTAR_MAGIC &&
+    computeChecksum(header) === readChecksum(header)
+  );
+}
+
+function isExtensionHeader(typeFlag: string): boolean {
+  return [GNU_LONG_NAME, GNU_LONG_LINK_NAME, PAX_HEADER, PAX_GLOBAL_HEADER].includes(typeFlag);
+}
+
+function parseExtensionHeader(typeFlag: string, data: Uint8Array): TarExtendedFields {
+  switch (typeFlag) {
+    case GNU_LONG_NAME:
+      return {fileName: readString(data, 0, data.length)};
+    case GNU_LONG_LINK_NAME:
+      return {linkName: readString(data, 0, data.length)};
+    case PAX_HEADER:
+      return parsePaxRecords(data);
+    default:
+      // Global PAX headers hold defaults for the whole archive, such as the creation time
+      return {};
+  }
+}
+
+/**
+ * Parses PAX records, "<length> <key>=<value>\n" where the length counts the bytes of the whole record
+ */
+function parsePaxRecords(data: Uint8Array): TarExtendedFields {
+  const fields: TarExtendedFields = {};
+  const textDecoder = new TextDecoder();
+  let offset = 0;
+  while (offset < data.length && data[offset] !== 0) {
+    const spaceIndex = data.indexOf(0x20, offset);
+    const length = parseInt(textDecoder.decode(data.subarray(offset, spaceIndex)), 10);
+    if (spaceIndex < 0 || !(length > 0) || offset + length > data.length) {
+      throw new CorruptDataError('Invalid PAX extended header in tar archive');
+    }
+    const record = textDecoder.decode(data.subarray(spaceIndex + 1, offset + length - 1));
+    const separatorIndex = record.indexOf('=');
+    const key = record.slice(0, separatorIndex);
+    const value = record.slice(separatorIndex + 1);
+    if (key === 'path') {
+      fields.fileName = value;
+    } else if (key === 'linkpath') {
+      fields.linkName = value;
+    } else if (key === 'size') {
+      fields.fileSize = BigInt(value);
+    }
+    offset += length;
+  }
+  return fields;
+}
+
+function checkHeader(header: Uint8Array, offset: bigint): void {
+  if (computeChecksum(header) !== readChecksum(header)) {
+    throw new CorruptDataError('Invalid tar header checksum, not a tar file', {
+      byteOffset: Number(offset)
+    });
+  }
+}
+
+/** Sum of the header bytes, with the checksum field read as spaces */
+function computeChecksum(header: Uint8Array): number {
+  let checksum = 0;
+  for (let i = 0; i < header.length; i++) {
+    const isChecksumField = i >= CHECKSUM_OFFSET && i < CHECKSUM_OFFSET + CHECKSUM_LENGTH;
+    checksum += isChecksumField ? 0x20 : header[i];
+  }
+  return checksum;
+}
+
+function readChecksum(header: Uint8Array): number {
+  return parseInt(readString(header, CHECKSUM_OFFSET, CHECKSUM_LENGTH).trim(), 8);
+}
+
+function readFileName(header: Uint8Array): string {
+  const name = readString(header, NAME_OFFSET, NAME_LENGTH);
+  const prefix =
+    readString(header, MAGIC_OFFSET, 6) === USTAR_MAGIC
+      ? readString(header, PREFIX_OFFSET, PREFIX_LENGTH)
+      : '';
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+/** Reads a NUL terminated string */
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  const end = bytes.subarray(offset, offset + length).indexOf(0);
+  return new TextDecoder().decode(bytes.subarray(offset, end < 0 ? offset + length : offset + end));
+}
+
+/** Reads an octal number, or a base-256 number for values that do not fit (GNU extension) */
+function readNumber(bytes: Uint8Array, offset: number, length: number): bigint {
+  if (bytes[offset] & 0x80) {
+    let value = BigInt(bytes[offset] & 0x7f);
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = (value << 8n) | BigInt(bytes[i]);
+    }
+    return value;
+  }
+  const text = readString(bytes, offset, length).trim();
+  if (!/^[0-7]*$/.test(text)) {
+    throw new CorruptDataError(`Invalid number "${text}" in tar header`);
+  }
+  return text ? BigInt(`0o${text}`) : 0n;
+}
+
+function alignToBlock(size: bigint): bigint {
+  return ((size + TAR_BLOCK_SIZE - 1n) / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+}
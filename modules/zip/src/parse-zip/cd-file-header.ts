@@ -10,6 +10,7 @@ import {
 } from '@loaders.gl/loader-utils';
 import {parseEoCDRecord} from './end-of-central-directory';
 import {ZipSignature} from './search-from-the-end';
+import {getGeneralPurposeBitFlag} from './local-file-header';
 import {createZip64Info, setFieldToNumber} from './zip64-info-generation';
 
 /**
@@ -217,6 +218,10 @@ type GenerateCDOptions = {
   fileName: string;
   /** File size */
   length: number;
+  /** Size of compressed data, defaults to `length` */
+  compressedLength?: number;
+  /** Compression method, 0 (stored) by default */
+  compressionMethod?: number;
   /** Relative offset of local file header */
   offset: bigint;
 };
@@ -227,10 +232,13 @@ type GenerateCDOptions = {
  * @returns buffer with header
  */
 export function generateCDHeader(options: GenerateCDOptions): ArrayBuffer {
+  const encodedName = new TextEncoder().encode(options.fileName);
   const optionsToUse = {
     ...options,
-    fnlength: options.fileName.length,
-    extraLength: 0
+    compressedLength: options.compressedLength ?? options.length,
+    fnlength: encodedName.length,
+    extraLength: 0,
+    generalPurposeBitFlag: getGeneralPurposeBitFlag(options.fileName)
   };
 
   let zip64header: ArrayBuffer = new ArrayBuffer(0);
@@ -240,9 +248,11 @@ export function generateCDHeader(options: GenerateCDOptions): ArrayBuffer {
     optionsToZip64.offset = optionsToUse.offset;
     optionsToUse.offset = BigInt(0xffffffff);
   }
-  if (optionsToUse.length >= 0xffffffff) {
+  if (optionsToUse.length >= 0xffffffff || optionsToUse.compressedLength >= 0xffffffff) {
     optionsToZip64.size = optionsToUse.length;
+    optionsToZip64.compressedSize = optionsToUse.compressedLength;
     optionsToUse.length = 0xffffffff;
+    optionsToUse.compressedLength = 0xffffffff;
   }
 
   if (Object.keys(optionsToZip64).length) {
@@ -260,8 +270,6 @@ export function generateCDHeader(options: GenerateCDOptions): ArrayBuffer {
     );
   }
 
-  const encodedName = new TextEncoder().encode(optionsToUse.fileName);
-
   const resHeader = concatenateArrayBuffers(header.buffer, encodedName, zip64header);
 
   return resHeader;
@@ -294,14 +302,16 @@ const ZIP_HEADER_FIELDS = [
   {
     offset: 8,
     size: 2,
-    default: 0
+    default: 0,
+    name: 'generalPurposeBitFlag'
   },
 
   // Compression method
   {
     offset: 10,
     size: 2,
-    default: 0
+    default: 0,
+    name: 'compressionMethod'
   },
 
   // File last modification time
@@ -329,7 +339,7 @@ const ZIP_HEADER_FIELDS = [
   {
     offset: 20,
     size: 4,
-    name: 'length'
+    name: 'compressedLength'
   },
 
   // Uncompressed size (or 0xffffffff for ZIP64)
@@ -5,7 +5,9 @@
 import {
   FileProviderInterface,
   compareArrayBuffers,
-  concatenateArrayBuffers
+  concatenateArrayBuffers,
+  CorruptDataError,
+  UnsupportedFormatError
 } from '@loaders.gl/loader-utils';
 import {ZipSignature, searchFromTheEnd} from './search-from-the-end';
 import {setFieldToNumber} from './zip64-info-generation';
@@ -44,6 +46,8 @@ export type ZipEoCDGenerationOptions = {
   cdSize: number;
   cdOffset: bigint;
   eoCDStart: bigint;
+  /** Write the zip64 EoCD record and locator. Default `true` */
+  zip64?: boolean;
 };
 
 const eoCDSignature: ZipSignature = new Uint8Array([0x50, 0x4b, 0x05, 0x06]);
@@ -70,6 +74,9 @@ const ZIP64_COMMENT_OFFSET = 56n;
  */
 export const parseEoCDRecord = async (file: FileProviderInterface): Promise<ZipEoCDRecord> => {
   const zipEoCDOffset = await searchFromTheEnd(file, eoCDSignature);
+  if (zipEoCDOffset < 0n) {
+    throw new UnsupportedFormatError('End of central directory record not found, not a zip file');
+  }
 
   let cdRecordsNumber = BigInt(await file.getUint16(zipEoCDOffset + CD_RECORDS_NUMBER_OFFSET));
   let cdByteSize = BigInt(await file.getUint32(zipEoCDOffset + CD_CD_BYTE_SIZE_OFFSET));
@@ -86,7 +93,7 @@ export const parseEoCDRecord = async (file: FileProviderInterface): Promise<ZipE
 
     const endOfCDMagicBytes = await file.slice(zip64EoCDOffset, zip64EoCDOffset + 4n);
     if (!compareArrayBuffers(endOfCDMagicBytes, zip64EoCDSignature.buffer)) {
-      throw new Error('zip64 EoCD not found');
+      throw new CorruptDataError('zip64 EoCD not found', {byteOffset: Number(zip64EoCDOffset)});
     }
 
     cdRecordsNumber = await file.getBigUint64(zip64EoCDOffset + ZIP64_CD_RECORDS_NUMBER_OFFSET);
@@ -191,6 +198,10 @@ export function generateEoCD(options: ZipEoCDGenerationOptions): ArrayBuffer {
       options[field.name ?? ''] ?? field.default ?? 0
     );
   }
+  if (options.zip64 === false) {
+    return header.buffer;
+  }
+
   const locator = generateZip64InfoLocator(options);
 
   const zip64Record = generateZip64Info(options);
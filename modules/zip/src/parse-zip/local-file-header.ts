@@ -9,6 +9,11 @@ import {
 } from '@loaders.gl/loader-utils';
 import {ZipSignature} from './search-from-the-end';
 import {createZip64Info, setFieldToNumber} from './zip64-info-generation';
+import {
+  WinZipAESInfo,
+  WINZIP_AES_EXTRA_FIELD_ID,
+  parseWinZipAESExtraField
+} from '../lib/encryption/winzip-aes';
 
 /**
  * zip local file header info
@@ -27,10 +32,21 @@ export type ZipLocalFileHeader = {
   compressedSize: bigint;
   /** Compression method */
   compressionMethod: number;
+  /** General purpose bit flag. Bit 0: encrypted, bit 3: sizes and CRC-32 follow the data */
+  generalPurposeBitFlag: number;
+  /** File last modification time, in MS-DOS format */
+  lastModTime: number;
+  /** CRC-32 of uncompressed data */
+  crc32: number;
+  /** Encryption strength and actual compression method of entries encrypted with WinZip AES */
+  winZipAES?: WinZipAESInfo;
 };
 
 // offsets accroding to https://en.wikipedia.org/wiki/ZIP_(file_format)
+const GENERAL_PURPOSE_BIT_FLAG_OFFSET = 6;
 const COMPRESSION_METHOD_OFFSET = 8;
+const LAST_MOD_TIME_OFFSET = 10;
+const CRC32_OFFSET = 14;
 const COMPRESSED_SIZE_OFFSET = 18;
 const UNCOMPRESSED_SIZE_OFFSET = 22;
 const FILE_NAME_LENGTH_OFFSET = 26;
@@ -39,6 +55,9 @@ const FILE_NAME_OFFSET = 30n;
 
 export const signature: ZipSignature = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
 
+/** General purpose bit flag 11: the file name is UTF-8 encoded */
+const UTF8_FILE_NAME_FLAG = 0x0800;
+
 /**
  * Parses local file header of zip file
  * @param headerOffset - offset in the archive where header starts
@@ -95,16 +114,41 @@ export const parseZipLocalFileHeader = async (
     fileDataOffset = extraDataBuffer.getBigUint64(offsetInZip64Data, true); // setting it to the one from zip64
   }
 
+  const winZipAESExtraField = findExtraField(extraDataBuffer, WINZIP_AES_EXTRA_FIELD_ID);
+
   return {
     fileNameLength,
     fileName,
     extraFieldLength,
     fileDataOffset,
     compressedSize,
-    compressionMethod
+    compressionMethod,
+    generalPurposeBitFlag: mainHeader.getUint16(GENERAL_PURPOSE_BIT_FLAG_OFFSET, true),
+    lastModTime: mainHeader.getUint16(LAST_MOD_TIME_OFFSET, true),
+    crc32: mainHeader.getUint32(CRC32_OFFSET, true),
+    winZipAES: winZipAESExtraField ? parseWinZipAESExtraField(winZipAESExtraField) : undefined
   };
 };
 
+/**
+ * Finds an extra field by id
+ * @param extraData - extra fields of a header
+ * @param id - id of the extra field
+ * @returns data of the extra field
+ */
+function findExtraField(extraData: DataView, id: number): DataView | null {
+  let offset = 0;
+  while (offset + 4 <= extraData.byteLength) {
+    const fieldId = extraData.getUint16(offset, true);
+    const fieldSize = extraData.getUint16(offset + 2, true);
+    if (fieldId === id && offset + 4 + fieldSize <= extraData.byteLength) {
+      return new DataView(extraData.buffer, extraData.byteOffset + offset + 4, fieldSize);
+    }
+    offset += 4 + fieldSize;
+  }
+  return null;
+}
+
 /** info that can be placed into cd header */
 type GenerateLocalOptions = {
   /** CRC-32 of uncompressed data */
@@ -113,6 +157,12 @@ type GenerateLocalOptions = {
   fileName: string;
   /** File size */
   length: number;
+  /** Size of compressed data, defaults to `length` */
+  compressedLength?: number;
+  /** Compression method, 0 (stored) by default */
+  compressionMethod?: number;
+  /** Adds a zip64 extra field even for small files, to reserve space for sizes not known yet */
+  zip64?: boolean;
 };
 
 /**
@@ -121,18 +171,27 @@ type GenerateLocalOptions = {
  * @returns buffer with header
  */
 export function generateLocalHeader(options: GenerateLocalOptions): ArrayBuffer {
+  const encodedName = new TextEncoder().encode(options.fileName);
   const optionsToUse = {
     ...options,
+    compressedLength: options.compressedLength ?? options.length,
     extraLength: 0,
-    fnlength: options.fileName.length
+    fnlength: encodedName.length,
+    generalPurposeBitFlag: getGeneralPurposeBitFlag(options.fileName)
   };
 
   let zip64header: ArrayBuffer = new ArrayBuffer(0);
 
   const optionsToZip64: any = {};
-  if (optionsToUse.length >= 0xffffffff) {
+  if (
+    options.zip64 ||
+    optionsToUse.length >= 0xffffffff ||
+    optionsToUse.compressedLength >= 0xffffffff
+  ) {
     optionsToZip64.size = optionsToUse.length;
+    optionsToZip64.compressedSize = optionsToUse.compressedLength;
     optionsToUse.length = 0xffffffff;
+    optionsToUse.compressedLength = 0xffffffff;
   }
 
   if (Object.keys(optionsToZip64).length) {
@@ -152,13 +211,20 @@ export function generateLocalHeader(options: GenerateLocalOptions): ArrayBuffer
     );
   }
 
-  const encodedName = new TextEncoder().encode(optionsToUse.fileName);
-
   const resHeader = concatenateArrayBuffers(header.buffer, encodedName, zip64header);
 
   return resHeader;
 }
 
+/**
+ * Returns the general purpose bit flag of a written file.
+ * Readers decode file names without the UTF-8 flag as code page 437.
+ */
+export function getGeneralPurposeBitFlag(fileName: string): number {
+  // eslint-disable-next-line no-control-regex
+  return /[^\x00-\x7f]/.test(fileName) ? UTF8_FILE_NAME_FLAG : 0;
+}
+
 const ZIP_HEADER_FIELDS = [
   // Local file header signature = 0x04034b50
   {
@@ -176,13 +242,15 @@ const ZIP_HEADER_FIELDS = [
   {
     offset: 6,
     size: 2,
-    default: 0
+    default: 0,
+    name: 'generalPurposeBitFlag'
   },
   // Compression method
   {
     offset: 8,
     size: 2,
-    default: 0
+    default: 0,
+    name: 'compressionMethod'
   },
   // File last modification time
   {
@@ -206,7 +274,7 @@ const ZIP_HEADER_FIELDS = [
   {
     offset: 18,
     size: 4,
-    name: 'length'
+    name: 'compressedLength'
   },
   // Uncompressed size (or 0xffffffff for ZIP64)
   {
@@ -0,0 +1,184 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {WritableFile} from '@loaders.gl/loader-utils';
+import {concatenateArrayBuffersFromArray, toArrayBuffer} from '@loaders.gl/loader-utils';
+import {CRC32Hash} from '@loaders.gl/crypto';
+import {DeflateCompression} from '@loaders.gl/compression';
+import {generateLocalHeader} from './local-file-header';
+import {generateCDHeader} from './cd-file-header';
+import {generateEoCD} from './end-of-central-directory';
+import {composeHashFile} from '../hash-file-utility';
+
+/** Compression of a file in the archive */
+export type ZipEntryCompression = 'store' | 'deflate';
+
+/** File to be written into a ZIP archive */
+export type ZipArchiveEntry = {
+  /** Path of the file in the archive */
+  path: string;
+  /** File contents. Iterables are compressed and written batch by batch */
+  data: ArrayBuffer | ArrayBufferView | string | AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>;
+  /** Overrides `options.compression` for this file */
+  compression?: ZipEntryCompression;
+};
+
+export type WriteZipArchiveOptions = {
+  /** Compression of the files. Default `'deflate'` */
+  compression?: ZipEntryCompression;
+  /** Adds the SLPK `@specialIndexFileHASH128@` hash index of all files as the last file */
+  slpkHashIndex?: boolean;
+};
+
+const COMPRESSION_METHODS: Record<ZipEntryCompression, number> = {store: 0, deflate: 8};
+const SLPK_HASH_INDEX_FILE_NAME = '@specialIndexFileHASH128@';
+
+/** Sizes and CRC-32 of a file, known once its data has been written */
+type EntryInfo = {crc32: number; length: number; compressedLength: number};
+
+/**
+ * Writes a ZIP archive to a file. Files are written one at a time,
+ * so the archive does not have to fit in memory.
+ * ZIP64 records are written for files and offsets over 4GB.
+ * @param file - file to write the archive to. It is not closed.
+ * @param entries - files to put into the archive
+ * @param options - compression and SLPK options
+ */
+export async function writeZipArchive(
+  file: WritableFile,
+  entries: AsyncIterable<ZipArchiveEntry> | Iterable<ZipArchiveEntry>,
+  options: WriteZipArchiveOptions = {}
+): Promise<void> {
+  const writer = new ZipArchiveWriter(file, options);
+  for await (const entry of entries) {
+    await writer.addEntry(entry);
+  }
+  await writer.finish();
+}
+
+/** Keeps track of the position in the file and of the central directory headers */
+class ZipArchiveWriter {
+  private file: WritableFile;
+  private options: WriteZipArchiveOptions;
+  private offset = 0n;
+  private cdHeaders: ArrayBuffer[] = [];
+  private fileList: {fileName: string; localHeaderOffset: bigint}[] = [];
+
+  constructor(file: WritableFile, options: WriteZipArchiveOptions) {
+    this.file = file;
+    this.options = options;
+  }
+
+  async addEntry(entry: ZipArchiveEntry): Promise<void> {
+    const {path: fileName, data} = entry;
+    const compressionMethod =
+      COMPRESSION_METHODS[entry.compression || this.options.compression || 'deflate'];
+    const offset = this.offset;
+
+    const entryInfo = isIterable(data)
+      ? await this.writeIterableData(fileName, data, compressionMethod)
+      : await this.writeData(fileName, toArrayBuffer(data), compressionMethod);
+
+    this.fileList.push({fileName, localHeaderOffset: offset});
+    this.cdHeaders.push(generateCDHeader({...entryInfo, fileName, compressionMethod, offset}));
+  }
+
+  /** Writes the SLPK hash index, the central directory and the end of central directory record */
+  async finish(): Promise<void> {
+    if (this.options.slpkHashIndex) {
+      const hashFile = await composeHashFile(this.fileList);
+      await this.addEntry({path: SLPK_HASH_INDEX_FILE_NAME, data: hashFile, compression: 'store'});
+    }
+
+    const cdOffset = this.offset;
+    const centralDirectory = concatenateArrayBuffersFromArray(this.cdHeaders);
+    await this.write(centralDirectory);
+
+    const recordsNumber = this.cdHeaders.length;
+    const cdSize = centralDirectory.byteLength;
+    // Some readers only accept zip64 EoCD records when the EoCD fields overflow
+    const zip64 = recordsNumber >= 0xffff || cdSize >= 0xffffffff || this.offset >= 0xffffffff;
+    await this.write(
+      generateEoCD({recordsNumber, cdSize, cdOffset, eoCDStart: this.offset, zip64})
+    );
+  }
+
+  private async writeData(
+    fileName: string,
+    data: ArrayBuffer,
+    compressionMethod: number
+  ): Promise<EntryInfo> {
+    const crc32 = parseInt(await new CRC32Hash().hash(data, 'hex'), 16);
+    const compressedData =
+      compressionMethod === COMPRESSION_METHODS.deflate
+        ? await new DeflateCompression({raw: true}).compress(data)
+        : data;
+    const entryInfo = {crc32, length: data.byteLength, compressedLength: compressedData.byteLength};
+
+    await this.write(generateLocalHeader({...entryInfo, fileName, compressionMethod}));
+    await this.write(compressedData);
+    return entryInfo;
+  }
+
+  /**
+   * Writes the data batch by batch after a local header with placeholder sizes.
+   * The header has a zip64 field so that it keeps its length when it is rewritten with the actual sizes.
+   */
+  private async writeIterableData(
+    fileName: string,
+    data: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>,
+    compressionMethod: number
+  ): Promise<EntryInfo> {
+    const headerOffset = this.offset;
+    const entryInfo: EntryInfo = {crc32: 0, length: 0, compressedLength: 0};
+    await this.write(generateLocalHeader({...entryInfo, fileName, compressionMethod, zip64: true}));
+
+    const crc32Hash = new CRC32Hash({
+      crypto: {
+        onEnd: ({hash}) => {
+          entryInfo.crc32 = parseInt(hash, 16);
+        }
+      }
+    });
+    let batches = crc32Hash.hashBatches(countBytes(data, entryInfo), 'hex');
+    if (compressionMethod === COMPRESSION_METHODS.deflate) {
+      batches = new DeflateCompression({raw: true}).compressBatches(batches);
+    }
+    for await (const batch of batches) {
+      entryInfo.compressedLength += batch.byteLength;
+      await this.write(batch);
+    }
+
+    const header = generateLocalHeader({...entryInfo, fileName, compressionMethod, zip64: true});
+    await this.file.write(header, headerOffset);
+    return entryInfo;
+  }
+
+  private async write(arrayBuffer: ArrayBuffer): Promise<void> {
+    await this.file.write(arrayBuffer, this.offset);
+    this.offset += BigInt(arrayBuffer.byteLength);
+  }
+}
+
+/** Adds the size of the batches to `entryInfo.length` */
+async function* countBytes(
+  batches: AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer>,
+  entryInfo: EntryInfo
+): AsyncIterable<ArrayBuffer> {
+  for await (const batch of batches) {
+    entryInfo.length += batch.byteLength;
+    yield batch;
+  }
+}
+
+function isIterable(
+  data: ZipArchiveEntry['data']
+): data is AsyncIterable<ArrayBuffer> | Iterable<ArrayBuffer> {
+  return (
+    typeof data !== 'string' &&
+    !(data instanceof ArrayBuffer) &&
+    !ArrayBuffer.isView(data) &&
+    (Symbol.asyncIterator in data || Symbol.iterator in data)
+  );
+}
@@ -4,8 +4,10 @@ export const signature = new Uint8Array([0x01, 0x00]);
 
 /** info that can be placed into zip64 field, doc: https://en.wikipedia.org/wiki/ZIP_(file_format)#ZIP64 */
 type Zip64Options = {
-  /** Original uncompressed file size and Size of compressed data */
+  /** Original uncompressed file size */
   size?: number;
+  /** Size of compressed data, defaults to `size` */
+  compressedSize?: number;
   /** Offset of local header record */
   offset?: number;
 };
@@ -18,13 +20,14 @@ type Zip64Options = {
 export function createZip64Info(options: Zip64Options): ArrayBuffer {
   const optionsToUse = {
     ...options,
-    zip64Length: (options.offset ? 1 : 0) * 8 + (options.size ? 1 : 0) * 16
+    compressedSize: options.compressedSize ?? options.size,
+    zip64Length: (options.offset !== undefined ? 8 : 0) + (options.size !== undefined ? 16 : 0)
   };
 
   const arraysToConcat: ArrayBuffer[] = [];
 
   for (const field of ZIP64_FIELDS) {
-    if (!optionsToUse[field.name ?? ''] && !field.default) {
+    if (optionsToUse[field.name ?? ''] === undefined && !field.default) {
       continue; // eslint-disable-line no-continue
     }
     const newValue = new DataView(new ArrayBuffer(field.size));
@@ -95,7 +98,7 @@ const ZIP64_FIELDS = [
   // Size of compressed data
   {
     size: 8,
-    name: 'size'
+    name: 'compressedSize'
   },
 
   // Offset of local header record
@@ -0,0 +1,48 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import type {LoaderWithParser, LoaderOptions} from '@loaders.gl/loader-utils';
+import {DataViewFile} from '@loaders.gl/loader-utils';
+import {TarFileSystem} from './filesystems/tar-filesystem';
+import {isTar} from './parse-tar/tar-header';
+
+// __VERSION__ is injected by babel-plugin-version-inline
+// @ts-ignore TS2304: Cannot find name '__VERSION__'.
+const VERSION = typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'latest';
+
+type FileMap = Record<string, ArrayBuffer>;
+
+/**
+ * Loader for tar archives, optionally gzipped (`.tar.gz`, `.tgz`)
+ */
+export const TarLoader = {
+  dataType: null as unknown as FileMap,
+  batchType: null as unknown as never,
+
+  id: 'tar',
+  module: 'zip',
+  name: 'Tar Archive',
+  version: VERSION,
+  extensions: ['tar', 'tgz'],
+  mimeTypes: ['application/x-tar', 'application/x-gtar'],
+  category: 'archive',
+  tests: [isTar],
+  options: {},
+  parse: parseTar
+} as const satisfies LoaderWithParser<FileMap, never, LoaderOptions>;
+
+/** Reads all files of the archive. Symbolic links are only followed by `TarFileSystem` */
+async function parseTar(arrayBuffer: ArrayBuffer): Promise<FileMap> {
+  const fileSystem = new TarFileSystem(new DataViewFile(new DataView(arrayBuffer)));
+  const fileMap: FileMap = {};
+  for (const fileName of await fileSystem.readdir()) {
+    const {type} = await fileSystem.stat(fileName);
+    if (type === 'file' || type === 'link') {
+      const response = await fileSystem.fetch(fileName);
+      fileMap[fileName] = await response.arrayBuffer();
+    }
+  }
+  await fileSystem.destroy();
+  return fileMap;
+}
@@ -0,0 +1,106 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {getError} from 'test/common/get-error';
+
+import {fetchFile, isBrowser} from '@loaders.gl/core';
+import {
+  FileHandleFile,
+  DataViewFile,
+  FileProviderInterface,
+  LoaderError
+} from '@loaders.gl/loader-utils';
+import {TarFileSystem} from '@loaders.gl/zip';
+
+const TAR_FILE_PATH = '@loaders.gl/zip/test/data/test.tar';
+const TAR_GZ_FILE_PATH = '@loaders.gl/zip/test/data/test.tar.gz';
+
+const LONG_FILE_NAME = `tiles/${'d'.repeat(60)}/${'e'.repeat(50)}/content.bin`;
+const FILE_NAMES = [
+  'données.txt',
+  'latest.json',
+  'tiles/',
+  'tiles/0.b3dm',
+  'tiles/copy.b3dm',
+  `tiles/${'d'.repeat(60)}/`,
+  `tiles/${'d'.repeat(60)}/${'e'.repeat(50)}/`,
+  LONG_FILE_NAME,
+  'tileset.json'
+];
+
+test('zip#TarFileSystem - readdir', async (t) => {
+  for (const filePath of [TAR_FILE_PATH, TAR_GZ_FILE_PATH]) {
+    const fileSystem = new TarFileSystem(await getFileProvider(filePath));
+    t.deepEqual(await fileSystem.readdir(), FILE_NAMES, `${filePath} file names`);
+    await fileSystem.destroy();
+  }
+  t.end();
+});
+
+test('zip#TarFileSystem - initialize with tar file path', async (t) => {
+  if (isBrowser) {
+    t.throws(() => new TarFileSystem(TAR_FILE_PATH));
+  } else {
+    const fileSystem = new TarFileSystem(TAR_FILE_PATH);
+    const response = await fileSystem.fetch(`${TAR_FILE_PATH}/tiles/0.b3dm`);
+    t.equal(await response.text(), 'tile 0');
+    t.equal(response.url, `${TAR_FILE_PATH}/tiles/0.b3dm`);
+    await fileSystem.destroy();
+  }
+  t.end();
+});
+
+test('zip#TarFileSystem - stat', async (t) => {
+  const fileSystem = new TarFileSystem(await getFileProvider(TAR_FILE_PATH));
+  const stats = await fileSystem.stat('tileset.json');
+  t.equal(stats.type, 'file');
+  t.equal(stats.size, 28);
+  t.equal(stats.fileSize, 28n);
+  t.equal(stats.mode, 0o644);
+  t.equal(stats.mtime, Date.UTC(2024, 0, 1) / 1000);
+
+  const linkStats = await fileSystem.stat('latest.json');
+  t.equal(linkStats.type, 'symlink');
+  t.equal(linkStats.linkName, 'tileset.json');
+  t.equal((await fileSystem.stat('tiles/')).type, 'directory');
+
+  t.ok(await getError<LoaderError>(fileSystem.stat('missing.txt')), 'missing file');
+  await fileSystem.destroy();
+  t.end();
+});
+
+test('zip#TarFileSystem - fetch', async (t) => {
+  for (const filePath of [TAR_FILE_PATH, TAR_GZ_FILE_PATH]) {
+    const fileSystem = new TarFileSystem(await getFileProvider(filePath));
+    const tileset = '{"asset":{"version":"1.0"}}\n';
+    t.equal(await (await fileSystem.fetch('tileset.json')).text(), tileset, 'file');
+    t.equal(await (await fileSystem.fetch('données.txt')).text(), 'unicode', 'unicode name');
+    t.equal(await (await fileSystem.fetch(LONG_FILE_NAME)).text(), 'long name', 'long name');
+    t.equal(await (await fileSystem.fetch('latest.json')).text(), tileset, 'symbolic link');
+    t.equal(await (await fileSystem.fetch('tiles/copy.b3dm')).text(), 'tile 0', 'hard link');
+    await fileSystem.destroy();
+  }
+  t.end();
+});
+
+test('zip#TarFileSystem - not a tar file', async (t) => {
+  const data = new TextEncoder().encode('not a tar file'.repeat(100));
+  const fileSystem = new TarFileSystem(new DataViewFile(new DataView(data.buffer)));
+  const error = await getError<LoaderError>(fileSystem.readdir());
+  t.equal(error?.code, 'CORRUPT_DATA');
+  t.end();
+});
+
+const getFileProvider = async (fileName: string) => {
+  let fileProvider: FileProviderInterface;
+  if (isBrowser) {
+    const fileResponse = await fetchFile(fileName);
+    const file = await fileResponse.arrayBuffer();
+    fileProvider = new DataViewFile(new DataView(file));
+  } else {
+    fileProvider = new FileHandleFile(fileName);
+  }
+  return fileProvider;
+};
@@ -3,12 +3,27 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
+import {getError} from 'test/common/get-error';
 
 import {fetchFile, isBrowser} from '@loaders.gl/core';
-import {FileHandleFile, DataViewFile, FileProvider} from '@loaders.gl/loader-utils';
+import {
+  FileHandleFile,
+  DataViewFile,
+  FileProvider,
+  LoaderError,
+  registerJSModules
+} from '@loaders.gl/loader-utils';
+import {ZstdCodec} from 'zstd-codec';
 import {ZipFileSystem} from '../../src/filesystems/zip-filesystem';
 
 const ZIP_FILE_PATH = '@loaders.gl/zip/test/data/test-store.zip';
+const COMPRESSION_METHODS_FILE_PATH = '@loaders.gl/zip/test/data/compression-methods.zip';
+const ENCRYPTED_FILE_PATH = '@loaders.gl/zip/test/data/encrypted.zip';
+const PASSWORD = 'loaders.gl';
+
+/** Content of the test files in the compression methods and encrypted archives */
+const getTestText = (lineCount: number) =>
+  Array.from({length: lineCount}, (_, i) => `Line ${i}: ${i} squared is ${i * i}\n`).join('');
 
 test('zip#ZipFileSystem - initialize from existing fileHandler', async (t) => {
   const fileProvider = await getFileProvider(ZIP_FILE_PATH);
@@ -77,14 +92,64 @@ test('zip#ZipFileSystem - fetch should fail', async (t) => {
   t.end();
 });
 
+test('zip#ZipFileSystem - compression methods', async (t) => {
+  registerJSModules({'zstd-codec': ZstdCodec});
+  const fileSystem = new ZipFileSystem(await getFileProvider(COMPRESSION_METHODS_FILE_PATH));
+  const text = getTestText(1000);
+
+  for (const fileName of ['bzip2.txt', 'lzma.txt', 'zstd.txt']) {
+    const response = await fileSystem.fetch(fileName);
+    t.equal(await response.text(), text, `decompresses ${fileName}`);
+  }
+
+  // The repeated text is matched more than 32KB back
+  const response = await fileSystem.fetch('deflate64.txt');
+  t.equal(await response.text(), getTestText(1500).repeat(2), 'decompresses deflate64.txt');
+
+  const error = await getError<LoaderError>(fileSystem.fetch('implode.txt'));
+  t.equal(error?.code, 'UNSUPPORTED_FORMAT', 'unsupported compression method');
+  t.ok(error?.message.includes('6 (Implode)'), 'error names the compression method');
+
+  await fileSystem.destroy();
+  t.end();
+});
+
+test('zip#ZipFileSystem - encrypted entries', async (t) => {
+  const fileSystem = new ZipFileSystem(await getFileProvider(ENCRYPTED_FILE_PATH), {
+    password: PASSWORD
+  });
+  const text = getTestText(200);
+  for (const fileName of ['zipcrypto.txt', 'zipcrypto-streamed.txt', 'aes128.txt', 'aes256.txt']) {
+    const response = await fileSystem.fetch(fileName);
+    t.equal(await response.text(), text, `decrypts ${fileName}`);
+  }
+  await fileSystem.destroy();
+  t.end();
+});
+
+test('zip#ZipFileSystem - encrypted entries with missing or wrong password', async (t) => {
+  let fileSystem = new ZipFileSystem(await getFileProvider(ENCRYPTED_FILE_PATH));
+  let error = await getError<LoaderError>(fileSystem.fetch('zipcrypto.txt'));
+  t.equal(error?.code, 'INVALID_PASSWORD', 'missing password');
+  await fileSystem.destroy();
+
+  fileSystem = new ZipFileSystem(await getFileProvider(ENCRYPTED_FILE_PATH), {password: 'wrong'});
+  for (const fileName of ['zipcrypto.txt', 'aes256.txt']) {
+    error = await getError<LoaderError>(fileSystem.fetch(fileName));
+    t.equal(error?.code, 'INVALID_PASSWORD', `wrong password for ${fileName}`);
+  }
+  await fileSystem.destroy();
+  t.end();
+});
+
 const getFileProvider = async (fileName: string) => {
   let fileProvider: FileProvider;
   if (isBrowser) {
-    const fileResponse = await fetchFile(ZIP_FILE_PATH);
+    const fileResponse = await fetchFile(fileName);
     const file = await fileResponse.arrayBuffer();
     fileProvider = new DataViewFile(new DataView(file));
   } else {
-    fileProvider = new FileHandleFile(ZIP_FILE_PATH);
+    fileProvider = new FileHandleFile(fileName);
   }
   return fileProvider;
 };
@@ -0,0 +1,54 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {encodeToFile, parse} from '@loaders.gl/core';
+import {MemoryFileSystem} from '@loaders.gl/loader-utils';
+import {ZipLoader, ZipWriter, ZipWritableFileSystem} from '@loaders.gl/zip';
+
+test('ZipWritableFileSystem', async (t) => {
+  const fileSystem = new ZipWritableFileSystem();
+  await fileSystem.writeFile('tileset.json', '{}');
+  await fileSystem.writeFile('tiles/0.bin', new Uint8Array([1, 2, 3]).buffer);
+  const file = await fileSystem.openWritable('tiles/1.bin');
+  await file.write(new Uint8Array([4]).buffer);
+  await file.write(new Uint8Array([5]).buffer);
+  await file.close();
+
+  const fileMap = await parse(await fileSystem.close(), ZipLoader);
+  t.deepEqual(
+    Object.keys(fileMap)
+      .filter((path) => !path.endsWith('/'))
+      .sort(),
+    ['tiles/0.bin', 'tiles/1.bin', 'tileset.json'],
+    'archive contains all files'
+  );
+  t.equal(new TextDecoder().decode(fileMap['tileset.json']), '{}', 'text file archived');
+  t.deepEqual(Array.from(new Uint8Array(fileMap['tiles/1.bin'])), [4, 5], 'writable file archived');
+  t.end();
+});
+
+test('ZipWritableFileSystem#file', async (t) => {
+  const outputFileSystem = new MemoryFileSystem();
+  const fileSystem = new ZipWritableFileSystem({
+    file: await outputFileSystem.openWritable('output/archive.zip')
+  });
+  await fileSystem.writeFile('README.md', 'readme');
+  await fileSystem.close();
+
+  const response = await outputFileSystem.fetch('output/archive.zip');
+  const fileMap = await parse(await response.arrayBuffer(), ZipLoader);
+  t.equal(new TextDecoder().decode(fileMap['README.md']), 'readme', 'archive written to file');
+  t.end();
+});
+
+test('encodeToFile', async (t) => {
+  const fileSystem = new MemoryFileSystem();
+  await encodeToFile({'README.md': 'readme'}, ZipWriter, fileSystem, 'output/archive.zip');
+
+  const response = await fileSystem.fetch('output/archive.zip');
+  const fileMap = await parse(await response.arrayBuffer(), ZipLoader);
+  t.equal(new TextDecoder().decode(fileMap['README.md']), 'readme', 'encodes to file system');
+  t.end();
+});
@@ -4,12 +4,16 @@
 
 import './zip-writer-loader.spec';
 import './tar-builder.spec';
+import './tar-loader.spec';
 
 import './filesystems/zip-filesystem.spec';
+import './filesystems/zip-writable-filesystem.spec';
+import './filesystems/tar-filesystem.spec';
 
 import './zip-utils/cd-file-header.spec';
 import './zip-utils/end-of-central-directory.spec';
 import './zip-utils/local-file-header.spec';
 import './zip-utils/search-from-the-end.spec';
 import './zip-utils/zip-composition.spec';
+import './zip-utils/zip-archive-writer.spec';
 import './zip-utils/hash-file-utility.spec';
@@ -0,0 +1,42 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {validateLoader} from 'test/common/conformance';
+
+import {TarLoader} from '@loaders.gl/zip';
+import {fetchFile, load, selectLoader} from '@loaders.gl/core';
+
+const TAR_FILE_PATH = '@loaders.gl/zip/test/data/test.tar';
+const TAR_GZ_FILE_PATH = '@loaders.gl/zip/test/data/test.tar.gz';
+
+test('Zip#TarLoader conformance', (t) => {
+  validateLoader(t, TarLoader, 'TarLoader');
+  t.end();
+});
+
+test('Zip#TarLoader', async (t) => {
+  for (const filePath of [TAR_FILE_PATH, TAR_GZ_FILE_PATH]) {
+    const fileMap = await load(filePath, TarLoader);
+    t.deepEqual(
+      Object.keys(fileMap),
+      [
+        'données.txt',
+        'tiles/0.b3dm',
+        'tiles/copy.b3dm',
+        `tiles/${'d'.repeat(60)}/${'e'.repeat(50)}/content.bin`,
+        'tileset.json'
+      ],
+      `${filePath} files, without directories and symbolic links`
+    );
+    t.equal(new TextDecoder().decode(fileMap['tiles/copy.b3dm']), 'tile 0', 'hard link');
+  }
+  t.end();
+});
+
+test('Zip#TarLoader - selected by content', async (t) => {
+  const arrayBuffer = await (await fetchFile(TAR_FILE_PATH)).arrayBuffer();
+  t.equal(await selectLoader(arrayBuffer, [TarLoader]), TarLoader);
+  t.end();
+});
@@ -27,3 +27,17 @@ test('SLPKLoader#central directory file header generation', async (t) => {
   t.equal(header.byteLength, 56);
   t.end();
 });
+
+test('SLPKLoader#local file header generation with zip64 sizes', async (t) => {
+  const header = generateLocalHeader({
+    crc32: 0,
+    fileName: 'large.bin',
+    length: 5_000_000_000,
+    compressedLength: 4_300_000_000,
+    compressionMethod: 8
+  });
+  const localFileHeader = await parseZipLocalFileHeader(0n, new DataViewFile(new DataView(header)));
+  t.equal(localFileHeader?.compressedSize, 4_300_000_000n);
+  t.equal(localFileHeader?.compressionMethod, 8);
+  t.end();
+});
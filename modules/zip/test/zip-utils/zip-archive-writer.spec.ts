@@ -0,0 +1,215 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {parse} from '@loaders.gl/core';
+import {DataViewFile, MemoryFileSystem} from '@loaders.gl/loader-utils';
+import type {FileProviderInterface, WritableFile} from '@loaders.gl/loader-utils';
+import {
+  ZipLoader,
+  ZipFileSystem,
+  parseEoCDRecord,
+  parseHashTable,
+  writeZipArchive
+} from '@loaders.gl/zip';
+import type {ZipArchiveEntry} from '@loaders.gl/zip';
+import {parseZipLocalFileHeader} from '../../src/parse-zip/local-file-header';
+import {makeZipCDHeaderIterator} from '../../src/parse-zip/cd-file-header';
+
+const TEXT = 'loaders.gl '.repeat(1000);
+
+async function* makeBatches(): AsyncIterable<ArrayBuffer> {
+  for (let i = 0; i < 10; i++) {
+    yield new TextEncoder().encode(`batch ${i}\n`.repeat(100)).buffer;
+  }
+}
+
+function* makeEntries(): Iterable<ZipArchiveEntry> {
+  yield {path: 'deflated.txt', data: TEXT};
+  yield {path: 'stored.bin', data: new Uint8Array([1, 2, 3, 4]), compression: 'store'};
+  yield {path: 'nodes/0/streamed.txt', data: makeBatches()};
+  yield {path: 'nodes/1/streamed.bin', data: [new Uint8Array([5, 6]).buffer], compression: 'store'};
+}
+
+async function writeTestArchive(options?: Parameters<typeof writeZipArchive>[2]) {
+  const fileSystem = new MemoryFileSystem();
+  const file = await fileSystem.openWritable('archive.zip');
+  await writeZipArchive(file, makeEntries(), options);
+  await file.close();
+  const response = await fileSystem.fetch('archive.zip');
+  return await response.arrayBuffer();
+}
+
+test('zip#writeZipArchive', async (t) => {
+  const arrayBuffer = await writeTestArchive();
+  const expectedBatches = Array.from({length: 10}, (_, i) => `batch ${i}\n`.repeat(100)).join('');
+
+  const fileSystem = new ZipFileSystem(new DataViewFile(new DataView(arrayBuffer)));
+  t.deepEqual(
+    await fileSystem.readdir(),
+    ['deflated.txt', 'stored.bin', 'nodes/0/streamed.txt', 'nodes/1/streamed.bin'],
+    'all files written'
+  );
+  t.equal(await (await fileSystem.fetch('deflated.txt')).text(), TEXT, 'deflated file');
+  t.deepEqual(
+    new Uint8Array(await (await fileSystem.fetch('stored.bin')).arrayBuffer()),
+    new Uint8Array([1, 2, 3, 4]),
+    'stored file'
+  );
+  t.equal(
+    await (await fileSystem.fetch('nodes/0/streamed.txt')).text(),
+    expectedBatches,
+    'streamed deflated file'
+  );
+  t.deepEqual(
+    new Uint8Array(await (await fileSystem.fetch('nodes/1/streamed.bin')).arrayBuffer()),
+    new Uint8Array([5, 6]),
+    'streamed stored file'
+  );
+  await fileSystem.destroy();
+
+  // Checks the CRC-32 of the files
+  const fileMap = await parse(arrayBuffer, ZipLoader);
+  t.equal(new TextDecoder().decode(fileMap['nodes/0/streamed.txt']), expectedBatches);
+
+  const localFileHeader = await parseZipLocalFileHeader(
+    0n,
+    new DataViewFile(new DataView(arrayBuffer))
+  );
+  t.equal(localFileHeader?.compressionMethod, 8, 'files are deflated by default');
+  t.ok(Number(localFileHeader?.compressedSize) < TEXT.length, 'file is compressed');
+  t.end();
+});
+
+test('zip#writeZipArchive - SLPK hash index', async (t) => {
+  const arrayBuffer = await writeTestArchive({compression: 'store', slpkHashIndex: true});
+
+  const fileSystem = new ZipFileSystem(new DataViewFile(new DataView(arrayBuffer)));
+  const files = await fileSystem.readdir();
+  t.equal(files[files.length - 1], '@specialIndexFileHASH128@', 'hash index is the last file');
+
+  const response = await fileSystem.fetch('@specialIndexFileHASH128@');
+  const hashTable = parseHashTable(await response.arrayBuffer());
+  t.equal(Object.keys(hashTable).length, 4, 'hash index has all files');
+  t.ok(Object.values(hashTable).includes(0n), 'hash index has local header offsets');
+  await fileSystem.destroy();
+
+  const localFileHeader = await parseZipLocalFileHeader(
+    0n,
+    new DataViewFile(new DataView(arrayBuffer))
+  );
+  t.equal(localFileHeader?.compressionMethod, 0, 'compression option is applied');
+  t.end();
+});
+
+test('zip#writeZipArchive - non-ASCII file names', async (t) => {
+  const fileSystem = new MemoryFileSystem();
+  const file = await fileSystem.openWritable('archive.zip');
+  await writeZipArchive(file, [
+    {path: 'ascii.txt', data: 'ascii'},
+    {path: 'données/été.txt', data: 'utf-8'}
+  ]);
+  await file.close();
+  const arrayBuffer = await (await fileSystem.fetch('archive.zip')).arrayBuffer();
+  const zipFile = new DataViewFile(new DataView(arrayBuffer));
+
+  const zipFileSystem = new ZipFileSystem(zipFile);
+  t.deepEqual(await zipFileSystem.readdir(), ['ascii.txt', 'données/été.txt'], 'file names');
+  t.equal(await (await zipFileSystem.fetch('données/été.txt')).text(), 'utf-8', 'file data');
+
+  const localFlags: number[] = [];
+  const cdFlags: number[] = [];
+  let cdHeaderOffset = (await parseEoCDRecord(zipFile)).cdStartOffset;
+  for await (const cdHeader of makeZipCDHeaderIterator(zipFile)) {
+    const localHeader = await parseZipLocalFileHeader(cdHeader.localHeaderOffset, zipFile);
+    localFlags.push(localHeader?.generalPurposeBitFlag || 0);
+    // General purpose bit flag is at offset 8 of the central directory header
+    cdFlags.push(await zipFile.getUint16(cdHeaderOffset + 8n));
+    cdHeaderOffset += 46n + BigInt(cdHeader.fileNameLength + cdHeader.extraFieldLength);
+  }
+  t.deepEqual(localFlags, [0, 0x0800], 'UTF-8 flag is set in local header of non-ASCII name');
+  t.deepEqual(cdFlags, [0, 0x0800], 'UTF-8 flag is set in central directory header');
+  t.end();
+});
+
+test('zip#writeZipArchive - zip64 offsets', async (t) => {
+  // 4GB of zeros, written to a file that does not keep large writes in memory
+  const fileSize = 0x100000000;
+  const batch = new ArrayBuffer(64 * 1024 * 1024);
+  const file = new SparseFile();
+  await writeZipArchive(file, [
+    {
+      path: 'large.bin',
+      data: Array.from({length: fileSize / batch.byteLength}, () => batch),
+      compression: 'store'
+    },
+    {path: 'small.txt', data: 'loaders.gl', compression: 'store'}
+  ]);
+
+  const cdHeaders: {fileName: string; size: bigint; offset: bigint}[] = [];
+  for await (const cdHeader of makeZipCDHeaderIterator(file)) {
+    const {fileName, uncompressedSize: size, localHeaderOffset: offset} = cdHeader;
+    cdHeaders.push({fileName, size, offset});
+  }
+  t.equal(cdHeaders.length, 2, 'all files written');
+  t.equal(cdHeaders[0].size, BigInt(fileSize), 'zip64 size');
+  t.ok(cdHeaders[1].offset > 0xffffffffn, 'zip64 offset');
+
+  const eocdRecord = await parseEoCDRecord(file);
+  t.ok(eocdRecord.offsets.zip64EoCDOffset, 'zip64 end of central directory record');
+  t.ok(eocdRecord.cdStartOffset > 0xffffffffn, 'zip64 central directory offset');
+
+  const zipFileSystem = new ZipFileSystem(file);
+  t.equal(await (await zipFileSystem.fetch('small.txt')).text(), 'loaders.gl', 'file after 4GB');
+  t.end();
+});
+
+/** File that keeps small writes, and reads zeros everywhere else */
+class SparseFile implements WritableFile, FileProviderInterface {
+  handle = null;
+  length = 0n;
+  private chunks: {offset: bigint; data: Uint8Array}[] = [];
+
+  async write(arrayBuffer: ArrayBuffer, offset: number | bigint = this.length): Promise<number> {
+    const start = BigInt(offset);
+    if (arrayBuffer.byteLength < 1024 * 1024) {
+      this.chunks.push({offset: start, data: new Uint8Array(arrayBuffer.slice(0))});
+    }
+    const end = start + BigInt(arrayBuffer.byteLength);
+    this.length = end > this.length ? end : this.length;
+    return arrayBuffer.byteLength;
+  }
+
+  async slice(startOffset: bigint, endOffset: bigint): Promise<ArrayBuffer> {
+    const result = new Uint8Array(Number(endOffset - startOffset));
+    for (const {offset, data} of this.chunks) {
+      const begin = Number(startOffset - offset);
+      if (begin < data.byteLength && begin + result.byteLength > 0) {
+        const source = data.subarray(Math.max(begin, 0), begin + result.byteLength);
+        result.set(source, Math.max(-begin, 0));
+      }
+    }
+    return result.buffer;
+  }
+
+  async getUint8(offset: bigint): Promise<number> {
+    return new DataView(await this.slice(offset, offset + 1n)).getUint8(0);
+  }
+
+  async getUint16(offset: bigint): Promise<number> {
+    return new DataView(await this.slice(offset, offset + 2n)).getUint16(0, true);
+  }
+
+  async getUint32(offset: bigint): Promise<number> {
+    return new DataView(await this.slice(offset, offset + 4n)).getUint32(0, true);
+  }
+
+  async getBigUint64(offset: bigint): Promise<bigint> {
+    return new DataView(await this.slice(offset, offset + 8n)).getBigUint64(0, true);
+  }
+
+  async close(): Promise<void> {}
+
+  async destroy(): Promise<void> {}
+}
@@ -0,0 +1,18 @@
+// loaders.gl
+// SPDX-License-Identifier: MIT
+// Copyright (c) vis.gl contributors
+
+/**
+ * Awaits a promise that is expected to reject
+ * @returns the rejection reason, or `null` if the promise resolved
+ */
+export async function getError<ErrorT extends Error = Error>(
+  promise: Promise<unknown>
+): Promise<ErrorT | null> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error as ErrorT;
+  }
+}